@@ -0,0 +1,166 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { FilePlus, Loader2, Mic, Square, Trash2 } from "lucide-react";
+import { api } from "../lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface AddAddendumDialogProps {
+  noteId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdded?: () => void;
+}
+
+export default function AddAddendumDialog({ noteId, open, onOpenChange, onAdded }: AddAddendumDialogProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setText("");
+      setAudioBlob(null);
+    } else if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      mediaRecorderRef.current.stop();
+    }
+  }, [open]);
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mediaRecorder = new MediaRecorder(stream);
+      mediaRecorderRef.current = mediaRecorder;
+
+      const chunks: Blob[] = [];
+      mediaRecorder.ondataavailable = (event) => {
+        chunks.push(event.data);
+      };
+      mediaRecorder.onstop = () => {
+        setAudioBlob(new Blob(chunks, { type: mediaRecorder.mimeType || 'audio/webm' }));
+        setIsRecording(false);
+        stream.getTracks().forEach(track => track.stop());
+      };
+
+      mediaRecorder.start();
+      setIsRecording(true);
+    } catch (error) {
+      console.error('Error accessing microphone:', error);
+      toast({ title: "Microphone unavailable", description: "Type the addendum instead", variant: "destructive" });
+    }
+  };
+
+  const stopRecording = () => {
+    mediaRecorderRef.current?.stop();
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await api.createAddendum(noteId, text.trim(), audioBlob);
+      toast({
+        title: "Addendum added",
+        description: audioBlob && !text.trim() ? "The recording was transcribed and attached to the note" : undefined
+      });
+      onOpenChange(false);
+      onAdded?.();
+    } catch (error) {
+      toast({
+        title: "Failed to add addendum",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FilePlus className="h-5 w-5" style={{ color: '#17a2b8' }} />
+            Add Addendum
+          </DialogTitle>
+          <DialogDescription>
+            The signed note stays unchanged. The addendum is added below it with your name and the current time.
+            Leave the text empty to have a recording transcribed.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Late information, corrections, or results received after signing..."
+            className="min-h-[160px] text-sm"
+            data-testid="textarea-addendum"
+          />
+          <div className="flex items-center gap-2">
+            {!isRecording ? (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={startRecording}
+                disabled={isSaving}
+                data-testid="button-record-addendum"
+              >
+                <Mic className="h-4 w-4 mr-1" />
+                {audioBlob ? 'Record again' : 'Record audio'}
+              </Button>
+            ) : (
+              <Button variant="destructive" size="sm" onClick={stopRecording} data-testid="button-stop-addendum">
+                <Square className="h-4 w-4 mr-1" />
+                Stop
+              </Button>
+            )}
+            {isRecording && (
+              <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span className="h-2 w-2 bg-destructive rounded-full animate-pulse" />
+                Recording...
+              </span>
+            )}
+            {audioBlob && !isRecording && (
+              <>
+                <span className="text-sm text-muted-foreground">Recording attached</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setAudioBlob(null)}
+                  data-testid="button-remove-addendum-audio"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-addendum">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || isRecording || (!text.trim() && !audioBlob)}
+            style={{ backgroundColor: '#17a2b8' }}
+            data-testid="button-save-addendum"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isSaving && audioBlob && !text.trim() ? 'Transcribing...' : 'Add Addendum'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
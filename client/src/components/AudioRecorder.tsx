@@ -1,33 +1,60 @@
 import { useState, useRef, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Mic, Square, Play, Pause, Save, Loader2, FileText } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Mic, Square, Play, Pause, Save, Loader2, FileText, Lock, Radio, Languages } from "lucide-react";
+import { TRANSCRIPTION_LANGUAGES, DEFAULT_TRANSCRIPTION_LANGUAGE, languageLabel } from "@shared/schema";
 import MedicalEditor from "./MedicalEditor";
-import { api } from "@/lib/api";
+import SpeakerTranscript from "./SpeakerTranscript";
+import { api, type NoteTranscript, type SpeakerRoles, type TranscriptSegment } from "@/lib/api";
+import { useLiveTranscription } from "@/hooks/use-live-transcription";
+
+// Join dictated text onto what is already in the editor
+const appendText = (base: string, addition: string) => {
+  if (!addition.trim()) return base;
+  if (!base.trim()) return addition.trim();
+  return `${base.trimEnd()} ${addition.trim()}`;
+};
 
 interface AudioRecorderProps {
   visitId?: string;
-  onSaveNote: (audioBlob: Blob | null, transcription: string) => Promise<{ ai_transcribed?: boolean; transcription_text?: string }>;
+  onSaveNote: (
+    audioBlob: Blob | null,
+    transcription: string,
+    transcript?: { segments: TranscriptSegment[]; speakerRoles: SpeakerRoles }, // Diarized transcript of audioBlob
+    language?: { requested: string; detected?: string | null } // Dictation language of audioBlob
+  ) => Promise<{ ai_transcribed?: boolean; transcription_text?: string }>;
   existingTranscription?: string;
-  existingAudioFile?: string; // Base64 encoded audio
+  existingAudioNoteId?: string; // Note whose saved recording is fetched from the audio endpoint
   existingAudioMimetype?: string;
   existingAudioDuration?: number;
   existingAudioFilename?: string;
   isReadOnly?: boolean;
+  readOnlyNotice?: string; // Shown above the editor when isReadOnly, e.g. who signed the note
   onUnsavedChanges?: (hasUnsaved: boolean) => void;
+  defaultLanguage?: string; // Employee's dictation language, else the org's
 }
 
 export default function AudioRecorder({
   visitId,
   onSaveNote,
   existingTranscription = "",
-  existingAudioFile,
+  existingAudioNoteId,
   existingAudioMimetype,
   existingAudioDuration,
   existingAudioFilename,
   isReadOnly = false,
+  readOnlyNotice,
   onUnsavedChanges,
+  defaultLanguage = DEFAULT_TRANSCRIPTION_LANGUAGE,
 }: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -38,9 +65,20 @@ export default function AudioRecorder({
   const [transcription, setTranscription] = useState(existingTranscription);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isReviewPending, setIsReviewPending] = useState(false); // AI formatting warnings not yet acknowledged
   const [transcriptionSource, setTranscriptionSource] = useState<'none' | 'auto' | 'manual'>('none');
   const [lastSavedTranscription, setLastSavedTranscription] = useState(existingTranscription);
   const [hasUnsavedAudio, setHasUnsavedAudio] = useState(false);
+  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([]);
+  const [speakerRoles, setSpeakerRoles] = useState<SpeakerRoles>({});
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const [savedPlaybackTime, setSavedPlaybackTime] = useState<number | null>(null);
+  const [language, setLanguage] = useState(defaultLanguage);
+  const [detectedLanguage, setDetectedLanguage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLanguage(defaultLanguage);
+  }, [defaultLanguage]);
 
   // Track unsaved changes and notify parent
   useEffect(() => {
@@ -49,12 +87,34 @@ export default function AudioRecorder({
     onUnsavedChanges?.(hasUnsaved);
   }, [transcription, lastSavedTranscription, hasUnsavedAudio, onUnsavedChanges]);
   
+  // A read-only (signed) note always shows its saved text; nothing is left unsaved
+  useEffect(() => {
+    if (isReadOnly) {
+      setTranscription(existingTranscription);
+      setLastSavedTranscription(existingTranscription);
+      setAudioBlob(null);
+      setHasUnsavedAudio(false);
+      setTranscriptionSource('none');
+      setTranscriptSegments([]);
+      setSpeakerRoles({});
+    }
+  }, [isReadOnly, existingTranscription]);
+  
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const savedAudioRef = useRef<HTMLAudioElement | null>(null);
   const savedAudioUrlRef = useRef<string | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const actualMimeTypeRef = useRef<string>('audio/wav');
+  const textBeforeLiveRef = useRef('');
+
+  // Final live segments land in the editor as they are spoken
+  const live = useLiveTranscription({
+    onFinalSegment: (text) => {
+      setTranscription(prev => appendText(prev, text));
+      setTranscriptionSource('auto');
+    }
+  });
 
   // Detect actual audio format from file bytes (browser MIME types are often wrong on iOS)
   const detectAudioFormat = (blob: Blob): Promise<string> => {
@@ -105,6 +165,7 @@ export default function AudioRecorder({
       const chunks: Blob[] = [];
       mediaRecorder.ondataavailable = (event) => {
         chunks.push(event.data);
+        live.sendChunk(event.data);
       };
       
       mediaRecorder.onstop = async () => {
@@ -122,13 +183,25 @@ export default function AudioRecorder({
         setAudioBlob(finalBlob);
         setHasUnsavedAudio(true); // Mark as having unsaved audio
         stream.getTracks().forEach(track => track.stop());
+
+        // Live captions didn't make it - transcribe the whole recording the batch way
+        live.stop();
+        if (live.hasFailed()) {
+          await transcribeBlob(finalBlob, textBeforeLiveRef.current);
+        }
       };
       
       // Store the actual MIME type used by MediaRecorder
       actualMimeTypeRef.current = mediaRecorder.mimeType || 'audio/wav';
       console.log('MediaRecorder using MIME type:', actualMimeTypeRef.current);
       
-      mediaRecorder.start();
+      // Timesliced so chunks can be streamed for live captions while recording
+      textBeforeLiveRef.current = transcription;
+      setTranscriptSegments([]); // Speakers belong to the previous recording
+      setSpeakerRoles({});
+      setDetectedLanguage(null);
+      live.start(language);
+      mediaRecorder.start(250);
       setIsRecording(true);
       setRecordingTime(0);
       
@@ -153,7 +226,7 @@ export default function AudioRecorder({
     }
   };
 
-  const playAudio = async () => {
+  const playAudio = async (startAt?: number) => {
     if (audioBlob && !isPlaying) {
       try {
         const mimeType = audioBlob.type || 'audio/mp4';
@@ -180,9 +253,17 @@ export default function AudioRecorder({
         document.body.appendChild(audio);
         
         audioRef.current = audio;
+
+        audio.ontimeupdate = () => setPlaybackTime(audio.currentTime);
+        if (startAt !== undefined) {
+          audio.addEventListener('loadedmetadata', () => {
+            audio.currentTime = startAt;
+          }, { once: true });
+        }
         
         audio.onended = () => {
           setIsPlaying(false);
+          setPlaybackTime(null);
           URL.revokeObjectURL(blobUrl);
           // Clean up: remove from DOM
           if (audio.parentNode) {
@@ -214,6 +295,7 @@ export default function AudioRecorder({
         // Trigger load
         audio.load();
         setIsPlaying(true);
+        setPlaybackTime(startAt ?? 0);
       } catch (error) {
         console.error('Error playing audio:', error);
         setIsPlaying(false);
@@ -225,10 +307,21 @@ export default function AudioRecorder({
     if (audioRef.current && isPlaying) {
       audioRef.current.pause();
       setIsPlaying(false);
+      setPlaybackTime(null);
       console.log('Audio playback paused');
     }
   };
 
+  // Clicking a sentence in the transcript jumps there, starting playback if needed
+  const seekAudio = (seconds: number) => {
+    if (audioRef.current && isPlaying) {
+      audioRef.current.currentTime = seconds;
+      setPlaybackTime(seconds);
+    } else {
+      playAudio(seconds);
+    }
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -240,12 +333,21 @@ export default function AudioRecorder({
       console.log('No transcription to save');
       return;
     }
+    if (isReviewPending) return;
     
     setIsSaving(true);
     
     try {
       // Save the transcription text (with audio if available and not yet saved)
-      const result = await onSaveNote(audioBlob, transcription);
+      const transcript = audioBlob && transcriptSegments.length > 0
+        ? { segments: transcriptSegments, speakerRoles }
+        : undefined;
+      const result = await onSaveNote(
+        audioBlob,
+        transcription,
+        transcript,
+        audioBlob ? { requested: language, detected: detectedLanguage } : undefined
+      );
       
       console.log('Note saved successfully');
       
@@ -263,6 +365,9 @@ export default function AudioRecorder({
       setTranscriptionSource('none');
       setLastSavedTranscription(''); // Reset to empty after save
       setHasUnsavedAudio(false); // Clear unsaved audio flag
+      setTranscriptSegments([]);
+      setSpeakerRoles({});
+      setDetectedLanguage(null);
     } catch (error) {
       console.error('Failed to save note:', error);
     } finally {
@@ -275,15 +380,16 @@ export default function AudioRecorder({
     setTranscriptionSource(value ? 'manual' : 'none');
   };
 
-  // Transcribe audio without saving
-  const handleTranscribe = async () => {
-    if (!audioBlob) return;
-    
+  // Batch transcription, placed after whatever was in the editor before recording
+  const transcribeBlob = async (blob: Blob, baseText = '') => {
     setIsTranscribing(true);
     try {
-      const result = await api.transcribeAudio(audioBlob);
-      setTranscription(result.text);
+      const result = await api.transcribeAudio(blob, language);
+      setDetectedLanguage(result.language ?? null);
+      setTranscription(appendText(baseText, result.text));
       setTranscriptionSource('auto');
+      setTranscriptSegments(result.segments || []);
+      setSpeakerRoles({});
       console.log('Audio transcribed successfully:', result.text.length, 'characters');
     } catch (error) {
       console.error('Transcription failed:', error);
@@ -294,23 +400,26 @@ export default function AudioRecorder({
     }
   };
 
-  // Convert Base64 audio to Blob when existing audio is provided
+  // Transcribe audio without saving
+  const handleTranscribe = async () => {
+    if (!audioBlob) return;
+    await transcribeBlob(audioBlob);
+  };
+
+  // Fetch the saved recording when an existing note with audio is provided
   useEffect(() => {
-    if (existingAudioFile && existingAudioMimetype) {
-      try {
-        // Decode Base64 to binary
-        const binaryString = atob(existingAudioFile);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-        // Create blob from binary data
-        const blob = new Blob([bytes], { type: existingAudioMimetype });
-        setSavedAudioBlob(blob);
-        console.log('Saved audio loaded:', existingAudioFilename, blob.size, 'bytes');
-      } catch (error) {
-        console.error('Error converting Base64 to Blob:', error);
-      }
+    let cancelled = false;
+    if (existingAudioNoteId && existingAudioMimetype) {
+      api.getNoteAudio(existingAudioNoteId)
+        .then(fetched => {
+          if (cancelled) return;
+          const blob = new Blob([fetched], { type: existingAudioMimetype });
+          setSavedAudioBlob(blob);
+          console.log('Saved audio loaded:', existingAudioFilename, blob.size, 'bytes');
+        })
+        .catch(error => {
+          console.error('Error loading saved audio:', error);
+        });
     } else {
       // Clear saved audio blob when props are cleared
       // Stop playback if currently playing
@@ -328,6 +437,7 @@ export default function AudioRecorder({
 
     // Cleanup: stop audio when component unmounts or props change
     return () => {
+      cancelled = true;
       if (savedAudioRef.current) {
         savedAudioRef.current.pause();
         savedAudioRef.current = null;
@@ -338,30 +448,28 @@ export default function AudioRecorder({
       }
       setIsPlayingSaved(false);
     };
-  }, [existingAudioFile, existingAudioMimetype, existingAudioFilename]);
+  }, [existingAudioNoteId, existingAudioMimetype, existingAudioFilename]);
+
+  // Timed transcript of the saved recording, shared with the visit history views
+  const { data: savedTranscript } = useQuery<NoteTranscript>({
+    queryKey: ['/api/notes', existingAudioNoteId, 'transcript'],
+    queryFn: () => api.getNoteTranscript(existingAudioNoteId!),
+    enabled: !!existingAudioNoteId && !!savedAudioBlob,
+  });
 
-  const playSavedAudio = async () => {
-    // iOS fix: Convert base64 to blob, then use blob URL with <source> tag
-    // Data URLs have size/memory issues on iOS
+  const playSavedAudio = async (startAt?: number) => {
+    // iOS fix: Use blob URL with <source> tag
     // Blob URLs work when using <source> tag (not .src property)
-    if (existingAudioFile && !isPlayingSaved) {
+    if (savedAudioBlob && !isPlayingSaved) {
       try {
-        // Decode base64 to binary
-        const binaryString = atob(existingAudioFile);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-        
-        // Create temp blob to detect actual format
-        const tempBlob = new Blob([bytes]);
-        const detectedMimeType = await detectAudioFormat(tempBlob);
+        // Detect actual format from the fetched bytes
+        const detectedMimeType = await detectAudioFormat(savedAudioBlob);
         const storedMimeType = existingAudioMimetype || 'audio/mp4';
         console.log('Saved audio - Stored MIME:', storedMimeType, '| Detected MIME:', detectedMimeType);
         
         // Use detected MIME type (more reliable than stored)
         const mimeType = detectedMimeType;
-        const blob = new Blob([bytes], { type: mimeType });
+        const blob = new Blob([savedAudioBlob], { type: mimeType });
         const blobUrl = URL.createObjectURL(blob);
         savedAudioUrlRef.current = blobUrl;
         
@@ -383,9 +491,17 @@ export default function AudioRecorder({
         document.body.appendChild(audio);
         
         savedAudioRef.current = audio;
+
+        audio.ontimeupdate = () => setSavedPlaybackTime(audio.currentTime);
+        if (startAt !== undefined) {
+          audio.addEventListener('loadedmetadata', () => {
+            audio.currentTime = startAt;
+          }, { once: true });
+        }
         
         audio.onended = () => {
           setIsPlayingSaved(false);
+          setSavedPlaybackTime(null);
           if (savedAudioUrlRef.current) {
             URL.revokeObjectURL(savedAudioUrlRef.current);
             savedAudioUrlRef.current = null;
@@ -423,6 +539,7 @@ export default function AudioRecorder({
         // Trigger load
         audio.load();
         setIsPlayingSaved(true);
+        setSavedPlaybackTime(startAt ?? 0);
       } catch (error) {
         console.error('Error playing saved audio:', error);
         setIsPlayingSaved(false);
@@ -434,6 +551,7 @@ export default function AudioRecorder({
     if (savedAudioRef.current && isPlayingSaved) {
       savedAudioRef.current.pause();
       setIsPlayingSaved(false);
+      setSavedPlaybackTime(null);
       // Revoke URL when paused
       if (savedAudioUrlRef.current) {
         URL.revokeObjectURL(savedAudioUrlRef.current);
@@ -443,6 +561,15 @@ export default function AudioRecorder({
     }
   };
 
+  const seekSavedAudio = (seconds: number) => {
+    if (savedAudioRef.current && isPlayingSaved) {
+      savedAudioRef.current.currentTime = seconds;
+      setSavedPlaybackTime(seconds);
+    } else {
+      playSavedAudio(seconds);
+    }
+  };
+
   return (
     <Card data-testid="card-audio-recorder">
       <CardHeader className="pb-4">
@@ -491,6 +618,28 @@ export default function AudioRecorder({
           )}
         </div>
 
+        {/* Dictation language - fixed for the length of a recording */}
+        {!isReadOnly && (
+          <div className="flex items-center justify-center gap-2">
+            <Languages className="h-4 w-4 text-muted-foreground" />
+            <Select value={language} onValueChange={setLanguage} disabled={isRecording || isTranscribing}>
+              <SelectTrigger className="w-56" data-testid="select-dictation-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TRANSCRIPTION_LANGUAGES).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {detectedLanguage && detectedLanguage !== language && (
+              <Badge variant="secondary" data-testid="badge-detected-language">
+                Detected: {languageLabel(detectedLanguage)}
+              </Badge>
+            )}
+          </div>
+        )}
+
         {/* Instructions */}
         <p className="text-sm text-center text-muted-foreground">
           Record audio notes by clicking on the microphone icon. Or click on the pencil icon to directly type the notes.
@@ -504,7 +653,7 @@ export default function AudioRecorder({
                 <Button 
                   variant="outline" 
                   size="icon"
-                  onClick={isPlayingSaved ? pauseSavedAudio : playSavedAudio}
+                  onClick={isPlayingSaved ? pauseSavedAudio : () => playSavedAudio()}
                   data-testid="button-play-pause-saved"
                 >
                   {isPlayingSaved ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
@@ -520,6 +669,16 @@ export default function AudioRecorder({
                 </div>
               </div>
             </div>
+            {savedTranscript && savedTranscript.segments.length > 0 && (
+              <div className="mt-3">
+                <SpeakerTranscript
+                  segments={savedTranscript.segments}
+                  speakerRoles={savedTranscript.speaker_roles}
+                  currentTime={isPlayingSaved ? savedPlaybackTime : null}
+                  onSeek={seekSavedAudio}
+                />
+              </div>
+            )}
           </div>
         )}
 
@@ -529,7 +688,7 @@ export default function AudioRecorder({
             <Button 
               variant="outline" 
               size="sm"
-              onClick={isPlaying ? pauseAudio : playAudio}
+              onClick={isPlaying ? pauseAudio : () => playAudio()}
               data-testid="button-play-pause"
             >
               {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
@@ -544,6 +703,33 @@ export default function AudioRecorder({
         <div className="space-y-2">
           <label className="text-sm font-medium">Clinical Notes</label>
           
+          {isReadOnly && readOnlyNotice && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground p-2 rounded border bg-muted/50" data-testid="text-read-only-notice">
+              <Lock className="h-4 w-4 shrink-0" />
+              <span>{readOnlyNotice}</span>
+            </div>
+          )}
+          
+          {isRecording && live.status !== 'idle' && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-live-transcription-status">
+              {live.status === 'connecting' && (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Connecting live captions...</span>
+                </>
+              )}
+              {live.status === 'live' && (
+                <>
+                  <Radio className="h-4 w-4 animate-pulse" style={{ color: '#17a2b8' }} />
+                  <span>Live captions</span>
+                </>
+              )}
+              {(live.status === 'unavailable' || live.status === 'error') && (
+                <span>Live captions unavailable - the recording will be transcribed when you stop</span>
+              )}
+            </div>
+          )}
+
           {isTranscribing && (
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <Loader2 className="h-4 w-4 animate-spin" />
@@ -551,13 +737,33 @@ export default function AudioRecorder({
             </div>
           )}
           
+          {!isReadOnly && transcriptSegments.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">
+                Who's speaking? Naming speakers helps AI formatting separate what the patient reported from what you observed.
+              </p>
+              <SpeakerTranscript
+                segments={transcriptSegments}
+                speakerRoles={speakerRoles}
+                onSpeakerRolesChange={setSpeakerRoles}
+                currentTime={isPlaying ? playbackTime : null}
+                onSeek={audioBlob ? seekAudio : undefined}
+              />
+            </div>
+          )}
+
           <MedicalEditor
             value={transcription}
             onChange={handleTranscriptionChange}
             disabled={isReadOnly}
             isTranscribing={isTranscribing}
+            interimText={live.interimText}
+            conversation={transcriptSegments.length > 0 ? { segments: transcriptSegments, speakerRoles } : undefined}
             transcriptionSource={transcriptionSource}
             onTranscriptionSourceChange={setTranscriptionSource}
+            language={detectedLanguage ?? (language === 'auto' ? undefined : language)}
+            onReviewPendingChange={setIsReviewPending}
+            visitId={visitId}
             placeholder="Record audio for automatic transcription, or use the tools above to create structured clinical notes..."
           />
         </div>
@@ -593,7 +799,7 @@ export default function AudioRecorder({
                 onClick={handleSave}
                 className="w-full"
                 data-testid="button-save-note"
-                disabled={isSaving || isTranscribing}
+                disabled={isSaving || isTranscribing || isReviewPending}
                 style={{ backgroundColor: '#17a2b8' }}
               >
                 {isSaving ? (
@@ -609,6 +815,11 @@ export default function AudioRecorder({
                 )}
               </Button>
             )}
+            {transcription.trim() && isReviewPending && (
+              <p className="text-xs text-center text-muted-foreground" data-testid="text-review-pending">
+                Acknowledge the highlighted AI formatting warnings to save
+              </p>
+            )}
           </div>
         )}
       </CardContent>
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ShieldCheck, Loader2, RefreshCw, Search } from "lucide-react";
+import { AUDIT_ACTIONS } from "@shared/schema";
+import { api, type AuditEventQuery } from "../lib/api";
+import { format } from "date-fns";
+
+const ALL_ACTIONS = "all";
+
+export default function AuditLogViewer() {
+  const [actionFilter, setActionFilter] = useState<string>(ALL_ACTIONS);
+  const [patientFilter, setPatientFilter] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [query, setQuery] = useState<AuditEventQuery>({ limit: 100 });
+
+  const { data: events = [], isLoading, isFetching, refetch, error } = useQuery({
+    queryKey: ['/api/audit', query],
+    queryFn: () => api.getAuditEvents(query)
+  });
+
+  const applyFilters = () => {
+    setQuery({
+      action: actionFilter === ALL_ACTIONS ? undefined : actionFilter,
+      patientid: patientFilter.trim() || undefined,
+      from: fromDate || undefined,
+      to: toDate || undefined,
+      limit: 100
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" style={{ color: '#17a2b8' }} />
+            Audit Log
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            data-testid="button-refresh-audit"
+          >
+            <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <CardDescription>
+          Who accessed or changed patient records, and when
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-5 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="audit-action">Action</Label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger id="audit-action" data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                {AUDIT_ACTIONS.map(action => (
+                  <SelectItem key={action} value={action}>{action}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-patient">Patient ID</Label>
+            <Input
+              id="audit-patient"
+              value={patientFilter}
+              onChange={(e) => setPatientFilter(e.target.value)}
+              placeholder="e.g. 1002-100001"
+              data-testid="input-audit-patient"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              data-testid="input-audit-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              data-testid="input-audit-to"
+            />
+          </div>
+          <Button
+            onClick={applyFilters}
+            style={{ backgroundColor: '#17a2b8' }}
+            data-testid="button-apply-audit-filters"
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Filter
+          </Button>
+        </div>
+
+        {error ? (
+          <p className="text-destructive text-sm">
+            {error instanceof Error ? error.message : 'Failed to load audit events'}
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No audit events match these filters.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>IP Address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <TableRow key={event.event_id} data-testid={`audit-event-${event.event_id}`}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {event.created_at ? format(new Date(event.created_at), 'dd/MM/yyyy HH:mm:ss') : 'N/A'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {event.actor_name || event.actor_empid}
+                      {event.is_impersonated && (
+                        <Badge variant="secondary" className="ml-2">Impersonating</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{event.action}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{event.patientid || '—'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{event.ip_address || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,473 @@
+import { useState, useRef, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, CheckCircle, FileAudio, FolderOpen, Loader2, Upload, Wand2, X } from "lucide-react";
+import { api, type Patient, type TranscriptionJob, type Visit } from "../lib/api";
+import { compileFilenamePattern, DEFAULT_FILENAME_PATTERN } from "../lib/batchFilenames";
+import { TRANSCRIPTION_LANGUAGES, DEFAULT_TRANSCRIPTION_LANGUAGE } from "@shared/schema";
+
+// Radix Select can't hold an empty value
+const UNASSIGNED = "unassigned";
+const NEW_VISIT = "new";
+
+// Dictaphones often save formats browsers don't label as audio/*
+const AUDIO_EXTENSIONS = /\.(wav|mp3|m4a|mp4|aac|ogg|oga|webm|flac|amr|wma)$/i;
+
+type ItemStatus = 'ready' | 'uploading' | 'uploaded' | 'upload_failed';
+
+interface BatchItem {
+  id: string;
+  file: File;
+  patientid: string; // UNASSIGNED until mapped
+  visitid: string; // NEW_VISIT = the patient's visit on visitDate, created if needed
+  visitDate: string;
+  status: ItemStatus;
+  error?: string;
+  noteid?: string;
+}
+
+interface BatchTranscriptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orgId: string;
+  onUploaded?: () => void; // At least one recording was attached - refresh patient data
+  defaultLanguage?: string; // Dictation language the recordings are transcribed in
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatSize = (bytes: number) => bytes >= 1024 * 1024
+  ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Not sent yet, or sent and rejected - either can be (re)assigned and uploaded
+const isPending = (item: BatchItem) => item.status === 'ready' || item.status === 'upload_failed';
+
+const isReady = (item: BatchItem) => (
+  item.patientid !== UNASSIGNED && (item.visitid !== NEW_VISIT || /^\d{4}-\d{2}-\d{2}$/.test(item.visitDate))
+);
+
+/**
+ * Upload a folder of dictaphone recordings, map each to a patient and visit
+ * (by filename pattern or by hand), and track transcription until every file
+ * is done or has failed.
+ */
+export default function BatchTranscriptionDialog({
+  open,
+  onOpenChange,
+  orgId,
+  onUploaded,
+  defaultLanguage = DEFAULT_TRANSCRIPTION_LANGUAGE
+}: BatchTranscriptionDialogProps) {
+  const [language, setLanguage] = useState(defaultLanguage);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [pattern, setPattern] = useState(DEFAULT_FILENAME_PATTERN);
+  const [patternMessage, setPatternMessage] = useState<string | null>(null);
+  const [visitsByPatient, setVisitsByPatient] = useState<Record<string, Visit[]>>({});
+  const [isUploading, setIsUploading] = useState(false);
+  const [hasStarted, setHasStarted] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+
+  const { data: patients = [] } = useQuery<Patient[]>({
+    queryKey: ['/api/patients', orgId],
+    queryFn: () => api.getPatients(orgId),
+    enabled: open,
+  });
+
+  // React doesn't know the non-standard folder picker attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [open]);
+
+  const patientLabel = (patient: Patient) => `${patient.last_name}, ${patient.first_name} (${patient.mrn || patient.patientid})`;
+
+  const loadVisits = async (patientid: string) => {
+    if (patientid === UNASSIGNED || visitsByPatient[patientid]) return;
+    try {
+      const visits = await api.getPatientVisits(patientid);
+      setVisitsByPatient(current => ({ ...current, [patientid]: visits }));
+    } catch (error) {
+      console.error('Failed to load visits for batch upload:', error);
+    }
+  };
+
+  const updateItem = (id: string, updates: Partial<BatchItem>) => {
+    setItems(current => current.map(item => item.id === id ? { ...item, ...updates } : item));
+  };
+
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+    const audioFiles = Array.from(fileList).filter(file => file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name));
+    setItems(current => [
+      ...current,
+      ...audioFiles
+        .filter(file => !current.some(item => item.file.name === file.name && item.file.size === file.size))
+        .map(file => ({
+          id: `${file.name}-${file.size}-${file.lastModified}`,
+          file,
+          patientid: UNASSIGNED,
+          visitid: NEW_VISIT,
+          visitDate: new Date(file.lastModified || Date.now()).toISOString().slice(0, 10),
+          status: 'ready' as const
+        }))
+    ]);
+  };
+
+  const applyPattern = () => {
+    const matcher = compileFilenamePattern(pattern);
+    if (!matcher) {
+      setPatternMessage('The pattern needs {mrn} so files can be matched to patients.');
+      return;
+    }
+
+    let matched = 0;
+    const assigned = new Set<string>();
+    const pending = items.filter(isPending);
+    setItems(items.map(item => {
+      if (!isPending(item)) return item;
+      const match = matcher(item.file.name);
+      const patient = match?.mrn
+        ? patients.find(p => p.mrn === match.mrn || p.patientid === match.mrn)
+        : undefined;
+      if (!patient) return item;
+      matched++;
+      assigned.add(patient.patientid);
+      return { ...item, patientid: patient.patientid, visitid: NEW_VISIT, visitDate: match?.date || item.visitDate };
+    }));
+    assigned.forEach(patientid => void loadVisits(patientid));
+    setPatternMessage(`${matched} of ${pending.length} file(s) matched a patient.`);
+  };
+
+  const readyItems = items.filter(item => isPending(item) && isReady(item));
+
+  const startUpload = async () => {
+    setIsUploading(true);
+    setHasStarted(true);
+    let uploadedAny = false;
+
+    // One request per file so a bad file doesn't stop the rest
+    for (const item of readyItems) {
+      updateItem(item.id, { status: 'uploading', error: undefined });
+      try {
+        const result = await api.uploadBatchRecording({
+          file: item.file,
+          patientid: item.patientid,
+          visitid: item.visitid === NEW_VISIT ? undefined : item.visitid,
+          visitDate: item.visitid === NEW_VISIT ? item.visitDate : undefined,
+          language
+        });
+        updateItem(item.id, { status: 'uploaded', noteid: result.note.noteid });
+        uploadedAny = true;
+      } catch (error) {
+        updateItem(item.id, { status: 'upload_failed', error: error instanceof Error ? error.message : 'Upload failed' });
+      }
+    }
+
+    setIsUploading(false);
+    if (uploadedAny) onUploaded?.();
+  };
+
+  // Transcription progress of everything uploaded so far
+  const noteIds = useMemo(() => items.flatMap(item => item.noteid ? [item.noteid] : []), [items]);
+  const { data: jobData } = useQuery<{ jobs: TranscriptionJob[] }>({
+    queryKey: ['/api/transcription-jobs', noteIds],
+    queryFn: () => api.getTranscriptionJobs(noteIds),
+    enabled: open && noteIds.length > 0,
+    refetchInterval: (query) => {
+      const jobs = query.state.data?.jobs || [];
+      const finished = jobs.filter(job => job.status === 'done' || job.status === 'failed').length;
+      return finished < noteIds.length ? 3000 : false;
+    }
+  });
+  const jobFor = (noteid?: string) => noteid ? jobData?.jobs.find(job => job.noteid === noteid) : undefined;
+
+  const uploadFailures = items.filter(item => item.status === 'upload_failed').length;
+  const transcribed = noteIds.filter(noteid => jobFor(noteid)?.status === 'done').length;
+  const transcriptionFailures = noteIds.filter(noteid => jobFor(noteid)?.status === 'failed').length;
+  const batchSize = items.filter(item => item.status !== 'ready').length;
+  const finishedCount = uploadFailures + transcribed + transcriptionFailures;
+
+  const reset = () => {
+    setItems([]);
+    setPatternMessage(null);
+    setHasStarted(false);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (isUploading) return; // Keep the dialog up until every file has been sent
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const renderStatus = (item: BatchItem) => {
+    if (item.status === 'ready') {
+      return isReady(item)
+        ? <span className="text-muted-foreground">Ready</span>
+        : <span className="text-amber-700 dark:text-amber-400">Needs patient and visit</span>;
+    }
+    if (item.status === 'uploading') {
+      return <span className="flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" />Uploading</span>;
+    }
+    if (item.status === 'upload_failed') {
+      return <span className="flex items-center gap-1 text-destructive"><AlertTriangle className="h-3 w-3 shrink-0" />{item.error}</span>;
+    }
+
+    const job = jobFor(item.noteid);
+    if (!job || job.status === 'queued') {
+      return (
+        <span className="text-muted-foreground">
+          {job?.last_error ? `Retrying (attempt ${job.attempts} of ${job.max_attempts})` : 'Queued'}
+        </span>
+      );
+    }
+    if (job.status === 'running') {
+      return <span className="flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" />Transcribing</span>;
+    }
+    if (job.status === 'failed') {
+      return <span className="flex items-center gap-1 text-destructive"><AlertTriangle className="h-3 w-3 shrink-0" />{job.last_error || 'Transcription failed'}</span>;
+    }
+    return <span className="flex items-center gap-1 text-green-700 dark:text-green-400"><CheckCircle className="h-3 w-3" />Transcribed</span>;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileAudio className="h-5 w-5" style={{ color: '#17a2b8' }} />
+            Batch Dictation Upload
+          </DialogTitle>
+          <DialogDescription>
+            Upload recordings from a dictaphone. Each file becomes a note on the chosen visit and is transcribed in the background.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!hasStarted && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="audio/*"
+                multiple
+                className="hidden"
+                onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+                data-testid="input-batch-files"
+              />
+              <input
+                ref={folderInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }}
+                data-testid="input-batch-folder"
+              />
+              <Button variant="outline" onClick={() => folderInputRef.current?.click()} data-testid="button-batch-choose-folder">
+                <FolderOpen className="h-4 w-4 mr-2" />
+                Choose Folder
+              </Button>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} data-testid="button-batch-choose-files">
+                <FileAudio className="h-4 w-4 mr-2" />
+                Choose Files
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="batch-pattern">Filename pattern</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="batch-pattern"
+                  value={pattern}
+                  onChange={(e) => setPattern(e.target.value)}
+                  className="font-mono"
+                  data-testid="input-batch-pattern"
+                />
+                <Button variant="outline" onClick={applyPattern} disabled={items.length === 0} data-testid="button-batch-apply-pattern">
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Match Files
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {'{mrn}'} is the patient's MRN or patient ID, {'{date}'} the visit date (2025-01-31 or 20250131), {'{*}'} anything else.
+                Files that don't match can be assigned below.
+              </p>
+              {patternMessage && (
+                <p className="text-sm" data-testid="text-batch-pattern-result">{patternMessage}</p>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="batch-language">Dictation language</Label>
+              <Select value={language} onValueChange={setLanguage}>
+                <SelectTrigger id="batch-language" className="w-64" data-testid="select-batch-language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TRANSCRIPTION_LANGUAGES).map(([code, label]) => (
+                    <SelectItem key={code} value={code}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {hasStarted && batchSize > 0 && (
+          <div className="space-y-2" data-testid="batch-progress">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                {finishedCount} of {batchSize} finished
+                {transcribed > 0 && ` • ${transcribed} transcribed`}
+              </span>
+              {(uploadFailures + transcriptionFailures) > 0 && (
+                <Badge variant="destructive">{uploadFailures + transcriptionFailures} failed</Badge>
+              )}
+            </div>
+            <Progress value={(finishedCount / batchSize) * 100} />
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Patient</TableHead>
+                <TableHead>Visit</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map(item => {
+                const editable = isPending(item) && !isUploading;
+                const visits = visitsByPatient[item.patientid] || [];
+                return (
+                  <TableRow key={item.id} data-testid={`row-batch-file-${item.id}`}>
+                    <TableCell className="max-w-[200px]">
+                      <div className="truncate text-sm font-medium" title={item.file.name}>{item.file.name}</div>
+                      <div className="text-xs text-muted-foreground">{formatSize(item.file.size)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={item.patientid}
+                        onValueChange={(value) => {
+                          updateItem(item.id, { patientid: value, visitid: NEW_VISIT });
+                          void loadVisits(value);
+                        }}
+                        disabled={!editable}
+                      >
+                        <SelectTrigger className="h-8 w-[200px]" data-testid={`select-batch-patient-${item.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Choose patient</SelectItem>
+                          {patients.map(patient => (
+                            <SelectItem key={patient.patientid} value={patient.patientid}>{patientLabel(patient)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={item.visitid}
+                          onValueChange={(value) => updateItem(item.id, { visitid: value })}
+                          disabled={!editable || item.patientid === UNASSIGNED}
+                        >
+                          <SelectTrigger className="h-8 w-[150px]" data-testid={`select-batch-visit-${item.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NEW_VISIT}>Visit on date</SelectItem>
+                            {visits.map(visit => (
+                              <SelectItem key={visit.visitid} value={visit.visitid}>
+                                {new Date(visit.visit_date).toLocaleDateString('en-GB')}{visit.visit_purpose ? ` - ${visit.visit_purpose}` : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {item.visitid === NEW_VISIT && (
+                          <Input
+                            type="date"
+                            value={item.visitDate}
+                            max={today()}
+                            onChange={(e) => updateItem(item.id, { visitDate: e.target.value })}
+                            disabled={!editable}
+                            className="h-8 w-[150px]"
+                            data-testid={`input-batch-visit-date-${item.id}`}
+                          />
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs max-w-[220px]" data-testid={`text-batch-status-${item.id}`}>
+                      {renderStatus(item)}
+                    </TableCell>
+                    <TableCell>
+                      {editable && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setItems(current => current.filter(i => i.id !== item.id))}
+                          data-testid={`button-batch-remove-${item.id}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isUploading} data-testid="button-batch-close">
+            {hasStarted ? 'Close' : 'Cancel'}
+          </Button>
+          {readyItems.length > 0 && (
+            <Button
+              onClick={startUpload}
+              disabled={isUploading}
+              style={{ backgroundColor: '#17a2b8' }}
+              data-testid="button-batch-start-upload"
+            >
+              {isUploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Upload & Transcribe {readyItems.length} file{readyItems.length === 1 ? '' : 's'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, Loader2, Pencil, Trash2 } from "lucide-react";
+import { api, type ClinicalRecordByKind, type ClinicalRecordFields, type ClinicalRecordKind, type ClinicalRecords, type VitalKind } from "../lib/api";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ALLERGY_SEVERITIES,
+  CLINICAL_RECORD_GROUPS,
+  CLINICAL_RECORD_KINDS,
+  MEDICATION_STATUSES,
+  PROBLEM_STATUSES,
+  VITAL_KINDS,
+} from "@shared/schema";
+import { format } from "date-fns";
+
+type AnyClinicalRecord = ClinicalRecordByKind[ClinicalRecordKind];
+
+interface ClinicalRecordsReviewDialogProps {
+  records: ClinicalRecords;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void; // A record was confirmed, edited or deleted
+}
+
+interface FieldConfig {
+  field: string;
+  label: string;
+  options?: readonly string[];
+  optional?: boolean; // Blank saves as not recorded
+}
+
+export const VITAL_KIND_LABELS: Record<VitalKind, string> = {
+  blood_pressure: 'Blood pressure',
+  pulse: 'Pulse',
+  temperature: 'Temperature',
+  respiratory_rate: 'Respiratory rate',
+  spo2: 'SpO2',
+  weight: 'Weight',
+  height: 'Height',
+  blood_glucose: 'Blood glucose',
+};
+
+const KIND_LABELS: Record<ClinicalRecordKind, string> = {
+  problem: 'Problems',
+  medication: 'Medications',
+  allergy: 'Allergies',
+  vital: 'Vitals',
+};
+
+const RECORD_FIELDS: Record<ClinicalRecordKind, FieldConfig[]> = {
+  problem: [
+    { field: 'description', label: 'Problem' },
+    { field: 'status', label: 'Status', options: PROBLEM_STATUSES },
+  ],
+  medication: [
+    { field: 'name', label: 'Medication' },
+    { field: 'dose', label: 'Dose', optional: true },
+    { field: 'route', label: 'Route', optional: true },
+    { field: 'frequency', label: 'Frequency', optional: true },
+    { field: 'status', label: 'Status', options: MEDICATION_STATUSES },
+  ],
+  allergy: [
+    { field: 'substance', label: 'Substance' },
+    { field: 'reaction', label: 'Reaction', optional: true },
+    { field: 'severity', label: 'Severity', options: ALLERGY_SEVERITIES, optional: true },
+  ],
+  vital: [
+    { field: 'kind', label: 'Vital', options: VITAL_KINDS },
+    { field: 'value', label: 'Value' },
+    { field: 'unit', label: 'Unit', optional: true },
+  ],
+};
+
+// Select items can't have an empty value, so "not recorded" gets its own
+const NOT_RECORDED = 'not_recorded';
+
+const optionLabel = (field: string, option: string) =>
+  field === 'kind' ? VITAL_KIND_LABELS[option as VitalKind] : option.charAt(0).toUpperCase() + option.slice(1);
+
+/** One line describing a record, as shown in the patient header and the review list. */
+export function describeClinicalRecord(kind: ClinicalRecordKind, record: AnyClinicalRecord): string {
+  switch (kind) {
+    case 'problem': {
+      const problem = record as ClinicalRecordByKind['problem'];
+      return problem.description;
+    }
+    case 'medication': {
+      const medication = record as ClinicalRecordByKind['medication'];
+      return [medication.name, medication.dose, medication.route, medication.frequency].filter(Boolean).join(' ');
+    }
+    case 'allergy': {
+      const allergy = record as ClinicalRecordByKind['allergy'];
+      return [allergy.substance, allergy.reaction && `(${allergy.reaction})`].filter(Boolean).join(' ');
+    }
+    case 'vital': {
+      const vital = record as ClinicalRecordByKind['vital'];
+      return `${VITAL_KIND_LABELS[vital.kind]}: ${vital.value}${vital.unit ? ` ${vital.unit}` : ''}`;
+    }
+  }
+}
+
+function toDraft(kind: ClinicalRecordKind, record: AnyClinicalRecord): Record<string, string> {
+  const values = new Map<string, unknown>(Object.entries(record));
+  return Object.fromEntries(RECORD_FIELDS[kind].map(({ field, options, optional }) => {
+    const value = values.get(field);
+    return [field, value == null ? (options && optional ? NOT_RECORDED : '') : String(value)];
+  }));
+}
+
+function fromDraft(kind: ClinicalRecordKind, draft: Record<string, string>): Record<string, string | null> {
+  return Object.fromEntries(RECORD_FIELDS[kind].map(({ field, optional }) => {
+    const value = draft[field].trim();
+    return [field, optional && (value === '' || value === NOT_RECORDED) ? null : value];
+  }));
+}
+
+/**
+ * Lets the doctor go through what extraction found: confirm a record as is, correct
+ * it (which also confirms it) or delete it. Resolved problems and stopped medications
+ * are listed too, since the header only shows active ones.
+ */
+export default function ClinicalRecordsReviewDialog({ records, open, onOpenChange, onChanged }: ClinicalRecordsReviewDialogProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ kind: ClinicalRecordKind; recordId: string; draft: Record<string, string> } | null>(null);
+
+  const updateMutation = useMutation({
+    mutationFn: ({ kind, recordId, updates }: { kind: ClinicalRecordKind; recordId: string; updates: Record<string, string | null> }) =>
+      api.updateClinicalRecord(kind, recordId, updates as Partial<ClinicalRecordFields[typeof kind]>),
+    onSuccess: () => {
+      setEditing(null);
+      onChanged();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save the record", description: error.message || "Please try again", variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: ({ kind, recordId }: { kind: ClinicalRecordKind; recordId: string }) => api.deleteClinicalRecord(kind, recordId),
+    onSuccess: () => onChanged(),
+    onError: (error: any) => {
+      toast({ title: "Failed to delete the record", description: error.message || "Please try again", variant: "destructive" });
+    }
+  });
+
+  const isBusy = updateMutation.isPending || deleteMutation.isPending;
+  const draftIncomplete = editing
+    ? RECORD_FIELDS[editing.kind].some(({ field, optional }) => !optional && !editing.draft[field].trim())
+    : false;
+
+  const updateDraft = (field: string, value: string) => {
+    setEditing(prev => prev && { ...prev, draft: { ...prev.draft, [field]: value } });
+  };
+
+  const renderEditor = (kind: ClinicalRecordKind, recordId: string, draft: Record<string, string>) => (
+    <div className="space-y-3 rounded-md border p-3" data-testid={`editor-clinical-${recordId}`}>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {RECORD_FIELDS[kind].map(({ field, label, options, optional }) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`clinical-${recordId}-${field}`} className="text-xs text-muted-foreground">{label}</Label>
+            {options ? (
+              <Select value={draft[field]} onValueChange={value => updateDraft(field, value)}>
+                <SelectTrigger id={`clinical-${recordId}-${field}`} data-testid={`select-clinical-${field}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {optional && <SelectItem value={NOT_RECORDED}>Not recorded</SelectItem>}
+                  {options.map(option => (
+                    <SelectItem key={option} value={option}>{optionLabel(field, option)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={`clinical-${recordId}-${field}`}
+                value={draft[field]}
+                onChange={e => updateDraft(field, e.target.value)}
+                data-testid={`input-clinical-${field}`}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setEditing(null)}>Cancel</Button>
+        <Button
+          size="sm"
+          onClick={() => updateMutation.mutate({ kind, recordId, updates: fromDraft(kind, draft) })}
+          disabled={draftIncomplete || isBusy}
+          style={{ backgroundColor: '#17a2b8' }}
+          data-testid="button-save-clinical-record"
+        >
+          {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={open => { if (!open) setEditing(null); onOpenChange(open); }}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Clinical Details</DialogTitle>
+          <DialogDescription>
+            Extracted from the patient's notes by AI. Confirm what's right, correct what isn't and delete anything the notes don't support.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {CLINICAL_RECORD_KINDS.map(kind => {
+            const group: AnyClinicalRecord[] = records[CLINICAL_RECORD_GROUPS[kind]];
+            return (
+              <div key={kind} className="space-y-2" data-testid={`review-group-${kind}`}>
+                <p className="text-xs font-medium uppercase text-muted-foreground">{KIND_LABELS[kind]}</p>
+                {group.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">None extracted</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {group.map(record => (
+                      <li key={record.record_id} className="space-y-2" data-testid={`review-record-${record.record_id}`}>
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="space-y-1">
+                            <p className="text-sm">{describeClinicalRecord(kind, record)}</p>
+                            <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+                              <span>From the note of {format(new Date(record.visit_date), 'dd/MM/yyyy')}</span>
+                              {'status' in record && record.status !== 'active' && (
+                                <Badge variant="secondary" className="text-xs">{optionLabel('status', record.status)}</Badge>
+                              )}
+                              {'severity' in record && record.severity && (
+                                <Badge variant="secondary" className="text-xs">{optionLabel('severity', record.severity)}</Badge>
+                              )}
+                              {record.review_status === 'pending' ? (
+                                <Badge variant="outline" className="text-xs border-dashed">Unreviewed</Badge>
+                              ) : (
+                                <Badge variant="outline" className="text-xs">Confirmed</Badge>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex shrink-0 gap-1">
+                            {record.review_status === 'pending' && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                title="Confirm"
+                                onClick={() => updateMutation.mutate({ kind, recordId: record.record_id, updates: {} })}
+                                disabled={isBusy}
+                                data-testid={`button-confirm-clinical-${record.record_id}`}
+                              >
+                                <Check className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Edit"
+                              onClick={() => setEditing({ kind, recordId: record.record_id, draft: toDraft(kind, record) })}
+                              disabled={isBusy}
+                              data-testid={`button-edit-clinical-${record.record_id}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Delete"
+                              onClick={() => deleteMutation.mutate({ kind, recordId: record.record_id })}
+                              disabled={isBusy}
+                              data-testid={`button-delete-clinical-${record.record_id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {editing?.recordId === record.record_id && renderEditor(kind, record.record_id, editing.draft)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
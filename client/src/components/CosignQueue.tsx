@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, ClipboardCheck, Loader2, RefreshCw, Undo2, User } from "lucide-react";
+import { api, type CosignQueueItem } from "../lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+interface CosignQueueProps {
+  onOpenPatient?: (patientId: string) => void;
+}
+
+export default function CosignQueue({ onOpenPatient }: CosignQueueProps) {
+  const { toast } = useToast();
+  const [expandedNoteId, setExpandedNoteId] = useState<string | null>(null);
+  const [returningItem, setReturningItem] = useState<CosignQueueItem | null>(null);
+  const [returnComment, setReturnComment] = useState("");
+
+  const { data: queue = [], isLoading, refetch } = useQuery<CosignQueueItem[]>({
+    queryKey: ['/api/cosign/queue'],
+    queryFn: () => api.getCosignQueue()
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ noteid, action, comment }: { noteid: string; action: 'approve' | 'return'; comment?: string }) =>
+      api.cosignNote(noteid, action, comment),
+    onSuccess: (_note, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/cosign/queue'] });
+      setReturningItem(null);
+      setReturnComment("");
+      toast({
+        title: variables.action === 'approve' ? "Note co-signed" : "Note returned",
+        description: variables.action === 'return' ? "The author can revise and sign it again" : undefined
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Co-signature failed",
+        description: error.message || "Please try again",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Nothing to show for clinicians who supervise nobody
+  if (!isLoading && queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-cosign-queue">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <ClipboardCheck className="h-5 w-5" style={{ color: '#17a2b8' }} />
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                Awaiting Your Co-signature
+                {queue.length > 0 && <Badge variant="secondary">{queue.length}</Badge>}
+              </CardTitle>
+              <CardDescription>Notes signed by clinicians you supervise</CardDescription>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => refetch()}
+            disabled={isLoading}
+            data-testid="button-refresh-cosign-queue"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {queue.map(item => (
+              <div key={item.noteid} className="border rounded-lg p-3 space-y-2" data-testid={`cosign-item-${item.noteid}`}>
+                <div className="flex items-start justify-between gap-2 flex-wrap">
+                  <div className="space-y-1">
+                    <button
+                      type="button"
+                      className="font-medium hover:underline text-left"
+                      onClick={() => onOpenPatient?.(item.patientid)}
+                      data-testid={`link-cosign-patient-${item.noteid}`}
+                    >
+                      {item.patient_name}
+                    </button>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap">
+                      <User className="h-3 w-3" />
+                      <span>{item.author_name}{item.author_title ? ` (${item.author_title})` : ''}</span>
+                      <span>•</span>
+                      <span>Visit {format(new Date(item.visit_date), 'dd/MM/yy')}</span>
+                      {item.signed_at && (
+                        <>
+                          <span>•</span>
+                          <span>Signed {format(new Date(item.signed_at), 'dd/MM/yy HH:mm')}</span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setReturningItem(item)}
+                      disabled={reviewMutation.isPending}
+                      data-testid={`button-return-note-${item.noteid}`}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Return
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => reviewMutation.mutate({ noteid: item.noteid, action: 'approve' })}
+                      disabled={reviewMutation.isPending}
+                      style={{ backgroundColor: '#17a2b8' }}
+                      data-testid={`button-approve-note-${item.noteid}`}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Co-sign
+                    </Button>
+                  </div>
+                </div>
+                <div
+                  className={`text-sm p-2 bg-muted/50 rounded border whitespace-pre-wrap cursor-pointer ${
+                    expandedNoteId === item.noteid ? '' : 'line-clamp-3'
+                  }`}
+                  onClick={() => setExpandedNoteId(expandedNoteId === item.noteid ? null : item.noteid)}
+                  data-testid={`text-cosign-note-${item.noteid}`}
+                >
+                  {item.transcription_text || 'No transcription available'}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!returningItem} onOpenChange={(open) => !open && setReturningItem(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Return Note</DialogTitle>
+            <DialogDescription>
+              The note goes back to {returningItem?.author_name} unsigned so it can be revised and signed again.
+              Your comment is kept with the note.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={returnComment}
+            onChange={(e) => setReturnComment(e.target.value)}
+            placeholder="What needs to change?"
+            className="min-h-[100px]"
+            data-testid="textarea-return-comment"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReturningItem(null)} data-testid="button-cancel-return">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => returningItem && reviewMutation.mutate({
+                noteid: returningItem.noteid,
+                action: 'return',
+                comment: returnComment.trim()
+              })}
+              disabled={reviewMutation.isPending || !returnComment.trim()}
+              style={{ backgroundColor: '#17a2b8' }}
+              data-testid="button-confirm-return"
+            >
+              {reviewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Return to Author
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -26,21 +26,26 @@ import {
   Download,
   X,
   Shield,
-  ArrowRightLeft
+  ArrowRightLeft,
+  PenLine
 } from "lucide-react";
 import { useTheme } from "./ThemeProvider";
 import PatientSelector from "./PatientSelector";
 import VisitHistory from "./VisitHistory";
+import PatientClinicalHeader from "./PatientClinicalHeader";
 import AudioRecorder from "./AudioRecorder";
+import SignNoteDialog from "./SignNoteDialog";
+import CosignQueue from "./CosignQueue";
 import VisitDocuments from "./VisitDocuments";
 import NewPatientDialog from "./NewPatientDialog";
+import BatchTranscriptionDialog from "./BatchTranscriptionDialog";
 import ExportPDFDialog from "./ExportPDFDialog";
 import SuperAdminDashboard from "./SuperAdminDashboard";
 import OrgAdminDashboard from "./OrgAdminDashboard";
 import AboutFooter from "./AboutFooter";
 import { useToast } from "@/hooks/use-toast";
-import { api, type LoginResponse, type Patient, type Visit } from "../lib/api";
-import type { InsertPatient } from "@shared/schema";
+import { api, type LoginResponse, type Patient, type Visit, type SpeakerRoles, type TranscriptSegment, type TranscriptionJob } from "../lib/api";
+import { DEFAULT_TRANSCRIPTION_LANGUAGE, type InsertPatient } from "@shared/schema";
 
 interface DashboardProps {
   loginData: LoginResponse;
@@ -66,6 +71,7 @@ interface UIVisit {
   visitId: string;
   visitDate: string;
   visitPurpose?: string;
+  employeeId?: string;
   employeeName: string;
   employeeTitle: string;
   notes: UINote[];
@@ -80,8 +86,29 @@ interface UINote {
   transcriptionText?: string;
   isTranscriptionEdited: boolean;
   aiTranscribed?: boolean;
+  detectedLanguage?: string;
   createdAt: string;
-  audioData?: string;
+  signedAt?: string;
+  signatureName?: string;
+  signatureTitle?: string;
+  cosignStatus?: 'pending' | 'approved' | 'returned';
+  transcriptionJob?: TranscriptionJob | null;
+  cosignReviews?: {
+    reviewId: string;
+    reviewerName: string;
+    action: 'approved' | 'returned';
+    comment?: string;
+    createdAt: string;
+  }[];
+  addenda?: {
+    addendumId: string;
+    authorName: string;
+    authorTitle?: string;
+    text: string;
+    createdAt: string;
+    hasAudio: boolean;
+    aiTranscribed?: boolean;
+  }[];
 }
 
 export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImpersonation, activeRole, onSwitchRole }: DashboardProps) {
@@ -91,12 +118,14 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
   const [currentView, setCurrentView] = useState<'select' | 'history' | 'newVisit'>('select');
   const [currentVisit, setCurrentVisit] = useState<any>(null);
   const [latestSavedNote, setLatestSavedNote] = useState<any>(null);
+  const [isSignDialogOpen, setIsSignDialogOpen] = useState(false);
   const [patients, setPatients] = useState<UIPatient[]>([]);
   const [visits, setVisits] = useState<UIVisit[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>("");
   const [isNewPatientDialogOpen, setIsNewPatientDialogOpen] = useState(false);
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isBatchUploadOpen, setIsBatchUploadOpen] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false);
   const [showLogoutDialog, setShowLogoutDialog] = useState(false);
@@ -111,6 +140,9 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
 
   // Get the effective orgid (from login data, may be null for super_admin without org context)
   const effectiveOrgId = loginData.organization?.orgid || loginData.employee.orgid;
+
+  // Dictation language: the employee's own, else the org's
+  const defaultLanguage = loginData.employee.preferred_language || loginData.organization?.default_language || DEFAULT_TRANSCRIPTION_LANGUAGE;
   
   // Role-based permission helpers
   const isSuperAdmin = loginData.employee.role === 'super_admin';
@@ -136,6 +168,7 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
   const canManagePatients = isSuperAdmin || isOrgAdmin || isDoctor;
   const canViewClinicalNotes = isSuperAdmin || isOrgAdmin || isDoctor;
   const canCreateNotes = isSuperAdmin || isOrgAdmin || isDoctor;
+  const canSignNotes = isOrgAdmin || isDoctor;
   const canExportData = isSuperAdmin || isOrgAdmin || isDoctor;
 
   // Map API Patient to UI Patient
@@ -154,6 +187,7 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
     visitId: visit.visitid,
     visitDate: visit.visit_date,
     visitPurpose: visit.visit_purpose || '',
+    employeeId: visit.empid,
     employeeName: visit.employeeName || 'Unknown',
     employeeTitle: visit.employeeTitle || 'Unknown',
     documentCount: visit.document_count || 0,
@@ -178,14 +212,35 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
         transcriptionText: note.transcription_text || undefined,
         isTranscriptionEdited: isEdited,
         aiTranscribed: aiTranscribed,
+        detectedLanguage: note.detected_language || undefined,
         createdAt: new Date(note.created_at).toISOString(),
-        audioData: note.audio_file || undefined,
         // Device/Browser tracking fields
         sessionId: note.session_id || undefined,
         deviceType: note.device_type || undefined,
         browserName: note.browser_name || undefined,
         ipAddress: note.ip_address || undefined,
-        userAgent: note.user_agent || undefined
+        userAgent: note.user_agent || undefined,
+        signedAt: note.signed_at || undefined,
+        signatureName: note.signature_name || undefined,
+        signatureTitle: note.signature_title || undefined,
+        cosignStatus: note.cosign_status || undefined,
+        transcriptionJob: note.transcription_job ?? null,
+        cosignReviews: (note.cosign_reviews || []).map(review => ({
+          reviewId: review.review_id,
+          reviewerName: review.reviewer_name || 'Unknown',
+          action: review.action,
+          comment: review.comment || undefined,
+          createdAt: review.created_at
+        })),
+        addenda: (note.addenda || []).map(addendum => ({
+          addendumId: addendum.addendum_id,
+          authorName: addendum.author_name || 'Unknown',
+          authorTitle: addendum.author_title || undefined,
+          text: addendum.addendum_text,
+          createdAt: addendum.created_at,
+          hasAudio: !!addendum.audio_filename,
+          aiTranscribed: addendum.ai_transcribed === true
+        }))
       };
     }).sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
   }), []);
@@ -346,7 +401,12 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
     }
   }, [selectedPatient, loginData.employee.empid, currentUser]);
 
-  const handleSaveNote = useCallback(async (audioBlob: Blob | null, transcription: string) => {
+  const handleSaveNote = useCallback(async (
+    audioBlob: Blob | null,
+    transcription: string,
+    transcript?: { segments: TranscriptSegment[]; speakerRoles: SpeakerRoles },
+    language?: { requested: string; detected?: string | null }
+  ) => {
     if (!currentVisit) return { ai_transcribed: false };
 
     try {
@@ -359,7 +419,9 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
           currentVisit.visitId,
           audioBlob,
           transcription,
-          audioDuration
+          audioDuration,
+          transcript,
+          language
         );
         noteId = result.noteid;
       } else {
@@ -374,14 +436,14 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
       
       console.log('Note saved successfully, noteId:', noteId);
       
-      // Fetch the full note details to get audio data
+      // Fetch the full note details to get audio details
       const fullNote = await api.getNote(noteId);
       console.log('Full note retrieved:', fullNote);
       
       // Update saved note:
       // - If new note has audio, replace with new note (user recorded new audio)
       // - If new note has no audio, keep previous audio note (user edited transcription only)
-      if (fullNote.audio_file && fullNote.audio_mimetype) {
+      if (fullNote.audio_filename && fullNote.audio_mimetype) {
         setLatestSavedNote(fullNote);
       }
       // Don't clear latestSavedNote if saving transcription-only - preserve previous audio
@@ -404,14 +466,6 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
     }
   }, [currentVisit, selectedPatient, mapVisitToUI]);
 
-  const handlePlayAudio = useCallback((noteId: string) => {
-    // Create audio element and play from API endpoint
-    const audio = new Audio(api.getAudioUrl(noteId));
-    audio.play().catch(error => {
-      console.error('Failed to play audio:', error);
-    });
-  }, []);
-
   const handleViewNote = useCallback((noteId: string) => {
     console.log('View note details feature coming soon');
   }, []);
@@ -464,13 +518,19 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
     switch (currentView) {
       case 'select':
         return (
-          <PatientSelector
-            patients={patients}
-            onSelectPatient={handleSelectPatient}
-            onCreateNewPatient={handleCreateNewPatient}
-            onPatientUpdated={handleRefreshPatients}
-            onPatientDeleted={handleRefreshPatients}
-          />
+          <div className="space-y-6">
+            {canSignNotes && (
+              <CosignQueue onOpenPatient={handleSelectPatient} />
+            )}
+            <PatientSelector
+              patients={patients}
+              onSelectPatient={handleSelectPatient}
+              onCreateNewPatient={handleCreateNewPatient}
+              onPatientUpdated={handleRefreshPatients}
+              onPatientDeleted={handleRefreshPatients}
+              onBatchUpload={canCreateNotes ? () => setIsBatchUploadOpen(true) : undefined}
+            />
+          </div>
         );
       
       case 'history':
@@ -522,11 +582,18 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
               </CardHeader>
             </Card>
             
+            {selectedPatient && (
+              <PatientClinicalHeader patientId={selectedPatient.patientid} canReview={canCreateNotes} />
+            )}
+            
             <VisitHistory
               visits={visits}
-              onPlayAudio={handlePlayAudio}
               onViewNote={handleViewNote}
+              onNotesChanged={reloadVisits}
+              canEditNotes={canCreateNotes}
+              signer={canSignNotes ? { empid: loginData.employee.empid, name: `${currentUser.firstName} ${currentUser.lastName}` } : undefined}
               patientName={selectedPatient ? `${selectedPatient.first_name} ${selectedPatient.last_name}` : 'Unknown Patient'}
+              patientId={selectedPatient?.patientid}
             />
           </div>
         );
@@ -569,13 +636,45 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
             <AudioRecorder
               visitId={currentVisit?.visitId}
               onSaveNote={handleSaveNote}
-              existingAudioFile={latestSavedNote?.audio_file || undefined}
+              existingAudioNoteId={latestSavedNote?.audio_filename ? latestSavedNote.noteid : undefined}
               existingAudioMimetype={latestSavedNote?.audio_mimetype || undefined}
               existingAudioDuration={latestSavedNote?.audio_duration_seconds || undefined}
               existingAudioFilename={latestSavedNote?.audio_filename || undefined}
               existingTranscription={latestSavedNote?.transcription_text || undefined}
+              isReadOnly={!!latestSavedNote?.signed_at}
+              readOnlyNotice={latestSavedNote?.signed_at
+                ? `Signed by ${latestSavedNote.signature_name} on ${new Date(latestSavedNote.signed_at).toLocaleString('en-GB')}. Corrections can only be added as addenda.`
+                : undefined}
               onUnsavedChanges={setHasUnsavedChanges}
+              defaultLanguage={defaultLanguage}
             />
+
+            {canSignNotes && latestSavedNote && !latestSavedNote.signed_at && (
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsSignDialogOpen(true)}
+                  disabled={hasUnsavedChanges}
+                  data-testid="button-sign-latest-note"
+                >
+                  <PenLine className="h-4 w-4 mr-2" />
+                  Sign Note
+                </Button>
+              </div>
+            )}
+
+            {latestSavedNote && (
+              <SignNoteDialog
+                noteId={latestSavedNote.noteid}
+                signerName={`${currentUser.firstName} ${currentUser.lastName}`}
+                open={isSignDialogOpen}
+                onOpenChange={setIsSignDialogOpen}
+                onSigned={(signedNote) => {
+                  setLatestSavedNote(signedNote);
+                  reloadVisits();
+                }}
+              />
+            )}
             
             {currentVisit?.visitId && (
               <VisitDocuments visitId={currentVisit.visitId} />
@@ -738,6 +837,17 @@ export default function Dashboard({ loginData, onLogout, onSwitchOrg, onClearImp
         />
       )}
 
+      {/* Batch Dictation Upload */}
+      {effectiveOrgId && canCreateNotes && (
+        <BatchTranscriptionDialog
+          open={isBatchUploadOpen}
+          onOpenChange={setIsBatchUploadOpen}
+          orgId={effectiveOrgId}
+          onUploaded={handleRefreshPatients}
+          defaultLanguage={defaultLanguage}
+        />
+      )}
+
       {/* Export PDF Dialog */}
       {selectedPatient && (
         <ExportPDFDialog
@@ -0,0 +1,107 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Pencil } from "lucide-react";
+import { api } from "../lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface EditNoteDialogProps {
+  noteId: string;
+  initialText: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export default function EditNoteDialog({ noteId, initialText, open, onOpenChange, onSaved }: EditNoteDialogProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState(initialText);
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setText(initialText);
+      setReason("");
+    }
+  }, [open, initialText]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await api.updateNote(noteId, {
+        transcription_text: text,
+        is_transcription_edited: true
+      }, reason.trim() || undefined);
+      toast({ title: "Note updated", description: "The previous text is kept in the note history" });
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Failed to update note",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Pencil className="h-5 w-5" style={{ color: '#17a2b8' }} />
+            Edit Note
+          </DialogTitle>
+          <DialogDescription>
+            Changes are saved as a new revision. The current text stays in the note history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="min-h-[300px] font-mono text-sm"
+            data-testid="textarea-edit-note"
+          />
+          <div className="space-y-1">
+            <Label htmlFor="edit-note-reason">Reason for change</Label>
+            <Input
+              id="edit-note-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Corrected medication dose"
+              data-testid="input-edit-note-reason"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-edit-note">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || text === initialText}
+            style={{ backgroundColor: '#17a2b8' }}
+            data-testid="button-save-edit-note"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
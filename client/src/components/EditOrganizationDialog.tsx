@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -18,7 +19,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { api } from "../lib/api";
+import { TRANSCRIPTION_LANGUAGES, DEFAULT_TRANSCRIPTION_LANGUAGE } from "@shared/schema";
+import { api, type LlmModelOverrides, type LlmProviders, type LlmTask, type TranscriptionProviders } from "../lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { Building2, Loader2 } from "lucide-react";
 
@@ -31,8 +33,34 @@ interface Organization {
   address?: string | null;
   phone?: string | null;
   is_active: boolean | null;
+  transcription_provider?: string | null;
+  default_language?: string | null;
+  llm_provider?: string | null;
+  llm_models?: LlmModelOverrides | null;
+  require_deidentification?: boolean | null;
 }
 
+// Radix Select can't hold an empty value, so "use the server default" gets its own
+const DEFAULT_PROVIDER = "default";
+
+const PROVIDER_LABELS: Record<string, string> = {
+  deepgram: "Deepgram",
+  fake: "Offline fake (testing only)",
+};
+
+const LLM_PROVIDER_LABELS: Record<string, string> = {
+  openai: "OpenAI",
+  stub: "Offline stub (testing only)",
+};
+
+const LLM_TASK_LABELS: Record<LlmTask, string> = {
+  format_note: "Note formatting",
+  translate: "Translation",
+  grounding_check: "Transcript check",
+  patient_summary: "Patient summary",
+  clinical_extraction: "Clinical extraction",
+};
+
 interface EditOrganizationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -54,6 +82,23 @@ export default function EditOrganizationDialog({
   const [address, setAddress] = useState("");
   const [phone, setPhone] = useState("");
   const [isActive, setIsActive] = useState(true);
+  const [transcriptionProvider, setTranscriptionProvider] = useState(DEFAULT_PROVIDER);
+  const [defaultLanguage, setDefaultLanguage] = useState<string>(DEFAULT_TRANSCRIPTION_LANGUAGE);
+  const [llmProvider, setLlmProvider] = useState(DEFAULT_PROVIDER);
+  const [llmModels, setLlmModels] = useState<LlmModelOverrides>({});
+  const [requireDeidentification, setRequireDeidentification] = useState(false);
+
+  const { data: transcriptionProviders } = useQuery<TranscriptionProviders>({
+    queryKey: ['/api/transcription-providers'],
+    queryFn: () => api.getTranscriptionProviders(),
+    enabled: open,
+  });
+
+  const { data: llmProviders } = useQuery<LlmProviders>({
+    queryKey: ['/api/llm-providers'],
+    queryFn: () => api.getLlmProviders(),
+    enabled: open,
+  });
 
   useEffect(() => {
     if (organization && open) {
@@ -62,6 +107,11 @@ export default function EditOrganizationDialog({
       setAddress((organization as any).address || "");
       setPhone((organization as any).phone || "");
       setIsActive(organization.is_active !== false);
+      setTranscriptionProvider(organization.transcription_provider || DEFAULT_PROVIDER);
+      setDefaultLanguage(organization.default_language || DEFAULT_TRANSCRIPTION_LANGUAGE);
+      setLlmProvider(organization.llm_provider || DEFAULT_PROVIDER);
+      setLlmModels(organization.llm_models || {});
+      setRequireDeidentification(organization.require_deidentification === true);
     }
   }, [organization, open]);
 
@@ -81,6 +131,11 @@ export default function EditOrganizationDialog({
 
     setIsSubmitting(true);
 
+    // Blank model fields fall back to the server default
+    const models = Object.fromEntries(
+      Object.entries(llmModels).map(([task, model]) => [task, model?.trim()]).filter(([, model]) => model)
+    ) as LlmModelOverrides;
+
     try {
       await api.updateOrganization(organization.orgid, {
         org_name: orgName,
@@ -88,6 +143,11 @@ export default function EditOrganizationDialog({
         address: address || undefined,
         phone: phone || undefined,
         is_active: isActive,
+        transcription_provider: transcriptionProvider === DEFAULT_PROVIDER ? null : transcriptionProvider,
+        default_language: defaultLanguage,
+        llm_provider: llmProvider === DEFAULT_PROVIDER ? null : llmProvider,
+        llm_models: Object.keys(models).length > 0 ? models : null,
+        require_deidentification: requireDeidentification,
       });
 
       toast({
@@ -112,7 +172,7 @@ export default function EditOrganizationDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[450px]">
+      <DialogContent className="sm:max-w-[450px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Building2 className="h-5 w-5" style={{ color: "#17a2b8" }} />
@@ -195,6 +255,100 @@ export default function EditOrganizationDialog({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="edit-transcription-provider">Transcription Provider</Label>
+            <Select value={transcriptionProvider} onValueChange={setTranscriptionProvider}>
+              <SelectTrigger id="edit-transcription-provider" data-testid="select-edit-transcription-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PROVIDER}>
+                  Server default{transcriptionProviders ? ` (${PROVIDER_LABELS[transcriptionProviders.default] || transcriptionProviders.default})` : ""}
+                </SelectItem>
+                {transcriptionProviders?.providers.map((provider) => (
+                  <SelectItem key={provider.name} value={provider.name}>
+                    {PROVIDER_LABELS[provider.name] || provider.name}
+                    {!provider.available && " - not configured"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-default-language">Default Dictation Language</Label>
+            <Select value={defaultLanguage} onValueChange={setDefaultLanguage}>
+              <SelectTrigger id="edit-default-language" data-testid="select-edit-default-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TRANSCRIPTION_LANGUAGES).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Used when an employee has not chosen their own language
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-llm-provider">AI Provider</Label>
+            <Select value={llmProvider} onValueChange={setLlmProvider}>
+              <SelectTrigger id="edit-llm-provider" data-testid="select-edit-llm-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PROVIDER}>
+                  Server default{llmProviders ? ` (${LLM_PROVIDER_LABELS[llmProviders.default] || llmProviders.default})` : ""}
+                </SelectItem>
+                {llmProviders?.providers.map((provider) => (
+                  <SelectItem key={provider.name} value={provider.name}>
+                    {LLM_PROVIDER_LABELS[provider.name] || provider.name}
+                    {!provider.available && " - not configured"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>AI Models</Label>
+            {llmProviders?.tasks.map(({ task, default_model }) => (
+              <div key={task} className="grid grid-cols-[140px_1fr] items-center gap-2">
+                <Label htmlFor={`edit-llm-model-${task}`} className="text-sm font-normal">
+                  {LLM_TASK_LABELS[task] || task}
+                </Label>
+                <Input
+                  id={`edit-llm-model-${task}`}
+                  placeholder={default_model}
+                  value={llmModels[task] || ""}
+                  onChange={(e) => setLlmModels({ ...llmModels, [task]: e.target.value })}
+                  maxLength={100}
+                  data-testid={`input-edit-llm-model-${task}`}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Leave blank to use the server default model
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="require-deidentification" className="text-base">De-identify for AI</Label>
+              <p className="text-sm text-muted-foreground">
+                Replace patient names, dates, phone numbers, IDs and addresses with placeholders before text is sent to the AI provider
+              </p>
+            </div>
+            <Switch
+              id="require-deidentification"
+              checked={requireDeidentification}
+              onCheckedChange={setRequireDeidentification}
+              data-testid="switch-require-deidentification"
+            />
+          </div>
+
           <div className="flex items-center justify-between rounded-lg border p-3">
             <div className="space-y-0.5">
               <Label htmlFor="is-active" className="text-base">Active Status</Label>
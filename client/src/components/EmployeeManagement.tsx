@@ -32,6 +32,7 @@ import {
   RefreshCw,
   AlertCircle
 } from "lucide-react";
+import { TRANSCRIPTION_LANGUAGES } from "@shared/schema";
 import { api } from "../lib/api";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -62,6 +63,8 @@ interface Employee {
   title: string | null;
   role: string | null;
   secondary_role: string | null;
+  cosigner_empid: string | null;
+  preferred_language: string | null;
   is_active: boolean | null;
   created_at: Date | string | null;
 }
@@ -74,6 +77,8 @@ interface EmployeeFormData {
   title: string;
   role: string;
   secondary_role: string;
+  cosigner_empid: string;
+  preferred_language: string;
 }
 
 const initialFormData: EmployeeFormData = {
@@ -83,7 +88,9 @@ const initialFormData: EmployeeFormData = {
   last_name: "",
   title: "",
   role: "doctor",
-  secondary_role: ""
+  secondary_role: "",
+  cosigner_empid: "",
+  preferred_language: ""
 };
 
 export default function EmployeeManagement() {
@@ -108,7 +115,9 @@ export default function EmployeeManagement() {
         method: 'POST',
         body: JSON.stringify({
           ...data,
-          secondary_role: data.secondary_role || null
+          secondary_role: data.secondary_role || null,
+          cosigner_empid: data.cosigner_empid || null,
+          preferred_language: data.preferred_language || null
         })
       });
     },
@@ -133,7 +142,9 @@ export default function EmployeeManagement() {
         method: 'PUT',
         body: JSON.stringify({
           ...data,
-          secondary_role: data.secondary_role || null
+          secondary_role: data.secondary_role || null,
+          cosigner_empid: data.cosigner_empid || null,
+          preferred_language: data.preferred_language || null
         })
       });
     },
@@ -208,7 +219,9 @@ export default function EmployeeManagement() {
       last_name: employee.last_name,
       title: employee.title || "",
       role: employee.role || "doctor",
-      secondary_role: employee.secondary_role || ""
+      secondary_role: employee.secondary_role || "",
+      cosigner_empid: employee.cosigner_empid || "",
+      preferred_language: employee.preferred_language || ""
     });
     setShowEditDialog(true);
   };
@@ -246,7 +259,9 @@ export default function EmployeeManagement() {
         last_name: formData.last_name,
         title: formData.title,
         role: formData.role,
-        secondary_role: formData.secondary_role
+        secondary_role: formData.secondary_role,
+        cosigner_empid: formData.cosigner_empid,
+        preferred_language: formData.preferred_language
       }
     });
   };
@@ -261,6 +276,60 @@ export default function EmployeeManagement() {
     resetPasswordMutation.mutate({ empid: selectedEmployee.empid, new_password: newPassword });
   };
 
+  // Supervising physicians: active employees who can sign notes
+  const cosignerOptions = (excludeEmpid?: string) => employees.filter(emp =>
+    emp.empid !== excludeEmpid &&
+    emp.is_active !== false &&
+    (emp.role === 'doctor' || emp.role === 'org_admin')
+  );
+
+  const getEmployeeName = (empid: string | null) => {
+    const emp = employees.find(e => e.empid === empid);
+    return emp ? `${emp.first_name} ${emp.last_name}` : null;
+  };
+
+  const renderCosignerSelect = (id: string, excludeEmpid?: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Requires co-signature by</Label>
+      <Select
+        value={formData.cosigner_empid || "none"}
+        onValueChange={(value) => setFormData({ ...formData, cosigner_empid: value === "none" ? "" : value })}
+      >
+        <SelectTrigger id={id} data-testid={`select-${id.replace(/_/g, '-')}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Not required</SelectItem>
+          {cosignerOptions(excludeEmpid).map(emp => (
+            <SelectItem key={emp.empid} value={emp.empid}>
+              {emp.first_name} {emp.last_name}{emp.title ? ` (${emp.title})` : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderLanguageSelect = (id: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Dictation language</Label>
+      <Select
+        value={formData.preferred_language || "org_default"}
+        onValueChange={(value) => setFormData({ ...formData, preferred_language: value === "org_default" ? "" : value })}
+      >
+        <SelectTrigger id={id} data-testid={`select-${id.replace(/_/g, '-')}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="org_default">Organization default</SelectItem>
+          {Object.entries(TRANSCRIPTION_LANGUAGES).map(([code, label]) => (
+            <SelectItem key={code} value={code}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   const getRoleBadgeColor = (role: string | null) => {
     switch (role) {
       case 'org_admin': return 'bg-purple-600';
@@ -345,6 +414,11 @@ export default function EmployeeManagement() {
                       @{employee.username}
                       {employee.title && ` • ${employee.title}`}
                     </div>
+                    {employee.cosigner_empid && (
+                      <div className="text-xs text-muted-foreground" data-testid={`text-cosigner-${employee.empid}`}>
+                        Co-signed by {getEmployeeName(employee.cosigner_empid) || 'unknown'}
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
@@ -491,6 +565,8 @@ export default function EmployeeManagement() {
                   </SelectContent>
                 </Select>
               </div>
+              {renderCosignerSelect("cosigner_empid")}
+              {renderLanguageSelect("preferred_language")}
             </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setShowAddDialog(false)}>
@@ -587,6 +663,8 @@ export default function EmployeeManagement() {
                   </SelectContent>
                 </Select>
               </div>
+              {renderCosignerSelect("edit_cosigner_empid", selectedEmployee?.empid)}
+              {renderLanguageSelect("edit_preferred_language")}
             </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setShowEditDialog(false)}>
@@ -0,0 +1,162 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, CheckCircle, Database, Loader2, Play, RefreshCw, SearchCheck } from "lucide-react";
+import { api, type StorageMigrationStatus } from "../lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+export default function LegacyStorageMigration() {
+  const { toast } = useToast();
+
+  const { data: status, isLoading, refetch } = useQuery<StorageMigrationStatus>({
+    queryKey: ['/api/admin/storage-migration'],
+    queryFn: () => api.getStorageMigrationStatus(),
+    // Poll while a run is in progress
+    refetchInterval: (query) => query.state.data?.last_run?.status === 'running' ? 2000 : false
+  });
+
+  const startMutation = useMutation({
+    mutationFn: (dryRun: boolean) => api.startStorageMigration(dryRun),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/storage-migration'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Migration not started",
+        description: error.message || "Please try again",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const run = status?.last_run;
+  const isRunning = run?.status === 'running';
+  const canMigrate = status?.target_driver === 's3' && status.legacy_remaining > 0;
+
+  return (
+    <Card data-testid="card-storage-migration">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Database className="h-5 w-5" style={{ color: '#17a2b8' }} />
+              Legacy Document Storage
+            </CardTitle>
+            <CardDescription>
+              Copy documents still served from Replit Object Storage to S3
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => refetch()}
+            disabled={isLoading}
+            data-testid="button-refresh-storage-migration"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+              <p className="text-sm" data-testid="text-legacy-remaining">
+                {status.legacy_remaining === 0
+                  ? 'All documents are in the current store.'
+                  : `${status.legacy_remaining} document(s) still in Replit Object Storage.`}
+                {status.target_driver !== 's3' && status.legacy_remaining > 0 && (
+                  <span className="block text-muted-foreground" data-testid="text-storage-migration-driver">
+                    BLOB_STORE_DRIVER is {status.target_driver}; set it to s3 to migrate.
+                  </span>
+                )}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => startMutation.mutate(true)}
+                  disabled={isRunning || startMutation.isPending || !canMigrate}
+                  data-testid="button-storage-migration-dry-run"
+                >
+                  <SearchCheck className="h-4 w-4 mr-1" />
+                  Dry Run
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => startMutation.mutate(false)}
+                  disabled={isRunning || startMutation.isPending || !canMigrate}
+                  style={{ backgroundColor: '#17a2b8' }}
+                  data-testid="button-storage-migration-start"
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  Migrate
+                </Button>
+              </div>
+            </div>
+
+            {run && (
+              <div className="border rounded-lg p-3 space-y-3" data-testid="storage-migration-last-run">
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <div className="flex items-center gap-2 text-sm">
+                    {isRunning ? (
+                      <Loader2 className="h-4 w-4 animate-spin" style={{ color: '#17a2b8' }} />
+                    ) : run.status === 'completed' && run.failures.length === 0 ? (
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <AlertTriangle className="h-4 w-4 text-destructive" />
+                    )}
+                    <span className="font-medium">
+                      {run.dry_run ? 'Dry run' : 'Migration'} {run.status}
+                    </span>
+                    <span className="text-muted-foreground">
+                      started {format(new Date(run.started_at), 'MMM d, yyyy h:mm a')}
+                    </span>
+                  </div>
+                  <Badge variant="secondary">
+                    {run.migrated}/{run.total} {run.dry_run ? 'verified' : 'migrated'}
+                  </Badge>
+                </div>
+
+                {isRunning && run.total > 0 && (
+                  <Progress value={(run.processed / run.total) * 100} />
+                )}
+
+                {run.error && (
+                  <p className="text-sm text-destructive">{run.error}</p>
+                )}
+
+                {run.failures.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">{run.failures.length} failed - left on Replit, safe to retry</p>
+                    <div className="max-h-60 overflow-y-auto space-y-1">
+                      {run.failures.map(failure => (
+                        <div
+                          key={failure.document_id}
+                          className="text-xs p-2 rounded bg-muted/50"
+                          data-testid={`storage-migration-failure-${failure.document_id}`}
+                        >
+                          <div className="font-medium">{failure.original_filename}</div>
+                          <div className="text-muted-foreground break-all">{failure.storage_key}</div>
+                          <div className="text-destructive">{failure.error}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useEffect, useRef, useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -14,6 +17,13 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Tooltip,
   TooltipContent,
@@ -28,21 +38,15 @@ import {
   Bot,
   User,
   Sparkles,
-  Type
+  Type,
+  Settings2,
+  AlertTriangle,
+  Check
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface NoteTemplate {
-  id: string;
-  name: string;
-  sections: string[];
-  description: string;
-}
-
-interface QuickPhrase {
-  label: string;
-  text: string;
-}
+import TextLibraryManager from "./TextLibraryManager";
+import { api, type GroundingResult, type GroundingWarning, type NoteTemplate, type QuickPhrase, type SpeakerRoles, type TranscriptSegment } from "@/lib/api";
+import { isEnglishLanguage, languageLabel } from "@shared/schema";
 
 interface MedicalEditorProps {
   value: string;
@@ -52,94 +56,59 @@ interface MedicalEditorProps {
   transcriptionSource?: 'none' | 'auto' | 'manual';
   onTranscriptionSourceChange?: (source: 'none' | 'auto' | 'manual') => void;
   placeholder?: string;
+  interimText?: string; // Live caption not yet final; shown under the editor, not part of value
+  conversation?: { segments: TranscriptSegment[]; speakerRoles: SpeakerRoles }; // Diarized recording, sent to AI format
+  language?: string; // Language the text was dictated in; non-English text can be translated before formatting
+  onReviewPendingChange?: (pending: boolean) => void; // True while AI formatting warnings await acknowledgement
+  visitId?: string; // Visit the note belongs to, so AI format can withhold the patient's details
 }
 
-const NOTE_TEMPLATES: NoteTemplate[] = [
-  {
-    id: 'soap',
-    name: 'SOAP Note',
-    sections: ['SUBJECTIVE', 'OBJECTIVE', 'ASSESSMENT', 'PLAN'],
-    description: 'Standard clinical documentation format'
-  },
-  {
-    id: 'hp',
-    name: 'History & Physical',
-    sections: ['CHIEF COMPLAINT', 'HISTORY OF PRESENT ILLNESS', 'PAST MEDICAL HISTORY', 'MEDICATIONS', 'ALLERGIES', 'REVIEW OF SYSTEMS', 'PHYSICAL EXAMINATION', 'ASSESSMENT', 'PLAN'],
-    description: 'Comprehensive patient evaluation'
-  },
-  {
-    id: 'progress',
-    name: 'Progress Note',
-    sections: ['INTERVAL HISTORY', 'CURRENT MEDICATIONS', 'PHYSICAL EXAM', 'LAB RESULTS', 'ASSESSMENT', 'PLAN'],
-    description: 'Follow-up visit documentation'
-  },
-  {
-    id: 'procedure',
-    name: 'Procedure Note',
-    sections: ['PROCEDURE', 'INDICATION', 'CONSENT', 'ANESTHESIA', 'TECHNIQUE', 'FINDINGS', 'COMPLICATIONS', 'DISPOSITION'],
-    description: 'Procedural documentation'
-  }
-];
-
-const QUICK_PHRASES: QuickPhrase[] = [
-  { label: 'Patient denies...', text: 'Patient denies ' },
-  { label: 'No acute distress', text: 'Patient appears comfortable, in no acute distress. ' },
-  { label: 'Within normal limits', text: 'within normal limits' },
-  { label: 'Vitals stable', text: 'Vital signs are stable. ' },
-  { label: 'Follow up in _ weeks', text: 'Follow up in ___ weeks. ' },
-  { label: 'Return precautions', text: 'Return precautions discussed with patient. Patient verbalized understanding. ' },
-  { label: 'Continue current meds', text: 'Continue current medications as prescribed. ' },
-  { label: 'Labs ordered', text: 'Laboratory tests ordered as indicated. ' },
-  { label: 'Imaging ordered', text: 'Imaging studies ordered as indicated. ' },
-  { label: 'Referral placed', text: 'Referral placed to ___ for further evaluation. ' },
-  { label: 'Patient educated', text: 'Patient educated regarding diagnosis, treatment options, and expected outcomes. ' },
-  { label: 'Risk/benefit discussed', text: 'Risks and benefits of treatment discussed with patient. Patient agrees with plan. ' }
-];
-
-const MEDICAL_ABBREVIATIONS: Record<string, string> = {
-  'htn': 'hypertension',
-  'dm': 'diabetes mellitus',
-  'dm2': 'Type 2 Diabetes Mellitus',
-  'dm1': 'Type 1 Diabetes Mellitus',
-  'cad': 'coronary artery disease',
-  'chf': 'congestive heart failure',
-  'copd': 'chronic obstructive pulmonary disease',
-  'ckd': 'chronic kidney disease',
-  'afib': 'atrial fibrillation',
-  'sob': 'shortness of breath',
-  'cp': 'chest pain',
-  'ha': 'headache',
-  'abd': 'abdominal',
-  'n/v': 'nausea and vomiting',
-  'uri': 'upper respiratory infection',
-  'uti': 'urinary tract infection',
-  'prn': 'as needed',
-  'bid': 'twice daily',
-  'tid': 'three times daily',
-  'qid': 'four times daily',
-  'qd': 'once daily',
-  'po': 'by mouth',
-  'iv': 'intravenous',
-  'hx': 'history',
-  'pmh': 'past medical history',
-  'ros': 'review of systems',
-  'pe': 'physical examination',
-  'vs': 'vital signs',
-  'bp': 'blood pressure',
-  'hr': 'heart rate',
-  'wnl': 'within normal limits',
-  'nad': 'no acute distress',
-  'aox3': 'alert and oriented x3',
-  'heent': 'head, eyes, ears, nose, throat',
-  'rrr': 'regular rate and rhythm',
-  'ctab': 'clear to auscultation bilaterally',
-  'ntnd': 'non-tender, non-distended',
-  'f/u': 'follow up',
-  'rto': 'return to office',
-  'nka': 'no known allergies',
-  'nkda': 'no known drug allergies'
+// Fill-in blank in an expansion or phrase; Tab moves between them
+const PLACEHOLDER = '___';
+
+// After inserting text spanning [start, end), select its first blank to type over, else put the cursor at the end
+function selectInserted(textarea: HTMLTextAreaElement, text: string, start: number, end: number) {
+  setTimeout(() => {
+    const blank = text.indexOf(PLACEHOLDER, start);
+    if (blank !== -1 && blank < end) {
+      textarea.setSelectionRange(blank, blank + PLACEHOLDER.length);
+    } else {
+      textarea.setSelectionRange(end, end);
+    }
+    textarea.focus();
+  }, 0);
+}
+
+const WARNING_KIND_LABELS: Record<GroundingWarning['kind'], string> = {
+  statement: 'Statement',
+  number: 'Number',
+  medication: 'Medication',
+  dose: 'Dose'
 };
 
+type HighlightChunk = { text: string; highlight: 'open' | 'acknowledged' | null };
+
+// The text split around every occurrence of the warnings' excerpts; an unacknowledged warning wins an overlap
+function highlightWarnings(text: string, warnings: GroundingWarning[], acknowledged: Set<string>): HighlightChunk[] {
+  const marks = new Uint8Array(text.length); // 0 none, 1 acknowledged, 2 open
+  for (const warning of warnings) {
+    const mark = acknowledged.has(warning.excerpt) ? 1 : 2;
+    for (let at = text.indexOf(warning.excerpt); at !== -1; at = text.indexOf(warning.excerpt, at + 1)) {
+      for (let i = at; i < at + warning.excerpt.length; i++) marks[i] = Math.max(marks[i], mark);
+    }
+  }
+
+  const chunks: HighlightChunk[] = [];
+  let start = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i === text.length || marks[i] !== marks[start]) {
+      chunks.push({ text: text.slice(start, i), highlight: marks[start] === 2 ? 'open' : marks[start] === 1 ? 'acknowledged' : null });
+      start = i;
+    }
+  }
+  return chunks;
+}
+
 export default function MedicalEditor({
   value,
   onChange,
@@ -147,21 +116,57 @@ export default function MedicalEditor({
   isTranscribing = false,
   transcriptionSource = 'none',
   onTranscriptionSourceChange,
-  placeholder = "Enter clinical notes or use the tools above..."
+  placeholder = "Enter clinical notes or use the tools above...",
+  interimText,
+  conversation,
+  language,
+  onReviewPendingChange,
+  visitId
 }: MedicalEditorProps) {
   const [isFormatting, setIsFormatting] = useState(false);
-  const [selectedTemplate, setSelectedTemplate] = useState<string>('soap');
+  const [translateToEnglish, setTranslateToEnglish] = useState(true);
+  const canTranslate = !isEnglishLanguage(language);
+  const [selectedTemplate, setSelectedTemplate] = useState<string>('');
   const [showAbbreviationHint, setShowAbbreviationHint] = useState<{ word: string; expansion: string } | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [grounding, setGrounding] = useState<GroundingResult | null>(null); // From the last AI format
+  const [acknowledgedExcerpts, setAcknowledgedExcerpts] = useState<Set<string>>(new Set());
+  const [uncheckedAcknowledged, setUncheckedAcknowledged] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
-  // Handle abbreviation expansion
+  // The org's templates, as managed by its admins
+  const { data: templates = [] } = useQuery<NoteTemplate[]>({
+    queryKey: ['/api/medical/templates'],
+    queryFn: () => api.getNoteTemplates()
+  });
+
+  // Start on the org's default, and move off a template that has since been deleted
+  useEffect(() => {
+    if (templates.length > 0 && !templates.some(t => t.template_id === selectedTemplate)) {
+      setSelectedTemplate((templates.find(t => t.is_default) ?? templates[0]).template_id);
+    }
+  }, [templates, selectedTemplate]);
+
+  // Built-in, org and personal libraries merged by the server
+  const { data: abbreviations = {} } = useQuery<Record<string, string>>({
+    queryKey: ['/api/medical/abbreviations'],
+    queryFn: () => api.getAbbreviations()
+  });
+  const { data: quickPhrases = [] } = useQuery<QuickPhrase[]>({
+    queryKey: ['/api/medical/quick-phrases'],
+    queryFn: () => api.getQuickPhrases()
+  });
+
+  // Tab expands a hinted abbreviation, otherwise moves to the next ___ (Shift+Tab: previous)
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (e.key === 'Tab' && showAbbreviationHint) {
-      e.preventDefault();
-      const textarea = textareaRef.current;
-      if (!textarea) return;
+    if (e.key !== 'Tab') return;
+    const textarea = textareaRef.current;
+    if (!textarea) return;
 
+    if (showAbbreviationHint && !e.shiftKey) {
+      e.preventDefault();
       const cursorPos = textarea.selectionStart;
       const textBefore = value.substring(0, cursorPos);
       const textAfter = value.substring(cursorPos);
@@ -170,23 +175,26 @@ export default function MedicalEditor({
       const words = textBefore.split(/\s/);
       const lastWord = words[words.length - 1].toLowerCase();
       
-      if (MEDICAL_ABBREVIATIONS[lastWord]) {
-        const newTextBefore = textBefore.slice(0, -lastWord.length) + MEDICAL_ABBREVIATIONS[lastWord];
+      if (abbreviations[lastWord]) {
+        const wordStart = cursorPos - lastWord.length;
+        const newTextBefore = textBefore.slice(0, -lastWord.length) + abbreviations[lastWord];
         const newValue = newTextBefore + textAfter;
         onChange(newValue);
         onTranscriptionSourceChange?.('manual');
         setShowAbbreviationHint(null);
-        
-        // Set cursor position after the expanded text
-        setTimeout(() => {
-          if (textarea) {
-            textarea.selectionStart = newTextBefore.length;
-            textarea.selectionEnd = newTextBefore.length;
-          }
-        }, 0);
+        selectInserted(textarea, newValue, wordStart, newTextBefore.length);
       }
+      return;
+    }
+
+    const blank = e.shiftKey
+      ? (textarea.selectionStart > 0 ? value.lastIndexOf(PLACEHOLDER, textarea.selectionStart - 1) : -1)
+      : value.indexOf(PLACEHOLDER, textarea.selectionEnd);
+    if (blank !== -1) {
+      e.preventDefault();
+      textarea.setSelectionRange(blank, blank + PLACEHOLDER.length);
     }
-  }, [value, onChange, showAbbreviationHint, onTranscriptionSourceChange]);
+  }, [value, onChange, showAbbreviationHint, abbreviations, onTranscriptionSourceChange]);
 
   // Check for abbreviations as user types
   const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -200,12 +208,12 @@ export default function MedicalEditor({
     const words = textBefore.split(/\s/);
     const lastWord = words[words.length - 1].toLowerCase();
 
-    if (MEDICAL_ABBREVIATIONS[lastWord] && lastWord.length >= 2) {
-      setShowAbbreviationHint({ word: lastWord, expansion: MEDICAL_ABBREVIATIONS[lastWord] });
+    if (abbreviations[lastWord] && lastWord.length >= 2) {
+      setShowAbbreviationHint({ word: lastWord, expansion: abbreviations[lastWord] });
     } else {
       setShowAbbreviationHint(null);
     }
-  }, [onChange, onTranscriptionSourceChange]);
+  }, [onChange, abbreviations, onTranscriptionSourceChange]);
 
   // Insert quick phrase at cursor position
   const insertQuickPhrase = useCallback((text: string) => {
@@ -216,25 +224,16 @@ export default function MedicalEditor({
     const newValue = value.substring(0, cursorPos) + text + value.substring(cursorPos);
     onChange(newValue);
     onTranscriptionSourceChange?.('manual');
-
-    // Set cursor position after the inserted text
-    setTimeout(() => {
-      if (textarea) {
-        const newCursorPos = cursorPos + text.length;
-        textarea.selectionStart = newCursorPos;
-        textarea.selectionEnd = newCursorPos;
-        textarea.focus();
-      }
-    }, 0);
+    selectInserted(textarea, newValue, cursorPos, cursorPos + text.length);
   }, [value, onChange, onTranscriptionSourceChange]);
 
   // Apply empty template structure
   const applyEmptyTemplate = useCallback((templateId: string) => {
-    const template = NOTE_TEMPLATES.find(t => t.id === templateId);
+    const template = templates.find(t => t.template_id === templateId);
     if (!template) return;
 
     // Use plain text section headers (not Markdown) for better textarea display
-    const emptyTemplate = template.sections.map(section => `${section}:\n\n`).join('\n');
+    const emptyTemplate = template.sections.map(section => `${section.name}:\n\n`).join('\n');
     onChange(emptyTemplate);
     onTranscriptionSourceChange?.('manual');
     
@@ -242,7 +241,7 @@ export default function MedicalEditor({
       title: "Template Applied",
       description: `${template.name} structure has been added to your note.`,
     });
-  }, [onChange, onTranscriptionSourceChange, toast]);
+  }, [templates, onChange, onTranscriptionSourceChange, toast]);
 
   // AI-powered auto-format
   const handleAutoFormat = useCallback(async () => {
@@ -257,27 +256,26 @@ export default function MedicalEditor({
 
     setIsFormatting(true);
     try {
-      const response = await fetch('/api/medical/format', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          transcription: value,
-          template: selectedTemplate
-        })
+      const { formattedNote, grounding: groundingResult } = await api.formatNote({
+        transcription: value,
+        template: selectedTemplate,
+        segments: conversation?.segments,
+        speaker_roles: conversation?.speakerRoles,
+        translate_to_english: canTranslate && translateToEnglish,
+        language,
+        visitid: visitId
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to format note');
-      }
-
-      const { formattedNote } = await response.json();
       onChange(formattedNote);
       onTranscriptionSourceChange?.('auto');
+      setGrounding(groundingResult);
+      setAcknowledgedExcerpts(new Set());
+      setUncheckedAcknowledged(false);
 
       toast({
         title: "Note Formatted",
-        description: `Your note has been organized into ${NOTE_TEMPLATES.find(t => t.id === selectedTemplate)?.name} format.`,
+        description: groundingResult.warnings.length > 0
+          ? `Organized into ${templates.find(t => t.template_id === selectedTemplate)?.name} format. ${groundingResult.warnings.length} item(s) not found in the transcript are highlighted for review.`
+          : `Your note has been organized into ${templates.find(t => t.template_id === selectedTemplate)?.name} format.`,
       });
     } catch (error) {
       console.error('Format error:', error);
@@ -289,7 +287,34 @@ export default function MedicalEditor({
     } finally {
       setIsFormatting(false);
     }
-  }, [value, selectedTemplate, onChange, onTranscriptionSourceChange, toast]);
+  }, [value, selectedTemplate, templates, conversation, canTranslate, translateToEnglish, language, onChange, onTranscriptionSourceChange, toast]);
+
+  // A warning whose excerpt has been edited out of the note no longer needs acknowledging
+  const openWarnings = grounding?.warnings.filter(warning => value.includes(warning.excerpt)) ?? [];
+  const unacknowledgedCount = openWarnings.filter(warning => !acknowledgedExcerpts.has(warning.excerpt)).length;
+  const needsUncheckedAcknowledgement = !!grounding && !grounding.checked && !uncheckedAcknowledged && !!value.trim();
+  const reviewPending = unacknowledgedCount > 0 || needsUncheckedAcknowledgement;
+
+  useEffect(() => {
+    onReviewPendingChange?.(reviewPending);
+  }, [reviewPending, onReviewPendingChange]);
+
+  const acknowledgeWarning = (excerpt: string) => {
+    setAcknowledgedExcerpts(prev => new Set(prev).add(excerpt));
+  };
+
+  const acknowledgeAllWarnings = () => {
+    setAcknowledgedExcerpts(new Set(openWarnings.map(warning => warning.excerpt)));
+    setUncheckedAcknowledged(true);
+  };
+
+  const showWarning = (excerpt: string) => {
+    const textarea = textareaRef.current;
+    const at = value.indexOf(excerpt);
+    if (!textarea || at === -1) return;
+    textarea.focus();
+    textarea.setSelectionRange(at, at + excerpt.length);
+  };
 
   // Word count
   const wordCount = value.trim() ? value.trim().split(/\s+/).length : 0;
@@ -306,8 +331,8 @@ export default function MedicalEditor({
               <SelectValue placeholder="Template" />
             </SelectTrigger>
             <SelectContent>
-              {NOTE_TEMPLATES.map(template => (
-                <SelectItem key={template.id} value={template.id}>
+              {templates.map(template => (
+                <SelectItem key={template.template_id} value={template.template_id}>
                   {template.name}
                 </SelectItem>
               ))}
@@ -338,7 +363,7 @@ export default function MedicalEditor({
               variant="default"
               size="sm"
               onClick={handleAutoFormat}
-              disabled={disabled || isTranscribing || isFormatting || !value.trim()}
+              disabled={disabled || isTranscribing || isFormatting || !value.trim() || !selectedTemplate}
               data-testid="button-auto-format"
             >
               {isFormatting ? (
@@ -354,6 +379,27 @@ export default function MedicalEditor({
           </TooltipContent>
         </Tooltip>
 
+        {/* Translation - notes are kept in English for the record */}
+        {canTranslate && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="translate-to-english"
+                  checked={translateToEnglish}
+                  onCheckedChange={setTranslateToEnglish}
+                  disabled={disabled || isTranscribing || isFormatting}
+                  data-testid="switch-translate-to-english"
+                />
+                <Label htmlFor="translate-to-english" className="text-xs">Translate to English</Label>
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              Dictated in {languageLabel(language)} - translate before formatting so the note is in English
+            </TooltipContent>
+          </Tooltip>
+        )}
+
         {/* Quick Insert Dropdown */}
         <Popover>
           <PopoverTrigger asChild>
@@ -370,16 +416,21 @@ export default function MedicalEditor({
           </PopoverTrigger>
           <PopoverContent className="w-64 p-2" align="start">
             <div className="space-y-1 max-h-64 overflow-y-auto">
-              {QUICK_PHRASES.map((phrase, idx) => (
+              {quickPhrases.map((phrase, idx) => (
                 <Button
                   key={idx}
                   variant="ghost"
                   size="sm"
-                  className="w-full justify-start text-xs h-auto py-2"
+                  className="w-full justify-between text-xs h-auto py-2"
                   onClick={() => insertQuickPhrase(phrase.text)}
                   data-testid={`button-quick-phrase-${idx}`}
                 >
-                  {phrase.label}
+                  <span className="truncate">{phrase.label}</span>
+                  {phrase.source !== 'built_in' && (
+                    <Badge variant="outline" className="text-[10px] ml-2">
+                      {phrase.source === 'personal' ? 'Mine' : 'Org'}
+                    </Badge>
+                  )}
                 </Button>
               ))}
             </div>
@@ -402,14 +453,23 @@ export default function MedicalEditor({
             <div className="space-y-2">
               <p className="text-sm font-medium">Type abbreviation + Tab to expand</p>
               <div className="grid grid-cols-2 gap-1 max-h-48 overflow-y-auto text-xs">
-                {Object.entries(MEDICAL_ABBREVIATIONS).slice(0, 20).map(([abbr, full]) => (
+                {Object.entries(abbreviations).map(([abbr, full]) => (
                   <div key={abbr} className="flex gap-1">
                     <Badge variant="secondary" className="font-mono">{abbr}</Badge>
-                    <span className="text-muted-foreground truncate">{full}</span>
+                    <span className="text-muted-foreground truncate" title={full}>{full}</span>
                   </div>
                 ))}
               </div>
-              <p className="text-xs text-muted-foreground">...and {Object.keys(MEDICAL_ABBREVIATIONS).length - 20} more</p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => setIsLibraryOpen(true)}
+                data-testid="button-manage-text-library"
+              >
+                <Settings2 className="h-3 w-3 mr-1" />
+                Manage my abbreviations & phrases
+              </Button>
             </div>
           </PopoverContent>
         </Popover>
@@ -441,13 +501,37 @@ export default function MedicalEditor({
 
       {/* Editor Area */}
       <div className="relative">
+        {/* Highlights drawn behind the (then transparent) textarea, laid out with the same font and padding */}
+        {openWarnings.length > 0 && (
+          <div
+            ref={backdropRef}
+            aria-hidden
+            className="absolute inset-0 overflow-hidden rounded-md border border-transparent bg-background px-3 py-2 font-mono text-sm whitespace-pre-wrap break-words text-transparent pointer-events-none"
+          >
+            {highlightWarnings(value, openWarnings, acknowledgedExcerpts).map((chunk, index) => (
+              chunk.highlight ? (
+                <mark
+                  key={index}
+                  className={chunk.highlight === 'open' ? 'bg-amber-200 dark:bg-amber-800 text-transparent rounded-sm' : 'bg-muted text-transparent rounded-sm'}
+                >
+                  {chunk.text}
+                </mark>
+              ) : (
+                <span key={index}>{chunk.text}</span>
+              )
+            ))}
+          </div>
+        )}
         <Textarea
           ref={textareaRef}
           value={value}
           onChange={handleChange}
           onKeyDown={handleKeyDown}
+          onScroll={(e) => {
+            if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
           placeholder={isTranscribing ? "Transcription in progress..." : placeholder}
-          className="min-h-[200px] font-mono text-sm resize-y"
+          className={`min-h-[200px] font-mono text-sm resize-y ${openWarnings.length > 0 ? 'relative bg-transparent' : ''}`}
           disabled={disabled || isTranscribing || isFormatting}
           data-testid="textarea-medical-editor"
         />
@@ -460,6 +544,106 @@ export default function MedicalEditor({
           </div>
         )}
       </div>
+      {interimText && (
+        <p className="text-sm italic text-muted-foreground px-1" data-testid="text-interim-transcript">
+          {interimText}
+        </p>
+      )}
+
+      {/* Grounding check: what AI formatting wrote that the transcript doesn't support */}
+      {(openWarnings.length > 0 || needsUncheckedAcknowledgement) && (
+        <div className="rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/30 p-3 space-y-2" data-testid="panel-grounding-warnings">
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+              {reviewPending
+                ? 'Check these against the recording before saving'
+                : 'All AI formatting warnings acknowledged'}
+            </div>
+            {reviewPending && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={acknowledgeAllWarnings}
+                data-testid="button-acknowledge-all-warnings"
+              >
+                <Check className="h-3 w-3 mr-1" />
+                Acknowledge all
+              </Button>
+            )}
+          </div>
+
+          {needsUncheckedAcknowledgement && (
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">
+                The note could not be fully checked against the transcript; only numbers were compared.
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setUncheckedAcknowledged(true)}
+                data-testid="button-acknowledge-unchecked"
+              >
+                Acknowledge
+              </Button>
+            </div>
+          )}
+
+          {openWarnings.map((warning, index) => {
+            const isAcknowledged = acknowledgedExcerpts.has(warning.excerpt);
+            return (
+              <div
+                key={`${warning.excerpt}-${index}`}
+                className={`flex items-start justify-between gap-2 text-sm ${isAcknowledged ? 'opacity-60' : ''}`}
+                data-testid={`grounding-warning-${index}`}
+              >
+                <div className="space-y-0.5 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="outline" className="text-xs">{WARNING_KIND_LABELS[warning.kind]}</Badge>
+                    <button
+                      type="button"
+                      className="font-mono text-left bg-amber-200 dark:bg-amber-800 rounded-sm px-1 break-all"
+                      onClick={() => showWarning(warning.excerpt)}
+                      data-testid={`button-show-warning-${index}`}
+                    >
+                      {warning.excerpt}
+                    </button>
+                  </div>
+                  {warning.reason && <p className="text-xs text-muted-foreground">{warning.reason}</p>}
+                </div>
+                {isAcknowledged ? (
+                  <Badge variant="secondary" className="text-xs shrink-0">
+                    <Check className="h-3 w-3 mr-1" />
+                    Acknowledged
+                  </Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="shrink-0"
+                    onClick={() => acknowledgeWarning(warning.excerpt)}
+                    data-testid={`button-acknowledge-warning-${index}`}
+                  >
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isLibraryOpen} onOpenChange={setIsLibraryOpen}>
+        <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>My Abbreviations & Phrases</DialogTitle>
+            <DialogDescription>
+              Shortcuts only you see, alongside the built-in ones and your organization's
+            </DialogDescription>
+          </DialogHeader>
+          <TextLibraryManager scope="personal" />
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,85 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Users } from "lucide-react";
+import SpeakerTranscript from "./SpeakerTranscript";
+import { api, type NoteTranscript, type SpeakerRoles } from "../lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface NoteConversationDialogProps {
+  noteId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  readOnly?: boolean;
+}
+
+export default function NoteConversationDialog({ noteId, open, onOpenChange, readOnly }: NoteConversationDialogProps) {
+  const { toast } = useToast();
+  const queryKey = ['/api/notes', noteId, 'transcript'];
+
+  const { data: transcript, isLoading } = useQuery<NoteTranscript>({
+    queryKey,
+    queryFn: () => api.getNoteTranscript(noteId),
+    enabled: open,
+  });
+
+  const speakersMutation = useMutation({
+    mutationFn: (speakerRoles: SpeakerRoles) => api.updateNoteSpeakers(noteId, speakerRoles),
+    onMutate: (speakerRoles) => {
+      // Show the new names straight away; the server copy replaces them on success
+      queryClient.setQueryData<NoteTranscript>(queryKey, (current) => current && { ...current, speaker_roles: speakerRoles });
+    },
+    onSuccess: ({ speaker_roles }) => {
+      queryClient.setQueryData<NoteTranscript>(queryKey, (current) => current && { ...current, speaker_roles });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Speakers not saved",
+        description: error.message || "Please try again",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" style={{ color: '#17a2b8' }} />
+            Conversation
+          </DialogTitle>
+          <DialogDescription>
+            {readOnly
+              ? 'The recording separated by speaker.'
+              : 'The recording separated by speaker. Name each speaker so AI formatting can tell what the patient reported from what you observed.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+          </div>
+        ) : !transcript || transcript.segments.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4" data-testid="text-no-conversation">
+            This recording wasn't separated by speaker.
+          </p>
+        ) : (
+          <SpeakerTranscript
+            segments={transcript.segments}
+            speakerRoles={transcript.speaker_roles}
+            onSpeakerRolesChange={readOnly ? undefined : (roles) => speakersMutation.mutate(roles)}
+            disabled={speakersMutation.isPending}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { History, Loader2, RotateCcw, User } from "lucide-react";
+import { api, type VisitNoteRevision } from "../lib/api";
+import { diffWords } from "../lib/wordDiff";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+interface NoteRevisionsDialogProps {
+  noteId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: () => void;
+  readOnly?: boolean;
+}
+
+export function RevisionDiff({ before, after }: { before: string; after: string }) {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+  return (
+    <div className="text-sm p-3 bg-muted/50 rounded border whitespace-pre-wrap max-h-64 overflow-y-auto">
+      {parts.map((part, index) => (
+        part.type === 'equal' ? (
+          <span key={index}>{part.text}</span>
+        ) : part.type === 'added' ? (
+          <ins key={index} className="bg-green-200 dark:bg-green-900 no-underline">{part.text}</ins>
+        ) : (
+          <del key={index} className="bg-red-200 dark:bg-red-900">{part.text}</del>
+        )
+      ))}
+    </div>
+  );
+}
+
+export default function NoteRevisionsDialog({ noteId, open, onOpenChange, onRestored, readOnly }: NoteRevisionsDialogProps) {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<VisitNoteRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<VisitNoteRevision | null>(null);
+  const [restoreReason, setRestoreReason] = useState("");
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    try {
+      setRevisions(await api.getNoteRevisions(noteId));
+    } catch (error) {
+      console.error('Failed to load note revisions:', error);
+      toast({
+        title: "Failed to load history",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadRevisions();
+    }
+  }, [open, noteId]);
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+    setIsRestoring(true);
+    try {
+      await api.restoreNoteRevision(noteId, restoreTarget.revision_id, restoreReason.trim() || undefined);
+      toast({ title: "Note restored", description: `Text from before revision ${restoreTarget.revision_number} restored` });
+      setRestoreTarget(null);
+      setRestoreReason("");
+      await loadRevisions();
+      onRestored?.();
+    } catch (error) {
+      toast({
+        title: "Failed to restore note",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" style={{ color: '#17a2b8' }} />
+              Note History
+            </DialogTitle>
+            <DialogDescription>
+              Every change to this note, newest first. Removed words are struck through, added words are highlighted.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4" data-testid="text-no-revisions">
+              This note has not been edited since it was created.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {revisions.map(revision => (
+                <div
+                  key={revision.revision_id}
+                  className="border rounded-lg p-3 space-y-2"
+                  data-testid={`revision-${revision.revision_id}`}
+                >
+                  <div className="flex items-center justify-between flex-wrap gap-2">
+                    <div className="flex items-center gap-2 text-sm flex-wrap">
+                      <Badge variant="outline">Revision {revision.revision_number}</Badge>
+                      <User className="h-4 w-4 text-muted-foreground" />
+                      <span>{revision.author_name || 'Unknown'}</span>
+                      <span className="text-muted-foreground">
+                        {format(new Date(revision.created_at), 'dd/MM/yy HH:mm')}
+                      </span>
+                      {revision.restored_from_revision_id && (
+                        <Badge variant="secondary">Restore</Badge>
+                      )}
+                    </div>
+                    {!readOnly && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRestoreTarget(revision)}
+                        data-testid={`button-restore-revision-${revision.revision_id}`}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore previous text
+                      </Button>
+                    )}
+                  </div>
+                  {revision.reason && (
+                    <p className="text-sm text-muted-foreground italic">Reason: {revision.reason}</p>
+                  )}
+                  <RevisionDiff before={revision.previous_text || ''} after={revision.new_text || ''} />
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={(isOpen) => !isOpen && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore previous text?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The note will be set back to its text from before revision {restoreTarget?.revision_number}.
+              This is recorded as a new revision; no history is lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            value={restoreReason}
+            onChange={(e) => setRestoreReason(e.target.value)}
+            placeholder="Reason (optional)"
+            data-testid="input-restore-reason"
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-restore">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRestore();
+              }}
+              disabled={isRestoring}
+              style={{ backgroundColor: '#17a2b8' }}
+              data-testid="button-confirm-restore"
+            >
+              {isRestoring && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState, useMemo, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitCompare, Loader2 } from "lucide-react";
+import { api, type PatientNoteSection } from "../lib/api";
+import { RevisionDiff } from "./NoteRevisionsDialog";
+import { format } from "date-fns";
+
+interface NoteSectionsCompareDialogProps {
+  patientId: string;
+  noteId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface NoteSections {
+  noteid: string;
+  visit_date: string;
+  sections: PatientNoteSection[];
+}
+
+interface SectionComparison {
+  key: string;
+  heading: string | null;
+  before: string | null; // null = the section isn't in that note
+  after: string | null;
+}
+
+// A note can repeat a heading; its sections with the same key read as one
+const contentFor = (note: NoteSections | undefined, key: string): string | null => {
+  const matching = note?.sections.filter(section => section.section_key === key) ?? [];
+  return matching.length > 0 ? matching.map(section => section.content).join('\n\n') : null;
+};
+
+function compareSections(current: NoteSections, earlier: NoteSections | undefined): SectionComparison[] {
+  const headings = new Map<string, string | null>();
+  for (const section of [...current.sections, ...(earlier?.sections ?? [])]) {
+    if (!headings.has(section.section_key)) headings.set(section.section_key, section.heading);
+  }
+  return Array.from(headings, ([key, heading]) => ({
+    key,
+    heading,
+    before: contentFor(earlier, key),
+    after: contentFor(current, key)
+  }));
+}
+
+const formatVisitDate = (date: string) => format(new Date(date), 'dd/MM/yyyy');
+
+/**
+ * A note compared section by section with another of the patient's notes, by default the
+ * one from the visit before it.
+ */
+export default function NoteSectionsCompareDialog({ patientId, noteId, open, onOpenChange }: NoteSectionsCompareDialogProps) {
+  const [compareNoteId, setCompareNoteId] = useState<string>('');
+
+  const { data: sections = [], isLoading, error } = useQuery<PatientNoteSection[]>({
+    queryKey: ['/api/patients', patientId, 'note-sections'],
+    queryFn: () => api.getPatientNoteSections(patientId),
+    staleTime: 0, // Notes may have been edited since the dialog was last open
+    enabled: open
+  });
+
+  // Newest visit first, as the server orders them
+  const notes = useMemo(() => {
+    const byNote = new Map<string, NoteSections>();
+    for (const section of sections) {
+      const note = byNote.get(section.noteid) ?? { noteid: section.noteid, visit_date: section.visit_date, sections: [] };
+      note.sections.push(section);
+      byNote.set(section.noteid, note);
+    }
+    return Array.from(byNote.values());
+  }, [sections]);
+
+  const currentIndex = notes.findIndex(note => note.noteid === noteId);
+  const current = notes[currentIndex];
+  const otherNotes = notes.filter(note => note.noteid !== noteId);
+
+  useEffect(() => {
+    if (currentIndex === -1 || otherNotes.some(note => note.noteid === compareNoteId)) return;
+    const previous = notes[currentIndex + 1] ?? otherNotes[0];
+    setCompareNoteId(previous?.noteid ?? '');
+  }, [notes, currentIndex, compareNoteId]);
+
+  const earlier = otherNotes.find(note => note.noteid === compareNoteId);
+  const comparisons = current ? compareSections(current, earlier) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" style={{ color: '#17a2b8' }} />
+            Compare Sections
+          </DialogTitle>
+          <DialogDescription>
+            Each section of this note against the same section in another visit's note. Removed words are struck through, added words are highlighted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-destructive text-sm">
+            {error instanceof Error ? error.message : 'Failed to load note sections'}
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+          </div>
+        ) : !current ? (
+          <p className="text-sm text-muted-foreground py-4" data-testid="text-no-sections">
+            This note has no text to compare yet.
+          </p>
+        ) : otherNotes.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4" data-testid="text-no-earlier-notes">
+            This is the patient's only note; there is nothing to compare it with.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="compare-note" className="whitespace-nowrap">Compare with</Label>
+              <Select value={compareNoteId} onValueChange={setCompareNoteId}>
+                <SelectTrigger id="compare-note" className="w-64" data-testid="select-compare-note">
+                  <SelectValue placeholder="Choose a note" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherNotes.map(note => (
+                    <SelectItem key={note.noteid} value={note.noteid}>
+                      Visit of {formatVisitDate(note.visit_date)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">
+                → this note ({formatVisitDate(current.visit_date)})
+              </span>
+            </div>
+
+            {comparisons.map(comparison => (
+              <div key={comparison.key} className="border rounded-lg p-3 space-y-2" data-testid={`section-compare-${comparison.key}`}>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{comparison.heading ?? 'Untitled'}</span>
+                  {comparison.before === null ? (
+                    <Badge variant="secondary">New</Badge>
+                  ) : comparison.after === null ? (
+                    <Badge variant="outline">Not in this note</Badge>
+                  ) : comparison.before === comparison.after ? (
+                    <Badge variant="outline">Unchanged</Badge>
+                  ) : (
+                    <Badge variant="secondary">Changed</Badge>
+                  )}
+                </div>
+                <RevisionDiff before={comparison.before ?? ''} after={comparison.after ?? ''} />
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowDown, ArrowUp, FileText, Loader2, Pencil, Plus, Star, Trash2, X } from "lucide-react";
+import { api, type NoteTemplate, type NoteTemplateInput } from "../lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface SectionDraft {
+  name: string;
+  instructions: string;
+}
+
+interface TemplateDraft {
+  name: string;
+  description: string;
+  sections: SectionDraft[];
+  is_default: boolean;
+}
+
+const emptyDraft: TemplateDraft = {
+  name: "",
+  description: "",
+  sections: [{ name: "", instructions: "" }],
+  is_default: false
+};
+
+const toInput = (draft: TemplateDraft): NoteTemplateInput => ({
+  name: draft.name.trim(),
+  description: draft.description.trim() || null,
+  sections: draft.sections.map(section => ({
+    name: section.name.trim(),
+    instructions: section.instructions.trim() || undefined
+  })),
+  is_default: draft.is_default
+});
+
+/**
+ * Org admin editor for note templates: the sections a note is written in, in
+ * order, with optional guidance for AI formatting of each section.
+ */
+export default function NoteTemplateManager() {
+  const { toast } = useToast();
+  const queryKey = ['/api/medical/templates'];
+
+  const [editingId, setEditingId] = useState<string | null>(null); // null with the dialog open = new template
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft>(emptyDraft);
+
+  const { data: templates = [], isLoading, error } = useQuery<NoteTemplate[]>({
+    queryKey,
+    queryFn: () => api.getNoteTemplates()
+  });
+
+  const onError = (title: string) => (err: any) => {
+    toast({ title, description: err.message || "Please try again", variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => editingId
+      ? api.updateNoteTemplate(editingId, toInput(draft))
+      : api.createNoteTemplate(toInput(draft)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setIsDialogOpen(false);
+      toast({ title: editingId ? "Template updated" : "Template created" });
+    },
+    onError: onError("Template not saved")
+  });
+
+  const makeDefaultMutation = useMutation({
+    mutationFn: (templateId: string) => api.updateNoteTemplate(templateId, { is_default: true }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Default not changed")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (templateId: string) => api.deleteNoteTemplate(templateId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Template not deleted")
+  });
+
+  const openNew = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (template: NoteTemplate) => {
+    setEditingId(template.template_id);
+    setDraft({
+      name: template.name,
+      description: template.description || "",
+      sections: template.sections.map(section => ({ name: section.name, instructions: section.instructions || "" })),
+      is_default: template.is_default
+    });
+    setIsDialogOpen(true);
+  };
+
+  const updateSection = (index: number, updates: Partial<SectionDraft>) => {
+    setDraft(prev => ({
+      ...prev,
+      sections: prev.sections.map((section, i) => i === index ? { ...section, ...updates } : section)
+    }));
+  };
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    setDraft(prev => {
+      const sections = [...prev.sections];
+      [sections[index], sections[index + offset]] = [sections[index + offset], sections[index]];
+      return { ...prev, sections };
+    });
+  };
+
+  const removeSection = (index: number) => {
+    setDraft(prev => ({ ...prev, sections: prev.sections.filter((_, i) => i !== index) }));
+  };
+
+  const sectionNames = draft.sections.map(section => section.name.trim().toUpperCase());
+  const hasDuplicateSections = new Set(sectionNames).size !== sectionNames.length;
+  const canSave = draft.name.trim() !== ""
+    && draft.sections.length > 0
+    && sectionNames.every(name => name !== "")
+    && !hasDuplicateSections;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" style={{ color: '#17a2b8' }} />
+            Note Templates
+          </CardTitle>
+          <CardDescription>
+            Note structures offered in the editor and used when AI formats a note
+          </CardDescription>
+        </div>
+        <Button onClick={openNew} style={{ backgroundColor: '#17a2b8' }} data-testid="button-new-note-template">
+          <Plus className="h-4 w-4 mr-2" />
+          New Template
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-destructive text-sm">
+            {error instanceof Error ? error.message : 'Failed to load note templates'}
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Template</TableHead>
+                <TableHead>Sections</TableHead>
+                <TableHead className="w-36" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map(template => (
+                <TableRow key={template.template_id} data-testid={`row-note-template-${template.template_id}`}>
+                  <TableCell>
+                    <div className="flex items-center gap-2 font-medium">
+                      {template.name}
+                      {template.is_default && <Badge variant="secondary">Default</Badge>}
+                    </div>
+                    {template.description && (
+                      <p className="text-xs text-muted-foreground">{template.description}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {template.sections.map(section => section.name).join(', ')}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      {!template.is_default && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Make default"
+                          onClick={() => makeDefaultMutation.mutate(template.template_id)}
+                          disabled={makeDefaultMutation.isPending}
+                          data-testid={`button-default-note-template-${template.template_id}`}
+                        >
+                          <Star className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Edit"
+                        onClick={() => openEdit(template)}
+                        data-testid={`button-edit-note-template-${template.template_id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete"
+                        onClick={() => deleteMutation.mutate(template.template_id)}
+                        disabled={deleteMutation.isPending || templates.length <= 1}
+                        data-testid={`button-delete-note-template-${template.template_id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Template" : "New Template"}</DialogTitle>
+            <DialogDescription>
+              Sections appear in the note in this order. Instructions tell AI formatting what belongs in a section.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Antenatal Visit"
+                  maxLength={100}
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-description">Description</Label>
+                <Input
+                  id="template-description"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  maxLength={500}
+                  data-testid="input-template-description"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sections</Label>
+              {draft.sections.map((section, index) => (
+                <div key={index} className="rounded-md border p-3 space-y-2" data-testid={`template-section-${index}`}>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={section.name}
+                      onChange={(e) => updateSection(index, { name: e.target.value })}
+                      placeholder="SECTION NAME"
+                      className="uppercase"
+                      maxLength={100}
+                      data-testid={`input-section-name-${index}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveSection(index, -1)}
+                      disabled={index === 0}
+                      data-testid={`button-section-up-${index}`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveSection(index, 1)}
+                      disabled={index === draft.sections.length - 1}
+                      data-testid={`button-section-down-${index}`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeSection(index)}
+                      disabled={draft.sections.length === 1}
+                      data-testid={`button-section-remove-${index}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Textarea
+                    value={section.instructions}
+                    onChange={(e) => updateSection(index, { instructions: e.target.value })}
+                    placeholder="Optional AI instructions, e.g. List each medication with dose and frequency"
+                    className="min-h-[60px] text-sm"
+                    maxLength={1000}
+                    data-testid={`input-section-instructions-${index}`}
+                  />
+                </div>
+              ))}
+              {hasDuplicateSections && (
+                <p className="text-sm text-destructive">Section names must be unique</p>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, sections: [...draft.sections, { name: "", instructions: "" }] })}
+                disabled={draft.sections.length >= 30}
+                data-testid="button-add-template-section"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Section
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="template-default"
+                checked={draft.is_default}
+                onCheckedChange={(checked) => setDraft({ ...draft, is_default: checked })}
+                data-testid="switch-template-default"
+              />
+              <Label htmlFor="template-default">Preselect this template in the editor</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!canSave || saveMutation.isPending}
+              style={{ backgroundColor: '#17a2b8' }}
+              data-testid="button-save-note-template"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import SpeakerTranscript from "./SpeakerTranscript";
+import { api, type NoteTranscript } from "../lib/api";
+
+interface NoteTranscriptPanelProps {
+  noteId: string;
+  currentTime: number | null; // Playback position of this note's audio, null when it isn't playing
+  onSeek: (seconds: number) => void;
+}
+
+/**
+ * The stored transcript of a note's recording, kept in step with playback.
+ * Shares its cache entry with NoteConversationDialog so speaker names stay in sync.
+ */
+export default function NoteTranscriptPanel({ noteId, currentTime, onSeek }: NoteTranscriptPanelProps) {
+  const { data: transcript, isLoading } = useQuery<NoteTranscript>({
+    queryKey: ['/api/notes', noteId, 'transcript'],
+    queryFn: () => api.getNoteTranscript(noteId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin" style={{ color: '#17a2b8' }} />
+      </div>
+    );
+  }
+
+  if (!transcript || transcript.segments.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground italic" data-testid={`text-no-timed-transcript-${noteId}`}>
+        No timed transcript was stored for this recording.
+      </p>
+    );
+  }
+
+  return (
+    <SpeakerTranscript
+      segments={transcript.segments}
+      speakerRoles={transcript.speaker_roles}
+      currentTime={currentTime}
+      onSeek={onSeek}
+    />
+  );
+}
@@ -14,11 +14,17 @@ import {
   Download,
   HardDrive,
   FileDown,
-  Clock
+  Clock,
+  Type
 } from "lucide-react";
 import { api, type LoginResponse } from "../lib/api";
 import { format } from "date-fns";
 import EmployeeManagement from "./EmployeeManagement";
+import AuditLogViewer from "./AuditLogViewer";
+import VocabularyManager from "./VocabularyManager";
+import NoteTemplateManager from "./NoteTemplateManager";
+import TextLibraryManager from "./TextLibraryManager";
+import UsageOverview from "./UsageOverview";
 
 interface OrgAdminDashboardProps {
   loginData: LoginResponse;
@@ -355,6 +361,34 @@ export default function OrgAdminDashboard({ loginData, onSwitchRole }: OrgAdminD
           {/* Employee Management Section */}
           <EmployeeManagement />
 
+          {/* Transcription Vocabulary Section */}
+          <VocabularyManager />
+
+          {/* Note Templates Section */}
+          <NoteTemplateManager />
+
+          {/* Abbreviation & Phrase Library Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Type className="h-5 w-5" style={{ color: '#17a2b8' }} />
+                Abbreviations & Quick Phrases
+              </CardTitle>
+              <CardDescription>
+                Editor shortcuts shared with everyone in the organization
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TextLibraryManager scope="org" />
+            </CardContent>
+          </Card>
+
+          {/* Usage & Quotas Section */}
+          <UsageOverview />
+
+          {/* Audit Log Section */}
+          <AuditLogViewer />
+
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between flex-wrap gap-4">
@@ -0,0 +1,162 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ClipboardList, Loader2 } from "lucide-react";
+import { api, type ClinicalRecordByKind, type ClinicalRecordKind, type ClinicalRecords, type VitalKind } from "../lib/api";
+import { queryClient } from "@/lib/queryClient";
+import ClinicalRecordsReviewDialog, { describeClinicalRecord } from "./ClinicalRecordsReviewDialog";
+import { format } from "date-fns";
+
+interface PatientClinicalHeaderProps {
+  patientId: string;
+  canReview: boolean; // May confirm, edit and delete records
+}
+
+export const clinicalRecordsQueryKey = (patientId: string) => ['/api/patients', patientId, 'clinical-records'];
+
+// Unreviewed records get a dashed outline so they can't be mistaken for confirmed ones
+function RecordBadge<K extends ClinicalRecordKind>({ kind, record, className = '' }: { kind: K; record: ClinicalRecordByKind[K]; className?: string }) {
+  const pending = record.review_status === 'pending';
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs font-normal ${pending ? 'border-dashed text-muted-foreground' : ''} ${className}`}
+      title={`${pending ? 'Extracted by AI, not yet reviewed' : 'Reviewed'} · from the note of ${format(new Date(record.visit_date), 'dd/MM/yyyy')}`}
+      data-testid={`badge-clinical-${record.record_id}`}
+    >
+      {describeClinicalRecord(kind, record)}
+    </Badge>
+  );
+}
+
+function RecordGroup({ title, children, empty }: { title: string; children: ReactNode; empty: boolean }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium uppercase text-muted-foreground">{title}</p>
+      {empty ? (
+        <p className="text-sm text-muted-foreground">None recorded</p>
+      ) : (
+        <div className="flex flex-wrap gap-1">{children}</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The patient's problems, medications, allergies and latest vitals as extracted
+ * from their notes, shown above the visit history. Allergies come first and stand out.
+ */
+export default function PatientClinicalHeader({ patientId, canReview }: PatientClinicalHeaderProps) {
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+
+  const { data: records, isLoading, error } = useQuery<ClinicalRecords>({
+    queryKey: clinicalRecordsQueryKey(patientId),
+    queryFn: () => api.getClinicalRecords(patientId)
+  });
+
+  if (error) {
+    return (
+      <p className="text-destructive text-sm">
+        {error instanceof Error ? error.message : 'Failed to load clinical details'}
+      </p>
+    );
+  }
+  if (isLoading || !records) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" style={{ color: '#17a2b8' }} />
+        Loading clinical details...
+      </div>
+    );
+  }
+
+  const problems = records.problems.filter(problem => problem.status === 'active');
+  const medications = records.medications.filter(medication => medication.status === 'active');
+  // Records come oldest visit first, so the last of each kind is the latest
+  const latestVitals = new Map<VitalKind, ClinicalRecordByKind['vital']>();
+  for (const vital of records.vitals) latestVitals.set(vital.kind, vital);
+
+  const total = records.problems.length + records.medications.length + records.allergies.length + records.vitals.length;
+  const pending = [records.problems, records.medications, records.allergies, records.vitals]
+    .reduce((count, group) => count + group.filter(record => record.review_status === 'pending').length, 0);
+
+  return (
+    <Card data-testid="card-patient-clinical-header">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <ClipboardList className="h-4 w-4" style={{ color: '#17a2b8' }} />
+            Clinical Overview
+            {pending > 0 && (
+              <Badge variant="outline" className="border-dashed text-xs font-normal" data-testid="badge-clinical-pending">
+                {pending} unreviewed
+              </Badge>
+            )}
+          </div>
+          {canReview && total > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setIsReviewOpen(true)} data-testid="button-review-clinical">
+              Review
+            </Button>
+          )}
+        </div>
+
+        {total === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-clinical-records">
+            Nothing extracted yet. Use Extract on a note to pull out its problems, medications, allergies and vitals.
+          </p>
+        ) : (
+          <>
+            <div
+              className={`flex items-start gap-2 rounded-md p-2 ${records.allergies.length > 0 ? 'bg-destructive/10' : 'bg-muted/30'}`}
+              data-testid="clinical-allergies"
+            >
+              <AlertTriangle className={`h-4 w-4 mt-0.5 shrink-0 ${records.allergies.length > 0 ? 'text-destructive' : 'text-muted-foreground'}`} />
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-sm font-medium mr-1">Allergies:</span>
+                {records.allergies.length === 0 ? (
+                  <span className="text-sm text-muted-foreground">None recorded</span>
+                ) : (
+                  records.allergies.map(allergy => (
+                    <RecordBadge
+                      key={allergy.record_id}
+                      kind="allergy"
+                      record={allergy}
+                      className={allergy.review_status === 'confirmed' ? 'border-destructive text-destructive' : ''}
+                    />
+                  ))
+                )}
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <RecordGroup title="Active Problems" empty={problems.length === 0}>
+                {problems.map(problem => <RecordBadge key={problem.record_id} kind="problem" record={problem} />)}
+              </RecordGroup>
+              <RecordGroup title="Medications" empty={medications.length === 0}>
+                {medications.map(medication => <RecordBadge key={medication.record_id} kind="medication" record={medication} />)}
+              </RecordGroup>
+              <RecordGroup title="Latest Vitals" empty={latestVitals.size === 0}>
+                {Array.from(latestVitals.values()).map(vital => <RecordBadge key={vital.record_id} kind="vital" record={vital} />)}
+              </RecordGroup>
+            </div>
+
+            {pending > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Dashed items were extracted by AI and haven't been reviewed yet.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <ClinicalRecordsReviewDialog
+        records={records}
+        open={isReviewOpen}
+        onOpenChange={setIsReviewOpen}
+        onChanged={() => queryClient.invalidateQueries({ queryKey: clinicalRecordsQueryKey(patientId) })}
+      />
+    </Card>
+  );
+}
@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Search, UserPlus, Plus, ArrowUpDown, ArrowUp, ArrowDown, Mic, MicOff, Pencil, Trash2, Loader2 } from "lucide-react";
+import { Search, UserPlus, Plus, ArrowUpDown, ArrowUp, ArrowDown, Mic, MicOff, Pencil, Trash2, Loader2, FileAudio } from "lucide-react";
 import {
   Table,
   TableBody,
@@ -68,6 +68,7 @@ interface PatientSelectorProps {
   onCreateNewPatient: () => void;
   onPatientUpdated?: () => void;
   onPatientDeleted?: () => void;
+  onBatchUpload?: () => void; // Shown to users who can create notes
 }
 
 type SortField = 'mrn' | 'name' | null;
@@ -88,7 +89,8 @@ export default function PatientSelector({
   onSelectPatient, 
   onCreateNewPatient,
   onPatientUpdated,
-  onPatientDeleted
+  onPatientDeleted,
+  onBatchUpload
 }: PatientSelectorProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedGender, setSelectedGender] = useState<string>("");
@@ -255,8 +257,12 @@ export default function PatientSelector({
     
     setIsSubmitting(true);
     try {
-      await api.deletePatient(deletingPatient.patientId);
-      toast({
+      const result = await api.deletePatient(deletingPatient.patientId);
+      toast(result.undeleted_audio?.length ? {
+        title: "Patient deleted",
+        description: `${result.message}. Ask an administrator to remove them.`,
+        variant: "destructive",
+      } : {
         title: "Patient deleted",
         description: `${deletingPatient.firstName} ${deletingPatient.lastName}'s record and all associated data have been permanently deleted.`,
       });
@@ -325,14 +331,26 @@ export default function PatientSelector({
         <CardHeader>
           <CardTitle className="flex items-center justify-between gap-4">
             <span>Select Patient</span>
-            <Button 
-              onClick={onCreateNewPatient}
-              data-testid="button-create-new-patient"
-              style={{ backgroundColor: '#17a2b8' }}
-            >
-              <UserPlus className="h-4 w-4 mr-2" />
-              New Patient
-            </Button>
+            <div className="flex items-center gap-2">
+              {onBatchUpload && (
+                <Button
+                  variant="outline"
+                  onClick={onBatchUpload}
+                  data-testid="button-batch-upload"
+                >
+                  <FileAudio className="h-4 w-4 mr-2" />
+                  Batch Upload
+                </Button>
+              )}
+              <Button 
+                onClick={onCreateNewPatient}
+                data-testid="button-create-new-patient"
+                style={{ backgroundColor: '#17a2b8' }}
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                New Patient
+              </Button>
+            </div>
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Sparkles } from "lucide-react";
+import { api, type PatientSummary, type PatientSummaryCategory } from "../lib/api";
+import { format } from "date-fns";
+
+interface PatientSummaryPanelProps {
+  patientId: string;
+  onShowNote: (noteId: string) => void; // A statement's source was clicked
+}
+
+const CATEGORY_LABELS: Record<PatientSummaryCategory, string> = {
+  problems: 'Problems',
+  medications: 'Medications',
+  allergies: 'Allergies',
+  recent_events: 'Recent Events',
+};
+
+const CATEGORY_ORDER: PatientSummaryCategory[] = ['problems', 'medications', 'allergies', 'recent_events'];
+
+const formatVisitDate = (date: string) => format(new Date(date), 'dd/MM/yyyy');
+
+export const patientSummaryQueryKey = (patientId: string) => ['/api/patients', patientId, 'summary'];
+
+/**
+ * AI summary of the patient's visit notes for catching up before a visit. Every
+ * statement links to the note it came from, so it can be checked against the record.
+ */
+export default function PatientSummaryPanel({ patientId, onShowNote }: PatientSummaryPanelProps) {
+  const { data: summary, isLoading, error } = useQuery<PatientSummary | null>({
+    queryKey: patientSummaryQueryKey(patientId),
+    queryFn: () => api.getPatientSummary(patientId),
+    staleTime: 0 // Cheap while the server's copy is current; notes may have changed elsewhere
+  });
+
+  // No notes yet, so nothing to summarize
+  if (summary === null) return null;
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3 bg-muted/30" data-testid="panel-patient-summary">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Sparkles className="h-4 w-4" style={{ color: '#17a2b8' }} />
+          Patient Summary
+        </div>
+        {summary && (
+          <span className="text-xs text-muted-foreground" data-testid="text-summary-source">
+            AI-generated from {summary.note_count} {summary.note_count === 1 ? 'note' : 'notes'}
+            {summary.notes_omitted > 0 && ` (${summary.notes_omitted} oldest not included)`}
+            {summary.generated_at && ` · ${format(new Date(summary.generated_at), 'dd/MM/yyyy HH:mm')}`}
+          </span>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-destructive text-sm">
+          {error instanceof Error ? error.message : 'Failed to load the patient summary'}
+        </p>
+      ) : isLoading || !summary ? (
+        <div className="flex items-center gap-2 py-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" style={{ color: '#17a2b8' }} />
+          Summarizing the patient's notes...
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {CATEGORY_ORDER.map(category => (
+            <div key={category} className="space-y-1" data-testid={`summary-${category}`}>
+              <p className="text-xs font-medium uppercase text-muted-foreground">{CATEGORY_LABELS[category]}</p>
+              {summary.summary[category].length === 0 ? (
+                <p className="text-sm text-muted-foreground">None documented</p>
+              ) : (
+                <ul className="space-y-1">
+                  {summary.summary[category].map((statement, index) => (
+                    <li key={index} className="text-sm flex items-start justify-between gap-2">
+                      <span>{statement.text}</span>
+                      <Badge
+                        variant="outline"
+                        className="shrink-0 cursor-pointer text-xs"
+                        onClick={() => onShowNote(statement.noteid)}
+                        title="Show the source note"
+                        data-testid={`link-summary-source-${category}-${index}`}
+                      >
+                        {formatVisitDate(statement.visit_date)}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
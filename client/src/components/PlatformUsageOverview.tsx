@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Activity, Loader2, Pencil } from "lucide-react";
+import { api, type PlatformUsage, type UsageMetric } from "../lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { UsageMonthlyChart, QuotaStatusBadge, USAGE_METRIC_LABELS, formatUsage } from "./UsageOverview";
+
+type OrgUsageRow = PlatformUsage['orgs'][number];
+
+type LimitDrafts = Record<UsageMetric, { soft_limit: string; hard_limit: string }>;
+
+const USAGE_METRICS: UsageMetric[] = ['audio_minutes', 'llm_tokens'];
+
+const toDraft = (value: number | null) => value === null ? '' : String(value);
+
+// Blank means no limit
+const toLimit = (value: string): number | null => value.trim() === '' ? null : Number(value);
+
+/**
+ * Super admin view of usage across organizations: platform totals by month,
+ * each org's use this month, and editing of each org's monthly quotas.
+ */
+export default function PlatformUsageOverview() {
+  const { toast } = useToast();
+  const queryKey = ['/api/admin/usage'];
+
+  const [editingOrg, setEditingOrg] = useState<OrgUsageRow | null>(null);
+  const [drafts, setDrafts] = useState<LimitDrafts | null>(null);
+
+  const { data: usage, isLoading, error } = useQuery<PlatformUsage>({
+    queryKey,
+    queryFn: () => api.getPlatformUsage(),
+    staleTime: 60 * 1000
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ orgid, limits }: { orgid: string; limits: LimitDrafts }) => {
+      for (const metric of USAGE_METRICS) {
+        await api.setUsageQuota(orgid, metric, {
+          soft_limit: toLimit(limits[metric].soft_limit),
+          hard_limit: toLimit(limits[metric].hard_limit)
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setEditingOrg(null);
+      toast({ title: "Quotas updated" });
+    },
+    onError: (err: any) => {
+      queryClient.invalidateQueries({ queryKey }); // One metric may have saved before the other failed
+      toast({ title: "Failed to update quotas", description: err.message || "Please try again", variant: "destructive" });
+    }
+  });
+
+  const openEditor = (org: OrgUsageRow) => {
+    const limits = {} as LimitDrafts;
+    for (const metric of USAGE_METRICS) {
+      const quota = org.quotas.find(q => q.metric === metric);
+      limits[metric] = { soft_limit: toDraft(quota?.soft_limit ?? null), hard_limit: toDraft(quota?.hard_limit ?? null) };
+    }
+    setDrafts(limits);
+    setEditingOrg(org);
+  };
+
+  const updateDraft = (metric: UsageMetric, field: 'soft_limit' | 'hard_limit', value: string) => {
+    setDrafts(prev => prev && { ...prev, [metric]: { ...prev[metric], [field]: value } });
+  };
+
+  const draftError = drafts && USAGE_METRICS.some(metric => {
+    const soft = toLimit(drafts[metric].soft_limit);
+    const hard = toLimit(drafts[metric].hard_limit);
+    return [soft, hard].some(limit => limit !== null && (!Number.isInteger(limit) || limit < 0))
+      || (soft !== null && hard !== null && soft > hard);
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" style={{ color: '#17a2b8' }} />
+          Transcription & AI Usage
+        </CardTitle>
+        <CardDescription>
+          Metered usage across all organizations, with each organization's monthly quotas
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-destructive text-sm">
+            {error instanceof Error ? error.message : 'Failed to load usage'}
+          </p>
+        ) : isLoading || !usage ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <UsageMonthlyChart months={usage.months} />
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Organization</TableHead>
+                  {USAGE_METRICS.map(metric => (
+                    <TableHead key={metric}>{USAGE_METRIC_LABELS[metric]} this month</TableHead>
+                  ))}
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {usage.orgs.map(org => (
+                  <TableRow key={org.orgid} data-testid={`row-org-usage-${org.org_number}`}>
+                    <TableCell className="font-medium">{org.org_name}</TableCell>
+                    {USAGE_METRICS.map(metric => {
+                      const quota = org.quotas.find(q => q.metric === metric);
+                      return (
+                        <TableCell key={metric}>
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <span>
+                              {formatUsage(metric, org[metric])}
+                              {quota?.hard_limit != null && (
+                                <span className="text-muted-foreground"> / {formatUsage(metric, quota.hard_limit)}</span>
+                              )}
+                            </span>
+                            {quota && quota.status !== 'ok' && <QuotaStatusBadge status={quota.status} />}
+                          </div>
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => openEditor(org)}
+                        data-testid={`button-edit-quotas-${org.org_number}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingOrg} onOpenChange={open => !open && setEditingOrg(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Monthly Quotas</DialogTitle>
+            <DialogDescription>
+              {editingOrg?.org_name}: past the warning level usage is logged; at the limit transcription or AI requests are refused until next month. Leave blank for no limit.
+            </DialogDescription>
+          </DialogHeader>
+          {drafts && (
+            <div className="space-y-4">
+              {USAGE_METRICS.map(metric => (
+                <div key={metric} className="space-y-2">
+                  <p className="text-sm font-medium">{USAGE_METRIC_LABELS[metric]}</p>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor={`${metric}-soft`} className="text-xs text-muted-foreground">Warning at</Label>
+                      <Input
+                        id={`${metric}-soft`}
+                        type="number"
+                        min={0}
+                        value={drafts[metric].soft_limit}
+                        onChange={e => updateDraft(metric, 'soft_limit', e.target.value)}
+                        data-testid={`input-${metric}-soft`}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`${metric}-hard`} className="text-xs text-muted-foreground">Limit</Label>
+                      <Input
+                        id={`${metric}-hard`}
+                        type="number"
+                        min={0}
+                        value={drafts[metric].hard_limit}
+                        onChange={e => updateDraft(metric, 'hard_limit', e.target.value)}
+                        data-testid={`input-${metric}-hard`}
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+              {draftError && (
+                <p className="text-sm text-destructive">Limits must be whole numbers, with the warning level no higher than the limit.</p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingOrg(null)}>Cancel</Button>
+            <Button
+              onClick={() => editingOrg && drafts && saveMutation.mutate({ orgid: editingOrg.orgid, limits: drafts })}
+              disabled={!!draftError || saveMutation.isPending}
+              style={{ backgroundColor: '#17a2b8' }}
+              data-testid="button-save-quotas"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, PenLine } from "lucide-react";
+import { api, type VisitNote } from "../lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface SignNoteDialogProps {
+  noteId: string;
+  signerName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSigned?: (note: VisitNote) => void;
+}
+
+export default function SignNoteDialog({ noteId, signerName, open, onOpenChange, onSigned }: SignNoteDialogProps) {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPassword("");
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSign = async () => {
+    setIsSigning(true);
+    setError(null);
+    try {
+      const signedNote = await api.signNote(noteId, password);
+      toast({ title: "Note signed", description: "The note is now locked. Further corrections must be added as addenda." });
+      onOpenChange(false);
+      onSigned?.(signedNote);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign note");
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PenLine className="h-5 w-5" style={{ color: '#17a2b8' }} />
+            Sign Note
+          </DialogTitle>
+          <DialogDescription>
+            I, {signerName}, attest that this note is accurate and complete. Once signed the note
+            cannot be edited.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (password) handleSign();
+          }}
+        >
+          <Label htmlFor="sign-note-password">Re-enter your password to sign</Label>
+          <Input
+            id="sign-note-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            data-testid="input-sign-note-password"
+          />
+          {error && (
+            <p className="text-sm text-destructive" data-testid="text-sign-note-error">{error}</p>
+          )}
+        </form>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-sign-note">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSign}
+            disabled={isSigning || !password}
+            style={{ backgroundColor: '#17a2b8' }}
+            data-testid="button-confirm-sign-note"
+          >
+            {isSigning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Sign Note
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,246 @@
+import { useMemo, useRef, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Users } from "lucide-react";
+import type { SpeakerRole, SpeakerRoles, TranscriptSegment, TranscriptWord } from "../lib/api";
+
+// Radix Select can't hold an empty value, so an unnamed speaker gets its own
+const UNNAMED = "unnamed";
+
+// Words the provider was less sure of than this are flagged for review before signing
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+const ROLE_LABELS: Record<SpeakerRole, string> = {
+  doctor: "Doctor",
+  patient: "Patient",
+  attendant: "Attendant",
+  other: "Other",
+};
+
+const ROLE_COLORS: Record<SpeakerRole, string> = {
+  doctor: "#17a2b8",
+  patient: "#6f42c1",
+  attendant: "#fd7e14",
+  other: "#6c757d",
+};
+
+interface SpeakerTranscriptProps {
+  segments: TranscriptSegment[];
+  speakerRoles: SpeakerRoles;
+  onSpeakerRolesChange?: (speakerRoles: SpeakerRoles) => void; // Omit for a read-only view
+  disabled?: boolean;
+  // Playback sync - the word being spoken is highlighted and clicking a sentence seeks to it
+  currentTime?: number | null;
+  onSeek?: (seconds: number) => void;
+}
+
+interface Turn {
+  speaker: number | null;
+  start: number;
+  text: string;
+  sentences: TranscriptWord[][];
+}
+
+export function speakerLabel(speaker: number | null, speakerRoles: SpeakerRoles): string {
+  if (speaker === null) return "Unknown";
+  const role = speakerRoles[String(speaker)];
+  return role ? ROLE_LABELS[role] : `Speaker ${speaker + 1}`;
+}
+
+const formatOffset = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Split timed words into sentences at terminal punctuation
+const toSentences = (words: TranscriptWord[]) => {
+  const sentences: TranscriptWord[][] = [];
+  let current: TranscriptWord[] = [];
+  words.forEach(word => {
+    current.push(word);
+    if (/[.?!]$/.test(word.text)) {
+      sentences.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) sentences.push(current);
+  return sentences;
+};
+
+/**
+ * A diarized recording as a conversation, with a role picker per speaker.
+ * Consecutive segments from the same speaker are shown as one turn. When word
+ * timings are available the transcript follows playback and flags words the
+ * provider wasn't confident about.
+ */
+export default function SpeakerTranscript({
+  segments,
+  speakerRoles,
+  onSpeakerRolesChange,
+  disabled = false,
+  currentTime = null,
+  onSeek
+}: SpeakerTranscriptProps) {
+  const activeWordRef = useRef<HTMLSpanElement | null>(null);
+
+  const speakers = useMemo(() => {
+    const numbers = new Set<number>();
+    segments.forEach(segment => {
+      if (segment.speaker !== null) numbers.add(segment.speaker);
+    });
+    return Array.from(numbers).sort((a, b) => a - b);
+  }, [segments]);
+
+  const turns = useMemo(() => {
+    const merged: (Omit<Turn, 'sentences'> & { words: TranscriptWord[] })[] = [];
+    segments.forEach(segment => {
+      const last = merged[merged.length - 1];
+      if (last && last.speaker === segment.speaker) {
+        last.text += ` ${segment.text}`;
+        last.words.push(...(segment.words || []));
+      } else {
+        merged.push({ speaker: segment.speaker, start: segment.start, text: segment.text, words: [...(segment.words || [])] });
+      }
+    });
+    return merged.map(({ words, ...turn }): Turn => ({ ...turn, sentences: toSentences(words) }));
+  }, [segments]);
+
+  const lowConfidenceCount = useMemo(() => (
+    segments.reduce((count, segment) => (
+      count + (segment.words || []).filter(word => word.confidence < LOW_CONFIDENCE_THRESHOLD).length
+    ), 0)
+  ), [segments]);
+
+  const isActive = (word: TranscriptWord) => (
+    currentTime !== null && currentTime >= word.start && currentTime < word.end
+  );
+  const activeWordKey = useMemo(() => {
+    if (currentTime === null) return null;
+    for (const segment of segments) {
+      const word = segment.words?.find(isActive);
+      if (word) return `${word.start}-${word.text}`;
+    }
+    return null;
+  }, [segments, currentTime]);
+
+  // Keep the spoken word in view inside the scrolling panel
+  useEffect(() => {
+    activeWordRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeWordKey]);
+
+  const handleRoleChange = (speaker: number, value: string) => {
+    const next = { ...speakerRoles };
+    if (value === UNNAMED) {
+      delete next[String(speaker)];
+    } else {
+      next[String(speaker)] = value as SpeakerRole;
+    }
+    onSpeakerRolesChange?.(next);
+  };
+
+  return (
+    <div className="space-y-3" data-testid="speaker-transcript">
+      {onSpeakerRolesChange && speakers.length > 0 && (
+        <div className="flex items-center gap-3 flex-wrap">
+          <Users className="h-4 w-4 text-muted-foreground" />
+          {speakers.map(speaker => (
+            <div key={speaker} className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Speaker {speaker + 1}</span>
+              <Select
+                value={speakerRoles[String(speaker)] || UNNAMED}
+                onValueChange={(value) => handleRoleChange(speaker, value)}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-8 w-[130px]" data-testid={`select-speaker-role-${speaker}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNNAMED}>Not named</SelectItem>
+                  {(Object.keys(ROLE_LABELS) as SpeakerRole[]).map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {lowConfidenceCount > 0 && (
+        <div className="flex items-center gap-2 text-xs text-amber-700 dark:text-amber-400" data-testid="text-low-confidence-count">
+          <AlertTriangle className="h-3 w-3" />
+          <span>
+            {lowConfidenceCount} word{lowConfidenceCount === 1 ? '' : 's'} to double-check (underlined)
+          </span>
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-64 overflow-y-auto p-3 bg-muted/50 rounded border">
+        {turns.map((turn, index) => {
+          const role = turn.speaker !== null ? speakerRoles[String(turn.speaker)] : undefined;
+          return (
+            <div key={index} className="text-sm" data-testid={`speaker-turn-${index}`}>
+              <div className="flex items-center gap-2 mb-0.5">
+                <Badge
+                  variant="outline"
+                  className="text-xs"
+                  style={role ? { borderColor: ROLE_COLORS[role], color: ROLE_COLORS[role] } : undefined}
+                >
+                  {speakerLabel(turn.speaker, speakerRoles)}
+                </Badge>
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground hover:underline disabled:no-underline"
+                  onClick={() => onSeek?.(turn.start)}
+                  disabled={!onSeek}
+                >
+                  {formatOffset(turn.start)}
+                </button>
+              </div>
+              {turn.sentences.length === 0 ? (
+                <p className="whitespace-pre-wrap">{turn.text}</p>
+              ) : (
+                <p>
+                  {turn.sentences.map((sentence, sentenceIndex) => (
+                    <span
+                      key={sentenceIndex}
+                      className={onSeek ? "cursor-pointer rounded hover:bg-muted" : undefined}
+                      onClick={() => onSeek?.(sentence[0].start)}
+                      data-testid={`transcript-sentence-${index}-${sentenceIndex}`}
+                    >
+                      {sentence.map((word, wordIndex) => {
+                        const active = isActive(word);
+                        const lowConfidence = word.confidence < LOW_CONFIDENCE_THRESHOLD;
+                        return (
+                          <span key={wordIndex}>
+                            <span
+                              ref={active ? activeWordRef : undefined}
+                              className={[
+                                active ? 'rounded bg-[#17a2b8]/25' : '',
+                                lowConfidence ? 'underline decoration-wavy decoration-amber-500' : '',
+                              ].join(' ')}
+                              title={lowConfidence ? `Low confidence (${Math.round(word.confidence * 100)}%)` : undefined}
+                            >
+                              {word.text}
+                            </span>{' '}
+                          </span>
+                        );
+                      })}
+                    </span>
+                  ))}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
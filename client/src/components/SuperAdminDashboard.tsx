@@ -20,6 +20,8 @@ import {
 import { api, type LoginResponse } from "../lib/api";
 import AddOrganizationDialog from "./AddOrganizationDialog";
 import EditOrganizationDialog from "./EditOrganizationDialog";
+import LegacyStorageMigration from "./LegacyStorageMigration";
+import PlatformUsageOverview from "./PlatformUsageOverview";
 import { format } from "date-fns";
 
 interface SuperAdminDashboardProps {
@@ -368,6 +370,10 @@ export default function SuperAdminDashboard({ loginData, onSwitchOrg }: SuperAdm
         </CardContent>
       </Card>
 
+      <PlatformUsageOverview />
+
+      <LegacyStorageMigration />
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { api, type TextLibrary, type TextLibraryScope } from "../lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface TextLibraryManagerProps {
+  scope: TextLibraryScope; // personal = the signed-in user's own, org = shared with everyone in the org
+}
+
+/**
+ * Add and remove abbreviations (expanded with Tab) and quick-insert phrases in one
+ * library. ___ in an expansion or phrase is a placeholder Tab jumps to.
+ */
+export default function TextLibraryManager({ scope }: TextLibraryManagerProps) {
+  const { toast } = useToast();
+  const queryKey = ['/api/medical/library', scope];
+
+  const [abbreviation, setAbbreviation] = useState("");
+  const [expansion, setExpansion] = useState("");
+  const [label, setLabel] = useState("");
+  const [phraseText, setPhraseText] = useState("");
+
+  const { data, isLoading, error } = useQuery<TextLibrary>({
+    queryKey,
+    queryFn: () => api.getTextLibrary(scope)
+  });
+  const abbreviations = data?.abbreviations ?? [];
+  const phrases = data?.phrases ?? [];
+
+  // The editor's merged lists change with every library edit
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/medical/abbreviations'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/medical/quick-phrases'] });
+  };
+
+  const onError = (title: string) => (err: any) => {
+    toast({ title, description: err.message || "Please try again", variant: "destructive" });
+  };
+
+  const addAbbreviationMutation = useMutation({
+    mutationFn: () => api.addAbbreviation(scope, { abbreviation: abbreviation.trim(), expansion: expansion.trim() }),
+    onSuccess: () => {
+      invalidate();
+      setAbbreviation("");
+      setExpansion("");
+    },
+    onError: onError("Abbreviation not added")
+  });
+
+  const deleteAbbreviationMutation = useMutation({
+    mutationFn: (abbreviationId: string) => api.deleteAbbreviation(scope, abbreviationId),
+    onSuccess: invalidate,
+    onError: onError("Abbreviation not removed")
+  });
+
+  const addPhraseMutation = useMutation({
+    mutationFn: () => api.addQuickPhrase(scope, { label: label.trim(), text: phraseText }),
+    onSuccess: () => {
+      invalidate();
+      setLabel("");
+      setPhraseText("");
+    },
+    onError: onError("Phrase not added")
+  });
+
+  const deletePhraseMutation = useMutation({
+    mutationFn: (phraseId: string) => api.deleteQuickPhrase(scope, phraseId),
+    onSuccess: invalidate,
+    onError: onError("Phrase not removed")
+  });
+
+  if (error) {
+    return (
+      <p className="text-destructive text-sm">
+        {error instanceof Error ? error.message : 'Failed to load the library'}
+      </p>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <p className="text-xs text-muted-foreground">
+        Use ___ where the text needs filling in; Tab moves between the blanks.
+        {scope === 'personal'
+          ? ' Your entries take precedence over the organization\'s.'
+          : ' Everyone in the organization gets these; their own entries take precedence.'}
+      </p>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">Abbreviations</h4>
+        <div className="grid gap-3 md:grid-cols-[140px_1fr_auto] items-end">
+          <div className="space-y-1">
+            <Label htmlFor={`${scope}-abbreviation`}>Type</Label>
+            <Input
+              id={`${scope}-abbreviation`}
+              value={abbreviation}
+              onChange={(e) => setAbbreviation(e.target.value.replace(/\s/g, ''))}
+              placeholder="e.g. dmfu"
+              maxLength={30}
+              className="font-mono"
+              data-testid={`input-${scope}-abbreviation`}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${scope}-expansion`}>Expands to</Label>
+            <Input
+              id={`${scope}-expansion`}
+              value={expansion}
+              onChange={(e) => setExpansion(e.target.value)}
+              placeholder="e.g. Diabetes follow-up, HbA1c ___ on ___"
+              maxLength={2000}
+              data-testid={`input-${scope}-expansion`}
+            />
+          </div>
+          <Button
+            onClick={() => addAbbreviationMutation.mutate()}
+            disabled={!abbreviation.trim() || !expansion.trim() || addAbbreviationMutation.isPending}
+            style={{ backgroundColor: '#17a2b8' }}
+            data-testid={`button-add-${scope}-abbreviation`}
+          >
+            {addAbbreviationMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Add
+          </Button>
+        </div>
+
+        {abbreviations.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No abbreviations yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Expands to</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {abbreviations.map(item => (
+                <TableRow key={item.abbreviation_id} data-testid={`row-abbreviation-${item.abbreviation_id}`}>
+                  <TableCell>
+                    <Badge variant="secondary" className="font-mono">{item.abbreviation}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{item.expansion}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteAbbreviationMutation.mutate(item.abbreviation_id)}
+                      disabled={deleteAbbreviationMutation.isPending}
+                      data-testid={`button-delete-abbreviation-${item.abbreviation_id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">Quick phrases</h4>
+        <div className="grid gap-3 md:grid-cols-[200px_1fr_auto] items-end">
+          <div className="space-y-1">
+            <Label htmlFor={`${scope}-phrase-label`}>Label</Label>
+            <Input
+              id={`${scope}-phrase-label`}
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Antenatal review"
+              maxLength={100}
+              data-testid={`input-${scope}-phrase-label`}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${scope}-phrase-text`}>Text</Label>
+            <Textarea
+              id={`${scope}-phrase-text`}
+              value={phraseText}
+              onChange={(e) => setPhraseText(e.target.value)}
+              placeholder="e.g. G___P___ at ___ weeks, fetal movements ___. "
+              className="min-h-[40px]"
+              maxLength={2000}
+              data-testid={`input-${scope}-phrase-text`}
+            />
+          </div>
+          <Button
+            onClick={() => addPhraseMutation.mutate()}
+            disabled={!label.trim() || !phraseText.trim() || addPhraseMutation.isPending}
+            style={{ backgroundColor: '#17a2b8' }}
+            data-testid={`button-add-${scope}-phrase`}
+          >
+            {addPhraseMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Add
+          </Button>
+        </div>
+
+        {phrases.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No quick phrases yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Label</TableHead>
+                <TableHead>Text</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {phrases.map(item => (
+                <TableRow key={item.phrase_id} data-testid={`row-phrase-${item.phrase_id}`}>
+                  <TableCell className="font-medium">{item.label}</TableCell>
+                  <TableCell className="text-sm whitespace-pre-wrap">{item.text}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deletePhraseMutation.mutate(item.phrase_id)}
+                      disabled={deletePhraseMutation.isPending}
+                      data-testid={`button-delete-phrase-${item.phrase_id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
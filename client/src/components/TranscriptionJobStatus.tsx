@@ -0,0 +1,106 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Clock, Info, Loader2, RefreshCw } from "lucide-react";
+import { api, type TranscriptionJob } from "../lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface TranscriptionJobStatusProps {
+  noteId: string;
+  job: TranscriptionJob | null; // Latest job as loaded with the visit list
+  canRerun: boolean; // Note has audio, is unsigned and the user may edit notes
+  onFinished?: () => void; // A job finished while shown - reload the note text
+}
+
+const isActive = (job: TranscriptionJob | null | undefined) => job?.status === 'queued' || job?.status === 'running';
+
+/**
+ * Background transcription state of a note's recording, with a button to run it
+ * again. Polls while a job is queued or running.
+ */
+export default function TranscriptionJobStatus({ noteId, job: initialJob, canRerun, onFinished }: TranscriptionJobStatusProps) {
+  const { toast } = useToast();
+  const queryKey = ['/api/notes', noteId, 'transcription-job'];
+
+  const { data } = useQuery<{ job: TranscriptionJob | null }>({
+    queryKey,
+    queryFn: () => api.getTranscriptionJob(noteId),
+    initialData: { job: initialJob },
+    refetchInterval: (query) => isActive(query.state.data?.job) ? 3000 : false
+  });
+  const job = data.job;
+
+  // Tell the parent once a job we watched finishes, so the new text is loaded
+  const wasActive = useRef(isActive(job));
+  useEffect(() => {
+    const active = isActive(job);
+    if (wasActive.current && !active) {
+      queryClient.invalidateQueries({ queryKey: ['/api/notes', noteId, 'transcript'] });
+      onFinished?.();
+    }
+    wasActive.current = active;
+  }, [job, noteId, onFinished]);
+
+  const rerunMutation = useMutation({
+    mutationFn: () => api.retranscribeNote(noteId),
+    onSuccess: ({ job: queued }) => {
+      queryClient.setQueryData(queryKey, { job: queued });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Transcription not started",
+        description: error.message || "Please try again",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const showRerun = canRerun && !isActive(job);
+
+  if (!job && !showRerun) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs flex-wrap" data-testid={`transcription-job-${noteId}`}>
+      {job?.status === 'queued' && (
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Clock className="h-3 w-3" />
+          {job.last_error
+            ? `Transcription failed (attempt ${job.attempts} of ${job.max_attempts}), retrying shortly`
+            : 'Transcription queued'}
+        </span>
+      )}
+      {job?.status === 'running' && (
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Transcribing recording...
+        </span>
+      )}
+      {job?.status === 'failed' && (
+        <span className="flex items-center gap-1 text-destructive" data-testid={`text-transcription-failed-${noteId}`}>
+          <AlertTriangle className="h-3 w-3" />
+          Transcription failed{job.last_error ? `: ${job.last_error}` : ''}
+        </span>
+      )}
+      {job?.status === 'done' && job.text_applied === false && (
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Info className="h-3 w-3" />
+          Transcribed - your note text was kept; the new transcript is under Transcript
+        </span>
+      )}
+      {showRerun && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => rerunMutation.mutate()}
+          disabled={rerunMutation.isPending}
+          data-testid={`button-retranscribe-${noteId}`}
+        >
+          <RefreshCw className={`h-3 w-3 mr-1 ${rerunMutation.isPending ? 'animate-spin' : ''}`} />
+          {job?.status === 'failed' ? 'Retry transcription' : 'Re-transcribe'}
+        </Button>
+      )}
+    </div>
+  );
+}
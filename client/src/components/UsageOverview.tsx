@@ -0,0 +1,177 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Activity, Loader2 } from "lucide-react";
+import { api, type OrgUsage, type UsageFeature, type UsageMetric, type UsageQuotaStatus, type UsageTotals } from "../lib/api";
+import { format } from "date-fns";
+
+export const USAGE_FEATURE_LABELS: Record<UsageFeature, string> = {
+  dictation: 'Dictation',
+  note_transcription: 'Recorded visits',
+  addendum_transcription: 'Addenda',
+  live_captions: 'Live captions',
+  format_note: 'Note formatting',
+  translate: 'Translation',
+  grounding_check: 'Transcript check',
+  patient_summary: 'Patient summaries',
+  clinical_extraction: 'Clinical extraction',
+};
+
+export const USAGE_METRIC_LABELS: Record<UsageMetric, string> = {
+  audio_minutes: 'Audio minutes',
+  llm_tokens: 'AI tokens',
+};
+
+export const formatUsage = (metric: UsageMetric, value: number) =>
+  metric === 'audio_minutes'
+    ? `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} min`
+    : Math.round(value).toLocaleString();
+
+const chartConfig = {
+  audio_minutes: { label: USAGE_METRIC_LABELS.audio_minutes, color: '#17a2b8' },
+  llm_tokens: { label: USAGE_METRIC_LABELS.llm_tokens, color: '#6f42c1' },
+} satisfies ChartConfig;
+
+// Months come as "YYYY-MM"; shown as "Oct 26"
+const monthLabel = (month: string) => format(new Date(`${month}-01T00:00:00`), 'MMM yy');
+
+/**
+ * Monthly totals as two bar charts, one per metric, since minutes and tokens
+ * differ by orders of magnitude.
+ */
+export function UsageMonthlyChart({ months }: { months: (UsageTotals & { month: string })[] }) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {(Object.keys(chartConfig) as UsageMetric[]).map(metric => (
+        <div key={metric} className="space-y-2" data-testid={`chart-usage-${metric}`}>
+          <p className="text-sm font-medium">{USAGE_METRIC_LABELS[metric]} by month</p>
+          <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+            <BarChart data={months} margin={{ left: 4, right: 4 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickFormatter={monthLabel} tickLine={false} axisLine={false} />
+              <YAxis width={48} tickLine={false} axisLine={false} allowDecimals={false} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => monthLabel(payload[0]?.payload.month ?? '')} />}
+              />
+              <Bar dataKey={metric} fill={`var(--color-${metric})`} radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function QuotaStatusBadge({ status }: { status: UsageQuotaStatus['status'] }) {
+  switch (status) {
+    case 'hard_limit':
+      return <Badge variant="destructive">Limit reached</Badge>;
+    case 'soft_limit':
+      return <Badge className="bg-amber-500 hover:bg-amber-500">Near limit</Badge>;
+    default:
+      return <Badge variant="outline">Within quota</Badge>;
+  }
+}
+
+// This month's use of one metric against its quota; without a hard limit there's nothing to fill the bar against
+function QuotaMeter({ quota }: { quota: UsageQuotaStatus }) {
+  const limit = quota.hard_limit ?? quota.soft_limit;
+  return (
+    <div className="space-y-2" data-testid={`quota-${quota.metric}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">{USAGE_METRIC_LABELS[quota.metric]}</span>
+        <QuotaStatusBadge status={quota.status} />
+      </div>
+      {limit !== null && <Progress value={Math.min(100, (quota.used / limit) * 100)} />}
+      <p className="text-xs text-muted-foreground">
+        {formatUsage(quota.metric, quota.used)} used this month
+        {quota.soft_limit !== null && ` · warning at ${formatUsage(quota.metric, quota.soft_limit)}`}
+        {quota.hard_limit !== null ? ` · limit ${formatUsage(quota.metric, quota.hard_limit)}` : ' · no limit'}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Org admin view of the organization's transcription and AI usage: monthly
+ * totals, this month's quota standing and which features the usage came from.
+ */
+export default function UsageOverview() {
+  const { data: usage, isLoading, error } = useQuery<OrgUsage>({
+    queryKey: ['/api/usage'],
+    queryFn: () => api.getOrgUsage(),
+    staleTime: 60 * 1000 // Usage grows with every transcription
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" style={{ color: '#17a2b8' }} />
+          Transcription & AI Usage
+        </CardTitle>
+        <CardDescription>
+          Audio transcribed and AI tokens used by your organization. Quotas reset at the start of each month (UTC).
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-destructive text-sm">
+            {error instanceof Error ? error.message : 'Failed to load usage'}
+          </p>
+        ) : isLoading || !usage ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              {usage.quotas.map(quota => <QuotaMeter key={quota.metric} quota={quota} />)}
+            </div>
+
+            <UsageMonthlyChart months={usage.months} />
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">This month by feature</h4>
+              {usage.features.length === 0 ? (
+                <p className="text-sm text-muted-foreground" data-testid="text-no-usage">
+                  Nothing has been transcribed or sent to AI this month.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Feature</TableHead>
+                      <TableHead className="text-right">{USAGE_METRIC_LABELS.audio_minutes}</TableHead>
+                      <TableHead className="text-right">{USAGE_METRIC_LABELS.llm_tokens}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.features.map(row => (
+                      <TableRow key={row.feature} data-testid={`row-usage-${row.feature}`}>
+                        <TableCell>{USAGE_FEATURE_LABELS[row.feature]}</TableCell>
+                        <TableCell className="text-right">{row.audio_minutes ? formatUsage('audio_minutes', row.audio_minutes) : '—'}</TableCell>
+                        <TableCell className="text-right">{row.llm_tokens ? formatUsage('llm_tokens', row.llm_tokens) : '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,44 @@
 import { useState, useRef, useEffect, useMemo } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Clock, FileText, Play, Pause, User, Bot, Monitor, Smartphone, Tablet, Globe, Paperclip } from "lucide-react";
+import { Calendar, Clock, FileText, Play, Pause, User, Bot, Monitor, Smartphone, Tablet, Globe, Paperclip, History, Pencil, PenLine, Lock, FilePlus, Users, AlignLeft, GitCompare, ClipboardList, Loader2 } from "lucide-react";
+import { isEnglishLanguage, languageLabel } from "@shared/schema";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import VisitDocuments from "./VisitDocuments";
+import NoteRevisionsDialog from "./NoteRevisionsDialog";
+import NoteSectionsCompareDialog from "./NoteSectionsCompareDialog";
+import EditNoteDialog from "./EditNoteDialog";
+import SignNoteDialog from "./SignNoteDialog";
+import AddAddendumDialog from "./AddAddendumDialog";
+import NoteConversationDialog from "./NoteConversationDialog";
+import NoteTranscriptPanel from "./NoteTranscriptPanel";
+import TranscriptionJobStatus from "./TranscriptionJobStatus";
+import PatientSummaryPanel, { patientSummaryQueryKey } from "./PatientSummaryPanel";
+import { clinicalRecordsQueryKey } from "./PatientClinicalHeader";
+import { api, type ClinicalRecords, type TranscriptionJob } from "../lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CosignReview {
+  reviewId: string;
+  reviewerName: string;
+  action: 'approved' | 'returned';
+  comment?: string;
+  createdAt: string;
+}
+
+interface NoteAddendum {
+  addendumId: string;
+  authorName: string;
+  authorTitle?: string;
+  text: string;
+  createdAt: string;
+  hasAudio: boolean;
+  aiTranscribed?: boolean;
+}
 
 interface VisitNote {
   noteId: string;
@@ -15,20 +48,29 @@ interface VisitNote {
   transcriptionText?: string;
   isTranscriptionEdited: boolean;
   aiTranscribed?: boolean;
+  detectedLanguage?: string; // Reported by the transcription service
   createdAt: string;
-  audioData?: string;
   // Device/Browser tracking fields
   sessionId?: string;
   deviceType?: string;
   browserName?: string;
   ipAddress?: string;
   userAgent?: string;
+  // Signature - signed notes are read-only
+  signedAt?: string;
+  signatureName?: string;
+  signatureTitle?: string;
+  cosignStatus?: 'pending' | 'approved' | 'returned';
+  cosignReviews?: CosignReview[];
+  addenda?: NoteAddendum[];
+  transcriptionJob?: TranscriptionJob | null;
 }
 
 interface Visit {
   visitId: string;
   visitDate: string;
   visitPurpose?: string;
+  employeeId?: string;
   employeeName: string;
   employeeTitle: string;
   notes: VisitNote[];
@@ -37,15 +79,21 @@ interface Visit {
 
 interface VisitHistoryProps {
   visits: Visit[];
-  onPlayAudio: (noteId: string) => void;
+  onPlayAudio?: (noteId: string) => void; // Notified when playback of a note starts
   onViewNote: (noteId: string) => void;
+  onNotesChanged?: () => void;
+  canEditNotes?: boolean;
+  // Set when the current user may sign; only notes on their own visits can be signed
+  signer?: { empid: string; name: string };
   patientName: string;
+  patientId?: string; // Enables the patient summary and comparing a note's sections with other visits
 }
 
 interface FlatNote extends VisitNote {
   visitId: string;
   visitDate: string;
   visitPurpose?: string;
+  employeeId?: string;
   employeeName: string;
   employeeTitle: string;
   documentCount?: number;
@@ -63,8 +111,18 @@ interface VisitOnlyEntry {
 
 type HistoryEntry = (FlatNote & { type: 'note' }) | VisitOnlyEntry;
 
-export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientName }: VisitHistoryProps) {
+export default function VisitHistory({ visits, onPlayAudio, onViewNote, onNotesChanged, canEditNotes = false, signer, patientName, patientId }: VisitHistoryProps) {
+  const { toast } = useToast();
   const [playingNoteId, setPlayingNoteId] = useState<string | null>(null);
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null);
+  const [compareNoteId, setCompareNoteId] = useState<string | null>(null);
+  const [editingNote, setEditingNote] = useState<FlatNote | null>(null);
+  const [signingNoteId, setSigningNoteId] = useState<string | null>(null);
+  const [addendumNoteId, setAddendumNoteId] = useState<string | null>(null);
+  const [conversationNoteId, setConversationNoteId] = useState<string | null>(null);
+  const [transcriptNoteId, setTranscriptNoteId] = useState<string | null>(null);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const [highlightedNoteId, setHighlightedNoteId] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const audioUrlRef = useRef<string | null>(null);
 
@@ -82,6 +140,7 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
             visitId: visit.visitId,
             visitDate: visit.visitDate,
             visitPurpose: visit.visitPurpose,
+            employeeId: visit.employeeId,
             employeeName: visit.employeeName,
             employeeTitle: visit.employeeTitle,
             documentCount: visit.documentCount
@@ -115,6 +174,43 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
     return entries;
   }, [visits]);
 
+  // The server drops its summary when a note changes; refetch so the panel picks up the new one
+  const handleNotesChanged = () => {
+    if (patientId) queryClient.invalidateQueries({ queryKey: patientSummaryQueryKey(patientId) });
+    onNotesChanged?.();
+  };
+
+  // Extraction replaces the note's unreviewed records, so the header gets the patient's full set back
+  const extractMutation = useMutation({
+    mutationFn: (noteId: string) => api.extractClinicalRecords(noteId),
+    onSuccess: (records: ClinicalRecords, noteId) => {
+      if (patientId) queryClient.setQueryData(clinicalRecordsQueryKey(patientId), records);
+      const found = [records.problems, records.medications, records.allergies, records.vitals]
+        .reduce((count, group) => count + group.filter(record => record.noteid === noteId && record.review_status === 'pending').length, 0);
+      toast({
+        title: found > 0 ? "Clinical details extracted" : "Nothing new found",
+        description: found > 0
+          ? `${found} ${found === 1 ? 'item' : 'items'} from this note to review in the clinical overview`
+          : "No problems, medications, allergies or vitals awaiting review in this note"
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Extraction failed", description: error.message || "Please try again", variant: "destructive" });
+    }
+  });
+
+  // Bring a summary statement's source note into view and mark it briefly
+  const showNote = (noteId: string) => {
+    document.getElementById(`note-entry-${noteId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setHighlightedNoteId(noteId);
+  };
+
+  useEffect(() => {
+    if (!highlightedNoteId) return;
+    const timeout = setTimeout(() => setHighlightedNoteId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedNoteId]);
+
   // Cleanup audio on unmount
   useEffect(() => {
     return () => {
@@ -186,13 +282,21 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
     return `${day}/${month}/${year} at ${time}`;
   };
 
-  const handlePlayPause = async (note: FlatNote) => {
+  // startAt comes from clicking a sentence in the transcript: seek if this note is
+  // already playing, otherwise start playback from there
+  const handlePlayPause = async (note: FlatNote, startAt?: number) => {
     const noteId = note.noteId;
 
-    // If currently playing this note, pause it
     if (playingNoteId === noteId && audioRef.current) {
+      if (startAt !== undefined) {
+        audioRef.current.currentTime = startAt;
+        setPlaybackTime(startAt);
+        return;
+      }
+      // If currently playing this note, pause it
       audioRef.current.pause();
       setPlayingNoteId(null);
+      setPlaybackTime(null);
       return;
     }
 
@@ -210,25 +314,11 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
       audioUrlRef.current = null;
     }
 
-    // Check if note has audio data
-    if (!note.audioData) {
-      // Trigger the parent's onPlayAudio to fetch the audio
-      onPlayAudio(noteId);
-      return;
-    }
-
     try {
-      // iOS fix: Convert base64 to blob, then use blob URL with <source> tag
-      // Data URLs have size/memory issues on iOS
+      // iOS fix: Fetch the recording as a blob, then use blob URL with <source> tag
       // Blob URLs work when using <source> tag (not .src property)
-      const base64Data = note.audioData;
-      
-      // Decode base64 to binary
-      const binaryString = atob(base64Data);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
+      const fetched = await api.getNoteAudio(noteId);
+      const bytes = new Uint8Array(await fetched.arrayBuffer());
       
       // Detect actual MIME type from bytes (stored MIME type may be wrong)
       const storedMimeType = note.audioMimeType || 'audio/mp4';
@@ -260,8 +350,16 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
       
       audioRef.current = audio;
 
+      audio.ontimeupdate = () => setPlaybackTime(audio.currentTime);
+      if (startAt !== undefined) {
+        audio.addEventListener('loadedmetadata', () => {
+          audio.currentTime = startAt;
+        }, { once: true });
+      }
+
       audio.onended = () => {
         setPlayingNoteId(null);
+        setPlaybackTime(null);
         if (audioUrlRef.current) {
           URL.revokeObjectURL(audioUrlRef.current);
           audioUrlRef.current = null;
@@ -275,6 +373,7 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
       audio.onerror = (e) => {
         console.error('Audio error:', e);
         setPlayingNoteId(null);
+        setPlaybackTime(null);
         if (audioUrlRef.current) {
           URL.revokeObjectURL(audioUrlRef.current);
           audioUrlRef.current = null;
@@ -299,12 +398,83 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
       // Trigger load
       audio.load();
       setPlayingNoteId(noteId);
+      setPlaybackTime(startAt ?? 0);
+      setTranscriptNoteId(noteId);
+      onPlayAudio?.(noteId);
     } catch (error) {
       console.error('Error playing audio:', error);
       setPlayingNoteId(null);
     }
   };
 
+  // Addendum audio isn't embedded in the visit list, so fetch it on demand
+  const handlePlayAddendum = async (addendumId: string) => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      if (audioRef.current.parentNode) {
+        audioRef.current.parentNode.removeChild(audioRef.current);
+      }
+      audioRef.current = null;
+    }
+    if (audioUrlRef.current) {
+      URL.revokeObjectURL(audioUrlRef.current);
+      audioUrlRef.current = null;
+    }
+    if (playingNoteId === addendumId) {
+      setPlayingNoteId(null);
+      return;
+    }
+
+    try {
+      const fetched = await api.getAddendumAudio(addendumId);
+      const bytes = new Uint8Array(await fetched.arrayBuffer());
+      const mimeType = detectAudioFormat(bytes);
+      const blobUrl = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+      audioUrlRef.current = blobUrl;
+
+      // Same <source>-in-DOM approach as note playback (required for iOS)
+      const audio = document.createElement('audio');
+      audio.setAttribute('playsinline', 'true');
+      audio.style.display = 'none';
+      const source = document.createElement('source');
+      source.type = mimeType;
+      source.src = blobUrl;
+      audio.appendChild(source);
+      document.body.appendChild(audio);
+      audioRef.current = audio;
+
+      const cleanup = () => {
+        setPlayingNoteId(null);
+        if (audioUrlRef.current) {
+          URL.revokeObjectURL(audioUrlRef.current);
+          audioUrlRef.current = null;
+        }
+        if (audio.parentNode) {
+          audio.parentNode.removeChild(audio);
+        }
+      };
+      audio.onended = cleanup;
+      audio.onerror = (e) => {
+        console.error('Addendum audio error:', e);
+        cleanup();
+      };
+      audio.addEventListener('loadstart', async () => {
+        try {
+          await audio.play();
+        } catch (playError) {
+          console.error('Play error:', playError);
+          setPlayingNoteId(null);
+        }
+      });
+
+      audio.load();
+      setPlayingNoteId(addendumId);
+    } catch (error) {
+      console.error('Error playing addendum audio:', error);
+      setPlayingNoteId(null);
+    }
+  };
+
   return (
     <Card data-testid="card-visit-history">
       <CardHeader>
@@ -322,6 +492,10 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
           </div>
         ) : (
           <div className="space-y-4">
+            {patientId && historyEntries.some(entry => entry.type === 'note') && (
+              <PatientSummaryPanel patientId={patientId} onShowNote={showNote} />
+            )}
+
             {historyEntries.map((entry) => (
               entry.type === 'visit-only' ? (
                 // Visit-only entry (has documents but no notes)
@@ -391,7 +565,8 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
                 // Note entry
                 <div 
                   key={entry.noteId} 
-                  className="border rounded-lg p-4 space-y-3"
+                  id={`note-entry-${entry.noteId}`}
+                  className={`border rounded-lg p-4 space-y-3 scroll-mt-4 transition-shadow ${highlightedNoteId === entry.noteId ? 'ring-2 ring-[#17a2b8]' : ''}`}
                   data-testid={`note-${entry.noteId}`}
                 >
                   {/* Note Header with Date/Time */}
@@ -418,9 +593,39 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
                           AI
                         </Badge>
                       )}
+                      {!isEnglishLanguage(entry.detectedLanguage) && (
+                        <Badge variant="outline" className="text-xs" data-testid={`badge-language-${entry.noteId}`}>
+                          {languageLabel(entry.detectedLanguage)}
+                        </Badge>
+                      )}
                       {entry.isTranscriptionEdited && (
                         <Badge variant="secondary" className="text-xs">Edited</Badge>
                       )}
+                      {entry.signedAt ? (
+                        <Badge className="text-xs bg-[#17a2b8] text-white" data-testid={`badge-signed-${entry.noteId}`}>
+                          <Lock className="h-3 w-3 mr-1" />
+                          Signed
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs" data-testid={`badge-unsigned-${entry.noteId}`}>
+                          Unsigned
+                        </Badge>
+                      )}
+                      {entry.cosignStatus === 'pending' && (
+                        <Badge variant="outline" className="text-xs" data-testid={`badge-cosign-pending-${entry.noteId}`}>
+                          Awaiting co-signature
+                        </Badge>
+                      )}
+                      {entry.cosignStatus === 'approved' && (
+                        <Badge variant="secondary" className="text-xs" data-testid={`badge-cosigned-${entry.noteId}`}>
+                          Co-signed
+                        </Badge>
+                      )}
+                      {entry.cosignStatus === 'returned' && (
+                        <Badge variant="destructive" className="text-xs" data-testid={`badge-cosign-returned-${entry.noteId}`}>
+                          Returned
+                        </Badge>
+                      )}
                     </div>
                   </div>
 
@@ -525,12 +730,38 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
                           </>
                         )}
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setTranscriptNoteId(transcriptNoteId === entry.noteId ? null : entry.noteId)}
+                        data-testid={`button-toggle-transcript-${entry.noteId}`}
+                      >
+                        <AlignLeft className="h-4 w-4 mr-1" />
+                        {transcriptNoteId === entry.noteId ? 'Hide Transcript' : 'Transcript'}
+                      </Button>
                       <span className="text-xs text-muted-foreground">
                         {entry.audioFilename}
                       </span>
                     </div>
                   )}
 
+                  {entry.audioFilename && (
+                    <TranscriptionJobStatus
+                      noteId={entry.noteId}
+                      job={entry.transcriptionJob ?? null}
+                      canRerun={canEditNotes && !entry.signedAt}
+                      onFinished={handleNotesChanged}
+                    />
+                  )}
+
+                  {entry.audioFilename && transcriptNoteId === entry.noteId && (
+                    <NoteTranscriptPanel
+                      noteId={entry.noteId}
+                      currentTime={playingNoteId === entry.noteId ? playbackTime : null}
+                      onSeek={(seconds) => handlePlayPause(entry, seconds)}
+                    />
+                  )}
+
                   {/* Transcription */}
                   <div className="space-y-2">
                     <div className="text-sm font-medium">Transcription:</div>
@@ -544,23 +775,213 @@ export default function VisitHistory({ visits, onPlayAudio, onViewNote, patientN
                         </span>
                       )}
                     </div>
+                    {entry.signedAt && (
+                      <p className="text-xs text-muted-foreground" data-testid={`text-signature-${entry.noteId}`}>
+                        Signed by {entry.signatureName}{entry.signatureTitle ? ` (${entry.signatureTitle})` : ''} on {formatNoteDateTime(entry.signedAt)}
+                      </p>
+                    )}
+                    {entry.cosignReviews?.map(review => (
+                      <p
+                        key={review.reviewId}
+                        className={`text-xs ${review.action === 'returned' ? 'text-destructive' : 'text-muted-foreground'}`}
+                        data-testid={`text-cosign-review-${review.reviewId}`}
+                      >
+                        {review.action === 'approved' ? 'Co-signed' : 'Returned'} by {review.reviewerName} on {formatNoteDateTime(review.createdAt)}
+                        {review.comment && `: "${review.comment}"`}
+                      </p>
+                    ))}
                   </div>
 
-                  {/* View Full Note Button */}
-                  <Button 
-                    variant="ghost" 
-                    size="sm"
-                    onClick={() => onViewNote(entry.noteId)}
-                    data-testid={`button-view-note-${entry.noteId}`}
-                  >
-                    View Full Note
-                  </Button>
+                  {/* Addenda - threaded under the note, oldest first */}
+                  {entry.addenda && entry.addenda.length > 0 && (
+                    <div className="space-y-2 ml-4 pl-3 border-l-2" style={{ borderColor: '#17a2b8' }}>
+                      {entry.addenda.map((addendum, index) => (
+                        <div key={addendum.addendumId} className="space-y-1" data-testid={`addendum-${addendum.addendumId}`}>
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap">
+                            <span className="font-medium text-foreground">Addendum {index + 1}</span>
+                            <span>•</span>
+                            <span>{addendum.authorName}{addendum.authorTitle ? ` (${addendum.authorTitle})` : ''}</span>
+                            <span>•</span>
+                            <span>{formatNoteDateTime(addendum.createdAt)}</span>
+                            {addendum.aiTranscribed && (
+                              <Badge variant="secondary" className="text-xs">
+                                <Bot className="h-3 w-3 mr-1" />
+                                AI
+                              </Badge>
+                            )}
+                            {addendum.hasAudio && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2"
+                                onClick={() => handlePlayAddendum(addendum.addendumId)}
+                                data-testid={`button-play-addendum-${addendum.addendumId}`}
+                              >
+                                {playingNoteId === addendum.addendumId ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+                              </Button>
+                            )}
+                          </div>
+                          <div className="text-sm whitespace-pre-wrap" data-testid={`text-addendum-${addendum.addendumId}`}>
+                            {addendum.text}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Note Actions */}
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Button 
+                      variant="ghost" 
+                      size="sm"
+                      onClick={() => onViewNote(entry.noteId)}
+                      data-testid={`button-view-note-${entry.noteId}`}
+                    >
+                      View Full Note
+                    </Button>
+                    {canEditNotes && !entry.signedAt && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingNote(entry)}
+                        data-testid={`button-edit-note-${entry.noteId}`}
+                      >
+                        <Pencil className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryNoteId(entry.noteId)}
+                      data-testid={`button-note-history-${entry.noteId}`}
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      History
+                    </Button>
+                    {patientId && entry.transcriptionText && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCompareNoteId(entry.noteId)}
+                        data-testid={`button-compare-sections-${entry.noteId}`}
+                      >
+                        <GitCompare className="h-4 w-4 mr-1" />
+                        Compare
+                      </Button>
+                    )}
+                    {entry.audioFilename && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setConversationNoteId(entry.noteId)}
+                        data-testid={`button-note-conversation-${entry.noteId}`}
+                      >
+                        <Users className="h-4 w-4 mr-1" />
+                        Speakers
+                      </Button>
+                    )}
+                    {canEditNotes && patientId && entry.transcriptionText && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => extractMutation.mutate(entry.noteId)}
+                        disabled={extractMutation.isPending}
+                        title="Extract problems, medications, allergies and vitals for review"
+                        data-testid={`button-extract-clinical-${entry.noteId}`}
+                      >
+                        {extractMutation.isPending && extractMutation.variables === entry.noteId
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <ClipboardList className="h-4 w-4 mr-1" />}
+                        Extract
+                      </Button>
+                    )}
+                    {signer && !entry.signedAt && entry.employeeId === signer.empid && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSigningNoteId(entry.noteId)}
+                        data-testid={`button-sign-note-${entry.noteId}`}
+                      >
+                        <PenLine className="h-4 w-4 mr-1" />
+                        Sign
+                      </Button>
+                    )}
+                    {canEditNotes && entry.signedAt && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setAddendumNoteId(entry.noteId)}
+                        data-testid={`button-add-addendum-${entry.noteId}`}
+                      >
+                        <FilePlus className="h-4 w-4 mr-1" />
+                        Add Addendum
+                      </Button>
+                    )}
+                  </div>
                 </div>
               )
             ))}
           </div>
         )}
       </CardContent>
+
+      {historyNoteId && (
+        <NoteRevisionsDialog
+          noteId={historyNoteId}
+          open={!!historyNoteId}
+          onOpenChange={(open) => !open && setHistoryNoteId(null)}
+          onRestored={handleNotesChanged}
+          readOnly={!canEditNotes || !!historyEntries.find(e => e.type === 'note' && e.noteId === historyNoteId && e.signedAt)}
+        />
+      )}
+
+      {compareNoteId && patientId && (
+        <NoteSectionsCompareDialog
+          patientId={patientId}
+          noteId={compareNoteId}
+          open={!!compareNoteId}
+          onOpenChange={(open) => !open && setCompareNoteId(null)}
+        />
+      )}
+
+      {editingNote && (
+        <EditNoteDialog
+          noteId={editingNote.noteId}
+          initialText={editingNote.transcriptionText || ''}
+          open={!!editingNote}
+          onOpenChange={(open) => !open && setEditingNote(null)}
+          onSaved={handleNotesChanged}
+        />
+      )}
+
+      {signingNoteId && signer && (
+        <SignNoteDialog
+          noteId={signingNoteId}
+          signerName={signer.name}
+          open={!!signingNoteId}
+          onOpenChange={(open) => !open && setSigningNoteId(null)}
+          onSigned={() => onNotesChanged?.()}
+        />
+      )}
+
+      {conversationNoteId && (
+        <NoteConversationDialog
+          noteId={conversationNoteId}
+          open={!!conversationNoteId}
+          onOpenChange={(open) => !open && setConversationNoteId(null)}
+          readOnly={!canEditNotes}
+        />
+      )}
+
+      {addendumNoteId && (
+        <AddAddendumDialog
+          noteId={addendumNoteId}
+          open={!!addendumNoteId}
+          onOpenChange={(open) => !open && setAddendumNoteId(null)}
+          onAdded={handleNotesChanged}
+        />
+      )}
     </Card>
   );
 }
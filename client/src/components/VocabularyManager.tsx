@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BookText, Loader2, Plus, Trash2, ArrowRight } from "lucide-react";
+import { VOCABULARY_CATEGORIES } from "@shared/schema";
+import { api, type OrgVocabulary, type VocabularyCategory } from "../lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const CATEGORY_LABELS: Record<VocabularyCategory, string> = {
+  drug: 'Drug',
+  clinician: 'Clinician',
+  procedure: 'Procedure',
+  other: 'Other',
+};
+
+const DEFAULT_BOOST = 2;
+
+/**
+ * Org admin editor for the transcription vocabulary: terms the provider should
+ * listen for (keyword boosts) and fixes applied to every transcript afterwards.
+ */
+export default function VocabularyManager() {
+  const { toast } = useToast();
+  const queryKey = ['/api/vocabulary'];
+
+  const [term, setTerm] = useState("");
+  const [category, setCategory] = useState<VocabularyCategory>('drug');
+  const [boost, setBoost] = useState(String(DEFAULT_BOOST));
+  const [findText, setFindText] = useState("");
+  const [replaceText, setReplaceText] = useState("");
+  const [caseSensitive, setCaseSensitive] = useState(false);
+
+  const { data, isLoading, error } = useQuery<OrgVocabulary>({
+    queryKey,
+    queryFn: () => api.getVocabulary()
+  });
+  const terms = data?.terms ?? [];
+  const replacements = data?.replacements ?? [];
+
+  const onError = (title: string) => (err: any) => {
+    toast({ title, description: err.message || "Please try again", variant: "destructive" });
+  };
+
+  const addTermMutation = useMutation({
+    mutationFn: () => api.addVocabularyTerm({ term: term.trim(), category, boost: Number(boost) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setTerm("");
+    },
+    onError: onError("Term not added")
+  });
+
+  const deleteTermMutation = useMutation({
+    mutationFn: (termId: string) => api.deleteVocabularyTerm(termId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Term not removed")
+  });
+
+  const addReplacementMutation = useMutation({
+    mutationFn: () => api.addTranscriptReplacement({
+      find_text: findText.trim(),
+      replace_text: replaceText.trim(),
+      case_sensitive: caseSensitive
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setFindText("");
+      setReplaceText("");
+      setCaseSensitive(false);
+    },
+    onError: onError("Replacement not added")
+  });
+
+  const deleteReplacementMutation = useMutation({
+    mutationFn: (replacementId: string) => api.deleteTranscriptReplacement(replacementId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError("Replacement not removed")
+  });
+
+  const boostValue = Number(boost);
+  const canAddTerm = term.trim() !== "" && Number.isInteger(boostValue) && boostValue >= 1 && boostValue <= 10;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookText className="h-5 w-5" style={{ color: '#17a2b8' }} />
+          Transcription Vocabulary
+        </CardTitle>
+        <CardDescription>
+          Drug, clinician and procedure names the transcription service should listen for,
+          and corrections applied to every transcript before it reaches the note editor
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {error ? (
+          <p className="text-destructive text-sm">
+            {error instanceof Error ? error.message : 'Failed to load vocabulary'}
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" style={{ color: '#17a2b8' }} />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Vocabulary terms</h4>
+              <div className="grid gap-3 md:grid-cols-[1fr_160px_100px_auto] items-end">
+                <div className="space-y-1">
+                  <Label htmlFor="vocabulary-term">Term</Label>
+                  <Input
+                    id="vocabulary-term"
+                    value={term}
+                    onChange={(e) => setTerm(e.target.value)}
+                    placeholder="e.g. empagliflozin"
+                    maxLength={100}
+                    data-testid="input-vocabulary-term"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="vocabulary-category">Category</Label>
+                  <Select value={category} onValueChange={(value) => setCategory(value as VocabularyCategory)}>
+                    <SelectTrigger id="vocabulary-category" data-testid="select-vocabulary-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VOCABULARY_CATEGORIES.map(value => (
+                        <SelectItem key={value} value={value}>{CATEGORY_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="vocabulary-boost">Boost (1-10)</Label>
+                  <Input
+                    id="vocabulary-boost"
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={boost}
+                    onChange={(e) => setBoost(e.target.value)}
+                    data-testid="input-vocabulary-boost"
+                  />
+                </div>
+                <Button
+                  onClick={() => addTermMutation.mutate()}
+                  disabled={!canAddTerm || addTermMutation.isPending}
+                  style={{ backgroundColor: '#17a2b8' }}
+                  data-testid="button-add-vocabulary-term"
+                >
+                  {addTermMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Plus className="h-4 w-4 mr-2" />
+                  )}
+                  Add
+                </Button>
+              </div>
+
+              {terms.length === 0 ? (
+                <p className="text-muted-foreground text-sm">No vocabulary terms yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Term</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Boost</TableHead>
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {terms.map(item => (
+                      <TableRow key={item.term_id} data-testid={`row-vocabulary-term-${item.term_id}`}>
+                        <TableCell className="font-medium">{item.term}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{CATEGORY_LABELS[item.category] ?? item.category}</Badge>
+                        </TableCell>
+                        <TableCell>{item.boost}</TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteTermMutation.mutate(item.term_id)}
+                            disabled={deleteTermMutation.isPending}
+                            data-testid={`button-delete-vocabulary-term-${item.term_id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Replacements</h4>
+              <p className="text-xs text-muted-foreground">
+                Whole words or phrases the transcription keeps getting wrong, and what they should read
+              </p>
+              <div className="grid gap-3 md:grid-cols-[1fr_1fr_auto_auto] items-end">
+                <div className="space-y-1">
+                  <Label htmlFor="replacement-find">Transcribed as</Label>
+                  <Input
+                    id="replacement-find"
+                    value={findText}
+                    onChange={(e) => setFindText(e.target.value)}
+                    placeholder="e.g. met for min"
+                    maxLength={200}
+                    data-testid="input-replacement-find"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="replacement-replace">Should read</Label>
+                  <Input
+                    id="replacement-replace"
+                    value={replaceText}
+                    onChange={(e) => setReplaceText(e.target.value)}
+                    placeholder="e.g. metformin"
+                    maxLength={200}
+                    data-testid="input-replacement-replace"
+                  />
+                </div>
+                <div className="flex items-center gap-2 h-10">
+                  <Switch
+                    id="replacement-case"
+                    checked={caseSensitive}
+                    onCheckedChange={setCaseSensitive}
+                    data-testid="switch-replacement-case"
+                  />
+                  <Label htmlFor="replacement-case" className="text-sm">Match case</Label>
+                </div>
+                <Button
+                  onClick={() => addReplacementMutation.mutate()}
+                  disabled={!findText.trim() || addReplacementMutation.isPending}
+                  style={{ backgroundColor: '#17a2b8' }}
+                  data-testid="button-add-replacement"
+                >
+                  {addReplacementMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Plus className="h-4 w-4 mr-2" />
+                  )}
+                  Add
+                </Button>
+              </div>
+
+              {replacements.length === 0 ? (
+                <p className="text-muted-foreground text-sm">No replacements yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Transcribed as</TableHead>
+                      <TableHead className="w-8" />
+                      <TableHead>Should read</TableHead>
+                      <TableHead>Case</TableHead>
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {replacements.map(item => (
+                      <TableRow key={item.replacement_id} data-testid={`row-replacement-${item.replacement_id}`}>
+                        <TableCell className="font-mono text-sm">{item.find_text}</TableCell>
+                        <TableCell>
+                          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          {item.replace_text || <span className="text-muted-foreground italic">(removed)</span>}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {item.case_sensitive ? 'Exact' : 'Any'}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteReplacementMutation.mutate(item.replacement_id)}
+                            disabled={deleteReplacementMutation.isPending}
+                            data-testid={`button-delete-replacement-${item.replacement_id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { api } from "@/lib/api";
+
+export type LiveTranscriptionStatus = 'idle' | 'connecting' | 'live' | 'unavailable' | 'error';
+
+interface LiveSegment {
+  text: string;
+  is_final: boolean;
+}
+
+interface UseLiveTranscriptionOptions {
+  onFinalSegment: (text: string) => void;
+}
+
+/**
+ * Streams MediaRecorder chunks to /api/transcribe/stream and reports captions as
+ * they arrive. Final segments go to onFinalSegment; the latest interim segment is
+ * exposed as interimText. hasFailed() tells the recorder to fall back to batch
+ * transcription once recording stops.
+ */
+export function useLiveTranscription({ onFinalSegment }: UseLiveTranscriptionOptions) {
+  const [status, setStatus] = useState<LiveTranscriptionStatus>('idle');
+  const [interimText, setInterimText] = useState('');
+  const socketRef = useRef<WebSocket | null>(null);
+  const pendingChunksRef = useRef<Blob[]>([]);
+  const isReadyRef = useRef(false);
+  const failedRef = useRef(false);
+  const finalCountRef = useRef(0);
+  const onFinalSegmentRef = useRef(onFinalSegment);
+  onFinalSegmentRef.current = onFinalSegment;
+
+  const markFailed = (nextStatus: 'unavailable' | 'error') => {
+    failedRef.current = true;
+    setStatus(nextStatus);
+    setInterimText('');
+  };
+
+  const start = useCallback((language?: string) => {
+    pendingChunksRef.current = [];
+    isReadyRef.current = false;
+    failedRef.current = false;
+    finalCountRef.current = 0;
+    setInterimText('');
+    setStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(api.getTranscriptionStreamUrl(language));
+    } catch (error) {
+      console.error('Live transcription connection failed:', error);
+      markFailed('error');
+      return;
+    }
+    socketRef.current = socket;
+    let isDone = false;
+
+    socket.onmessage = (event) => {
+      let message: { type: string; segment?: LiveSegment; error?: string };
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+
+      switch (message.type) {
+        case 'ready':
+          // The first chunk carries the container header, so everything held back goes first
+          isReadyRef.current = true;
+          setStatus('live');
+          pendingChunksRef.current.splice(0).forEach(chunk => socket.send(chunk));
+          break;
+        case 'segment':
+          if (!message.segment) break;
+          if (message.segment.is_final) {
+            finalCountRef.current++;
+            setInterimText('');
+            onFinalSegmentRef.current(message.segment.text);
+          } else {
+            setInterimText(message.segment.text);
+          }
+          break;
+        case 'unavailable':
+          console.warn('Live transcription unavailable:', message.error);
+          markFailed('unavailable');
+          break;
+        case 'error':
+          console.error('Live transcription error:', message.error);
+          markFailed('error');
+          break;
+        case 'done':
+          isDone = true;
+          setInterimText('');
+          break;
+      }
+    };
+
+    socket.onerror = () => {
+      markFailed('error');
+    };
+
+    socket.onclose = () => {
+      socketRef.current = null;
+      isReadyRef.current = false;
+      // Closing before the server said it was done means captions were cut short
+      if (!isDone && !failedRef.current) {
+        markFailed('error');
+      }
+    };
+  }, []);
+
+  const sendChunk = useCallback((chunk: Blob) => {
+    const socket = socketRef.current;
+    if (!socket || failedRef.current || chunk.size === 0) return;
+
+    if (isReadyRef.current && socket.readyState === WebSocket.OPEN) {
+      socket.send(chunk);
+    } else {
+      pendingChunksRef.current.push(chunk);
+    }
+  }, []);
+
+  // Ask the server to flush; the remaining final segments arrive before it closes
+  const stop = useCallback(() => {
+    const socket = socketRef.current;
+    if (!socket || failedRef.current) return;
+
+    // Never got going - nothing was transcribed, so let the batch path handle the recording
+    if (!isReadyRef.current) {
+      socket.close();
+      markFailed('error');
+      return;
+    }
+
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'stop' }));
+    }
+    setStatus('idle');
+  }, []);
+
+  const hasFailed = useCallback(() => failedRef.current, []);
+  const finalSegmentCount = useCallback(() => finalCountRef.current, []);
+
+  useEffect(() => {
+    return () => {
+      socketRef.current?.close();
+    };
+  }, []);
+
+  return { status, interimText, start, sendChunk, stop, hasFailed, finalSegmentCount };
+}
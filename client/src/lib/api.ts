@@ -1,5 +1,5 @@
 // API client for NotesMate backend
-import type { InsertPatient } from "@shared/schema";
+import type { ClinicalRecordFields, ClinicalRecordKind, ClinicalReviewStatus, GroundingResult, InsertPatient, LlmModelOverrides, LlmTask, NoteTemplateSection, PatientSummaryContent, SpeakerRoles, TextLibraryScope, TranscriptSegment, UsageFeature, UsageMetric, UsageQuotaStatus, VocabularyCategory } from "@shared/schema";
 import { getDeviceInfo } from './deviceInfo';
 
 export interface LoginCredentials {
@@ -18,6 +18,7 @@ export interface LoginResponse {
     title: string | null;
     role: string | null;
     secondary_role?: string | null;
+    preferred_language?: string | null; // Dictation language; falls back to the org default
     is_active: boolean | null;
     created_at: Date;
   };
@@ -29,6 +30,7 @@ export interface LoginResponse {
     org_type: string | null;
     address: string | null;
     phone: string | null;
+    default_language?: string | null;
     created_at: Date;
   } | null;
   accessToken: string;
@@ -38,6 +40,7 @@ export interface LoginResponse {
 export interface Patient {
   patientid: string;
   orgid: string;
+  mrn?: string | null;
   first_name: string;
   last_name: string;
   date_of_birth: string;
@@ -63,29 +66,336 @@ export interface Visit {
 export interface VisitNote {
   noteid: string;
   visitid: string;
-  audio_file: string | null;
+  audio_storage_key?: string | null; // Set once the recording is in object storage; fetch it with getNoteAudio
+  audio_size_bytes?: number | null;
   audio_filename: string | null;
   audio_mimetype?: string | null;
   audio_duration_seconds: number | null;
   transcription_text: string | null;
   is_transcription_edited: boolean | null;
   ai_transcribed?: boolean;
+  transcription_language?: string | null; // Language the recording was transcribed in ('auto' = detected)
+  detected_language?: string | null; // Language the transcription service reported
   // Device/Browser tracking fields
   session_id?: string | null;
   device_type?: string | null;
   browser_name?: string | null;
   ip_address?: string | null;
   user_agent?: string | null;
+  // Signature / attestation - set once the note is signed and locked
+  signed_at?: string | null;
+  signed_by_empid?: string | null;
+  signature_name?: string | null;
+  signature_title?: string | null;
+  signature_content_hash?: string | null;
+  cosign_status?: 'pending' | 'approved' | 'returned' | null;
+  cosigner_empid?: string | null;
+  speaker_roles?: SpeakerRoles | null;
+  addenda?: VisitNoteAddendum[];
+  cosign_reviews?: NoteCosignReview[];
+  transcription_job?: TranscriptionJob | null; // Latest background transcription, if any
   created_at: Date;
   updated_at: Date;
 }
 
+export interface TranscriptionJob {
+  job_id: string;
+  noteid: string;
+  requested_by_empid: string;
+  status: 'queued' | 'running' | 'failed' | 'done';
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error: string | null;
+  text_applied: boolean | null; // false when the note already had clinician text, which was kept
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NoteCosignReview {
+  review_id: string;
+  noteid: string;
+  reviewer_empid: string;
+  reviewer_name: string | null;
+  reviewer_title: string | null;
+  action: 'approved' | 'returned';
+  comment: string | null;
+  content_hash: string | null;
+  created_at: string;
+}
+
+export interface CosignQueueItem {
+  noteid: string;
+  visitid: string;
+  visit_date: string;
+  patientid: string;
+  patient_name: string;
+  author_empid: string;
+  author_name: string;
+  author_title: string | null;
+  transcription_text: string | null;
+  signed_at: string | null;
+}
+
+export interface VisitNoteAddendum {
+  addendum_id: string;
+  noteid: string;
+  author_empid: string;
+  author_name: string | null;
+  author_title: string | null;
+  addendum_text: string;
+  audio_filename: string | null;
+  audio_mimetype: string | null;
+  audio_duration_seconds: number | null;
+  ai_transcribed: boolean | null;
+  created_at: string;
+}
+
+export interface VisitNoteRevision {
+  revision_id: string;
+  noteid: string;
+  revision_number: number;
+  author_empid: string;
+  author_name: string | null;
+  previous_text: string | null;
+  new_text: string | null;
+  reason: string | null;
+  restored_from_revision_id: string | null;
+  created_at: Date | string;
+}
+
+// One section of a note (heading null = text before the first heading), with the visit it belongs to
+export interface PatientNoteSection {
+  section_id: string;
+  noteid: string;
+  section_index: number;
+  section_key: string;
+  heading: string | null;
+  content: string;
+  visitid: string;
+  visit_date: string;
+  note_created_at: string | null;
+}
+
+// What the patient's notes say, each statement citing its source note; see GET /patients/:id/summary
+export interface PatientSummary {
+  patientid: string;
+  summary: PatientSummaryContent;
+  note_count: number;
+  notes_omitted: number; // Oldest notes the summary couldn't include
+  provider: string;
+  model: string;
+  generated_at: string | null;
+}
+
+// Problems, medications, allergies and vitals extracted from a note, pending until a doctor reviews them
+interface ClinicalRecordBase {
+  record_id: string;
+  patientid: string;
+  noteid: string; // The note it was extracted from
+  visit_date: string;
+  review_status: ClinicalReviewStatus;
+  reviewed_by_empid: string | null;
+  reviewed_at: string | null;
+  created_at: string | null;
+}
+
+export type ClinicalRecordByKind = { [K in ClinicalRecordKind]: ClinicalRecordBase & ClinicalRecordFields[K] };
+export type PatientProblem = ClinicalRecordByKind['problem'];
+export type PatientMedication = ClinicalRecordByKind['medication'];
+export type PatientAllergy = ClinicalRecordByKind['allergy'];
+export type PatientVital = ClinicalRecordByKind['vital'];
+
+export interface ClinicalRecords {
+  problems: PatientProblem[];
+  medications: PatientMedication[];
+  allergies: PatientAllergy[];
+  vitals: PatientVital[];
+}
+
+export type { GroundingResult, GroundingWarning, LlmModelOverrides, LlmTask, NoteTemplateSection, PatientSummaryCategory, PatientSummaryContent, PatientSummaryStatement, TextLibraryScope, ClinicalRecordKind, ClinicalRecordFields, ClinicalReviewStatus, VitalKind, SpeakerRole, SpeakerRoles, TranscriptSegment, TranscriptWord, UsageFeature, UsageMetric, UsageQuotaStatus, VocabularyCategory } from "@shared/schema";
+
+// Diarized transcript of a recording - what each speaker said, and who they are
+export interface NoteTranscript {
+  segments: TranscriptSegment[];
+  speaker_roles: SpeakerRoles;
+}
+
 export interface VisitNoteResponse extends VisitNote {
   ai_transcribed?: boolean;
 }
 
+export interface AuditEvent {
+  event_id: string;
+  orgid: string | null;
+  actor_empid: string;
+  actor_name: string | null;
+  actor_role: string | null;
+  is_impersonated: boolean | null;
+  action: string;
+  resource_type: string;
+  resource_id: string | null;
+  patientid: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  details: Record<string, unknown> | null;
+  created_at: Date | string | null;
+}
+
+export interface AuditEventQuery {
+  actor?: string;
+  patientid?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface StorageMigrationRun {
+  status: 'running' | 'completed' | 'failed';
+  dry_run: boolean;
+  started_by_empid: string;
+  started_at: string;
+  finished_at: string | null;
+  total: number;
+  processed: number;
+  migrated: number;
+  failures: {
+    document_id: string;
+    storage_key: string;
+    original_filename: string;
+    error: string;
+  }[];
+  error: string | null;
+}
+
+export interface StorageMigrationStatus {
+  legacy_remaining: number;
+  target_driver: string;
+  last_run: StorageMigrationRun | null;
+}
+
 const ACCESS_TOKEN_KEY = 'notesmate_access_token';
 
+export interface TranscriptionProviderInfo {
+  name: string;
+  available: boolean;
+  capabilities: {
+    streaming: boolean;
+    diarization: boolean;
+    languageDetection: boolean;
+    keywordBoosting: boolean;
+    languages: string[];
+  };
+}
+
+export interface VocabularyTerm {
+  term_id: string;
+  orgid: string;
+  term: string;
+  category: VocabularyCategory;
+  boost: number;
+  created_by_empid: string | null;
+  created_at: string | null;
+}
+
+export interface TranscriptReplacement {
+  replacement_id: string;
+  orgid: string;
+  find_text: string;
+  replace_text: string;
+  case_sensitive: boolean;
+  created_by_empid: string | null;
+  created_at: string | null;
+}
+
+export interface OrgVocabulary {
+  terms: VocabularyTerm[];
+  replacements: TranscriptReplacement[];
+}
+
+// Built-in templates (no org context) only carry the fields the editor needs
+export interface NoteTemplate {
+  template_id: string;
+  orgid?: string;
+  name: string;
+  description: string | null;
+  sections: NoteTemplateSection[];
+  is_default: boolean;
+  created_by_empid?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export interface NoteTemplateInput {
+  name: string;
+  description?: string | null;
+  sections: NoteTemplateSection[];
+  is_default?: boolean;
+}
+
+// Editor text library entries; empid null = the org's shared library
+export interface EditorAbbreviation {
+  abbreviation_id: string;
+  orgid: string;
+  empid: string | null;
+  abbreviation: string;
+  expansion: string;
+  created_by_empid: string | null;
+  created_at: string | null;
+}
+
+export interface EditorQuickPhrase {
+  phrase_id: string;
+  orgid: string;
+  empid: string | null;
+  label: string;
+  text: string;
+  created_by_empid: string | null;
+  created_at: string | null;
+}
+
+export interface TextLibrary {
+  abbreviations: EditorAbbreviation[];
+  phrases: EditorQuickPhrase[];
+}
+
+// A quick phrase as offered in the editor, from whichever library it came from
+export interface QuickPhrase {
+  label: string;
+  text: string;
+  source: TextLibraryScope | 'built_in';
+}
+
+export interface TranscriptionProviders {
+  default: string;
+  providers: TranscriptionProviderInfo[];
+}
+
+export interface UsageTotals {
+  audio_minutes: number;
+  llm_tokens: number; // Prompt + completion
+}
+
+export interface OrgUsage {
+  months: (UsageTotals & { month: string })[]; // "YYYY-MM", oldest first, ending with this month
+  features: (UsageTotals & { feature: UsageFeature })[]; // This month
+  quotas: UsageQuotaStatus[];
+}
+
+export interface PlatformUsage {
+  months: (UsageTotals & { month: string })[];
+  orgs: (UsageTotals & { orgid: string; org_name: string; org_number: number | null; quotas: UsageQuotaStatus[] })[]; // This month
+}
+
+export interface LlmProviders {
+  default: string;
+  providers: { name: string; available: boolean }[];
+  tasks: { task: LlmTask; default_model: string }[];
+}
+
 class ApiClient {
   private baseUrl = '/api';
 
@@ -260,6 +570,11 @@ class ApiClient {
     address?: string;
     phone?: string;
     is_active?: boolean;
+    transcription_provider?: string | null; // null = server default
+    default_language?: string | null; // null = en-US
+    llm_provider?: string | null; // null = server default
+    llm_models?: LlmModelOverrides | null; // Tasks left out use the server default model
+    require_deidentification?: boolean;
   }): Promise<any> {
     return this.request(`/organizations/${orgid}`, {
       method: 'PATCH',
@@ -267,6 +582,30 @@ class ApiClient {
     });
   }
 
+  async getTranscriptionProviders(): Promise<TranscriptionProviders> {
+    return this.request('/transcription-providers');
+  }
+
+  async getLlmProviders(): Promise<LlmProviders> {
+    return this.request('/llm-providers');
+  }
+
+  // AI usage: the signed-in org's (org admin), or every org's (super admin)
+  async getOrgUsage(months?: number): Promise<OrgUsage> {
+    return this.request(`/usage${months ? `?months=${months}` : ''}`);
+  }
+
+  async getPlatformUsage(months?: number): Promise<PlatformUsage> {
+    return this.request(`/admin/usage${months ? `?months=${months}` : ''}`);
+  }
+
+  async setUsageQuota(orgid: string, metric: UsageMetric, limits: { soft_limit: number | null; hard_limit: number | null }): Promise<any> {
+    return this.request(`/organizations/${orgid}/usage-quotas/${metric}`, {
+      method: 'PUT',
+      body: JSON.stringify(limits),
+    });
+  }
+
   async getPlatformStats(): Promise<{
     totalPatients: number;
     totalEmployees: number;
@@ -277,6 +616,131 @@ class ApiClient {
     return this.request('/platform-stats');
   }
 
+  // Legacy Replit document migration (super admin only)
+  async getStorageMigrationStatus(): Promise<StorageMigrationStatus> {
+    return this.request<StorageMigrationStatus>('/admin/storage-migration');
+  }
+
+  async startStorageMigration(dryRun: boolean): Promise<StorageMigrationRun> {
+    return this.request<StorageMigrationRun>('/admin/storage-migration', {
+      method: 'POST',
+      body: JSON.stringify({ dry_run: dryRun }),
+    });
+  }
+
+  // Org vocabulary (org_admin)
+  async getVocabulary(): Promise<OrgVocabulary> {
+    return this.request<OrgVocabulary>('/vocabulary');
+  }
+
+  async addVocabularyTerm(term: { term: string; category: VocabularyCategory; boost: number }): Promise<VocabularyTerm> {
+    return this.request<VocabularyTerm>('/vocabulary/terms', {
+      method: 'POST',
+      body: JSON.stringify(term),
+    });
+  }
+
+  async deleteVocabularyTerm(termId: string): Promise<{ success: boolean }> {
+    return this.request(`/vocabulary/terms/${termId}`, { method: 'DELETE' });
+  }
+
+  async addTranscriptReplacement(replacement: { find_text: string; replace_text: string; case_sensitive: boolean }): Promise<TranscriptReplacement> {
+    return this.request<TranscriptReplacement>('/vocabulary/replacements', {
+      method: 'POST',
+      body: JSON.stringify(replacement),
+    });
+  }
+
+  async deleteTranscriptReplacement(replacementId: string): Promise<{ success: boolean }> {
+    return this.request(`/vocabulary/replacements/${replacementId}`, { method: 'DELETE' });
+  }
+
+  // Note templates - the org's set, shared by the editor and AI formatting
+  async getNoteTemplates(): Promise<NoteTemplate[]> {
+    return this.request<NoteTemplate[]>('/medical/templates');
+  }
+
+  async createNoteTemplate(template: NoteTemplateInput): Promise<NoteTemplate> {
+    return this.request<NoteTemplate>('/medical/templates', {
+      method: 'POST',
+      body: JSON.stringify(template),
+    });
+  }
+
+  async updateNoteTemplate(templateId: string, updates: Partial<NoteTemplateInput>): Promise<NoteTemplate> {
+    return this.request<NoteTemplate>(`/medical/templates/${templateId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteNoteTemplate(templateId: string): Promise<{ success: boolean }> {
+    return this.request(`/medical/templates/${templateId}`, { method: 'DELETE' });
+  }
+
+  // Abbreviations and quick phrases the editor offers: built-in, the org's and the user's own, merged
+  async getAbbreviations(): Promise<Record<string, string>> {
+    return this.request<Record<string, string>>('/medical/abbreviations');
+  }
+
+  async getQuickPhrases(): Promise<QuickPhrase[]> {
+    return this.request<QuickPhrase[]>('/medical/quick-phrases');
+  }
+
+  async getTextLibrary(scope: TextLibraryScope): Promise<TextLibrary> {
+    return this.request<TextLibrary>(`/medical/library?scope=${scope}`);
+  }
+
+  async addAbbreviation(scope: TextLibraryScope, entry: { abbreviation: string; expansion: string }): Promise<EditorAbbreviation> {
+    return this.request<EditorAbbreviation>('/medical/library/abbreviations', {
+      method: 'POST',
+      body: JSON.stringify({ ...entry, scope }),
+    });
+  }
+
+  async deleteAbbreviation(scope: TextLibraryScope, abbreviationId: string): Promise<{ success: boolean }> {
+    return this.request(`/medical/library/abbreviations/${abbreviationId}?scope=${scope}`, { method: 'DELETE' });
+  }
+
+  async addQuickPhrase(scope: TextLibraryScope, entry: { label: string; text: string }): Promise<EditorQuickPhrase> {
+    return this.request<EditorQuickPhrase>('/medical/library/phrases', {
+      method: 'POST',
+      body: JSON.stringify({ ...entry, scope }),
+    });
+  }
+
+  async deleteQuickPhrase(scope: TextLibraryScope, phraseId: string): Promise<{ success: boolean }> {
+    return this.request(`/medical/library/phrases/${phraseId}?scope=${scope}`, { method: 'DELETE' });
+  }
+
+  // AI formatting of note text into one of the org's templates
+  async formatNote(request: {
+    transcription: string;
+    template: string;
+    segments?: TranscriptSegment[];
+    speaker_roles?: SpeakerRoles;
+    translate_to_english?: boolean;
+    language?: string;
+    visitid?: string; // Whose details to withhold from the model when the org requires de-identification
+  }): Promise<{ formattedNote: string; grounding: GroundingResult }> {
+    return this.request('/medical/format', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  // Audit log (org_admin / super_admin)
+  async getAuditEvents(query: AuditEventQuery = {}): Promise<AuditEvent[]> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.set(key, String(value));
+      }
+    });
+    const queryString = params.toString();
+    return this.request<AuditEvent[]>(`/audit${queryString ? `?${queryString}` : ''}`);
+  }
+
   // Patients
   async getPatients(orgid: string, search?: string): Promise<Patient[]> {
     const searchParam = search ? `&search=${encodeURIComponent(search)}` : '';
@@ -304,8 +768,8 @@ class ApiClient {
     });
   }
 
-  async deletePatient(patientid: string): Promise<{ success: boolean; message: string }> {
-    return this.request<{ success: boolean; message: string }>(`/patients/${patientid}`, {
+  async deletePatient(patientid: string): Promise<{ success: boolean; message: string; undeleted_audio?: string[] }> {
+    return this.request<{ success: boolean; message: string; undeleted_audio?: string[] }>(`/patients/${patientid}`, {
       method: 'DELETE',
     });
   }
@@ -357,7 +821,9 @@ class ApiClient {
     visitid: string,
     audioBlob: Blob,
     transcription?: string,
-    audioDuration?: number
+    audioDuration?: number,
+    transcript?: { segments: TranscriptSegment[]; speakerRoles: SpeakerRoles },
+    language?: { requested: string; detected?: string | null }
   ): Promise<VisitNoteResponse> {
     const formData = new FormData();
     formData.append('visitid', visitid);
@@ -382,6 +848,18 @@ class ApiClient {
       formData.append('audio_duration_seconds', audioDuration.toString());
     }
 
+    if (transcript && transcript.segments.length > 0) {
+      formData.append('transcript_segments', JSON.stringify(transcript.segments));
+      formData.append('speaker_roles', JSON.stringify(transcript.speakerRoles));
+    }
+
+    if (language) {
+      formData.append('transcription_language', language.requested);
+      if (language.detected) {
+        formData.append('detected_language', language.detected);
+      }
+    }
+
     // Add device/browser tracking info
     const deviceInfo = getDeviceInfo();
     formData.append('session_id', deviceInfo.sessionId);
@@ -409,23 +887,244 @@ class ApiClient {
     return response.json();
   }
 
+  // Batch dictation upload - one recording, attached as a new note to a visit
+  // (or the patient's visit on visitDate, created if needed) and queued for transcription
+  async uploadBatchRecording(upload: {
+    file: File;
+    patientid: string;
+    visitid?: string;
+    visitDate?: string;
+    language?: string; // Defaults to the employee's / org's dictation language
+  }): Promise<{ note: VisitNote; visit: Visit; job: TranscriptionJob }> {
+    const formData = new FormData();
+    formData.append('audio', upload.file, upload.file.name);
+    formData.append('audio_mimetype', upload.file.type);
+    formData.append('patientid', upload.patientid);
+    if (upload.visitid) {
+      formData.append('visitid', upload.visitid);
+    } else if (upload.visitDate) {
+      formData.append('visit_date', upload.visitDate);
+    }
+    if (upload.language) {
+      formData.append('language', upload.language);
+    }
+
+    const deviceInfo = getDeviceInfo();
+    formData.append('session_id', deviceInfo.sessionId);
+    formData.append('device_type', deviceInfo.deviceType);
+    formData.append('browser_name', deviceInfo.browserName);
+    formData.append('user_agent', deviceInfo.userAgent);
+
+    const token = this.getAccessToken();
+    const headers: Record<string, string> = {};
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/batch-transcriptions`, {
+      method: 'POST',
+      headers,
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      // Rejected uploads (e.g. not an audio file) come from the error middleware as `message`
+      throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async getTranscriptionJobs(noteids: string[]): Promise<{ jobs: TranscriptionJob[] }> {
+    return this.request(`/transcription-jobs?noteids=${noteids.map(encodeURIComponent).join(',')}`);
+  }
+
   async updateNote(
     noteid: string, 
-    updates: Partial<Omit<VisitNote, 'noteid' | 'visitid' | 'created_at' | 'updated_at'>>
+    updates: Partial<Omit<VisitNote, 'noteid' | 'visitid' | 'created_at' | 'updated_at'>>,
+    reason?: string
   ): Promise<VisitNote> {
     return this.request<VisitNote>(`/notes/${noteid}`, {
       method: 'PUT',
+      body: JSON.stringify({ ...updates, reason }),
+    });
+  }
+
+  async getNoteTranscript(noteid: string): Promise<NoteTranscript> {
+    return this.request<NoteTranscript>(`/notes/${noteid}/transcript`);
+  }
+
+  async getTranscriptionJob(noteid: string): Promise<{ job: TranscriptionJob | null }> {
+    return this.request(`/notes/${noteid}/transcription-job`);
+  }
+
+  // Queue the note's recording to be transcribed again in the background, optionally in another language
+  async retranscribeNote(noteid: string, language?: string): Promise<{ job: TranscriptionJob }> {
+    return this.request(`/notes/${noteid}/transcribe`, {
+      method: 'POST',
+      body: JSON.stringify(language ? { language } : {}),
+    });
+  }
+
+  async updateNoteSpeakers(noteid: string, speakerRoles: SpeakerRoles): Promise<{ speaker_roles: SpeakerRoles }> {
+    return this.request(`/notes/${noteid}/speakers`, {
+      method: 'PUT',
+      body: JSON.stringify({ speaker_roles: speakerRoles }),
+    });
+  }
+
+  // Note signing
+  async signNote(noteid: string, password: string): Promise<VisitNote> {
+    return this.request<VisitNote>(`/notes/${noteid}/sign`, {
+      method: 'POST',
+      body: JSON.stringify({ password }),
+    });
+  }
+
+  // Co-signature
+  async getCosignQueue(): Promise<CosignQueueItem[]> {
+    return this.request<CosignQueueItem[]>('/cosign/queue');
+  }
+
+  async cosignNote(noteid: string, action: 'approve' | 'return', comment?: string): Promise<VisitNote> {
+    return this.request<VisitNote>(`/notes/${noteid}/cosign`, {
+      method: 'POST',
+      body: JSON.stringify({ action, comment }),
+    });
+  }
+
+  // Note addenda (signed notes only)
+  async createAddendum(noteid: string, addendumText: string, audioBlob?: Blob | null): Promise<VisitNoteAddendum> {
+    const formData = new FormData();
+    if (addendumText) {
+      formData.append('addendum_text', addendumText);
+    }
+    if (audioBlob) {
+      const extension = audioBlob.type.includes('webm') ? 'webm'
+        : audioBlob.type.includes('mp4') ? 'm4a'
+        : audioBlob.type.includes('ogg') ? 'ogg'
+        : 'wav';
+      formData.append('audio', audioBlob, `addendum.${extension}`);
+      formData.append('audio_mimetype', audioBlob.type);
+    }
+
+    const token = this.getAccessToken();
+    const headers: Record<string, string> = {};
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/notes/${noteid}/addenda`, {
+      method: 'POST',
+      headers,
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async getAddendumAudio(addendumId: string): Promise<Blob> {
+    const token = this.getAccessToken();
+    const headers: Record<string, string> = {};
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/addenda/${addendumId}/audio`, { headers });
+    if (!response.ok) {
+      throw new Error(`Failed to load addendum audio: ${response.status}`);
+    }
+    return response.blob();
+  }
+
+  // Structured note sections across the patient's visits, newest first
+  async getPatientNoteSections(patientid: string, sectionKey?: string): Promise<PatientNoteSection[]> {
+    const query = sectionKey ? `?section=${encodeURIComponent(sectionKey)}` : '';
+    return this.request<PatientNoteSection[]>(`/patients/${patientid}/note-sections${query}`);
+  }
+
+  // Cached on the server until a note changes; null when the patient has no notes yet
+  async getPatientSummary(patientid: string): Promise<PatientSummary | null> {
+    return this.request<PatientSummary | null>(`/patients/${patientid}/summary`);
+  }
+
+  // Clinical records extracted from notes
+  async getClinicalRecords(patientid: string): Promise<ClinicalRecords> {
+    return this.request<ClinicalRecords>(`/patients/${patientid}/clinical-records`);
+  }
+
+  // Replaces the note's unreviewed records with a fresh extraction; returns all the patient's records
+  async extractClinicalRecords(noteid: string): Promise<ClinicalRecords> {
+    return this.request<ClinicalRecords>(`/notes/${noteid}/clinical-records/extract`, { method: 'POST' });
+  }
+
+  // Saves any changes and marks the record reviewed
+  async updateClinicalRecord<K extends ClinicalRecordKind>(
+    kind: K,
+    recordId: string,
+    updates: Partial<ClinicalRecordFields[K]>
+  ): Promise<ClinicalRecordByKind[K]> {
+    return this.request<ClinicalRecordByKind[K]>(`/clinical-records/${kind}/${recordId}`, {
+      method: 'PATCH',
       body: JSON.stringify(updates),
     });
   }
 
-  // Audio playback
-  getAudioUrl(noteid: string): string {
-    return `${this.baseUrl}/notes/${noteid}/audio`;
+  async deleteClinicalRecord(kind: ClinicalRecordKind, recordId: string): Promise<{ success: boolean }> {
+    return this.request(`/clinical-records/${kind}/${recordId}`, { method: 'DELETE' });
+  }
+
+  // Note revision history
+  async getNoteRevisions(noteid: string): Promise<VisitNoteRevision[]> {
+    return this.request<VisitNoteRevision[]>(`/notes/${noteid}/revisions`);
+  }
+
+  async restoreNoteRevision(noteid: string, revisionId: string, reason?: string): Promise<VisitNote> {
+    return this.request<VisitNote>(`/notes/${noteid}/revisions/${revisionId}/restore`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  // Audio playback - fetched with auth since <audio src> can't send the bearer token
+  async getNoteAudio(noteid: string): Promise<Blob> {
+    const token = this.getAccessToken();
+    const headers: Record<string, string> = {};
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/notes/${noteid}/audio`, { headers });
+    if (!response.ok) {
+      throw new Error(`Failed to load audio: ${response.status}`);
+    }
+    return response.blob();
+  }
+
+  // Live transcription WebSocket; the token goes in the query string since WebSockets can't send headers
+  getTranscriptionStreamUrl(language?: string): string {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const token = this.getAccessToken() || '';
+    const languageParam = language ? `&language=${encodeURIComponent(language)}` : '';
+    return `${protocol}//${window.location.host}${this.baseUrl}/transcribe/stream?token=${encodeURIComponent(token)}${languageParam}`;
   }
 
   // Transcription-only (doesn't save to database)
-  async transcribeAudio(audioBlob: Blob): Promise<{ text: string; confidence: number; duration?: number }> {
+  // `language` is the requested dictation language; the response carries the one detected or used
+  async transcribeAudio(audioBlob: Blob, language?: string): Promise<{
+    text: string;
+    confidence: number;
+    duration?: number;
+    segments?: TranscriptSegment[];
+    requested_language?: string;
+    language?: string | null;
+  }> {
     const formData = new FormData();
     
     // Use proper file extension based on MIME type
@@ -438,6 +1137,9 @@ class ApiClient {
     
     const extension = getFileExtension(audioBlob.type);
     formData.append('audio', audioBlob, `recording.${extension}`);
+    if (language) {
+      formData.append('language', language);
+    }
 
     const token = this.getAccessToken();
     const headers: Record<string, string> = {};
@@ -0,0 +1,55 @@
+// Filename patterns for mapping dictaphone recordings to patients and visit dates
+
+export const DEFAULT_FILENAME_PATTERN = '{mrn}_{date}{*}';
+
+export interface FilenameMatch {
+  mrn?: string;
+  date?: string; // YYYY-MM-DD
+}
+
+type Token = 'mrn' | 'date';
+
+const TOKEN_PATTERNS: Record<Token, string> = {
+  mrn: '(\\d+(?:-\\d+)?)', // Bare MRN or the full patient ID ({org}-{mrn})
+  date: '(\\d{4}-?\\d{2}-?\\d{2})', // 2025-01-31 or 20250131
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Turn a pattern such as "{mrn}_{date}{*}" into a matcher for filenames
+ * (without extension). {mrn} and {date} capture values, {*} matches anything.
+ * Returns null if the pattern has no {mrn} to match on.
+ */
+export function compileFilenamePattern(pattern: string): ((filename: string) => FilenameMatch | null) | null {
+  const tokens: Token[] = [];
+  const source = pattern.split(/(\{mrn\}|\{date\}|\{\*\})/).map(part => {
+    if (part === '{mrn}' || part === '{date}') {
+      const token = part.slice(1, -1) as Token;
+      tokens.push(token);
+      return TOKEN_PATTERNS[token];
+    }
+    if (part === '{*}') return '.*?';
+    return escapeRegExp(part);
+  }).join('');
+  if (!tokens.includes('mrn')) return null;
+
+  const regex = new RegExp(`^${source}$`, 'i');
+  return (filename: string) => {
+    const match = filename.replace(/\.[^.]+$/, '').match(regex);
+    if (!match) return null;
+
+    const result: FilenameMatch = {};
+    tokens.forEach((token, index) => {
+      const value = match[index + 1];
+      if (token === 'mrn') {
+        result.mrn = value;
+      } else {
+        const digits = value.replace(/-/g, '');
+        const date = `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+        if (!isNaN(Date.parse(date))) result.date = date;
+      }
+    });
+    return result;
+  };
+}
@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffWords } from "./wordDiff";
+
+// Both versions can be rebuilt from the parts, so nothing is lost or duplicated
+function rebuild(parts: ReturnType<typeof diffWords>) {
+  return {
+    before: parts.filter(part => part.type !== 'added').map(part => part.text).join(''),
+    after: parts.filter(part => part.type !== 'removed').map(part => part.text).join(''),
+  };
+}
+
+test('diffWords returns one equal part for identical text', () => {
+  assert.deepEqual(diffWords('BP 120/80 today.', 'BP 120/80 today.'), [{ type: 'equal', text: 'BP 120/80 today.' }]);
+});
+
+test('diffWords returns nothing for two empty texts', () => {
+  assert.deepEqual(diffWords('', ''), []);
+});
+
+test('diffWords marks a changed word between shared text', () => {
+  assert.deepEqual(diffWords('Start metformin 500 mg daily.', 'Start metformin 1000 mg daily.'), [
+    { type: 'equal', text: 'Start metformin ' },
+    { type: 'removed', text: '500' },
+    { type: 'added', text: '1000' },
+    { type: 'equal', text: ' mg daily.' },
+  ]);
+});
+
+test('diffWords keeps spacing and line breaks', () => {
+  const before = 'PLAN:\nRest.\n\nReview in 2 weeks.';
+  const after = 'PLAN:\nRest and fluids.\n\nReview in 2 weeks.';
+  const parts = diffWords(before, after);
+  assert.deepEqual(rebuild(parts), { before, after });
+  assert.deepEqual(parts.filter(part => part.type !== 'equal'), [
+    { type: 'removed', text: 'Rest.' },
+    { type: 'added', text: 'Rest and fluids.' },
+  ]);
+});
+
+test('diffWords handles text added to or removed from an empty note', () => {
+  assert.deepEqual(diffWords('', 'New note'), [{ type: 'added', text: 'New note' }]);
+  assert.deepEqual(diffWords('Old note', ''), [{ type: 'removed', text: 'Old note' }]);
+});
+
+test('diffWords shows a change too large to diff word by word as replaced, keeping the shared ends', () => {
+  const words = (prefix: string, count: number) => Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(' ');
+  const before = `Same start. ${words('a', 2500)} Same end.`;
+  const after = `Same start. ${words('b', 2500)} Same end.`;
+
+  const parts = diffWords(before, after);
+  assert.deepEqual(parts.map(part => part.type), ['equal', 'removed', 'added', 'equal']);
+  assert.equal(parts[0].text, 'Same start. ');
+  assert.equal(parts[3].text, ' Same end.');
+  assert.deepEqual(rebuild(parts), { before, after });
+});
@@ -0,0 +1,86 @@
+// Word-level diff for comparing note versions
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Split into words while keeping whitespace as separate tokens so the
+// diff can be rendered back with the original spacing and line breaks
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+// Largest LCS table diffed word by word (16 MB); beyond it the changed middle is shown as replaced
+const MAX_TABLE_CELLS = 4_000_000;
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  // Edits are usually local, so only the part between the shared prefix and suffix needs the table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  push('equal', a.slice(0, start).join(''));
+  if ((midA.length + 1) * (midB.length + 1) > MAX_TABLE_CELLS) {
+    push('removed', midA.join(''));
+    push('added', midB.join(''));
+  } else {
+    diffMiddle(midA, midB, push);
+  }
+  push('equal', a.slice(endA).join(''));
+
+  return parts.filter(part => part.text.length > 0);
+}
+
+function diffMiddle(a: string[], b: string[], push: (type: DiffPart['type'], text: string) => void) {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+
+  // Longest-common-subsequence table, filled from the end
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = a[i] === b[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      push('removed', a[i]);
+      i++;
+    } else {
+      push('added', b[j]);
+      j++;
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+}
@@ -0,0 +1,37 @@
+/**
+ * One-time migration: move base64 audio from visit_notes / visit_note_addenda
+ * into the configured blob store and keep only the storage key and checksum on each row.
+ *
+ * Usage:
+ *   npm run audio:migrate              # migrate everything still in the database
+ *   npm run audio:migrate -- --dry-run # only count what would be moved
+ *
+ * Each recording is uploaded, downloaded again and compared by SHA-256 before
+ * its base64 column is cleared. Failed rows are left untouched, so the command
+ * can simply be re-run.
+ */
+import { migrateAudioToObjectStorage } from '../server/audio-storage';
+import { pool } from '../server/db';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  const result = await migrateAudioToObjectStorage({ dryRun });
+
+  console.log('\nAudio migration summary:');
+  console.log(`  Notes migrated:   ${result.notesMigrated}`);
+  console.log(`  Addenda migrated: ${result.addendaMigrated}`);
+  console.log(`  Failures:         ${result.failures.length}`);
+  for (const failure of result.failures) {
+    console.log(`    ${failure.table} ${failure.id}: ${failure.error}`);
+  }
+
+  await pool.end();
+  process.exit(result.failures.length > 0 ? 1 : 0);
+}
+
+main().catch(async (error) => {
+  console.error('Audio migration failed:', error);
+  await pool.end();
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildAudioStorageKey, parseByteRange } from "./audio-storage";
+
+test('parseByteRange sends the whole file without a Range header', () => {
+  assert.equal(parseByteRange(undefined, 1000), null);
+  assert.equal(parseByteRange('', 1000), null);
+});
+
+test('parseByteRange reads a closed range', () => {
+  assert.deepEqual(parseByteRange('bytes=0-499', 1000), { start: 0, end: 499 });
+  assert.deepEqual(parseByteRange(' bytes=500-500 ', 1000), { start: 500, end: 500 });
+});
+
+test('parseByteRange runs an open range to the end of the file', () => {
+  assert.deepEqual(parseByteRange('bytes=500-', 1000), { start: 500, end: 999 });
+});
+
+test('parseByteRange clamps an end past the file', () => {
+  assert.deepEqual(parseByteRange('bytes=900-5000', 1000), { start: 900, end: 999 });
+});
+
+test('parseByteRange reads a suffix range as the last bytes', () => {
+  assert.deepEqual(parseByteRange('bytes=-200', 1000), { start: 800, end: 999 });
+  assert.deepEqual(parseByteRange('bytes=-5000', 1000), { start: 0, end: 999 });
+});
+
+test('parseByteRange refuses ranges outside the file', () => {
+  assert.equal(parseByteRange('bytes=1000-', 1000), 'unsatisfiable');
+  assert.equal(parseByteRange('bytes=500-100', 1000), 'unsatisfiable');
+  assert.equal(parseByteRange('bytes=-0', 1000), 'unsatisfiable');
+  assert.equal(parseByteRange('bytes=0-', 0), 'unsatisfiable');
+});
+
+test('parseByteRange sends the whole file for forms it does not support', () => {
+  assert.equal(parseByteRange('bytes=0-99,200-299', 1000), null);
+  assert.equal(parseByteRange('bytes=-', 1000), null);
+  assert.equal(parseByteRange('items=0-99', 1000), null);
+  assert.equal(parseByteRange('bytes=abc-def', 1000), null);
+});
+
+test('buildAudioStorageKey files a recording under its visit with a safe name', () => {
+  const key = buildAudioStorageKey({ orgid: 'org1', patientid: 'P001', visitid: 'visit1' }, 'my recording (1).webm');
+  assert.match(key, /^audio\/org\/org1\/patients\/P001\/visits\/visit1\/[0-9a-f-]{36}_my_recording__1_\.webm$/);
+  assert.match(buildAudioStorageKey({ orgid: 'org1', patientid: 'P001', visitid: 'visit1' }, null), /_recording$/);
+});
@@ -0,0 +1,327 @@
+import { createHash, randomUUID } from "crypto";
+import type { Request, Response } from "express";
+import type { Readable } from "stream";
+import { eq, and, isNotNull } from "drizzle-orm";
+import { visit_notes, visit_note_addenda, visits, patients, type VisitNote } from "@shared/schema";
+import { db } from "./db";
+import { getBlobStore, getBlobStoreForKey } from "./blob-store";
+
+// Where a recording belongs; used to build its object storage key
+export interface AudioOwner {
+  orgid: string;
+  patientid: string;
+  visitid: string;
+}
+
+// Columns written to visit_notes / visit_note_addenda once the bytes are in object storage
+export interface StoredAudio {
+  audio_storage_key: string;
+  audio_size_bytes: number;
+  audio_sha256: string;
+}
+
+// The audio columns needed to serve a recording, from either a note or an addendum
+export type AudioSource = Pick<
+  VisitNote,
+  'audio_file' | 'audio_storage_key' | 'audio_size_bytes' | 'audio_filename' | 'audio_mimetype'
+>;
+
+export function sha256Hex(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Same layout as visit documents: audio/org/{orgid}/patients/{patientid}/visits/{visitid}/{uuid}_{filename}
+export function buildAudioStorageKey(owner: AudioOwner, filename: string | null): string {
+  const safeFilename = (filename || 'recording').replace(/[^a-zA-Z0-9.-]/g, '_');
+  return `audio/org/${owner.orgid}/patients/${owner.patientid}/visits/${owner.visitid}/${randomUUID()}_${safeFilename}`;
+}
+
+export async function storeAudio(
+  buffer: Buffer,
+  mimetype: string,
+  owner: AudioOwner,
+  filename: string | null
+): Promise<StoredAudio> {
+  const key = buildAudioStorageKey(owner, filename);
+  await getBlobStore().put(key, buffer, mimetype);
+  return {
+    audio_storage_key: key,
+    audio_size_bytes: buffer.length,
+    audio_sha256: sha256Hex(buffer),
+  };
+}
+
+// Remove a recording uploaded for a row that then failed to save, so the bucket holds nothing
+// unreferenced; failures are only logged since the request has already failed
+export async function discardStoredAudio(key: string): Promise<void> {
+  try {
+    await getBlobStore().delete(key);
+  } catch (error) {
+    console.error(`Failed to delete orphaned audio ${key}:`, error);
+  }
+}
+
+// Object storage keys of every recording on a patient's notes and addenda, gathered before the rows are deleted
+export async function listPatientAudioKeys(patientid: string): Promise<string[]> {
+  const notes = await db.select({ key: visit_notes.audio_storage_key })
+    .from(visit_notes)
+    .innerJoin(visits, eq(visit_notes.visitid, visits.visitid))
+    .where(and(eq(visits.patientid, patientid), isNotNull(visit_notes.audio_storage_key)));
+  const addenda = await db.select({ key: visit_note_addenda.audio_storage_key })
+    .from(visit_note_addenda)
+    .innerJoin(visit_notes, eq(visit_note_addenda.noteid, visit_notes.noteid))
+    .innerJoin(visits, eq(visit_notes.visitid, visits.visitid))
+    .where(and(eq(visits.patientid, patientid), isNotNull(visit_note_addenda.audio_storage_key)));
+  return [...notes, ...addenda].map(row => row.key!);
+}
+
+// Delete recordings whose rows are already gone; returns the keys that could not be
+// deleted so the caller can report them, since nothing else points to them any more
+export async function deleteStoredAudio(keys: string[]): Promise<string[]> {
+  const failed: string[] = [];
+  for (const key of keys) {
+    try {
+      await getBlobStoreForKey(key).delete(key);
+    } catch (error) {
+      console.error(`Failed to delete audio ${key}:`, error);
+      failed.push(key);
+    }
+  }
+  return failed;
+}
+
+export function hasStoredAudio(source: Pick<AudioSource, 'audio_file' | 'audio_storage_key'>): boolean {
+  return !!source.audio_storage_key || !!source.audio_file;
+}
+
+// The whole recording in memory, for server-side work such as transcription; null if it's missing
+export async function loadStoredAudio(source: Pick<AudioSource, 'audio_file' | 'audio_storage_key'>): Promise<Buffer | null> {
+  if (source.audio_storage_key) {
+    return await getBlobStoreForKey(source.audio_storage_key).get(source.audio_storage_key);
+  }
+  return source.audio_file ? Buffer.from(source.audio_file, 'base64') : null;
+}
+
+// Notes as sent to the browser: legacy base64 bytes stay on the server, playback goes through the audio route
+export function omitAudioData<T extends { audio_file: string | null }>(row: T): Omit<T, 'audio_file'>;
+export function omitAudioData<T extends { audio_file: string | null }>(row: T | undefined): Omit<T, 'audio_file'> | undefined;
+export function omitAudioData<T extends { audio_file: string | null }>(row: T | undefined): Omit<T, 'audio_file'> | undefined {
+  if (!row) return undefined;
+  const { audio_file, ...rest } = row;
+  return rest;
+}
+
+/**
+ * Parse a single-range HTTP Range header ("bytes=0-499", "bytes=500-", "bytes=-500").
+ * Returns null when the whole file should be sent (no header, or a form we don't
+ * support such as multiple ranges) and 'unsatisfiable' when the range lies outside
+ * the file.
+ */
+export function parseByteRange(header: string | undefined, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(match[2], 10);
+    if (suffixLength === 0) return 'unsatisfiable';
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+/**
+ * Send a recording to the client, honouring Range requests so players can seek
+ * without downloading the whole file. Objects in storage are streamed straight
+ * from the blob store; legacy base64 rows are decoded and sliced in memory.
+ */
+export async function sendStoredAudio(req: Request, res: Response, source: AudioSource, fallbackFilename: string): Promise<void> {
+  let size: number | null;
+  let legacyBuffer: Buffer | null = null;
+
+  if (source.audio_storage_key) {
+    size = source.audio_size_bytes ?? (await getBlobStoreForKey(source.audio_storage_key).head(source.audio_storage_key))?.size ?? null;
+  } else if (source.audio_file) {
+    legacyBuffer = Buffer.from(source.audio_file, 'base64');
+    size = legacyBuffer.length;
+  } else {
+    size = null;
+  }
+
+  if (size === null) {
+    res.status(404).json({ error: "Audio file not found" });
+    return;
+  }
+
+  const range = parseByteRange(req.headers.range, size);
+  if (range === 'unsatisfiable') {
+    res.status(416).setHeader('Content-Range', `bytes */${size}`);
+    res.end();
+    return;
+  }
+
+  const start = range ? range.start : 0;
+  const end = range ? range.end : size - 1;
+
+  let body: Readable | null = null;
+  if (source.audio_storage_key) {
+    body = await getBlobStoreForKey(source.audio_storage_key).stream(source.audio_storage_key, range || undefined);
+    if (!body) {
+      console.error('Audio object missing from storage:', source.audio_storage_key);
+      res.status(404).json({ error: "Audio file not found in storage" });
+      return;
+    }
+  }
+
+  res.status(range ? 206 : 200);
+  res.setHeader('Content-Type', source.audio_mimetype || 'audio/wav');
+  res.setHeader('Content-Disposition', `inline; filename="${source.audio_filename || fallbackFilename}"`);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Content-Length', (end - start + 1).toString());
+  if (range) {
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+  }
+
+  if (legacyBuffer) {
+    res.end(legacyBuffer.subarray(start, end + 1));
+    return;
+  }
+
+  body!.on('error', (error) => {
+    console.error('Audio stream error:', error);
+    res.destroy(error);
+  });
+  body!.pipe(res);
+}
+
+// One-time move of legacy base64 audio into object storage
+
+export interface AudioMigrationFailure {
+  table: 'visit_notes' | 'visit_note_addenda';
+  id: string;
+  error: string;
+}
+
+export interface AudioMigrationResult {
+  notesMigrated: number;
+  addendaMigrated: number;
+  failures: AudioMigrationFailure[];
+}
+
+/**
+ * Upload one legacy recording, read it back and compare checksums. Only a
+ * verified copy is returned; the caller clears the base64 column after that.
+ */
+async function uploadAndVerify(base64: string, mimetype: string | null, owner: AudioOwner, filename: string | null): Promise<StoredAudio> {
+  const buffer = Buffer.from(base64, 'base64');
+  if (buffer.length === 0) {
+    throw new Error('Stored audio is empty');
+  }
+
+  const stored = await storeAudio(buffer, mimetype || 'audio/wav', owner, filename);
+  const roundTrip = await getBlobStore().get(stored.audio_storage_key);
+  if (!roundTrip) {
+    throw new Error(`Uploaded object ${stored.audio_storage_key} could not be read back`);
+  }
+  if (roundTrip.length !== stored.audio_size_bytes || sha256Hex(roundTrip) !== stored.audio_sha256) {
+    throw new Error(`Checksum mismatch after upload to ${stored.audio_storage_key}`);
+  }
+  return stored;
+}
+
+/**
+ * Move every base64 recording on notes and addenda into object storage.
+ * Rows are handled one at a time so a large backlog doesn't have to fit in memory,
+ * and a row is only rewritten after its checksum is verified. Running it again
+ * picks up whatever is still in the database, so it is safe to re-run after failures.
+ */
+export async function migrateAudioToObjectStorage(
+  options: { dryRun?: boolean; log?: (message: string) => void } = {}
+): Promise<AudioMigrationResult> {
+  const log = options.log || console.log;
+  const result: AudioMigrationResult = { notesMigrated: 0, addendaMigrated: 0, failures: [] };
+
+  const pendingNotes = await db.select({
+    noteid: visit_notes.noteid,
+    visitid: visits.visitid,
+    patientid: patients.patientid,
+    orgid: patients.orgid,
+  })
+    .from(visit_notes)
+    .innerJoin(visits, eq(visit_notes.visitid, visits.visitid))
+    .innerJoin(patients, eq(visits.patientid, patients.patientid))
+    .where(isNotNull(visit_notes.audio_file));
+
+  const pendingAddenda = await db.select({
+    addendum_id: visit_note_addenda.addendum_id,
+    visitid: visits.visitid,
+    patientid: patients.patientid,
+    orgid: patients.orgid,
+  })
+    .from(visit_note_addenda)
+    .innerJoin(visit_notes, eq(visit_note_addenda.noteid, visit_notes.noteid))
+    .innerJoin(visits, eq(visit_notes.visitid, visits.visitid))
+    .innerJoin(patients, eq(visits.patientid, patients.patientid))
+    .where(isNotNull(visit_note_addenda.audio_file));
+
+  log(`Found ${pendingNotes.length} note recording(s) and ${pendingAddenda.length} addendum recording(s) stored in the database`);
+  if (options.dryRun) {
+    return result;
+  }
+
+  for (const pending of pendingNotes) {
+    try {
+      const [note] = await db.select({
+        audio_file: visit_notes.audio_file,
+        audio_filename: visit_notes.audio_filename,
+        audio_mimetype: visit_notes.audio_mimetype,
+      }).from(visit_notes).where(eq(visit_notes.noteid, pending.noteid));
+      if (!note?.audio_file) continue;
+
+      const stored = await uploadAndVerify(note.audio_file, note.audio_mimetype, pending, note.audio_filename);
+      await db.update(visit_notes)
+        .set({ ...stored, audio_file: null })
+        .where(and(eq(visit_notes.noteid, pending.noteid), isNotNull(visit_notes.audio_file)));
+      result.notesMigrated++;
+      log(`Note ${pending.noteid}: ${stored.audio_size_bytes} bytes -> ${stored.audio_storage_key}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.failures.push({ table: 'visit_notes', id: pending.noteid, error: message });
+      log(`Note ${pending.noteid}: FAILED - ${message}`);
+    }
+  }
+
+  for (const pending of pendingAddenda) {
+    try {
+      const [addendum] = await db.select({
+        audio_file: visit_note_addenda.audio_file,
+        audio_filename: visit_note_addenda.audio_filename,
+        audio_mimetype: visit_note_addenda.audio_mimetype,
+      }).from(visit_note_addenda).where(eq(visit_note_addenda.addendum_id, pending.addendum_id));
+      if (!addendum?.audio_file) continue;
+
+      const stored = await uploadAndVerify(addendum.audio_file, addendum.audio_mimetype, pending, addendum.audio_filename);
+      await db.update(visit_note_addenda)
+        .set({ ...stored, audio_file: null })
+        .where(and(eq(visit_note_addenda.addendum_id, pending.addendum_id), isNotNull(visit_note_addenda.audio_file)));
+      result.addendaMigrated++;
+      log(`Addendum ${pending.addendum_id}: ${stored.audio_size_bytes} bytes -> ${stored.audio_storage_key}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.failures.push({ table: 'visit_note_addenda', id: pending.addendum_id, error: message });
+      log(`Addendum ${pending.addendum_id}: FAILED - ${message}`);
+    }
+  }
+
+  return result;
+}
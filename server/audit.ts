@@ -0,0 +1,55 @@
+import type { Request } from "express";
+import type { AuditAction } from "@shared/schema";
+import type { AuthContext } from "./auth";
+import { storage } from "./storage";
+
+export interface AuditEntry {
+  action: AuditAction;
+  resourceId?: string | null;
+  patientid?: string | null;
+  visitid?: string | null; // Used to resolve patientid when the caller doesn't have it
+  orgid?: string | null; // Defaults to the request's effective org
+  details?: Record<string, unknown>;
+}
+
+export function getClientIp(req: Request): string {
+  return req.headers['x-forwarded-for']?.toString().split(',')[0].trim()
+    || req.socket.remoteAddress
+    || 'unknown';
+}
+
+/**
+ * Record an audit event for an authenticated request.
+ * Audit failures are logged but never thrown, so a broken audit write
+ * cannot take down the clinical workflow that triggered it.
+ */
+export async function recordAudit(req: Request, entry: AuditEntry, authContext: AuthContext | undefined = req.authContext): Promise<void> {
+  if (!authContext) {
+    console.warn(`Audit skipped for ${entry.action}: no auth context`);
+    return;
+  }
+
+  try {
+    let patientid = entry.patientid ?? null;
+    if (!patientid && entry.visitid) {
+      const visit = await storage.getVisit(entry.visitid);
+      patientid = visit?.patientid ?? null;
+    }
+
+    await storage.createAuditEvent({
+      orgid: entry.orgid !== undefined ? entry.orgid : (authContext.impersonatedOrgId || authContext.orgid),
+      actor_empid: authContext.empid,
+      actor_role: authContext.activeRole || authContext.role,
+      is_impersonated: !!authContext.impersonatedOrgId,
+      action: entry.action,
+      resource_type: entry.action.split('.')[0],
+      resource_id: entry.resourceId ?? null,
+      patientid,
+      ip_address: getClientIp(req),
+      user_agent: req.headers['user-agent'] || null,
+      details: entry.visitid ? { visitid: entry.visitid, ...entry.details } : (entry.details ?? null),
+    });
+  } catch (error) {
+    console.error(`Audit write failed for ${entry.action}:`, error);
+  }
+}
@@ -0,0 +1,366 @@
+import { promises as fs, createReadStream, existsSync } from "fs";
+import path from "path";
+import { Readable } from "stream";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Client as ReplitObjectStorageClient } from "@replit/object-storage";
+
+export const BLOB_STORE_DRIVERS = ['s3', 'replit', 'local'] as const;
+export type BlobStoreDriver = typeof BLOB_STORE_DRIVERS[number];
+
+export interface BlobHead {
+  size: number;
+  contentType: string | null;
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where uploaded files (visit documents, note audio) live. Keys are paths such as
+ * `documents/org/{orgid}/...`; callers never see bucket names or local directories.
+ * Reads return null for a missing object rather than throwing.
+ */
+export interface BlobStore {
+  readonly driver: BlobStoreDriver;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  stream(key: string, range?: ByteRange): Promise<Readable | null>;
+  delete(key: string): Promise<void>;
+  head(key: string): Promise<BlobHead | null>;
+  // Time-limited direct download URL, or null if the driver can't issue one
+  presign(key: string, expiresInSeconds?: number): Promise<string | null>;
+}
+
+const DEFAULT_PRESIGN_SECONDS = 300;
+
+function isNotFoundError(error: any): boolean {
+  return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+}
+
+// AWS S3 (Mumbai ap-south-1) - the production store
+class S3BlobStore implements BlobStore {
+  readonly driver = 's3' as const;
+  private client: S3Client | null = null;
+
+  private getClient(): S3Client {
+    if (!this.client) {
+      const region = process.env.AWS_REGION || 'ap-south-1';
+      const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+      const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+
+      if (!accessKeyId || !secretAccessKey) {
+        throw new Error('AWS credentials not configured. Please set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY.');
+      }
+
+      this.client = new S3Client({
+        region,
+        credentials: {
+          accessKeyId,
+          secretAccessKey,
+        }
+      });
+    }
+    return this.client;
+  }
+
+  private getBucket(): string {
+    const bucket = process.env.AWS_S3_BUCKET;
+    if (!bucket) {
+      throw new Error('AWS S3 bucket not configured. Please set AWS_S3_BUCKET.');
+    }
+    return bucket;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.getClient().send(new PutObjectCommand({
+      Bucket: this.getBucket(),
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      ContentLength: body.length,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.getClient().send(new GetObjectCommand({ Bucket: this.getBucket(), Key: key }));
+      if (!response.Body) return null;
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      if (isNotFoundError(error)) return null;
+      throw error;
+    }
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable | null> {
+    try {
+      const response = await this.getClient().send(new GetObjectCommand({
+        Bucket: this.getBucket(),
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      return (response.Body as Readable | undefined) ?? null;
+    } catch (error) {
+      if (isNotFoundError(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.getClient().send(new DeleteObjectCommand({ Bucket: this.getBucket(), Key: key }));
+  }
+
+  async head(key: string): Promise<BlobHead | null> {
+    try {
+      const response = await this.getClient().send(new HeadObjectCommand({ Bucket: this.getBucket(), Key: key }));
+      return { size: response.ContentLength ?? 0, contentType: response.ContentType ?? null };
+    } catch (error) {
+      if (isNotFoundError(error)) return null;
+      throw error;
+    }
+  }
+
+  async presign(key: string, expiresInSeconds = DEFAULT_PRESIGN_SECONDS): Promise<string | null> {
+    return getSignedUrl(
+      this.getClient(),
+      new GetObjectCommand({ Bucket: this.getBucket(), Key: key }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+}
+
+// Replit Object Storage - only holds documents uploaded before the move to S3
+class ReplitBlobStore implements BlobStore {
+  readonly driver = 'replit' as const;
+  private client: ReplitObjectStorageClient | null = null;
+
+  private getClient(): ReplitObjectStorageClient {
+    if (!this.client) {
+      const bucketId = process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID;
+      if (!bucketId) {
+        throw new Error('Replit Object Storage bucket ID not configured. Please set DEFAULT_OBJECT_STORAGE_BUCKET_ID.');
+      }
+      this.client = new ReplitObjectStorageClient({ bucketId });
+    }
+    return this.client;
+  }
+
+  // Strip the bucket prefix from the storage key if present
+  // Format: /replit-objstore-{bucketId}/.private/... -> .private/...
+  private cleanKey(key: string): string {
+    const bucketPrefixMatch = key.match(/^\/?replit-objstore-[a-f0-9-]+\/(.+)$/);
+    return bucketPrefixMatch ? bucketPrefixMatch[1] : key;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const result = await this.getClient().uploadFromBytes(this.cleanKey(key), body);
+    if (!result.ok) {
+      throw new Error(`Replit Object Storage upload failed: ${result.error.message}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const result = await this.getClient().downloadAsBytes(this.cleanKey(key));
+    if (!result.ok) {
+      console.error('Replit Object Storage download failed:', result.error);
+      return null;
+    }
+
+    // Handle various return types from Replit Object Storage
+    const value: unknown = Array.isArray(result.value) ? result.value[0] : result.value;
+    if (value instanceof Buffer) return value;
+    if (value instanceof Uint8Array) return Buffer.from(value);
+    return Buffer.from(value as ArrayBuffer);
+  }
+
+  // The Replit client can't fetch partial objects, so ranges are cut from the full download
+  async stream(key: string, range?: ByteRange): Promise<Readable | null> {
+    const buffer = await this.get(key);
+    if (!buffer) return null;
+    return Readable.from(range ? buffer.subarray(range.start, range.end + 1) : buffer);
+  }
+
+  async delete(key: string): Promise<void> {
+    const result = await this.getClient().delete(this.cleanKey(key), { ignoreNotFound: true });
+    if (!result.ok) {
+      throw new Error(`Replit Object Storage delete failed: ${result.error.message}`);
+    }
+  }
+
+  async head(key: string): Promise<BlobHead | null> {
+    const buffer = await this.get(key);
+    return buffer ? { size: buffer.length, contentType: null } : null;
+  }
+
+  async presign(): Promise<string | null> {
+    return null;
+  }
+}
+
+// Files under a local directory - for running on a laptop without cloud credentials
+class LocalBlobStore implements BlobStore {
+  readonly driver = 'local' as const;
+
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key.replace(/^\/+/, ''));
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable | null> {
+    if (!await this.head(key)) return null;
+    return createReadStream(this.resolve(key), range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async head(key: string): Promise<BlobHead | null> {
+    try {
+      const stats = await fs.stat(this.resolve(key));
+      return { size: stats.size, contentType: null };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async presign(): Promise<string | null> {
+    return null;
+  }
+}
+
+// Helper to check if storage_key is from old Replit Object Storage
+export function isReplitObjectStoragePath(storageKey: string): boolean {
+  return storageKey.startsWith('/replit-objstore-') || storageKey.startsWith('replit-objstore-');
+}
+
+/**
+ * Reads through the current store first and then stores used before a driver switch,
+ * since keys don't record which driver wrote them. Writes go to the current store only.
+ */
+class FallbackBlobStore implements BlobStore {
+  constructor(private readonly current: BlobStore, private readonly previous: BlobStore[]) {}
+
+  get driver(): BlobStoreDriver {
+    return this.current.driver;
+  }
+
+  // First store that has the key, or null
+  private async holder(key: string): Promise<BlobStore | null> {
+    for (const store of [this.current, ...this.previous]) {
+      if (await store.head(key)) return store;
+    }
+    return null;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.current.put(key, body, contentType);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    for (const store of [this.current, ...this.previous]) {
+      const body = await store.get(key);
+      if (body) return body;
+    }
+    return null;
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable | null> {
+    return (await this.holder(key))?.stream(key, range) ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await (await this.holder(key))?.delete(key);
+  }
+
+  async head(key: string): Promise<BlobHead | null> {
+    const store = await this.holder(key);
+    return store ? store.head(key) : null;
+  }
+
+  async presign(key: string, expiresInSeconds?: number): Promise<string | null> {
+    return (await this.holder(key))?.presign(key, expiresInSeconds) ?? null;
+  }
+}
+
+const stores: Partial<Record<BlobStoreDriver, BlobStore>> = {};
+
+const localBlobStoreDir = () => process.env.LOCAL_BLOB_STORE_DIR || path.resolve('.data', 'blobs');
+
+function getStore(driver: BlobStoreDriver): BlobStore {
+  if (!stores[driver]) {
+    switch (driver) {
+      case 's3':
+        stores[driver] = new S3BlobStore();
+        break;
+      case 'replit':
+        stores[driver] = new ReplitBlobStore();
+        break;
+      case 'local':
+        stores[driver] = new LocalBlobStore(localBlobStoreDir());
+        break;
+    }
+  }
+  return stores[driver]!;
+}
+
+// Store for new uploads, chosen by BLOB_STORE_DRIVER (s3 | replit | local; default s3)
+export function getBlobStore(): BlobStore {
+  const driver = (process.env.BLOB_STORE_DRIVER || 's3') as BlobStoreDriver;
+  if (!BLOB_STORE_DRIVERS.includes(driver)) {
+    throw new Error(`Unknown BLOB_STORE_DRIVER "${driver}". Expected one of: ${BLOB_STORE_DRIVERS.join(', ')}`);
+  }
+  return getStore(driver);
+}
+
+// Other stores still reachable from here that may hold keys written before BLOB_STORE_DRIVER changed
+function previousStores(current: BlobStoreDriver): BlobStore[] {
+  const previous: BlobStore[] = [];
+  if (current !== 's3' && process.env.AWS_S3_BUCKET && process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY) {
+    previous.push(getStore('s3'));
+  }
+  if (current !== 'local' && existsSync(localBlobStoreDir())) {
+    previous.push(getStore('local'));
+  }
+  return previous;
+}
+
+// Store holding an existing key - legacy Replit paths are always read from Replit, anything
+// else from the configured store or, failing that, a store used before a driver switch
+export function getBlobStoreForKey(storageKey: string): BlobStore {
+  if (isReplitObjectStoragePath(storageKey)) return getStore('replit');
+  const current = getBlobStore();
+  const previous = previousStores(current.driver);
+  return previous.length > 0 ? new FallbackBlobStore(current, previous) : current;
+}
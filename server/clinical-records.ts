@@ -0,0 +1,68 @@
+import type { ClinicalRecords, ExtractedClinicalRecords, Patient, Visit, VisitNote } from "@shared/schema";
+import { storage } from "./storage";
+import { extractClinicalFacts } from "./note-ai";
+import { loadDeidentifier, type Deidentifier } from "./deidentify";
+import type { UsageActor } from "./usage";
+
+// Every text field of every record, with placeholders swapped back
+function reidentifyRecords(records: ExtractedClinicalRecords, deidentifier: Deidentifier): ExtractedClinicalRecords {
+  const reidentify = <T extends object>(record: T): T => Object.fromEntries(
+    Object.entries(record).map(([field, value]) => [field, typeof value === 'string' ? deidentifier.reidentify(value) : value])
+  ) as T;
+  return {
+    problems: records.problems.map(reidentify),
+    medications: records.medications.map(reidentify),
+    allergies: records.allergies.map(reidentify),
+    vitals: records.vitals.map(reidentify),
+  };
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Findings the doctor already confirmed from this note aren't offered again, even if they
+// changed the details; a record is the same finding if it names the same problem, drug, substance or vital
+function withoutConfirmed(extracted: ExtractedClinicalRecords, existing: ClinicalRecords, noteid: string): ExtractedClinicalRecords {
+  const confirmed = <T extends { noteid: string; review_status: string }>(group: T[], key: (record: T) => string) =>
+    new Set(group.filter(record => record.noteid === noteid && record.review_status === 'confirmed').map(key));
+  const problems = confirmed(existing.problems, problem => normalize(problem.description));
+  const medications = confirmed(existing.medications, medication => normalize(medication.name));
+  const allergies = confirmed(existing.allergies, allergy => normalize(allergy.substance));
+  const vitals = confirmed(existing.vitals, vital => vital.kind);
+  return {
+    problems: extracted.problems.filter(problem => !problems.has(normalize(problem.description))),
+    medications: extracted.medications.filter(medication => !medications.has(normalize(medication.name))),
+    allergies: extracted.allergies.filter(allergy => !allergies.has(normalize(allergy.substance))),
+    vitals: extracted.vitals.filter(vital => !vitals.has(vital.kind)),
+  };
+}
+
+/**
+ * Extracts problems, medications, allergies and vitals from a note and its addenda and
+ * stores them for the doctor to review, replacing whatever an earlier extraction of
+ * the note left unreviewed and skipping what the doctor already confirmed from it.
+ * Returns the patient's records afterwards.
+ */
+export async function extractNoteClinicalRecords(
+  actor: UsageActor,
+  note: VisitNote,
+  visit: Visit,
+  patient: Patient
+): Promise<ClinicalRecords> {
+  const addenda = await storage.getVisitNoteAddenda([note.noteid]);
+  const text = [note.transcription_text?.trim() ?? '', ...addenda.map(addendum => `ADDENDUM:\n${addendum.addendum_text.trim()}`)]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const deidentifier = await loadDeidentifier(patient.orgid, patient);
+  const found = deidentifier
+    ? reidentifyRecords(await extractClinicalFacts(actor, deidentifier.scrub(text)), deidentifier)
+    : await extractClinicalFacts(actor, text);
+  const extracted = withoutConfirmed(found, await storage.getClinicalRecords(patient.patientid), note.noteid);
+  console.log(`Clinical extraction: ${extracted.problems.length} problems, ${extracted.medications.length} medications, ${extracted.allergies.length} allergies, ${extracted.vitals.length} vitals`);
+
+  await storage.replacePendingClinicalRecords(
+    { patientid: patient.patientid, noteid: note.noteid, visit_date: visit.visit_date },
+    extracted
+  );
+  return await storage.getClinicalRecords(patient.patientid);
+}
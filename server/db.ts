@@ -12,7 +12,7 @@ function getAwsRdsConfig() {
 
   if (!host || !database || !user || !password) {
     throw new Error(
-      "AWS RDS configuration missing. Required environment variables: AWS_RDS_HOST, AWS_RDS_DATABASE, AWS_RDS_USER, AWS_RDS_PASSWORD"
+      "Database configuration missing. Set DATABASE_URL, or AWS_RDS_HOST, AWS_RDS_DATABASE, AWS_RDS_USER and AWS_RDS_PASSWORD"
     );
   }
 
@@ -25,18 +25,31 @@ function getAwsRdsConfig() {
   };
 }
 
-const config = getAwsRdsConfig();
+function createAwsRdsPool(): Pool {
+  const config = getAwsRdsConfig();
+  return new Pool({ 
+    host: config.host,
+    port: config.port,
+    database: config.database,
+    user: config.user,
+    password: config.password,
+    max: 20,
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 10000,
+    ssl: { rejectUnauthorized: false }
+  });
+}
 
-export const pool = new Pool({ 
-  host: config.host,
-  port: config.port,
-  database: config.database,
-  user: config.user,
-  password: config.password,
-  max: 20,
-  idleTimeoutMillis: 30000,
-  connectionTimeoutMillis: 10000,
-  ssl: { rejectUnauthorized: false }
-});
+// AWS RDS when its settings are present, as in production. Otherwise DATABASE_URL (the same
+// one drizzle-kit uses) can point at any Postgres, e.g. a local one for development; SSL then
+// follows the URL's sslmode.
+export const pool = !process.env.AWS_RDS_HOST && process.env.DATABASE_URL
+  ? new Pool({
+    connectionString: process.env.DATABASE_URL,
+    max: 20,
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 10000
+  })
+  : createAwsRdsPool();
 
 export const db = drizzle(pool, { schema });
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Patient } from "@shared/schema";
+import { Deidentifier } from "./deidentify";
+
+const patient: Patient = {
+  patientid: 'P-20931',
+  orgid: '550e8400-e29b-41d4-a716-446655440000',
+  mrn: '104233',
+  first_name: 'Ramesh',
+  last_name: 'Kumar',
+  date_of_birth: '1961-04-12',
+  gender: 'male',
+  contact_info: '9876543210, 14 Gandhi Nagar, Pune',
+  created_at: null,
+};
+
+test('scrub replaces the patient\'s own details and reidentify restores them', () => {
+  const deidentifier = new Deidentifier(patient);
+  const text = 'Ramesh Kumar (MRN 104233), born 1961-04-12, lives at 14 Gandhi Nagar. Mr. Kumar reports cough.';
+
+  const scrubbed = deidentifier.scrub(text);
+  assert.equal(scrubbed, '[NAME_1] (MRN [ID_1]), born [DATE_1], lives at [ADDRESS_1]. Mr. [NAME_2] reports cough.');
+  assert.equal(deidentifier.reidentify(scrubbed), text);
+});
+
+test('scrub gives the same detail the same placeholder across texts', () => {
+  const deidentifier = new Deidentifier(patient);
+  assert.equal(deidentifier.scrub('Ramesh called.'), '[NAME_1] called.');
+  assert.equal(deidentifier.scrub('Spoke to Ramesh again.'), 'Spoke to [NAME_1] again.');
+  assert.equal(deidentifier.size, 1);
+});
+
+test('scrub keeps each casing of a name apart so it is restored as written', () => {
+  const deidentifier = new Deidentifier(patient);
+  const scrubbed = deidentifier.scrub('RAMESH KUMAR, also written Ramesh Kumar.');
+  assert.equal(scrubbed, '[NAME_1], also written [NAME_2].');
+  assert.equal(deidentifier.reidentify(scrubbed), 'RAMESH KUMAR, also written Ramesh Kumar.');
+});
+
+test('scrub catches details by pattern without a patient', () => {
+  const deidentifier = new Deidentifier();
+  const scrubbed = deidentifier.scrub('Call +91 98765 43210 or mail ravi.k@example.com. Seen by Dr. Mehta on 03/02/2026. Aadhaar 1234 5678 9012.');
+  assert.equal(scrubbed, 'Call [PHONE_1] or mail [EMAIL_1]. Seen by Dr. [NAME_1] on [DATE_1]. Aadhaar [ID_1].');
+});
+
+test('scrub leaves clinical numbers and durations alone', () => {
+  const deidentifier = new Deidentifier(patient);
+  const text = 'BP 130/80 mmHg, pulse 72. Metformin 500 mg twice daily for 3 months. Symptoms started 2 days ago.';
+  assert.equal(deidentifier.scrub(text), text);
+  assert.equal(deidentifier.size, 0);
+});
+
+test('reidentify leaves placeholders it never issued as they are', () => {
+  const deidentifier = new Deidentifier(patient);
+  deidentifier.scrub('Ramesh is here.');
+  assert.equal(deidentifier.reidentify('[NAME_1] and [NAME_7] attended.'), 'Ramesh and [NAME_7] attended.');
+});
@@ -0,0 +1,126 @@
+import type { Patient } from "@shared/schema";
+import { storage } from "./storage";
+
+export type PhiKind = 'NAME' | 'DATE' | 'PHONE' | 'EMAIL' | 'ID' | 'ADDRESS';
+
+const MONTH = '(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?';
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g; // First, so a name inside an address doesn't split it
+
+// Applied in order, after the patient's own details; each match becomes a placeholder.
+// Durations and relative dates ("3 days ago") are clinical and stay.
+const PHI_PATTERNS: { kind: PhiKind; pattern: RegExp; accept?: (match: string) => boolean }[] = [
+  // Aadhaar-style 12 digits in groups of four, PAN, and any code following an ID keyword
+  { kind: 'ID', pattern: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g },
+  { kind: 'ID', pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g },
+  {
+    kind: 'ID',
+    pattern: /(?<=\b(?:MRN|UHID|IPD?|OPD?|ID|reg(?:istration)?|aadhaar|aadhar|passport|insurance|policy|abha)\s*(?:no\.?|number|#)?\s*[:#-]?\s*)[A-Z0-9][A-Z0-9/-]{3,}\b/gi,
+    accept: match => /\d/.test(match)
+  },
+  {
+    kind: 'PHONE',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,5}\)[\s.-]?)?\d{2,5}(?:[\s.-]?\d{2,5}){1,3}/g,
+    accept: match => match.replace(/\D/g, '').length >= 10
+  },
+  { kind: 'DATE', pattern: /\b\d{4}-\d{1,2}-\d{1,2}\b/g },
+  { kind: 'DATE', pattern: /\b\d{1,2}[/.-]\d{1,2}[/.-](?:\d{4}|\d{2})\b/g },
+  { kind: 'DATE', pattern: new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH},?\\s+\\d{4}\\b`, 'gi') },
+  { kind: 'DATE', pattern: new RegExp(`\\b${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`, 'gi') },
+  {
+    kind: 'ADDRESS',
+    pattern: /\b\d{1,5}[,\s]+(?:[A-Z][\w.'-]*\s+){0,4}(?:Street|St|Road|Rd|Lane|Ln|Avenue|Ave|Nagar|Marg|Colony|Sector|Block|Society|Apartments?)\b\.?/g
+  },
+  { kind: 'ADDRESS', pattern: /(?<=\b(?:PIN|pin ?code|postcode|zip)\s*[:#-]?\s*)\d{5,6}\b/gi },
+  // A capitalised name after a title; the title stays
+  { kind: 'NAME', pattern: /(?<=\b(?:Mr|Mrs|Ms|Miss|Dr|Shri|Smt|Sri|Kumari)\.?\s)[A-Z][a-z]+(?:\s[A-Z][a-z]+)?/g },
+];
+
+const PLACEHOLDER = /\[(?:NAME|DATE|PHONE|EMAIL|ID|ADDRESS)_\d+\]/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const normalize = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+interface KnownIdentifier {
+  kind: PhiKind;
+  value: string;
+}
+
+// What the patients row says about the patient, longest first so a full name wins over its parts
+function knownIdentifiers(patient: Patient): KnownIdentifier[] {
+  const known: KnownIdentifier[] = [
+    { kind: 'NAME', value: `${patient.first_name} ${patient.last_name}` },
+    { kind: 'NAME', value: `${patient.last_name} ${patient.first_name}` },
+    { kind: 'NAME', value: patient.first_name },
+    { kind: 'NAME', value: patient.last_name },
+    { kind: 'ID', value: patient.patientid },
+    { kind: 'DATE', value: patient.date_of_birth },
+  ];
+  if (patient.mrn) known.push({ kind: 'ID', value: patient.mrn });
+  // Contact details are free text; each line or comma-separated part that isn't just digits is taken as address
+  for (const part of (patient.contact_info || '').split(/[\n,;]+/)) {
+    if (/[a-z]/i.test(part) && part.trim().length >= 4) known.push({ kind: 'ADDRESS', value: part.trim() });
+  }
+  return known
+    .filter(identifier => identifier.value.trim().length >= 2)
+    .sort((a, b) => b.value.length - a.value.length);
+}
+
+/**
+ * Swaps identifying details for placeholders such as [NAME_1] before text goes to a
+ * model, and back again in what the model returns. One instance serves a whole request
+ * so the same detail gets the same placeholder in every text sent.
+ */
+export class Deidentifier {
+  // Case is kept apart ("RAMESH" and "Ramesh" differ) so each placeholder restores exactly what was written
+  private readonly placeholders = new Map<string, string>(); // Original -> placeholder
+  private readonly originals = new Map<string, string>(); // Placeholder -> original
+  private readonly counts: Partial<Record<PhiKind, number>> = {};
+  private readonly knownPatterns: { kind: PhiKind; pattern: RegExp }[];
+
+  constructor(patient?: Patient | null) {
+    this.knownPatterns = (patient ? knownIdentifiers(patient) : []).map(({ kind, value }) => ({
+      kind,
+      pattern: new RegExp(`(?<![\\w])${escapeRegExp(value.trim()).replace(/\s+/g, '\\s+')}(?![\\w])`, 'gi')
+    }));
+  }
+
+  // Number of distinct details replaced so far
+  get size(): number {
+    return this.originals.size;
+  }
+
+  private placeholderFor(kind: PhiKind, value: string): string {
+    const key = `${kind}:${normalize(value)}`;
+    let placeholder = this.placeholders.get(key);
+    if (!placeholder) {
+      this.counts[kind] = (this.counts[kind] ?? 0) + 1;
+      placeholder = `[${kind}_${this.counts[kind]}]`;
+      this.placeholders.set(key, placeholder);
+      this.originals.set(placeholder, value);
+    }
+    return placeholder;
+  }
+
+  scrub(text: string): string {
+    let scrubbed = text.replace(EMAIL, match => this.placeholderFor('EMAIL', match));
+    for (const { kind, pattern } of this.knownPatterns) {
+      scrubbed = scrubbed.replace(pattern, match => this.placeholderFor(kind, match));
+    }
+    for (const { kind, pattern, accept } of PHI_PATTERNS) {
+      scrubbed = scrubbed.replace(pattern, match => !accept || accept(match) ? this.placeholderFor(kind, match) : match);
+    }
+    return scrubbed;
+  }
+
+  // Placeholders the model invented or mangled are left as they are
+  reidentify(text: string): string {
+    return text.replace(PLACEHOLDER, placeholder => this.originals.get(placeholder) ?? placeholder);
+  }
+}
+
+// A de-identifier for the request when the organization requires one (orgs.require_deidentification), else null
+export async function loadDeidentifier(orgid: string | null | undefined, patient?: Patient | null): Promise<Deidentifier | null> {
+  const org = orgid ? await storage.getOrg(orgid) : undefined;
+  return org?.require_deidentification ? new Deidentifier(patient) : null;
+}
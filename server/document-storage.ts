@@ -0,0 +1,188 @@
+import { eq, and, like, or, sql } from "drizzle-orm";
+import { visit_documents, visits } from "@shared/schema";
+import { db } from "./db";
+import { getBlobStore, getBlobStoreForKey } from "./blob-store";
+
+// documents/org/{orgid}/patients/{patientid}/visits/{visitid}/{documentId}_{filename}
+export function buildDocumentStorageKey(
+  orgid: string,
+  patientid: string,
+  visitid: string,
+  documentId: string,
+  filename: string
+): string {
+  const safeFilename = filename.replace(/[^a-zA-Z0-9.-]/g, '_');
+  return `documents/org/${orgid}/patients/${patientid}/visits/${visitid}/${documentId}_${safeFilename}`;
+}
+
+// Legacy Replit -> S3 document migration, started by a super admin from the console
+
+export interface LegacyDocumentMigrationFailure {
+  document_id: string;
+  storage_key: string;
+  original_filename: string;
+  error: string;
+}
+
+export interface LegacyDocumentMigrationRun {
+  status: 'running' | 'completed' | 'failed';
+  dry_run: boolean;
+  started_by_empid: string;
+  started_at: string;
+  finished_at: string | null;
+  total: number;
+  processed: number;
+  migrated: number;
+  failures: LegacyDocumentMigrationFailure[];
+  error: string | null; // Set when the run as a whole stopped, e.g. storage misconfigured
+}
+
+export interface LegacyDocumentMigrationStatus {
+  legacy_remaining: number;
+  target_driver: string;
+  last_run: LegacyDocumentMigrationRun | null;
+}
+
+// Only one run at a time per server; the latest run is kept for the status endpoint
+let currentRun: LegacyDocumentMigrationRun | null = null;
+
+const legacyKeyCondition = or(
+  like(visit_documents.storage_key, 'replit-objstore-%'),
+  like(visit_documents.storage_key, '/replit-objstore-%')
+);
+
+async function getLegacyDocuments() {
+  return db.select({
+    document_id: visit_documents.document_id,
+    orgid: visit_documents.orgid,
+    visitid: visit_documents.visitid,
+    patientid: visits.patientid,
+    storage_key: visit_documents.storage_key,
+    original_filename: visit_documents.original_filename,
+    mime_type: visit_documents.mime_type,
+    file_size_bytes: visit_documents.file_size_bytes,
+  })
+    .from(visit_documents)
+    .innerJoin(visits, eq(visit_documents.visitid, visits.visitid))
+    .where(legacyKeyCondition)
+    .orderBy(visit_documents.created_at);
+}
+
+type LegacyDocument = Awaited<ReturnType<typeof getLegacyDocuments>>[number];
+
+export async function getLegacyDocumentMigrationStatus(): Promise<LegacyDocumentMigrationStatus> {
+  const [remaining] = await db.select({ count: sql<number>`count(*)::int` })
+    .from(visit_documents)
+    .where(legacyKeyCondition);
+  return {
+    legacy_remaining: remaining?.count ?? 0,
+    target_driver: getBlobStore().driver,
+    last_run: currentRun,
+  };
+}
+
+/**
+ * Copy one document and rewrite its key. The size is checked against
+ * file_size_bytes both on the downloaded bytes and on the copied object, and the
+ * row is only updated if it still points at the legacy key. The new key is derived
+ * from document_id, so a retry overwrites the same object instead of leaving strays.
+ */
+async function migrateLegacyDocument(document: LegacyDocument, dryRun: boolean): Promise<void> {
+  const source = getBlobStoreForKey(document.storage_key);
+  const target = getBlobStore();
+
+  const buffer = await source.get(document.storage_key);
+  if (!buffer) {
+    throw new Error('File not found in Replit Object Storage');
+  }
+  if (buffer.length !== document.file_size_bytes) {
+    throw new Error(`Size mismatch: expected ${document.file_size_bytes} bytes, downloaded ${buffer.length}`);
+  }
+  if (dryRun) return;
+
+  const newKey = buildDocumentStorageKey(
+    document.orgid,
+    document.patientid,
+    document.visitid,
+    document.document_id,
+    document.original_filename
+  );
+  await target.put(newKey, buffer, document.mime_type);
+
+  const copied = await target.head(newKey);
+  if (!copied || copied.size !== document.file_size_bytes) {
+    throw new Error(`Size mismatch after copy: expected ${document.file_size_bytes} bytes, stored ${copied?.size ?? 0}`);
+  }
+
+  await db.update(visit_documents)
+    .set({ storage_key: newKey })
+    .where(and(
+      eq(visit_documents.document_id, document.document_id),
+      eq(visit_documents.storage_key, document.storage_key)
+    ));
+}
+
+async function runLegacyDocumentMigration(run: LegacyDocumentMigrationRun): Promise<void> {
+  try {
+    const documents = await getLegacyDocuments();
+    run.total = documents.length;
+    console.log(`Legacy document migration started: ${documents.length} document(s), dry_run=${run.dry_run}`);
+
+    for (const document of documents) {
+      try {
+        await migrateLegacyDocument(document, run.dry_run);
+        run.migrated++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Legacy document migration failed for ${document.document_id}:`, message);
+        run.failures.push({
+          document_id: document.document_id,
+          storage_key: document.storage_key,
+          original_filename: document.original_filename,
+          error: message,
+        });
+      }
+      run.processed++;
+    }
+    run.status = 'completed';
+  } catch (error) {
+    console.error('Legacy document migration error:', error);
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    run.finished_at = new Date().toISOString();
+    console.log(`Legacy document migration ${run.status}: ${run.migrated}/${run.total} migrated, ${run.failures.length} failed`);
+  }
+}
+
+/**
+ * Start copying every legacy Replit document into S3. Returns
+ * immediately; progress is read back through getLegacyDocumentMigrationStatus.
+ * Documents already moved no longer match the legacy key pattern, so re-running
+ * only picks up what is left.
+ */
+export function startLegacyDocumentMigration(startedByEmpid: string, options: { dryRun?: boolean } = {}): LegacyDocumentMigrationRun {
+  if (currentRun?.status === 'running') {
+    throw new Error('A storage migration is already running');
+  }
+  // Local disk is for development; treating production documents as moved there would strand them
+  const target = getBlobStore();
+  if (target.driver !== 's3') {
+    throw new Error(`BLOB_STORE_DRIVER is set to ${target.driver}; legacy documents can only be migrated to S3`);
+  }
+
+  currentRun = {
+    status: 'running',
+    dry_run: !!options.dryRun,
+    started_by_empid: startedByEmpid,
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    total: 0,
+    processed: 0,
+    migrated: 0,
+    failures: [],
+    error: null,
+  };
+  void runLegacyDocumentMigration(currentRun);
+  return currentRun;
+}
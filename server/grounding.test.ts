@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkNoteGrounding } from "./grounding";
+
+// No organization, so there is no quota, model setting or usage ledger to look up.
+// The stub's model pass finds nothing, which leaves the direct number check under test.
+const actor = { orgid: null, empid: null };
+
+test('checkNoteGrounding passes a note whose numbers all come from the transcript', async () => {
+  const result = await checkNoteGrounding(
+    actor,
+    'BP 130/80. Metformin 500 mg twice daily. Review in 2 weeks.',
+    'OBJECTIVE:\nBlood pressure 130/80 mmHg.\n\nPLAN:\nMetformin 500 mg twice daily. Review in 2 weeks.'
+  );
+  assert.deepEqual(result, { checked: true, warnings: [] });
+});
+
+test('checkNoteGrounding flags a number the transcript does not mention, with its unit', async () => {
+  const result = await checkNoteGrounding(actor, 'BP 130/80 today.', 'OBJECTIVE:\nBP 140/80 mmHg.');
+  assert.deepEqual(result.warnings, [
+    { excerpt: '140/80 mmHg', kind: 'number', reason: 'The transcript does not mention 140.' }
+  ]);
+});
+
+test('checkNoteGrounding treats the same value written differently as supported', async () => {
+  const result = await checkNoteGrounding(actor, 'Temperature 38.50, dose 2.5 mg.', 'Temperature 38.5. Dose 2.50 mg.');
+  assert.deepEqual(result.warnings, []);
+});
+
+test('checkNoteGrounding flags a repeated unsupported number once', async () => {
+  const result = await checkNoteGrounding(actor, 'Start amlodipine.', 'Amlodipine 5 mg. Continue amlodipine 5 mg.');
+  assert.deepEqual(result.warnings.map(warning => warning.excerpt), ['5 mg']);
+});
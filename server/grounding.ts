@@ -0,0 +1,63 @@
+import type { GroundingResult, GroundingWarning } from "@shared/schema";
+import { findUngroundedContent } from "./note-ai";
+import type { Deidentifier } from "./deidentify";
+import type { UsageActor } from "./usage";
+
+// A number as written in a note, with the unit that follows it if any (e.g. "500 mg", "38.5", "120/80")
+const NUMBER_WITH_UNIT = /\d+(?:\.\d+)?(?:\/\d+(?:\.\d+)?)*(?:\s?(?:mg|mcg|g|kg|ml|mL|L|units?|IU|%|mmHg|bpm|cm|mm|mmol\/L|mg\/dL|days?|weeks?|months?|years?|hours?|hrs?))?\b/g;
+const NUMBER = /\d+(?:\.\d+)?/g;
+
+// "2.50" and "2.5" are the same value
+const numbersIn = (text: string) => new Set(Array.from(text.matchAll(NUMBER), match => String(Number(match[0]))));
+
+// Numbers in the note that appear nowhere in the source; checked directly so the model pass can't miss them
+function findUnsupportedNumbers(sourceText: string, formattedNote: string): GroundingWarning[] {
+  const known = numbersIn(sourceText);
+  const warnings = new Map<string, GroundingWarning>();
+  for (const match of Array.from(formattedNote.matchAll(NUMBER_WITH_UNIT))) {
+    const missing = Array.from(numbersIn(match[0])).filter(value => !known.has(value));
+    if (missing.length > 0 && !warnings.has(match[0])) {
+      warnings.set(match[0], {
+        excerpt: match[0],
+        kind: 'number',
+        reason: `The transcript does not mention ${missing.join(', ')}.`
+      });
+    }
+  }
+  return Array.from(warnings.values());
+}
+
+/**
+ * Checks an AI-formatted note against the text it was written from. Model findings that
+ * don't quote the note exactly are dropped, since the editor highlights by excerpt; a
+ * number flagged inside a model finding is left to that finding. With a de-identifier,
+ * the model sees both texts scrubbed and its findings are re-identified.
+ */
+export async function checkNoteGrounding(
+  actor: UsageActor,
+  sourceText: string,
+  formattedNote: string,
+  deidentifier?: Deidentifier | null
+): Promise<GroundingResult> {
+  const numberWarnings = findUnsupportedNumbers(sourceText, formattedNote);
+
+  let modelWarnings: GroundingWarning[];
+  try {
+    const found = deidentifier
+      ? (await findUngroundedContent(actor, deidentifier.scrub(sourceText), deidentifier.scrub(formattedNote)))
+          .map(warning => ({ ...warning, excerpt: deidentifier.reidentify(warning.excerpt), reason: deidentifier.reidentify(warning.reason) }))
+      : await findUngroundedContent(actor, sourceText, formattedNote);
+    modelWarnings = found.filter(warning => formattedNote.includes(warning.excerpt));
+  } catch (error) {
+    console.error('Grounding check error:', error);
+    return { checked: false, warnings: numberWarnings };
+  }
+
+  const warnings = [...modelWarnings];
+  for (const warning of numberWarnings) {
+    if (!warnings.some(existing => existing.excerpt.includes(warning.excerpt))) {
+      warnings.push(warning);
+    }
+  }
+  return { checked: true, warnings };
+}
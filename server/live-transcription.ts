@@ -0,0 +1,156 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { languageLabel, type TranscriptionLanguage } from "@shared/schema";
+import type { AuthContext } from "./auth";
+import { getTranscriptionProviderForOrg, resolveTranscriptionLanguage, type LiveTranscriptSegment, type TranscriptionProvider } from "./transcription";
+import { loadOrgVocabulary, replaceTranscriptText, type OrgVocabulary } from "./vocabulary";
+import { withinUsageQuota, recordUsage, USAGE_LIMIT_MESSAGES } from "./usage";
+
+export const LIVE_TRANSCRIPTION_PATH = '/api/transcribe/stream';
+
+/**
+ * Wire protocol for live captions.
+ * Browser -> server: binary frames are MediaRecorder chunks; the text frame
+ *   {"type":"stop"} asks for the remaining audio to be flushed.
+ * Server -> browser: the JSON messages below. 'unavailable' means the client
+ *   should fall back to batch transcription of the finished recording.
+ */
+export type LiveTranscriptionMessage =
+  | { type: 'ready' }
+  | { type: 'segment'; segment: LiveTranscriptSegment }
+  | { type: 'unavailable'; error: string }
+  | { type: 'error'; error: string }
+  | { type: 'done' };
+
+function toBuffer(data: RawData): Buffer {
+  if (Buffer.isBuffer(data)) return data;
+  if (Array.isArray(data)) return Buffer.concat(data);
+  return Buffer.from(data);
+}
+
+async function handleConnection(ws: WebSocket, authContext: AuthContext, requestedLanguage: string | null) {
+  const sendMessage = (message: LiveTranscriptionMessage) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  };
+
+  const orgid = authContext.impersonatedOrgId || authContext.orgid;
+  let provider: TranscriptionProvider;
+  let vocabulary: OrgVocabulary;
+  let language: TranscriptionLanguage;
+  let withinQuota: boolean;
+  try {
+    [provider, vocabulary, language, withinQuota] = await Promise.all([
+      getTranscriptionProviderForOrg(orgid),
+      loadOrgVocabulary(orgid),
+      resolveTranscriptionLanguage(requestedLanguage, authContext.empid, orgid),
+      withinUsageQuota(orgid, 'audio_minutes')
+    ]);
+  } catch (error) {
+    console.error('Live transcription provider error:', error);
+    sendMessage({ type: 'unavailable', error: 'Transcription provider not configured' });
+    ws.close();
+    return;
+  }
+
+  if (!withinQuota) {
+    sendMessage({ type: 'unavailable', error: USAGE_LIMIT_MESSAGES.audio_minutes });
+    ws.close();
+    return;
+  }
+
+  // The browser may have gone away while the provider was looked up
+  if (ws.readyState !== WebSocket.OPEN) {
+    return;
+  }
+
+  // Metered by the end of the last segment heard, recorded once when the stream ends
+  let streamedSeconds = 0;
+  let recorded = false;
+  const recordStreamedAudio = () => {
+    if (recorded || streamedSeconds === 0) return;
+    recorded = true;
+    void recordUsage(
+      { orgid, empid: authContext.empid },
+      { feature: 'live_captions', provider: provider.name, audioSeconds: streamedSeconds }
+    );
+  };
+
+  const session = provider.createLiveSession?.({
+    // Captions get the same replacement dictionary as finished transcripts
+    onSegment: (segment) => {
+      streamedSeconds = Math.max(streamedSeconds, segment.start + segment.duration);
+      sendMessage({
+        type: 'segment',
+        segment: { ...segment, text: replaceTranscriptText(segment.text, vocabulary.replacements) }
+      });
+    },
+    onError: (error) => sendMessage({ type: 'error', error }),
+    onClose: () => {
+      recordStreamedAudio();
+      sendMessage({ type: 'done' });
+      ws.close();
+    }
+  }, { keywords: vocabulary.keywords, language }) ?? null;
+
+  if (!session) {
+    sendMessage({
+      type: 'unavailable',
+      error: provider.isAvailable() ? `Live captions are not available for ${languageLabel(language)}` : 'Live transcription is not configured'
+    });
+    ws.close();
+    return;
+  }
+
+  console.log(`Live transcription started for employee ${authContext.empid} (${language})`);
+  sendMessage({ type: 'ready' });
+
+  ws.on('message', (data, isBinary) => {
+    if (isBinary) {
+      session.send(toBuffer(data));
+      return;
+    }
+
+    // Text frames are control messages
+    try {
+      const message = JSON.parse(data.toString());
+      if (message?.type === 'stop') {
+        session.finish();
+      }
+    } catch {
+      console.warn('Ignoring malformed live transcription control message');
+    }
+  });
+
+  ws.on('close', () => {
+    session.finish();
+  });
+}
+
+/**
+ * Serve live transcription over WebSocket on the existing HTTP server.
+ * Browsers can't set headers on a WebSocket, so the access token comes in the
+ * `token` query parameter and is checked before the upgrade is accepted; the
+ * optional `language` parameter picks the dictation language.
+ * Upgrades for other paths (e.g. Vite HMR in development) are left alone.
+ */
+export function attachLiveTranscription(server: Server, authenticate: (token: string) => AuthContext | null): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 * 1024 });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url || '', 'http://localhost');
+    if (url.pathname !== LIVE_TRANSCRIPTION_PATH) {
+      return;
+    }
+
+    const authContext = authenticate(url.searchParams.get('token') || '');
+    if (!authContext) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => void handleConnection(ws, authContext, url.searchParams.get('language')));
+  });
+}
@@ -0,0 +1,337 @@
+import OpenAI from "openai";
+import type { z } from "zod";
+import { LLM_TASKS, PATIENT_SUMMARY_CATEGORIES, type ExtractedClinicalRecords, type LlmTask, type PatientSummaryCategory, type VitalKind } from "@shared/schema";
+import { storage } from "./storage";
+import { withinUsageQuota, recordUsage, USAGE_LIMIT_MESSAGES, type UsageActor } from "./usage";
+
+export const LLM_PROVIDERS = ['openai', 'stub'] as const;
+export type LlmProviderName = typeof LLM_PROVIDERS[number];
+
+// Model used for a task when neither the org nor LLM_MODEL_<TASK> / LLM_MODEL names one
+const FALLBACK_MODEL = 'gpt-4o-mini';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// The data each task's prompt is built from. Prompts are for the model; the stub
+// provider works from this instead, so it never has to parse a prompt.
+export interface LlmTaskInputs {
+  format_note: { transcription: string; sections: string[] };
+  translate: { texts: string[] };
+  grounding_check: { source: string; note: string };
+  patient_summary: { notes: { source: string; text: string }[] }; // Newest note first
+  clinical_extraction: { text: string };
+}
+
+export interface LlmRequest<T extends LlmTask = LlmTask> {
+  task: T;
+  input: LlmTaskInputs[T];
+  model: string;
+  messages: LlmMessage[];
+  json?: boolean; // Reply must be a single JSON object
+  maxTokens?: number;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  provider: LlmProviderName;
+  model: string; // As reported by the provider, which may pin a version
+  usage: LlmUsage;
+}
+
+/**
+ * A chat-completion backend. complete() rejects when the provider can't answer
+ * (not configured, network or API failure); callers turn that into their own error.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  isAvailable(): boolean;
+  complete<T extends LlmTask>(request: LlmRequest<T>): Promise<LlmCompletion>;
+}
+
+// This is using Replit's AI Integrations service, which provides OpenAI-compatible API access without requiring your own OpenAI API key.
+class OpenAiLlmProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+
+  isAvailable(): boolean {
+    return !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.isAvailable()) {
+        throw new Error('AI_INTEGRATIONS_OPENAI_API_KEY is not configured');
+      }
+      this.client = new OpenAI({
+        baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+        apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY
+      });
+    }
+    return this.client;
+  }
+
+  async complete<T extends LlmTask>(request: LlmRequest<T>): Promise<LlmCompletion> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_completion_tokens: request.maxTokens,
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {})
+    });
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      provider: this.name,
+      model: response.model || request.model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+        totalTokens: response.usage?.total_tokens ?? 0
+      }
+    };
+  }
+}
+
+// Sentences that mention these go to the first section whose name matches; the rest go to the first section
+const STUB_SECTION_RULES: { section: RegExp; sentence: RegExp }[] = [
+  { section: /PLAN|FOLLOW/, sentence: /\b(plan|prescrib\w*|start\w*|continu\w*|follow[- ]?up|review|advis\w*|refer\w*|return)\b/i },
+  { section: /ASSESSMENT|DIAGNOSIS|IMPRESSION/, sentence: /\b(diagnos\w*|impression|assessment|likely|consistent with|suspect\w*)\b/i },
+  { section: /OBJECTIVE|EXAM|VITAL|FINDINGS/, sentence: /\b(bp|blood pressure|pulse|heart rate|temp\w*|spo2|saturation|exam\w*|auscultation|tender\w*|\d+\/\d+)\b/i },
+];
+
+const NO_INFORMATION = '[No information provided]';
+
+// Sentences that mention these go to the category, first match wins; the newest notes' opening sentences are the recent events
+const STUB_SUMMARY_RULES: { category: Exclude<PatientSummaryCategory, 'recent_events'>; sentence: RegExp }[] = [
+  { category: 'allergies', sentence: /\ballerg\w*/i },
+  { category: 'medications', sentence: /\b(\d+(?:\.\d+)?\s?(?:mg|mcg|ml|units?)|tab(?:let)?s?|capsules?|prescrib\w*|started on)\b/i },
+  { category: 'problems', sentence: /\b(diagnos\w*|known case of|history of|impression|consistent with|k\/c\/o)\b/i },
+];
+
+// Rough token count for usage reporting, about four characters per token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+function stubFormatNote({ transcription, sections }: LlmTaskInputs['format_note']): string {
+  if (sections.length === 0) return transcription;
+
+  const bySection = new Map<string, string[]>(sections.map(section => [section, []]));
+  const sentences = transcription.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(Boolean);
+  for (const sentence of sentences) {
+    const rule = STUB_SECTION_RULES.find(rule =>
+      rule.sentence.test(sentence) && sections.some(section => rule.section.test(section.toUpperCase()))
+    );
+    const section = rule ? sections.find(section => rule.section.test(section.toUpperCase()))! : sections[0];
+    bySection.get(section)!.push(sentence);
+  }
+
+  return sections
+    .map(section => `${section.toUpperCase()}:\n${bySection.get(section)!.join(' ') || NO_INFORMATION}`)
+    .join('\n\n');
+}
+
+function stubPatientSummary({ notes }: LlmTaskInputs['patient_summary']): string {
+  const summary = Object.fromEntries(PATIENT_SUMMARY_CATEGORIES.map(category => [category, [] as { text: string; source: string }[]]));
+  const seen = new Set<string>();
+  for (const note of notes) {
+    const sentences = note.text
+      .replace(/^[A-Z][A-Z /&-]+:[ \t]*/gm, '') // Section headings
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence && sentence !== NO_INFORMATION);
+    if (sentences[0] && summary.recent_events.length < 3) {
+      summary.recent_events.push({ text: sentences[0], source: note.source });
+    }
+    for (const sentence of sentences) {
+      const rule = STUB_SUMMARY_RULES.find(rule => rule.sentence.test(sentence));
+      if (!rule || seen.has(sentence.toLowerCase())) continue;
+      seen.add(sentence.toLowerCase());
+      summary[rule.category].push({ text: sentence, source: note.source });
+    }
+  }
+  return JSON.stringify(summary);
+}
+
+const STUB_VITAL_RULES: { kind: VitalKind; pattern: RegExp; unit: string }[] = [
+  { kind: 'blood_pressure', pattern: /\b(?:bp|blood pressure)\D{0,10}(\d{2,3}\/\d{2,3})/i, unit: 'mmHg' },
+  { kind: 'pulse', pattern: /\b(?:pulse|heart rate|hr|pr)\D{0,10}(\d{2,3})\b/i, unit: 'bpm' },
+  { kind: 'temperature', pattern: /\b(?:temp\w*)\D{0,10}(\d{2,3}(?:\.\d)?)/i, unit: '' },
+  { kind: 'respiratory_rate', pattern: /\b(?:rr|respiratory rate)\D{0,10}(\d{1,2})\b/i, unit: '/min' },
+  { kind: 'spo2', pattern: /\b(?:spo2|saturation)\D{0,10}(\d{2,3})\s?%/i, unit: '%' },
+  { kind: 'weight', pattern: /\b(?:weight|wt)\D{0,10}(\d{1,3}(?:\.\d)?)\s?kg\b/i, unit: 'kg' },
+];
+
+const STUB_MEDICATION = /\b([A-Z]?[a-z]{3,})\s+(\d+(?:\.\d+)?\s?(?:mg|mcg|g|ml|units?))(?:\s+(oral(?:ly)?|po|iv|im|sc|topical))?(?:\s+(once daily|twice daily|thrice daily|od|bd|bid|tds|tid|qid|sos|prn|at night|hs))?/g;
+
+function stubClinicalExtraction({ text }: LlmTaskInputs['clinical_extraction']): string {
+  const sentences = text
+    .replace(/^[A-Z][A-Z /&-]+:[ \t]*/gm, '')
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+  const extracted: ExtractedClinicalRecords = { problems: [], medications: [], allergies: [], vitals: [] };
+
+  for (const sentence of sentences) {
+    const allergy = sentence.match(/\ballergic to ([\w -]+?)(?:[,;(.]|\s+with\s+|$)/i);
+    if (allergy) {
+      extracted.allergies.push({ substance: allergy[1].trim(), reaction: null, severity: null });
+      continue;
+    }
+    if (STUB_SUMMARY_RULES.find(rule => rule.category === 'problems')!.sentence.test(sentence)) {
+      extracted.problems.push({ description: sentence.replace(/^(?:known case of|k\/c\/o|diagnosed with|history of)\s+/i, '').replace(/\.$/, ''), status: 'active' });
+    }
+    for (const match of Array.from(sentence.matchAll(STUB_MEDICATION))) {
+      extracted.medications.push({ name: match[1], dose: match[2], route: match[3] ?? null, frequency: match[4] ?? null, status: /\bstop\w*/i.test(sentence) ? 'stopped' : 'active' });
+    }
+  }
+  for (const rule of STUB_VITAL_RULES) {
+    const match = text.match(rule.pattern);
+    if (match) extracted.vitals.push({ kind: rule.kind, value: match[1], unit: rule.unit || null });
+  }
+  return JSON.stringify(extracted);
+}
+
+/**
+ * Deterministic, offline stand-in for a model (LLM_PROVIDER=stub): formatting sorts
+ * sentences into sections by keyword, translation returns the text unchanged, the
+ * grounding check finds nothing beyond the direct number check, patient summaries
+ * quote the notes' sentences by keyword and clinical extraction picks records out
+ * with a few patterns. For development and tests; its output is never clinically useful.
+ */
+class StubLlmProvider implements LlmProvider {
+  readonly name = 'stub' as const;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  private respond(request: LlmRequest): string {
+    switch (request.task) {
+      case 'format_note':
+        return stubFormatNote(request.input as LlmTaskInputs['format_note']);
+      case 'translate':
+        return JSON.stringify({ translations: (request.input as LlmTaskInputs['translate']).texts });
+      case 'grounding_check':
+        return JSON.stringify({ warnings: [] });
+      case 'patient_summary':
+        return stubPatientSummary(request.input as LlmTaskInputs['patient_summary']);
+      case 'clinical_extraction':
+        return stubClinicalExtraction(request.input as LlmTaskInputs['clinical_extraction']);
+    }
+  }
+
+  async complete<T extends LlmTask>(request: LlmRequest<T>): Promise<LlmCompletion> {
+    const text = this.respond(request);
+    const promptTokens = request.messages.reduce((total, message) => total + estimateTokens(message.content), 0);
+    const completionTokens = estimateTokens(text);
+    return {
+      text,
+      provider: this.name,
+      model: 'stub',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+}
+
+const providers: Partial<Record<LlmProviderName, LlmProvider>> = {};
+
+export function isLlmProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Provider by name, or the server default from LLM_PROVIDER
+ * (openai | stub; default openai). Instances are created once and reused.
+ */
+export function getLlmProvider(name?: LlmProviderName | null): LlmProvider {
+  const providerName = name || process.env.LLM_PROVIDER || 'openai';
+  if (!isLlmProviderName(providerName)) {
+    throw new Error(`Unknown LLM_PROVIDER "${providerName}". Expected one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  if (!providers[providerName]) {
+    switch (providerName) {
+      case 'openai':
+        providers[providerName] = new OpenAiLlmProvider();
+        break;
+      case 'stub':
+        providers[providerName] = new StubLlmProvider();
+        break;
+    }
+  }
+  return providers[providerName]!;
+}
+
+// Server default model for a task: LLM_MODEL_FORMAT_NOTE etc., then LLM_MODEL, then gpt-4o-mini
+export function defaultLlmModel(task: LlmTask): string {
+  return process.env[`LLM_MODEL_${task.toUpperCase()}`] || process.env.LLM_MODEL || FALLBACK_MODEL;
+}
+
+// Provider and model for an organization's task (orgs.llm_provider / orgs.llm_models), falling back to the server defaults
+async function resolveLlm(orgid: string | null | undefined, task: LlmTask): Promise<{ provider: LlmProvider; model: string }> {
+  const org = orgid ? await storage.getOrg(orgid) : undefined;
+  const configured = org?.llm_provider;
+  return {
+    provider: getLlmProvider(isLlmProviderName(configured) ? configured : null),
+    model: org?.llm_models?.[task] || defaultLlmModel(task)
+  };
+}
+
+/**
+ * Run a task for an organization on its provider and model. Token usage is
+ * returned with the reply and recorded in the usage ledger; the call is refused
+ * once the org's monthly hard limit is reached.
+ */
+export async function completeForOrg<T extends LlmTask>(
+  actor: UsageActor,
+  request: Omit<LlmRequest<T>, 'model'>
+): Promise<LlmCompletion> {
+  if (!await withinUsageQuota(actor.orgid, 'llm_tokens')) {
+    throw new Error(USAGE_LIMIT_MESSAGES.llm_tokens);
+  }
+
+  const { provider, model } = await resolveLlm(actor.orgid, request.task);
+  const completion = await provider.complete({ ...request, model } as LlmRequest<T>);
+  console.log(`LLM ${request.task} on ${completion.provider}/${completion.model}: ${completion.usage.promptTokens} prompt + ${completion.usage.completionTokens} completion tokens`);
+  await recordUsage(actor, {
+    feature: request.task,
+    provider: completion.provider,
+    model: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens
+  });
+  return completion;
+}
+
+// As completeForOrg, with the reply parsed as JSON and checked against schema
+export async function completeJsonForOrg<T extends LlmTask, S extends z.ZodTypeAny>(
+  actor: UsageActor,
+  request: Omit<LlmRequest<T>, 'model' | 'json'>,
+  schema: S
+): Promise<LlmCompletion & { data: z.infer<S> }> {
+  const completion = await completeForOrg(actor, { ...request, json: true });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(completion.text || '{}');
+  } catch {
+    throw new Error(`Unexpected ${request.task} response: not JSON`);
+  }
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Unexpected ${request.task} response`);
+  }
+  return { ...completion, data: result.data };
+}
+
+// Tasks with the model each uses by default, for the admin settings
+export function llmTaskDefaults(): { task: LlmTask; default_model: string }[] {
+  return LLM_TASKS.map(task => ({ task, default_model: defaultLlmModel(task) }));
+}
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getLlmProvider } from "./llm";
+import { BUILT_IN_NOTE_TEMPLATES } from "./note-templates";
+import { extractClinicalFacts, formatTranscriptionToTemplate, summarizePatientNotes } from "./note-ai";
+
+// No organization, so there is no quota, model setting or usage ledger to look up
+const actor = { orgid: null, empid: null };
+
+const soap = BUILT_IN_NOTE_TEMPLATES.find(template => template.template_id === 'soap')!;
+
+test('the stub is the server default under test', () => {
+  assert.equal(getLlmProvider().name, 'stub');
+});
+
+test('formatTranscriptionToTemplate sorts dictation into the template sections', async () => {
+  const note = await formatTranscriptionToTemplate(
+    actor,
+    'Patient reports headache for three days. Blood pressure is 150/95. Likely tension headache. Start paracetamol 500 mg twice daily.',
+    soap
+  );
+
+  assert.equal(note, [
+    'SUBJECTIVE:\nPatient reports headache for three days.',
+    'OBJECTIVE:\nBlood pressure is 150/95.',
+    'ASSESSMENT:\nLikely tension headache.',
+    'PLAN:\nStart paracetamol 500 mg twice daily.',
+  ].join('\n\n'));
+});
+
+test('formatTranscriptionToTemplate marks sections the dictation says nothing about', async () => {
+  const note = await formatTranscriptionToTemplate(actor, 'Patient reports a dry cough.', soap);
+  assert.match(note, /^SUBJECTIVE:\nPatient reports a dry cough\.\n\nOBJECTIVE:\n\[No information provided\]/);
+});
+
+test('extractClinicalFacts returns each kind of record the note states', async () => {
+  const records = await extractClinicalFacts(
+    actor,
+    'Known case of type 2 diabetes. Allergic to penicillin. Metformin 500 mg twice daily. BP 130/80 today.'
+  );
+
+  assert.deepEqual(records, {
+    problems: [{ description: 'type 2 diabetes', status: 'active' }],
+    medications: [{ name: 'Metformin', dose: '500 mg', route: null, frequency: 'twice daily', status: 'active' }],
+    allergies: [{ substance: 'penicillin', reaction: null, severity: null }],
+    vitals: [{ kind: 'blood_pressure', value: '130/80', unit: 'mmHg' }],
+  });
+});
+
+test('extractClinicalFacts returns empty lists for a note with nothing to extract', async () => {
+  const records = await extractClinicalFacts(actor, 'Patient feels well.');
+  assert.deepEqual(records, { problems: [], medications: [], allergies: [], vitals: [] });
+});
+
+test('summarizePatientNotes cites the note each statement comes from', async () => {
+  const summary = await summarizePatientNotes(actor, [
+    { source: 'N1', visit_date: '2026-03-02', text: 'Allergic to sulfa drugs. Started on amlodipine 5 mg daily.' },
+    { source: 'N2', visit_date: '2026-01-15', text: 'Known case of hypertension.' },
+  ]);
+
+  assert.equal(summary.provider, 'stub');
+  assert.equal(summary.model, 'stub');
+  assert.deepEqual(summary.statements, {
+    problems: [{ text: 'Known case of hypertension.', source: 'N2' }],
+    medications: [{ text: 'Started on amlodipine 5 mg daily.', source: 'N1' }],
+    allergies: [{ text: 'Allergic to sulfa drugs.', source: 'N1' }],
+    recent_events: [
+      { text: 'Allergic to sulfa drugs.', source: 'N1' },
+      { text: 'Known case of hypertension.', source: 'N2' },
+    ],
+  });
+});
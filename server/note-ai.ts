@@ -0,0 +1,305 @@
+import { z } from "zod";
+import { languageLabel, groundingWarningSchema, clinicalRecordFieldsSchemas, CLINICAL_RECORD_GROUPS, CLINICAL_RECORD_KINDS, type ExtractedClinicalRecords, type GroundingWarning, type PatientSummaryCategory, type SpeakerRoles, type TranscriptSegment } from "@shared/schema";
+import type { NoteTemplateDefinition } from "./note-templates";
+import { completeForOrg, completeJsonForOrg } from "./llm";
+import type { UsageActor } from "./usage";
+
+// Text may have been de-identified (see deidentify.ts); the placeholders are swapped back afterwards
+const PLACEHOLDER_RULE = 'Text in square brackets such as [NAME_1], [DATE_1] or [PHONE_1] stands for a withheld patient detail - copy it exactly as written and never fill it in';
+
+// A diarized recording: what was said, by whom
+export interface SpeakerConversation {
+  segments: TranscriptSegment[];
+  speakerRoles: SpeakerRoles;
+}
+
+/**
+ * One line per speaker turn, labelled with the role the clinician gave the speaker
+ * (e.g. "PATIENT: ..."). Consecutive segments from the same speaker are joined.
+ */
+function buildSpeakerTranscript({ segments, speakerRoles }: SpeakerConversation): string {
+  const label = (speaker: number | null) => {
+    if (speaker === null) return 'UNKNOWN SPEAKER';
+    return speakerRoles[String(speaker)]?.toUpperCase() || `SPEAKER ${speaker + 1}`;
+  };
+
+  const turns: { speaker: number | null; text: string }[] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.text += ` ${segment.text}`;
+    } else {
+      turns.push({ speaker: segment.speaker, text: segment.text });
+    }
+  }
+  return turns.map(turn => `${label(turn.speaker)}: ${turn.text}`).join('\n');
+}
+
+/**
+ * Format raw transcription text into a structured medical note template, on the
+ * organization's model for note formatting. When the recording was diarized, the
+ * speaker-labelled conversation is sent as well so what the patient reports and
+ * what the doctor observes land in the right sections.
+ */
+export async function formatTranscriptionToTemplate(
+  actor: UsageActor,
+  rawTranscription: string,
+  templateDef: Pick<NoteTemplateDefinition, 'name' | 'sections'>,
+  conversation?: SpeakerConversation
+): Promise<string> {
+  const hasConversation = !!conversation && conversation.segments.length > 0;
+  
+  const speakerRules = hasConversation ? `
+
+SPEAKER ROLES:
+The recording was a conversation, provided below with each line labelled by speaker (DOCTOR, PATIENT, ATTENDANT, OTHER, or SPEAKER n when not named).
+- What the PATIENT or ATTENDANT reports (symptoms, history, concerns, medications taken) belongs in subjective/history sections such as SUBJECTIVE, CHIEF COMPLAINT, HISTORY OF PRESENT ILLNESS and INTERVAL HISTORY
+- What the DOCTOR observes or measures (examination findings, vital signs, results) belongs in objective/examination sections such as OBJECTIVE, PHYSICAL EXAMINATION and PHYSICAL EXAM
+- The DOCTOR's impressions and instructions belong in ASSESSMENT and PLAN
+- An ATTENDANT's account should be attributed as such (e.g. "Per attendant, ...")
+- Do not include the speaker labels themselves in the note
+- The clinician may have edited the note text after recording; where the note text and the conversation differ, the note text wins` : '';
+  
+  const systemPrompt = `You are a medical documentation assistant. Your task is to reorganize raw clinical transcription text into a structured ${templateDef.name} format.
+
+IMPORTANT RULES:
+1. Use ONLY the information provided in the transcription - do not add any medical information that was not mentioned
+2. If information for a section is not available in the transcription, write "[No information provided]"
+3. Maintain medical accuracy and use appropriate clinical terminology
+4. Keep the original meaning and context of the transcription
+5. Format each section header in ALL CAPS followed by a colon and a newline, then the content
+6. Do not use Markdown formatting (no ** or ## symbols) - use plain text only
+7. Do not include any explanatory text or commentary - only the formatted note
+8. Use exactly these section headers, in this order; where a section has instructions, follow them when writing that section
+9. ${PLACEHOLDER_RULE}${speakerRules}
+
+The sections for a ${templateDef.name} are:
+${templateDef.sections.map(s => s.instructions ? `- ${s.name} (instructions: ${s.instructions})` : `- ${s.name}`).join('\n')}
+
+Format example:
+SECTION NAME:
+Content goes here...
+
+NEXT SECTION:
+More content...`;
+
+  let userPrompt = `Please reorganize the following clinical transcription into a ${templateDef.name} format:\n\n${rawTranscription}`;
+  if (hasConversation) {
+    userPrompt += `\n\nSpeaker-labelled conversation from the recording:\n\n${buildSpeakerTranscript(conversation!)}`;
+  }
+
+  try {
+    const completion = await completeForOrg(actor, {
+      task: 'format_note',
+      input: { transcription: rawTranscription, sections: templateDef.sections.map(s => s.name) },
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+      maxTokens: 4096,
+    });
+
+    return completion.text || rawTranscription;
+  } catch (error) {
+    console.error('Error formatting transcription:', error);
+    throw new Error('Failed to format transcription with AI');
+  }
+}
+
+/**
+ * Translate dictation in another language (or code-mixed, e.g. Hinglish) to English
+ * so the note is kept in English for the record. Texts come back in the same order;
+ * drug names, doses and numbers are kept as dictated.
+ */
+export async function translateToEnglish(actor: UsageActor, texts: string[], sourceLanguage?: string | null): Promise<string[]> {
+  if (texts.length === 0) return [];
+  const source = sourceLanguage ? languageLabel(sourceLanguage) : 'another language';
+
+  const systemPrompt = `You are a medical translator. Translate clinical dictation from ${source}, possibly mixed with English, into clear English.
+
+RULES:
+1. Translate faithfully - do not add, drop or summarize any information
+2. Keep drug names, doses, units, numbers and dates exactly as dictated
+3. Use standard clinical terminology in the translation
+4. Text that is already English stays as it is
+5. ${PLACEHOLDER_RULE}
+6. Reply with JSON only: {"translations": ["...", "..."]} with one translation per input text, in the same order`;
+
+  try {
+    const { data } = await completeJsonForOrg(actor, {
+      task: 'translate',
+      input: { texts },
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: JSON.stringify({ texts }) }
+      ],
+      maxTokens: 8192,
+    }, z.object({ translations: z.array(z.string()).length(texts.length) }));
+
+    return data.translations;
+  } catch (error) {
+    console.error('Error translating transcription:', error);
+    throw new Error('Failed to translate transcription to English');
+  }
+}
+
+/**
+ * Verification pass over an AI-formatted note: statements, numbers, drug names and doses
+ * the source transcript doesn't support. Each excerpt is quoted from the note as written.
+ */
+export async function findUngroundedContent(actor: UsageActor, sourceText: string, formattedNote: string): Promise<GroundingWarning[]> {
+  const systemPrompt = `You are a clinical documentation auditor. You are given a SOURCE transcript and a NOTE written from it. Find everything in the NOTE that the SOURCE does not support.
+
+CHECK:
+1. statement - a finding, symptom, history item, diagnosis or instruction the SOURCE never mentions
+2. number - a value (vital sign, lab result, duration, date, count) that differs from or is absent in the SOURCE
+3. medication - a drug name the SOURCE does not mention
+4. dose - a dose, unit, route or frequency that differs from or is absent in the SOURCE
+
+RULES:
+1. Rewording, clinical terminology and standard abbreviations for what the SOURCE says are supported - do not flag them
+2. Section headings and "[No information provided]" are never flagged
+3. Each excerpt must be copied exactly, character for character, from the NOTE and be as short as possible while still identifying the problem
+4. reason is one short sentence saying what the SOURCE says instead, or that it does not mention it
+5. A placeholder such as [NAME_1] is supported wherever the SOURCE has the same placeholder
+6. Reply with JSON only: {"warnings": [{"excerpt": "...", "kind": "statement" | "number" | "medication" | "dose", "reason": "..."}]}, with an empty list when everything is supported`;
+
+  try {
+    const { data } = await completeJsonForOrg(actor, {
+      task: 'grounding_check',
+      input: { source: sourceText, note: formattedNote },
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: `SOURCE:\n${sourceText}\n\nNOTE:\n${formattedNote}` }
+      ],
+      maxTokens: 4096,
+    }, z.object({ warnings: z.array(groundingWarningSchema) }));
+
+    return data.warnings;
+  } catch (error) {
+    console.error('Error checking note grounding:', error);
+    throw new Error('Failed to check the formatted note against the transcript');
+  }
+}
+
+// A note as given to the summary: source is the label statements cite it by, e.g. "N1"
+export interface SummarySourceNote {
+  source: string;
+  visit_date: string;
+  text: string;
+}
+
+const summaryStatementSchema = z.object({ text: z.string().trim().min(1).max(500), source: z.string() });
+export type SourcedStatement = z.infer<typeof summaryStatementSchema>;
+
+const summaryStatements = z.array(summaryStatementSchema).default([]);
+const patientSummaryReplySchema = z.object({
+  problems: summaryStatements,
+  medications: summaryStatements,
+  allergies: summaryStatements,
+  recent_events: summaryStatements,
+}) satisfies z.ZodType<Record<PatientSummaryCategory, SourcedStatement[]>, z.ZodTypeDef, unknown>;
+
+/**
+ * Summary of a patient's notes by category, each statement citing the one note it
+ * comes from. Notes are given newest first; where a later note changes something
+ * (a dose, a resolved problem) the summary follows the later note. Returned with the
+ * provider and model that wrote it.
+ */
+export async function summarizePatientNotes(
+  actor: UsageActor,
+  notes: SummarySourceNote[]
+): Promise<{ statements: Record<PatientSummaryCategory, SourcedStatement[]>; provider: string; model: string }> {
+  const systemPrompt = `You are a clinical documentation assistant. You are given a patient's visit notes, newest first, each labelled with a source such as N1 and its visit date. Write a concise summary a clinician can read before the next visit.
+
+CATEGORIES:
+1. problems - active and significant past diagnoses and conditions
+2. medications - current medications with dose and frequency as last documented; say so when a note stops one
+3. allergies - allergies and adverse drug reactions, with the reaction if given
+4. recent_events - the most significant recent events (visits, procedures, admissions, results, changes of treatment), newest first, at most 5
+
+RULES:
+1. Use ONLY what the notes say - do not infer diagnoses, doses or dates they do not state
+2. Each statement is one short sentence and cites in source the single note it comes from
+3. Where notes disagree, follow the newest note and cite it
+4. Leave a category as an empty list when the notes say nothing about it
+5. ${PLACEHOLDER_RULE}
+6. Reply with JSON only: {"problems": [{"text": "...", "source": "N1"}], "medications": [...], "allergies": [...], "recent_events": [...]}`;
+
+  const userPrompt = notes.map(note => `[${note.source}] Visit of ${note.visit_date}\n${note.text}`).join('\n\n---\n\n');
+
+  try {
+    const { data, provider, model } = await completeJsonForOrg(actor, {
+      task: 'patient_summary',
+      input: { notes: notes.map(({ source, text }) => ({ source, text })) },
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+      maxTokens: 4096,
+    }, patientSummaryReplySchema);
+
+    return { statements: data, provider, model };
+  } catch (error) {
+    console.error('Error summarizing patient notes:', error);
+    throw new Error('Failed to summarize the patient\'s notes');
+  }
+}
+
+// Records are checked one by one after parsing, see below
+const unvalidatedRecords = z.array(z.unknown()).default([]);
+const extractionReplySchema = z.object({
+  problems: unvalidatedRecords,
+  medications: unvalidatedRecords,
+  allergies: unvalidatedRecords,
+  vitals: unvalidatedRecords,
+});
+
+/**
+ * Structured records from one note: problems, medication statements, allergies and
+ * vital signs, each as the note states it. Nothing is inferred, so a field the note
+ * doesn't give stays null. Records that don't fit their schema (say, a vital sign
+ * kind we don't track) are dropped one by one rather than failing the note.
+ */
+export async function extractClinicalFacts(actor: UsageActor, noteText: string): Promise<ExtractedClinicalRecords> {
+  const systemPrompt = `You are a clinical data abstractor. Extract structured records from the clinical NOTE you are given.
+
+RECORDS:
+1. problems - diagnoses and conditions: {"description": "...", "status": "active" | "resolved"}
+2. medications - each medication the patient takes, is started on or is told to stop: {"name": "...", "dose": "500 mg", "route": "oral", "frequency": "twice daily", "status": "active" | "stopped"}
+3. allergies - allergies and adverse drug reactions: {"substance": "...", "reaction": "...", "severity": "mild" | "moderate" | "severe" | null}
+4. vitals - vital signs measured at this visit: {"kind": "blood_pressure" | "pulse" | "temperature" | "respiratory_rate" | "spo2" | "weight" | "height" | "blood_glucose", "value": "120/80", "unit": "mmHg"}
+
+RULES:
+1. Extract ONLY what the note states - never infer a diagnosis, dose, route or frequency; use null for anything not stated
+2. Write values as the note gives them; expand abbreviations only where unambiguous (e.g. "BD" -> "twice daily")
+3. One record per problem, medication, allergy or measurement; no duplicates
+4. "No known allergies" and similar negatives are not allergies
+5. ${PLACEHOLDER_RULE}
+6. Reply with JSON only: {"problems": [...], "medications": [...], "allergies": [...], "vitals": [...]}, with empty lists where the note has nothing`;
+
+  try {
+    const { data } = await completeJsonForOrg(actor, {
+      task: 'clinical_extraction',
+      input: { text: noteText },
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: `NOTE:\n${noteText}` }
+      ],
+      maxTokens: 4096,
+    }, extractionReplySchema);
+
+    const extracted = { problems: [], medications: [], allergies: [], vitals: [] } as ExtractedClinicalRecords;
+    for (const kind of CLINICAL_RECORD_KINDS) {
+      const group = CLINICAL_RECORD_GROUPS[kind];
+      for (const record of data[group]) {
+        const parsed = clinicalRecordFieldsSchemas[kind].safeParse(record);
+        if (parsed.success) (extracted[group] as unknown[]).push(parsed.data);
+      }
+    }
+    return extracted;
+  } catch (error) {
+    console.error('Error extracting clinical records:', error);
+    throw new Error('Failed to extract clinical records from the note');
+  }
+}
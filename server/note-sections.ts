@@ -0,0 +1,26 @@
+import type { NoteSection, PatientNoteSection, VisitNote } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Sections of the given notes. Storage keeps them in step with the note text; a note
+ * written before sections were stored gets its own parsed and saved here.
+ */
+export async function loadNoteSections(notes: VisitNote[]): Promise<NoteSection[]> {
+  const sections = await storage.getNoteSections(notes.map(note => note.noteid));
+  const missing = notes.filter(note =>
+    note.transcription_text?.trim() && !sections.some(section => section.noteid === note.noteid)
+  );
+  for (const note of missing) {
+    sections.push(...await storage.replaceNoteSections(note.noteid, note.transcription_text));
+  }
+  return sections;
+}
+
+// The patient's sections across visits, newest first, backfilling older notes the same way
+export async function loadPatientNoteSections(patientid: string, sectionKey?: string): Promise<PatientNoteSection[]> {
+  const missing = await storage.getPatientNotesWithoutSections(patientid);
+  for (const note of missing) {
+    await storage.replaceNoteSections(note.noteid, note.transcription_text);
+  }
+  return await storage.getPatientNoteSections(patientid, sectionKey);
+}
@@ -0,0 +1,21 @@
+import { createHash } from "crypto";
+import type { VisitNote } from "@shared/schema";
+
+// Who is signing; name and title are copied onto the note so the printed
+// signature block stays as it was even if the employee record changes later
+export interface NoteSigner {
+  empid: string;
+  name: string;
+  title: string | null;
+  cosigner_empid: string | null; // Supervising physician from the signer's employee record, if any
+}
+
+// SHA-256 of the note text exactly as signed. Printed on exports so a copy
+// can be checked against the stored note.
+export function computeNoteContentHash(text: string | null): string {
+  return createHash("sha256").update(text ?? "", "utf8").digest("hex");
+}
+
+export function isNoteSigned(note: Pick<VisitNote, "signed_at">): boolean {
+  return !!note.signed_at;
+}
@@ -0,0 +1,84 @@
+import type { InsertNoteTemplate, NoteTemplateSection } from "@shared/schema";
+import { storage } from "./storage";
+
+// What the editor and AI formatting need from a template, stored or built in
+export interface NoteTemplateDefinition {
+  template_id: string;
+  name: string;
+  description: string | null;
+  sections: NoteTemplateSection[];
+  is_default: boolean;
+}
+
+const sections = (...names: string[]): NoteTemplateSection[] => names.map(name => ({ name }));
+
+// Every org starts with these; ids are only used when there is no org to store them for
+export const BUILT_IN_NOTE_TEMPLATES: NoteTemplateDefinition[] = [
+  {
+    template_id: 'soap',
+    name: 'SOAP Note',
+    description: 'Standard clinical documentation format',
+    sections: sections('SUBJECTIVE', 'OBJECTIVE', 'ASSESSMENT', 'PLAN'),
+    is_default: true
+  },
+  {
+    template_id: 'hp',
+    name: 'History & Physical',
+    description: 'Comprehensive patient evaluation',
+    sections: sections('CHIEF COMPLAINT', 'HISTORY OF PRESENT ILLNESS', 'PAST MEDICAL HISTORY', 'MEDICATIONS', 'ALLERGIES', 'REVIEW OF SYSTEMS', 'PHYSICAL EXAMINATION', 'ASSESSMENT', 'PLAN'),
+    is_default: false
+  },
+  {
+    template_id: 'progress',
+    name: 'Progress Note',
+    description: 'Follow-up visit documentation',
+    sections: sections('INTERVAL HISTORY', 'CURRENT MEDICATIONS', 'PHYSICAL EXAM', 'LAB RESULTS', 'ASSESSMENT', 'PLAN'),
+    is_default: false
+  },
+  {
+    template_id: 'procedure',
+    name: 'Procedure Note',
+    description: 'Procedural documentation',
+    sections: sections('PROCEDURE', 'INDICATION', 'CONSENT', 'ANESTHESIA', 'TECHNIQUE', 'FINDINGS', 'COMPLICATIONS', 'DISPOSITION'),
+    is_default: false
+  }
+];
+
+/**
+ * The org's templates. An org that has none yet (every org before templates were
+ * editable) gets the built-in set stored, so admins can change them like any other.
+ */
+export async function loadNoteTemplates(orgid: string | null | undefined): Promise<NoteTemplateDefinition[]> {
+  if (!orgid) return BUILT_IN_NOTE_TEMPLATES;
+
+  const templates = await storage.getNoteTemplates(orgid);
+  if (templates.length > 0) return templates;
+
+  try {
+    for (const template of BUILT_IN_NOTE_TEMPLATES) {
+      const { template_id, ...definition } = template;
+      const seeded: InsertNoteTemplate = { ...definition, orgid };
+      await storage.createNoteTemplate(seeded);
+    }
+  } catch (error) {
+    // Another request seeded the org at the same time; its templates are the ones to use
+    console.error('Seed note templates error:', error);
+  }
+  return await storage.getNoteTemplates(orgid);
+}
+
+// A template by id, falling back to the built-in keys ('soap', ...) older clients send
+export async function findNoteTemplate(orgid: string | null | undefined, templateId: string): Promise<NoteTemplateDefinition | undefined> {
+  const templates = await loadNoteTemplates(orgid);
+  const byId = templates.find(t => t.template_id === templateId);
+  if (byId) return byId;
+
+  const builtIn = BUILT_IN_NOTE_TEMPLATES.find(t => t.template_id === templateId);
+  return builtIn && (templates.find(t => t.name === builtIn.name) ?? builtIn);
+}
+
+// Section headers with room to write under each, as inserted into the editor
+export function getEmptyTemplate(template: Pick<NoteTemplateDefinition, 'sections'>): string {
+  // Use plain text section headers for better textarea display
+  return template.sections.map(section => `${section.name}:\n\n`).join('\n');
+}
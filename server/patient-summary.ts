@@ -0,0 +1,110 @@
+import {
+  PATIENT_SUMMARY_CATEGORIES,
+  type Patient,
+  type PatientSummary,
+  type PatientSummaryContent,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { summarizePatientNotes } from "./note-ai";
+import { loadDeidentifier } from "./deidentify";
+import type { UsageActor } from "./usage";
+
+// Note text sent for one summary (roughly 15k tokens); the oldest notes that don't fit are left out
+const MAX_SOURCE_CHARS = 60_000;
+
+interface PatientNote {
+  noteid: string;
+  visit_date: string;
+  text: string; // The note with its addenda
+}
+
+/**
+ * The patient's notes that have text, newest visit first, with a version string
+ * that changes whenever any of them is edited or gets an addendum.
+ */
+async function loadPatientNotes(patientid: string): Promise<{ notes: PatientNote[]; version: string }> {
+  const notes: PatientNote[] = [];
+  const versions: string[] = [];
+  for (const visit of await storage.getVisits(patientid)) {
+    for (const note of await storage.getVisitNotes(visit.visitid)) {
+      if (!note.transcription_text?.trim()) continue;
+      notes.push({ noteid: note.noteid, visit_date: visit.visit_date, text: note.transcription_text.trim() });
+      versions.push(`${note.noteid}@${note.updated_at?.getTime() ?? 0}`);
+    }
+  }
+
+  const addenda = await storage.getVisitNoteAddenda(notes.map(note => note.noteid));
+  for (const addendum of addenda) {
+    const note = notes.find(note => note.noteid === addendum.noteid)!;
+    note.text += `\n\nADDENDUM:\n${addendum.addendum_text.trim()}`;
+    versions.push(addendum.addendum_id);
+  }
+  return { notes, version: versions.join(',') };
+}
+
+async function generatePatientSummary(actor: UsageActor, patient: Patient): Promise<PatientSummary | null> {
+  const { notes, version } = await loadPatientNotes(patient.patientid);
+  if (notes.length === 0) return null;
+
+  // Newest first until the budget is spent; the newest note always goes in
+  const included: PatientNote[] = [];
+  let length = 0;
+  for (const note of notes) {
+    if (included.length > 0 && length + note.text.length > MAX_SOURCE_CHARS) break;
+    included.push(note);
+    length += note.text.length;
+  }
+
+  // Visit dates are identifying too, so with de-identification the model sees them as placeholders
+  const deidentifier = await loadDeidentifier(patient.orgid, patient);
+  const scrub = (text: string) => deidentifier ? deidentifier.scrub(text) : text;
+  const sources = new Map(included.map((note, index) => [`N${index + 1}`, note]));
+  const { statements, provider, model } = await summarizePatientNotes(
+    actor,
+    Array.from(sources, ([source, note]) => ({ source, visit_date: scrub(note.visit_date), text: scrub(note.text) }))
+  );
+
+  // A statement that doesn't cite one of the notes can't be traced back, so it's dropped
+  const summary = {} as PatientSummaryContent;
+  for (const category of PATIENT_SUMMARY_CATEGORIES) {
+    summary[category] = statements[category].flatMap(statement => {
+      const note = sources.get(statement.source.trim().replace(/^\[|\]$/g, ''));
+      if (!note) return [];
+      const text = deidentifier ? deidentifier.reidentify(statement.text) : statement.text;
+      return [{ text, noteid: note.noteid, visit_date: note.visit_date }];
+    });
+  }
+
+  const generated = {
+    patientid: patient.patientid,
+    summary,
+    note_count: included.length,
+    notes_omitted: notes.length - included.length,
+    provider,
+    model,
+    generated_by_empid: actor.empid ?? null,
+  };
+
+  // A note that changed while the model was writing would make this summary stale
+  // the moment it's cached; it's still returned, and the next request writes another
+  if ((await loadPatientNotes(patient.patientid)).version !== version) {
+    return { ...generated, generated_at: new Date() };
+  }
+  return await storage.savePatientSummary(generated);
+}
+
+const pending = new Map<string, Promise<PatientSummary | null>>();
+
+/**
+ * Writes the patient's summary from their notes and caches it until a note changes
+ * (see IStorage.getPatientSummary). Requests for a patient whose summary is already
+ * being written share that one model call. Null when the patient has no notes yet.
+ */
+export function summarizePatient(actor: UsageActor, patient: Patient): Promise<PatientSummary | null> {
+  let summary = pending.get(patient.patientid);
+  if (!summary) {
+    summary = generatePatientSummary(actor, patient).finally(() => pending.delete(patient.patientid));
+    pending.set(patient.patientid, summary);
+  }
+  return summary;
+}
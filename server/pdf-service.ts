@@ -1,5 +1,5 @@
 import PDFDocument from 'pdfkit';
-import { Patient, Org, Visit, VisitNote, Employee } from '@shared/schema';
+import { Patient, Org, Visit, VisitNote, Employee, VisitNoteAddendumWithAuthor, NoteCosignReviewWithReviewer, NoteSection } from '@shared/schema';
 
 interface NoteWithContext {
   note: VisitNote;
@@ -11,6 +11,9 @@ interface PDFExportData {
   patient: Patient;
   org: Org;
   notes: NoteWithContext[];
+  addenda?: VisitNoteAddendumWithAuthor[];
+  cosignReviews?: NoteCosignReviewWithReviewer[];
+  sections?: NoteSection[];
   startDate: string;
   endDate: string;
 }
@@ -73,7 +76,7 @@ export function generatePatientNotesPDF(data: PDFExportData): typeof PDFDocument
        .fillColor(COLORS.muted)
        .text('No notes found for the selected date range.', { align: 'center' });
   } else {
-    drawNotes(doc, data.notes, pageWidth);
+    drawNotes(doc, data.notes, data.addenda || [], data.cosignReviews || [], data.sections || [], pageWidth);
   }
 
   // Footer with page numbers
@@ -156,7 +159,14 @@ function drawPatientInfo(doc: PDFKit.PDFDocument, data: PDFExportData, pageWidth
   doc.moveDown(1);
 }
 
-function drawNotes(doc: PDFKit.PDFDocument, notes: NoteWithContext[], pageWidth: number) {
+function drawNotes(
+  doc: PDFKit.PDFDocument,
+  notes: NoteWithContext[],
+  addenda: VisitNoteAddendumWithAuthor[],
+  cosignReviews: NoteCosignReviewWithReviewer[],
+  sections: NoteSection[],
+  pageWidth: number
+) {
   const leftMargin = doc.page.margins.left;
   
   // Reset x position to left margin
@@ -212,7 +222,12 @@ function drawNotes(doc: PDFKit.PDFDocument, notes: NoteWithContext[], pageWidth:
     doc.fontSize(10)
        .fillColor(COLORS.text);
     
-    if (note.transcription_text) {
+    const noteSections = sections
+      .filter(section => section.noteid === note.noteid)
+      .sort((a, b) => a.section_index - b.section_index);
+    if (noteSections.some(section => section.heading)) {
+      drawNoteSections(doc, noteSections, pageWidth);
+    } else if (note.transcription_text) {
       const transcriptionText = note.transcription_text;
       
       doc.text(transcriptionText, leftMargin + 10, doc.y, {
@@ -224,6 +239,27 @@ function drawNotes(doc: PDFKit.PDFDocument, notes: NoteWithContext[], pageWidth:
          .text('No transcription available', leftMargin + 10, doc.y);
     }
 
+    if (note.signed_at) {
+      drawSignatureBlock(doc, note, pageWidth);
+    } else {
+      doc.moveDown(0.3);
+      doc.fontSize(9)
+         .fillColor(COLORS.muted)
+         .text('UNSIGNED DRAFT', leftMargin, doc.y);
+    }
+
+    const noteReviews = cosignReviews.filter(review => review.noteid === note.noteid);
+    if (noteReviews.length > 0 || note.cosign_status === 'pending') {
+      drawCosignReviews(doc, note, noteReviews, pageWidth);
+    }
+
+    const noteAddenda = addenda
+      .filter(addendum => addendum.noteid === note.noteid)
+      .sort((a, b) => new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime());
+    if (noteAddenda.length > 0) {
+      drawAddenda(doc, noteAddenda, pageWidth);
+    }
+
     doc.moveDown(1);
 
     // Separator line (except for last note)
@@ -239,6 +275,126 @@ function drawNotes(doc: PDFKit.PDFDocument, notes: NoteWithContext[], pageWidth:
   }
 }
 
+// Each section's heading set apart from its content, so sections read as distinct blocks
+function drawNoteSections(doc: PDFKit.PDFDocument, sections: NoteSection[], pageWidth: number) {
+  const leftMargin = doc.page.margins.left;
+
+  for (const section of sections) {
+    if (doc.y > doc.page.height - 100) {
+      doc.addPage();
+    }
+
+    if (section.heading) {
+      doc.moveDown(0.3);
+      doc.fontSize(10)
+         .fillColor(COLORS.primary)
+         .text(section.heading, leftMargin + 10, doc.y, { width: pageWidth - 10 });
+    }
+
+    doc.fontSize(10)
+       .fillColor(section.content ? COLORS.text : COLORS.muted)
+       .text(section.content || '-', leftMargin + 20, doc.y, { width: pageWidth - 20, align: 'left' });
+  }
+
+  doc.x = leftMargin;
+}
+
+function drawCosignReviews(doc: PDFKit.PDFDocument, note: VisitNote, reviews: NoteCosignReviewWithReviewer[], pageWidth: number) {
+  const leftMargin = doc.page.margins.left;
+
+  doc.moveDown(0.3);
+  doc.fontSize(9);
+
+  for (const review of reviews) {
+    const reviewer = review.reviewer_title
+      ? `${review.reviewer_name || 'Unknown'} (${review.reviewer_title})`
+      : review.reviewer_name || 'Unknown';
+
+    if (review.action === 'approved') {
+      doc.fillColor(COLORS.primary)
+         .text(`CO-SIGNED by ${reviewer} on ${formatDateTime(review.created_at)}`, leftMargin, doc.y, { width: pageWidth });
+    } else {
+      doc.fillColor(COLORS.muted)
+         .text(`Returned for revision by ${reviewer} on ${formatDateTime(review.created_at)}`, leftMargin, doc.y, { width: pageWidth });
+    }
+    if (review.comment) {
+      doc.fillColor(COLORS.text)
+         .text(`Comment: ${review.comment}`, leftMargin + 10, doc.y, { width: pageWidth - 10 });
+    }
+  }
+
+  if (note.cosign_status === 'pending') {
+    doc.fillColor(COLORS.muted)
+       .text('AWAITING CO-SIGNATURE', leftMargin, doc.y);
+  }
+
+  doc.x = leftMargin;
+}
+
+function drawAddenda(doc: PDFKit.PDFDocument, addenda: VisitNoteAddendumWithAuthor[], pageWidth: number) {
+  const indentX = doc.page.margins.left + 20;
+  const width = pageWidth - 20;
+
+  for (let i = 0; i < addenda.length; i++) {
+    const addendum = addenda[i];
+
+    doc.moveDown(0.5);
+    if (doc.y > doc.page.height - 120) {
+      doc.addPage();
+    }
+
+    const author = addendum.author_title
+      ? `${addendum.author_name || 'Unknown'} (${addendum.author_title})`
+      : addendum.author_name || 'Unknown';
+
+    doc.fontSize(10)
+       .fillColor(COLORS.primary)
+       .text(`ADDENDUM ${i + 1} - ${formatDateTime(addendum.created_at)}`, indentX, doc.y, { width });
+    doc.fontSize(9)
+       .fillColor(COLORS.muted)
+       .text(`Author: ${author}${addendum.ai_transcribed ? ' [AI Generated]' : ''}`, indentX, doc.y, { width });
+    doc.fontSize(10)
+       .fillColor(COLORS.text)
+       .text(addendum.addendum_text, indentX, doc.y, { width, align: 'left' });
+  }
+
+  doc.x = doc.page.margins.left;
+}
+
+function drawSignatureBlock(doc: PDFKit.PDFDocument, note: VisitNote, pageWidth: number) {
+  const leftMargin = doc.page.margins.left;
+  const blockHeight = 58;
+
+  doc.moveDown(0.5);
+  if (doc.y + blockHeight > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage();
+  }
+
+  const boxTop = doc.y;
+  doc.rect(leftMargin, boxTop, pageWidth, blockHeight)
+     .lineWidth(0.5)
+     .strokeColor(COLORS.primary)
+     .stroke();
+
+  const textX = leftMargin + 8;
+  const signer = note.signature_title
+    ? `${note.signature_name} (${note.signature_title})`
+    : note.signature_name || 'Unknown';
+
+  doc.fontSize(9)
+     .fillColor(COLORS.primary)
+     .text('ELECTRONICALLY SIGNED', textX, boxTop + 6);
+  doc.fillColor(COLORS.text)
+     .text(`Signed by: ${signer}`, textX, doc.y)
+     .text(`Signed on: ${formatDateTime(note.signed_at)}`, textX, doc.y);
+  doc.fontSize(7)
+     .fillColor(COLORS.muted)
+     .text(`Content SHA-256: ${note.signature_content_hash || 'N/A'}`, textX, doc.y, { width: pageWidth - 16 });
+
+  doc.x = leftMargin;
+  doc.y = boxTop + blockHeight;
+}
+
 function addPageNumbers(doc: PDFKit.PDFDocument) {
   const pages = doc.bufferedPageRange();
   for (let i = 0; i < pages.count; i++) {
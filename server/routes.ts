@@ -6,25 +6,63 @@ import {
   insertPatientSchema,
   insertVisitSchema,
   insertVisitNoteSchema,
+  insertVisitNoteAddendumSchema,
+  insertOrgVocabularyTermSchema,
+  insertOrgTranscriptReplacementSchema,
+  insertNoteTemplateSchema,
+  insertEditorAbbreviationSchema,
+  insertEditorQuickPhraseSchema,
+  insertUsageQuotaSchema,
+  USAGE_METRICS,
+  TEXT_LIBRARY_SCOPES,
+  speakerRolesSchema,
+  transcriptSegmentSchema,
+  isTranscriptionLanguage,
+  llmModelOverridesSchema,
+  LLM_TASKS,
+  CLINICAL_RECORD_KINDS,
+  clinicalRecordFieldsSchemas,
+  type ClinicalRecord,
+  type ClinicalRecordKind,
   type InsertPatientWithMRN
 } from "@shared/schema";
+import { z } from "zod";
 import multer from "multer";
 import bcrypt from "bcrypt";
-import { S3Client, PutObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
-import { Client as ReplitObjectStorageClient } from "@replit/object-storage";
-import { transcriptionService, type TranscriptionResult, type TranscriptionError } from "./transcription";
+import { getTranscriptionProvider, transcribeForOrg, resolveTranscriptionLanguage, isTranscriptionProviderName, TRANSCRIPTION_PROVIDERS, type TranscriptionResult, type TranscriptionError } from "./transcription";
+import { attachLiveTranscription } from "./live-transcription";
 import { 
   formatTranscriptionToTemplate, 
-  getEmptyTemplate, 
-  NOTE_TEMPLATES, 
-  MEDICAL_ABBREVIATIONS, 
-  QUICK_INSERT_PHRASES,
-  type NoteTemplate 
-} from "./openai";
+  translateToEnglish
+} from "./note-ai";
+import { getLlmProvider, isLlmProviderName, llmTaskDefaults, LLM_PROVIDERS } from "./llm";
+import { loadAbbreviations, loadQuickPhrases } from "./text-library";
+import { loadNoteTemplates, findNoteTemplate, getEmptyTemplate } from "./note-templates";
+import { loadNoteSections, loadPatientNoteSections } from "./note-sections";
+import { summarizePatient } from "./patient-summary";
+import { extractNoteClinicalRecords } from "./clinical-records";
+import { checkNoteGrounding } from "./grounding";
+import { loadDeidentifier } from "./deidentify";
+import {
+  withinUsageQuota,
+  getUsageQuotaStatuses,
+  recentUsageMonths,
+  monthlyUsageTotals,
+  featureUsageTotals,
+  usageTotals,
+  USAGE_LIMIT_MESSAGES
+} from "./usage";
 import { generatePatientNotesPDF, generatePatientNotesFilename } from "./pdf-service";
 import { db } from "./db";
 import { sql } from "drizzle-orm";
 import { createAccessToken, verifyAccessToken, type AuthContext } from "./auth";
+import { recordAudit } from "./audit";
+import { isNoteSigned } from "./note-signing";
+import { getBlobStore, getBlobStoreForKey } from "./blob-store";
+import { buildDocumentStorageKey, getLegacyDocumentMigrationStatus, startLegacyDocumentMigration } from "./document-storage";
+import { storeAudio, discardStoredAudio, listPatientAudioKeys, deleteStoredAudio, sendStoredAudio, hasStoredAudio, omitAudioData } from "./audio-storage";
+import { parseTranscriptFields, toSegmentRows, fromSegmentRows } from "./transcript-segments";
+import { queueTranscription, startTranscriptionWorker } from "./transcription-jobs";
 
 // Role-based access control definitions
 export const ROLES = {
@@ -51,13 +89,13 @@ export const ROLE_PERMISSIONS = {
     'view_all_employees', 'manage_employees',
     'view_patients', 'manage_patients',
     'view_visits', 'create_visits', 'manage_visits',
-    'view_notes', 'create_notes', 'manage_notes',
+    'view_notes', 'create_notes', 'manage_notes', 'sign_notes',
     'export_data', 'view_audit_logs'
   ],
   [ROLES.DOCTOR]: [
     'view_patients', 'manage_patients',
     'view_visits', 'create_visits', 'manage_visits',
-    'view_notes', 'create_notes', 'manage_notes',
+    'view_notes', 'create_notes', 'manage_notes', 'sign_notes',
     'export_data'
   ],
   [ROLES.STAFF]: [
@@ -83,6 +121,61 @@ export function canManagePatients(role: string | null): boolean {
   return hasPermission(role, 'manage_patients');
 }
 
+// A language code as reported by the transcription provider, e.g. "hi" or "en-IN"
+function isLanguageCode(value: unknown): value is string {
+  return typeof value === 'string' && /^[a-z]{2,3}(-[A-Za-z0-9]{2,4})?$/.test(value);
+}
+
+// Whose text library a request edits: the caller's own, or the org's (org admins only).
+// Returns the empid to store (null for the org) or the error to respond with
+function textLibraryOwner(authContext: AuthContext, scope: unknown): { empid: string | null } | { status: number; error: string } {
+  if (!TEXT_LIBRARY_SCOPES.includes(scope as typeof TEXT_LIBRARY_SCOPES[number])) {
+    return { status: 400, error: "Scope must be personal or org" };
+  }
+  if (scope === 'org') {
+    return hasPermission(authContext.role, 'manage_org_settings')
+      ? { empid: null }
+      : { status: 403, error: "Only organization admins can change the organization library" };
+  }
+  return { empid: authContext.empid };
+}
+
+// Look up a clinical record from its route params, checking it belongs to the caller's org
+async function findClinicalRecord(
+  authContext: AuthContext,
+  kind: string,
+  recordId: string
+): Promise<{ kind: ClinicalRecordKind; record: ClinicalRecord } | { status: number; error: string }> {
+  if (!CLINICAL_RECORD_KINDS.includes(kind as ClinicalRecordKind)) {
+    return { status: 400, error: "Record kind must be problem, medication, allergy or vital" };
+  }
+  const record = await storage.getClinicalRecord(kind as ClinicalRecordKind, recordId);
+  if (!record) {
+    return { status: 404, error: "Record not found" };
+  }
+  const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+  const patient = await storage.getPatient(record.patientid);
+  if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+    return { status: 403, error: "Access denied: record not in your organization" };
+  }
+  return { kind: kind as ClinicalRecordKind, record };
+}
+
+// Validate a "requires co-signature by" assignment; returns an error message or null
+async function validateCosigner(cosignerEmpid: string, orgid: string, empid?: string): Promise<string | null> {
+  if (empid && cosignerEmpid === empid) {
+    return "An employee cannot co-sign their own notes";
+  }
+  const cosigner = await storage.getEmployee(cosignerEmpid);
+  if (!cosigner || cosigner.orgid !== orgid) {
+    return "Co-signer not found in this organization";
+  }
+  if (!cosigner.is_active || !hasPermission(cosigner.role, 'sign_notes')) {
+    return "Co-signer must be an active clinician who can sign notes";
+  }
+  return null;
+}
+
 // Extend Express Request type to include auth context
 declare global {
   namespace Express {
@@ -160,57 +253,6 @@ const documentUpload = multer({
   }
 });
 
-// Initialize AWS S3 client - lazy initialization
-let s3Client: S3Client | null = null;
-
-function getS3Client(): S3Client {
-  if (!s3Client) {
-    const region = process.env.AWS_REGION || 'ap-south-1';
-    const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
-    const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
-    
-    if (!accessKeyId || !secretAccessKey) {
-      throw new Error('AWS credentials not configured. Please set AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY.');
-    }
-    
-    s3Client = new S3Client({
-      region,
-      credentials: {
-        accessKeyId,
-        secretAccessKey,
-      }
-    });
-  }
-  return s3Client;
-}
-
-function getS3Bucket(): string {
-  const bucket = process.env.AWS_S3_BUCKET;
-  if (!bucket) {
-    throw new Error('AWS S3 bucket not configured. Please set AWS_S3_BUCKET.');
-  }
-  return bucket;
-}
-
-// Initialize Replit Object Storage client for legacy documents - lazy initialization
-let replitStorageClient: ReplitObjectStorageClient | null = null;
-
-function getReplitStorageClient(): ReplitObjectStorageClient {
-  if (!replitStorageClient) {
-    const bucketId = process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID;
-    if (!bucketId) {
-      throw new Error('Replit Object Storage bucket ID not configured. Please set DEFAULT_OBJECT_STORAGE_BUCKET_ID.');
-    }
-    replitStorageClient = new ReplitObjectStorageClient({ bucketId });
-  }
-  return replitStorageClient;
-}
-
-// Helper to check if storage_key is from old Replit Object Storage
-function isReplitObjectStoragePath(storageKey: string): boolean {
-  return storageKey.startsWith('/replit-objstore-') || storageKey.startsWith('replit-objstore-');
-}
-
 // Helper function to detect database connection errors
 function isDatabaseConnectionError(error: any): boolean {
   const errorMessage = error?.message?.toLowerCase() || '';
@@ -396,6 +438,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { password_hash, ...employeeData } = employee;
       
       console.log(`Super admin ${employee.username} switched to org ${targetOrg.org_name} (${org_number})`);
+      await recordAudit(req, {
+        action: 'impersonation.start',
+        orgid: targetOrg.orgid,
+        resourceId: targetOrg.orgid,
+        details: { org_number: targetOrg.org_number }
+      }, authContext);
       
       res.json({
         employee: employeeData,
@@ -446,6 +494,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { password_hash, ...employeeData } = employee;
       
       console.log(`Super admin ${employee.username} cleared impersonation`);
+      await recordAudit(req, {
+        action: 'impersonation.end',
+        orgid: authContext.impersonatedOrgId ?? null,
+        resourceId: authContext.impersonatedOrgId ?? null
+      }, authContext);
       
       res.json({
         employee: employeeData,
@@ -682,7 +735,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         visits: exportData.visits,
         notes: exportData.notes.map(n => ({
           ...n,
-          audio_file: n.audio_file ? '[AUDIO_DATA_OMITTED]' : null // Don't include binary audio in export
+          audio_file: n.audio_file ? '[AUDIO_DATA_OMITTED]' : null // Legacy base64 audio not yet migrated; stored recordings are referenced by audio_storage_key
         }))
       };
       
@@ -700,6 +753,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         visit_count: exportData.visits.length,
         note_count: exportData.notes.length
       });
+      await recordAudit(req, {
+        action: 'export.backup',
+        orgid: targetOrgId,
+        resourceId: targetOrgId,
+        details: {
+          patient_count: exportData.patients.length,
+          visit_count: exportData.visits.length,
+          note_count: exportData.notes.length
+        }
+      });
       
       // Set headers for file download
       const filename = `${exportData.organization.org_shortname}_backup_${new Date().toISOString().split('T')[0]}.json`;
@@ -745,6 +808,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ============ STORAGE MIGRATION ENDPOINTS ============
+
+  // Legacy Replit document migration status (super admin only)
+  app.get("/api/admin/storage-migration", requireAuth(), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      
+      if (authContext.role !== 'super_admin') {
+        return res.status(403).json({ error: "Only super admins can access storage migration" });
+      }
+      
+      const status = await getLegacyDocumentMigrationStatus();
+      res.json(status);
+    } catch (error) {
+      console.error('Get storage migration status error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Start copying legacy Replit documents to S3 (super admin only)
+  app.post("/api/admin/storage-migration", requireAuth(), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      
+      if (authContext.role !== 'super_admin') {
+        return res.status(403).json({ error: "Only super admins can run storage migration" });
+      }
+      
+      try {
+        const run = startLegacyDocumentMigration(authContext.empid, { dryRun: req.body?.dry_run === true });
+        // Rewrites the storage keys of every org's documents, so it's on the platform-level trail
+        await recordAudit(req, {
+          action: 'storage.migrate',
+          orgid: null,
+          details: { dry_run: run.dry_run, started_at: run.started_at }
+        });
+        res.status(202).json(run);
+      } catch (startError) {
+        res.status(409).json({ error: startError instanceof Error ? startError.message : "Migration could not be started" });
+      }
+    } catch (error) {
+      console.error('Start storage migration error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ END STORAGE MIGRATION ENDPOINTS ============
+
+  // ============ AUDIT LOG ENDPOINTS ============
+
+  // Query the audit trail (org_admin sees own org, super_admin may query any org or all)
+  app.get("/api/audit", requireAuth('view_audit_logs'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const { actor, patientid, action, from, to, limit, offset, orgid } = req.query;
+
+      let targetOrgId: string | undefined = authContext.impersonatedOrgId || authContext.orgid || undefined;
+      if (authContext.role === 'super_admin') {
+        targetOrgId = (orgid as string | undefined) || authContext.impersonatedOrgId || undefined;
+      } else if (!targetOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      // Date-only upper bounds include the whole day
+      if (toDate && /^\d{4}-\d{2}-\d{2}$/.test(to as string)) {
+        toDate.setUTCHours(23, 59, 59, 999);
+      }
+
+      const events = await storage.getAuditEvents({
+        orgid: targetOrgId,
+        actorEmpid: actor as string | undefined,
+        patientid: patientid as string | undefined,
+        action: action as string | undefined,
+        from: fromDate,
+        to: toDate,
+        limit: Math.min(parseInt(limit as string, 10) || 200, 1000),
+        offset: parseInt(offset as string, 10) || 0
+      });
+
+      res.json(events);
+    } catch (error) {
+      console.error('Get audit events error:', error);
+      res.status(500).json({ error: "Failed to get audit events" });
+    }
+  });
+
+  // ============ END AUDIT LOG ENDPOINTS ============
+
   // ============ EMPLOYEE MANAGEMENT ENDPOINTS ============
 
   // Get all employees for organization (org_admin or super_admin only)
@@ -769,6 +925,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         title: emp.title,
         role: emp.role,
         secondary_role: emp.secondary_role,
+        cosigner_empid: emp.cosigner_empid,
+        preferred_language: emp.preferred_language,
         is_active: emp.is_active,
         created_at: emp.created_at
       }));
@@ -790,7 +948,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No organization context" });
       }
       
-      const { username, password, first_name, last_name, title, role, secondary_role } = req.body;
+      const { username, password, first_name, last_name, title, role, secondary_role, cosigner_empid, preferred_language } = req.body;
       
       // Validate required fields
       if (!username || !password || !first_name || !last_name) {
@@ -809,6 +967,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid secondary role. Must be doctor or staff" });
       }
       
+      if (preferred_language && !isTranscriptionLanguage(preferred_language)) {
+        return res.status(400).json({ error: "Unsupported dictation language" });
+      }
+      
+      if (cosigner_empid) {
+        const cosignerError = await validateCosigner(cosigner_empid, targetOrgId);
+        if (cosignerError) {
+          return res.status(400).json({ error: cosignerError });
+        }
+      }
+      
       // Check if username already exists
       const existingEmployee = await storage.getEmployeeByUsername(username);
       if (existingEmployee) {
@@ -828,6 +997,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         title: title || null,
         role: role || 'doctor',
         secondary_role: secondary_role || null,
+        cosigner_empid: cosigner_empid || null,
+        preferred_language: preferred_language || null,
         is_active: true
       });
       
@@ -841,6 +1012,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         title: newEmployee.title,
         role: newEmployee.role,
         secondary_role: newEmployee.secondary_role,
+        cosigner_empid: newEmployee.cosigner_empid,
+        preferred_language: newEmployee.preferred_language,
         is_active: newEmployee.is_active,
         created_at: newEmployee.created_at
       });
@@ -877,7 +1050,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Cannot modify super admin accounts" });
       }
       
-      const { first_name, last_name, title, role, secondary_role, is_active } = req.body;
+      const { first_name, last_name, title, role, secondary_role, cosigner_empid, preferred_language, is_active } = req.body;
       
       // Validate role if provided
       const validRoles = ['org_admin', 'doctor', 'staff'];
@@ -885,6 +1058,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid role. Must be org_admin, doctor, or staff" });
       }
       
+      if (preferred_language && !isTranscriptionLanguage(preferred_language)) {
+        return res.status(400).json({ error: "Unsupported dictation language" });
+      }
+      
+      if (cosigner_empid && employee.orgid) {
+        const cosignerError = await validateCosigner(cosigner_empid, employee.orgid, empid);
+        if (cosignerError) {
+          return res.status(400).json({ error: cosignerError });
+        }
+      }
+      
       // Build updates object
       const updates: any = {};
       if (first_name !== undefined) updates.first_name = first_name;
@@ -892,6 +1076,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (title !== undefined) updates.title = title;
       if (role !== undefined) updates.role = role;
       if (secondary_role !== undefined) updates.secondary_role = secondary_role || null;
+      if (cosigner_empid !== undefined) updates.cosigner_empid = cosigner_empid || null;
+      if (preferred_language !== undefined) updates.preferred_language = preferred_language || null;
       if (is_active !== undefined) updates.is_active = is_active;
       
       const updatedEmployee = await storage.updateEmployee(empid, updates);
@@ -910,6 +1096,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         title: updatedEmployee.title,
         role: updatedEmployee.role,
         secondary_role: updatedEmployee.secondary_role,
+        cosigner_empid: updatedEmployee.cosigner_empid,
+        preferred_language: updatedEmployee.preferred_language,
         is_active: updatedEmployee.is_active,
         created_at: updatedEmployee.created_at
       });
@@ -1102,6 +1290,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Transcription providers an organization can be switched to (super admin only)
+  app.get("/api/transcription-providers", requireAuth(), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      
+      if (authContext.role !== 'super_admin') {
+        return res.status(403).json({ error: "Only super admins can view transcription providers" });
+      }
+      
+      const defaultProvider = getTranscriptionProvider();
+      res.json({
+        default: defaultProvider.name,
+        providers: TRANSCRIPTION_PROVIDERS.map(name => {
+          const provider = getTranscriptionProvider(name);
+          return { name, available: provider.isAvailable(), capabilities: provider.capabilities };
+        })
+      });
+    } catch (error) {
+      console.error('Get transcription providers error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // LLM providers and the default model per AI task (super admin only, for org settings)
+  app.get("/api/llm-providers", requireAuth(), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      
+      if (authContext.role !== 'super_admin') {
+        return res.status(403).json({ error: "Only super admins can view LLM providers" });
+      }
+      
+      res.json({
+        default: getLlmProvider().name,
+        providers: LLM_PROVIDERS.map(name => ({ name, available: getLlmProvider(name).isAvailable() })),
+        tasks: llmTaskDefaults()
+      });
+    } catch (error) {
+      console.error('Get LLM providers error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Update organization (super admin only)
   app.patch("/api/organizations/:orgid", requireAuth(), async (req, res) => {
     try {
@@ -1117,7 +1348,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Organization not found" });
       }
       
-      const { org_name, org_type, address, phone, is_active } = req.body;
+      const { org_name, org_type, address, phone, is_active, transcription_provider, default_language, llm_provider, llm_models, require_deidentification } = req.body;
+      
+      if (transcription_provider != null && !isTranscriptionProviderName(transcription_provider)) {
+        return res.status(400).json({ error: `Transcription provider must be one of: ${TRANSCRIPTION_PROVIDERS.join(', ')}` });
+      }
+      if (default_language && !isTranscriptionLanguage(default_language)) {
+        return res.status(400).json({ error: "Unsupported default dictation language" });
+      }
+      if (llm_provider != null && !isLlmProviderName(llm_provider)) {
+        return res.status(400).json({ error: `LLM provider must be one of: ${LLM_PROVIDERS.join(', ')}` });
+      }
+      // Tasks left out use the server default model
+      const parsedModels = llmModelOverridesSchema.nullable().optional().safeParse(llm_models);
+      if (!parsedModels.success) {
+        return res.status(400).json({ error: `LLM models must map tasks (${LLM_TASKS.join(', ')}) to model names` });
+      }
+      if (require_deidentification !== undefined && typeof require_deidentification !== 'boolean') {
+        return res.status(400).json({ error: "require_deidentification must be true or false" });
+      }
       
       // Build updates object with only provided fields
       const updates: Record<string, any> = {};
@@ -1126,6 +1375,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (address !== undefined) updates.address = address;
       if (phone !== undefined) updates.phone = phone;
       if (is_active !== undefined) updates.is_active = is_active;
+      if (transcription_provider !== undefined) updates.transcription_provider = transcription_provider || null;
+      if (default_language !== undefined) updates.default_language = default_language || null;
+      if (llm_provider !== undefined) updates.llm_provider = llm_provider || null;
+      if (parsedModels.data !== undefined) {
+        updates.llm_models = parsedModels.data && Object.keys(parsedModels.data).length > 0 ? parsedModels.data : null;
+      }
+      if (require_deidentification !== undefined) updates.require_deidentification = require_deidentification;
       
       const updatedOrg = await storage.updateOrg(orgid, updates);
       
@@ -1138,6 +1394,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Months of usage history to return: ?months=, 1-24, default 6
+  const usageMonthsParam = (value: unknown) => Math.min(Math.max(parseInt(value as string, 10) || 6, 1), 24);
+  const monthStart = (month: string) => new Date(`${month}-01T00:00:00Z`);
+
+  // The org's AI usage by month and, for this month, by feature, with its quotas (org admin)
+  app.get("/api/usage", requireAuth('view_org_settings'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const months = recentUsageMonths(usageMonthsParam(req.query.months));
+      const thisMonth = months[months.length - 1];
+      const [rows, quotas] = await Promise.all([
+        storage.getUsageSummary({ orgid: effectiveOrgId, since: monthStart(months[0]) }),
+        getUsageQuotaStatuses(effectiveOrgId)
+      ]);
+      res.json({
+        months: monthlyUsageTotals(rows, months),
+        features: featureUsageTotals(rows.filter(row => row.month === thisMonth)),
+        quotas
+      });
+    } catch (error) {
+      console.error('Get usage error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Platform-wide usage by month, and each org's use this month against its quotas (super admin only)
+  app.get("/api/admin/usage", requireAuth(), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      
+      if (authContext.role !== 'super_admin') {
+        return res.status(403).json({ error: "Only super admins can view platform usage" });
+      }
+
+      const months = recentUsageMonths(usageMonthsParam(req.query.months));
+      const thisMonth = months[months.length - 1];
+      const [rows, allOrgs] = await Promise.all([
+        storage.getUsageSummary({ since: monthStart(months[0]) }),
+        storage.getOrgs()
+      ]);
+      const orgUsage = await Promise.all(allOrgs.map(async org => ({
+        orgid: org.orgid,
+        org_name: org.org_name,
+        org_number: org.org_number,
+        ...usageTotals(rows.filter(row => row.orgid === org.orgid && row.month === thisMonth)),
+        quotas: await getUsageQuotaStatuses(org.orgid)
+      })));
+      res.json({
+        months: monthlyUsageTotals(rows, months),
+        orgs: orgUsage.sort((a, b) => b.llm_tokens - a.llm_tokens || b.audio_minutes - a.audio_minutes)
+      });
+    } catch (error) {
+      console.error('Get platform usage error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Set an org's monthly quota for one metric; null limits remove it (super admin only)
+  app.put("/api/organizations/:orgid/usage-quotas/:metric", requireAuth(), async (req, res) => {
+    try {
+      const { orgid, metric } = req.params;
+      const authContext = req.authContext!;
+      
+      if (authContext.role !== 'super_admin') {
+        return res.status(403).json({ error: "Only super admins can set usage quotas" });
+      }
+      if (!(USAGE_METRICS as readonly string[]).includes(metric)) {
+        return res.status(400).json({ error: `Metric must be one of: ${USAGE_METRICS.join(', ')}` });
+      }
+      if (!await storage.getOrg(orgid)) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
+
+      const parsed = insertUsageQuotaSchema.safeParse({
+        orgid,
+        metric,
+        soft_limit: req.body.soft_limit ?? null,
+        hard_limit: req.body.hard_limit ?? null,
+        updated_by_empid: authContext.empid
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Limits must be whole numbers of zero or more, with the soft limit no higher than the hard limit" });
+      }
+
+      const quota = await storage.setUsageQuota(parsed.data);
+      console.log(`Super admin ${authContext.empid} set ${metric} quota for org ${orgid}: soft ${quota.soft_limit ?? 'none'}, hard ${quota.hard_limit ?? 'none'}`);
+      res.json(quota);
+    } catch (error) {
+      console.error('Set usage quota error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Patient routes (protected with requireAuth)
   app.get("/api/patients", requireAuth('view_patients'), async (req, res) => {
     try {
@@ -1166,6 +1520,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return { ...patient, lastVisit };
         })
       );
+      await recordAudit(req, {
+        action: 'patient.list',
+        details: { search: typeof search === 'string' ? search : null, result_count: patients.length }
+      });
 
       res.json(patientsWithVisits);
     } catch (error) {
@@ -1190,6 +1548,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (effectiveOrgId && patient.orgid !== effectiveOrgId) {
         return res.status(403).json({ error: "Access denied: patient not in your organization" });
       }
+      await recordAudit(req, { action: 'patient.view', resourceId: patientid, patientid });
       
       res.json(patient);
     } catch (error) {
@@ -1234,6 +1593,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Increment org's MRN sequence for next patient
       await storage.updateOrg(effectiveOrgId, { mrn_sequence_current: mrnNumber + 1 });
+      await recordAudit(req, { action: 'patient.create', resourceId: patient.patientid, patientid: patient.patientid });
       
       res.status(201).json(patient);
     } catch (error) {
@@ -1259,6 +1619,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const updates = insertPatientSchema.partial().parse(req.body);
       const updatedPatient = await storage.updatePatient(patientid, updates);
+      await recordAudit(req, {
+        action: 'patient.update',
+        resourceId: patientid,
+        patientid,
+        details: { fields: Object.keys(updates) }
+      });
       
       res.json(updatedPatient);
     } catch (error) {
@@ -1284,12 +1650,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied: patient not in your organization" });
       }
       
-      // Delete patient and all associated records (visits, notes)
+      // Delete patient and all associated records (visits, notes), then their recordings in object storage
+      const audioKeys = await listPatientAudioKeys(patientid);
       const deleted = await storage.deletePatient(patientid);
       if (!deleted) {
         return res.status(500).json({ error: "Failed to delete patient" });
       }
+      const undeletedAudio = await deleteStoredAudio(audioKeys);
+      await recordAudit(req, {
+        action: 'patient.delete',
+        resourceId: patientid,
+        patientid,
+        details: { mrn: patient.mrn, audio_deleted: audioKeys.length - undeletedAudio.length, audio_not_deleted: undeletedAudio }
+      });
       
+      if (undeletedAudio.length > 0) {
+        return res.json({
+          success: true,
+          message: `Patient deleted, but ${undeletedAudio.length} recording(s) could not be removed from storage`,
+          undeleted_audio: undeletedAudio
+        });
+      }
       res.json({ success: true, message: "Patient and all associated records deleted successfully" });
     } catch (error) {
       console.error('Delete patient error:', error);
@@ -1322,11 +1703,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`PDF Export: Found ${data.notes.length} notes for patient ${patientid} in date range`);
       
+      await recordAudit(req, {
+        action: 'export.pdf',
+        resourceId: patientid,
+        patientid,
+        details: { startDate, endDate, note_count: data.notes.length }
+      });
+      
       const filename = generatePatientNotesFilename(patientid, startDate as string, endDate as string);
       
+      const noteIds = data.notes.map(({ note }) => note.noteid);
+      const [addenda, cosignReviews, sections] = await Promise.all([
+        storage.getVisitNoteAddenda(noteIds),
+        storage.getCosignReviews(noteIds),
+        loadNoteSections(data.notes.map(({ note }) => note))
+      ]);
+      
       // Generate PDF
       const doc = generatePatientNotesPDF({
         ...data,
+        addenda,
+        cosignReviews,
+        sections,
         startDate: startDate as string,
         endDate: endDate as string
       });
@@ -1344,6 +1742,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The patient's note sections across visits, newest first; ?section=assessment narrows to one kind
+  app.get("/api/patients/:patientid/note-sections", requireAuth('view_notes'), async (req, res) => {
+    try {
+      const { patientid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      const sectionKey = typeof req.query.section === 'string' && req.query.section ? req.query.section : undefined;
+      
+      const patient = await storage.getPatient(patientid);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      
+      // Verify patient belongs to user's org
+      if (effectiveOrgId && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: patient not in your organization" });
+      }
+      
+      const sections = await loadPatientNoteSections(patientid, sectionKey);
+      await recordAudit(req, { action: 'note.list', resourceId: patientid, patientid, details: { sections: sectionKey ?? 'all' } });
+      
+      res.json(sections);
+    } catch (error) {
+      console.error('Get patient note sections error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Summary of the patient's notes - problems, medications, allergies and recent events, each
+  // citing its source note. Cached until a note changes; null when there are no notes yet.
+  app.get("/api/patients/:patientid/summary", requireAuth('view_notes'), async (req, res) => {
+    try {
+      const { patientid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      const patient = await storage.getPatient(patientid);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      
+      // Verify patient belongs to user's org
+      if (effectiveOrgId && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: patient not in your organization" });
+      }
+      
+      let summary = await storage.getPatientSummary(patientid);
+      if (!summary) {
+        if (!await withinUsageQuota(patient.orgid, 'llm_tokens')) {
+          return res.status(429).json({ error: USAGE_LIMIT_MESSAGES.llm_tokens });
+        }
+        summary = await summarizePatient({ orgid: patient.orgid, empid: authContext.empid }, patient) ?? undefined;
+      }
+      await recordAudit(req, { action: 'note.list', resourceId: patientid, patientid, details: { summary: true } });
+      
+      res.json(summary ?? null);
+    } catch (error) {
+      console.error('Get patient summary error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to summarize the patient's notes" });
+    }
+  });
+
+  app.get("/api/patients/:patientid/clinical-records", requireAuth('view_notes'), async (req, res) => {
+    try {
+      const { patientid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      const patient = await storage.getPatient(patientid);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      
+      // Verify patient belongs to user's org
+      if (effectiveOrgId && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: patient not in your organization" });
+      }
+      
+      const records = await storage.getClinicalRecords(patientid);
+      await recordAudit(req, { action: 'patient.view', resourceId: patientid, patientid, details: { clinical_records: true } });
+      
+      res.json(records);
+    } catch (error) {
+      console.error('Get clinical records error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Visit routes (protected)
   app.get("/api/patients/:patientid/visits", requireAuth('view_notes'), async (req, res) => {
     try {
@@ -1378,8 +1864,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
           };
         })
       );
+      
+      // Thread addenda and co-sign reviews under their notes
+      const noteIds = visitsWithDetails.flatMap(visit => visit.notes.map(note => note.noteid));
+      const [addenda, cosignReviews, transcriptionJobs] = await Promise.all([
+        storage.getVisitNoteAddenda(noteIds),
+        storage.getCosignReviews(noteIds),
+        storage.getLatestTranscriptionJobs(noteIds)
+      ]);
+      const visitsWithAddenda = visitsWithDetails.map(visit => ({
+        ...visit,
+        notes: visit.notes.map(note => ({
+          ...omitAudioData(note),
+          addenda: addenda.filter(addendum => addendum.noteid === note.noteid),
+          cosign_reviews: cosignReviews.filter(review => review.noteid === note.noteid),
+          transcription_job: transcriptionJobs.find(job => job.noteid === note.noteid) ?? null
+        }))
+      }));
+      await recordAudit(req, { action: 'visit.list', resourceId: patientid, patientid });
 
-      res.json(visitsWithDetails);
+      res.json(visitsWithAddenda);
     } catch (error) {
       console.error('Get visits error:', error);
       res.status(500).json({ error: "Internal server error" });
@@ -1407,6 +1911,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get additional details
       const employee = await storage.getEmployee(visit.empid);
       const notes = await storage.getVisitNotes(visitid);
+      await recordAudit(req, { action: 'visit.view', resourceId: visitid, patientid: visit.patientid });
       
       res.json({
         ...visit,
@@ -1447,6 +1952,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const validatedData = insertVisitSchema.parse(visitData);
       const visit = await storage.createVisit(validatedData);
+      await recordAudit(req, { action: 'visit.create', resourceId: visit.visitid, patientid: visit.patientid });
       res.status(201).json(visit);
     } catch (error) {
       console.error('Create visit error:', error);
@@ -1471,6 +1977,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const notes = await storage.getVisitNotes(visitid);
+      await recordAudit(req, { action: 'note.list', resourceId: visitid, patientid: visit?.patientid });
       res.json(notes);
     } catch (error) {
       console.error('Get visit notes error:', error);
@@ -1498,31 +2005,314 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(403).json({ error: "Access denied: note not in your organization" });
         }
       }
+      await recordAudit(req, { action: 'note.view', resourceId: noteid, patientid: visit?.patientid });
       
-      res.json(note);
+      res.json(omitAudioData(note));
     } catch (error) {
       console.error('Get note error:', error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/notes", requireAuth('create_notes'), upload.single('audio'), async (req, res) => {
+  // Diarized transcript of the note's recording, with the speaker names chosen so far
+  app.get("/api/notes/:noteid/transcript", requireAuth('view_notes'), async (req, res) => {
     try {
+      const { noteid } = req.params;
       const authContext = req.authContext!;
       const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
       
-      // Verify visit belongs to user's org
-      const visitid = req.body.visitid;
-      if (visitid) {
+      const note = await storage.getVisitNote(noteid);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      
+      // Verify note's visit's patient belongs to user's org
+      const visit = await storage.getVisit(note.visitid);
+      const patient = visit ? await storage.getPatient(visit.patientid) : undefined;
+      if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: note not in your organization" });
+      }
+      
+      const segments = await storage.getNoteTranscriptSegments(noteid);
+      await recordAudit(req, { action: 'note.view', resourceId: noteid, patientid: visit?.patientid, details: { transcript: true } });
+      
+      res.json({ segments: fromSegmentRows(segments), speaker_roles: note.speaker_roles ?? {} });
+    } catch (error) {
+      console.error('Get note transcript error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Status of the note's latest background transcription (null if it never had one).
+  // Polled by the client while a job is queued or running.
+  app.get("/api/notes/:noteid/transcription-job", requireAuth('view_notes'), async (req, res) => {
+    try {
+      const { noteid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      const note = await storage.getVisitNote(noteid);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      
+      // Verify note's visit's patient belongs to user's org
+      const visit = await storage.getVisit(note.visitid);
+      const patient = visit ? await storage.getPatient(visit.patientid) : undefined;
+      if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: note not in your organization" });
+      }
+      
+      const [job] = await storage.getLatestTranscriptionJobs([noteid]);
+      res.json({ job: job ?? null });
+    } catch (error) {
+      console.error('Get transcription job error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Re-run transcription of the note's recording in the background. The result only
+  // replaces empty or unedited machine text; whatever the clinician wrote is kept.
+  app.post("/api/notes/:noteid/transcribe", requireAuth('manage_notes'), async (req, res) => {
+    try {
+      const { noteid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      const note = await storage.getVisitNote(noteid);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      
+      // Verify note's visit's patient belongs to user's org
+      const visit = await storage.getVisit(note.visitid);
+      const patient = visit ? await storage.getPatient(visit.patientid) : undefined;
+      if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: note not in your organization" });
+      }
+      
+      if (!hasStoredAudio(note)) {
+        return res.status(400).json({ error: "This note has no recording to transcribe" });
+      }
+      if (isNoteSigned(note)) {
+        return res.status(409).json({ error: "Note is signed and can no longer be edited. Add an addendum instead." });
+      }
+      const [latest] = await storage.getLatestTranscriptionJobs([noteid]);
+      if (latest && (latest.status === 'queued' || latest.status === 'running')) {
+        return res.status(409).json({ error: "Transcription is already in progress for this note" });
+      }
+      
+      // Re-running in another language (e.g. detection got it wrong) changes what the job uses
+      const language = req.body?.language;
+      if (language !== undefined && !isTranscriptionLanguage(language)) {
+        return res.status(400).json({ error: "Unsupported transcription language" });
+      }
+      if (language && language !== note.transcription_language) {
+        await storage.updateVisitNote(noteid, { transcription_language: language });
+      }
+      
+      const job = await queueTranscription(noteid, authContext.empid);
+      await recordAudit(req, {
+        action: 'note.transcribe',
+        resourceId: noteid,
+        patientid: visit?.patientid,
+        details: { job_id: job.job_id, language: language || note.transcription_language }
+      });
+      
+      res.status(202).json({ job });
+    } catch (error) {
+      console.error('Queue transcription error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Latest transcription job for each of several notes (batch upload progress)
+  app.get("/api/transcription-jobs", requireAuth('view_notes'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      const noteIds = typeof req.query.noteids === 'string'
+        ? req.query.noteids.split(',').filter(Boolean).slice(0, 200)
+        : [];
+      
+      // Only report on notes in the user's org
+      const allowedNoteIds: string[] = [];
+      for (const noteid of noteIds) {
+        const note = await storage.getVisitNote(noteid);
+        const visit = note ? await storage.getVisit(note.visitid) : undefined;
+        const patient = visit ? await storage.getPatient(visit.patientid) : undefined;
+        if (patient && (!effectiveOrgId || patient.orgid === effectiveOrgId)) {
+          allowedNoteIds.push(noteid);
+        }
+      }
+      
+      res.json({ jobs: await storage.getLatestTranscriptionJobs(allowedNoteIds) });
+    } catch (error) {
+      console.error('Get transcription jobs error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Batch dictation upload: one recording per request, attached as a new note to the
+  // given visit, or to the patient's visit on visit_date (created if there is none),
+  // then queued for background transcription.
+  app.post("/api/batch-transcriptions", requireAuth('create_notes'), upload.single('audio'), async (req, res) => {
+    let orphanedAudioKey: string | null = null; // Uploaded, but not yet referenced by a saved row
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      if (!req.file || req.file.buffer.length === 0) {
+        return res.status(400).json({ error: "Audio file is required" });
+      }
+      
+      const patientid = typeof req.body.patientid === 'string' ? req.body.patientid : '';
+      const patient = patientid ? await storage.getPatient(patientid) : undefined;
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (effectiveOrgId && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: patient not in your organization" });
+      }
+      if (!await withinUsageQuota(patient.orgid, 'audio_minutes')) {
+        return res.status(429).json({ error: USAGE_LIMIT_MESSAGES.audio_minutes });
+      }
+      
+      let visit;
+      if (req.body.visitid) {
+        visit = await storage.getVisit(req.body.visitid);
+        if (!visit || visit.patientid !== patient.patientid) {
+          return res.status(404).json({ error: "Visit not found for this patient" });
+        }
+      } else {
+        const visitDate = typeof req.body.visit_date === 'string' ? req.body.visit_date : '';
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(visitDate) || isNaN(Date.parse(visitDate))) {
+          return res.status(400).json({ error: "A visit or a visit date (YYYY-MM-DD) is required" });
+        }
+        const existingVisits = await storage.getVisits(patient.patientid);
+        visit = existingVisits.find(v => v.visit_date === visitDate);
+        if (!visit) {
+          visit = await storage.createVisit(insertVisitSchema.parse({
+            patientid: patient.patientid,
+            empid: authContext.empid,
+            visit_date: visitDate,
+            visit_purpose: req.body.visit_purpose || 'Dictation',
+          }));
+          await recordAudit(req, { action: 'visit.create', resourceId: visit.visitid, patientid: patient.patientid, details: { batch: true } });
+        }
+      }
+      
+      const audioMimetype = req.body.audio_mimetype || req.file.mimetype || 'audio/wav';
+      const storedAudio = await storeAudio(
+        req.file.buffer,
+        audioMimetype,
+        { orgid: patient.orgid, patientid: patient.patientid, visitid: visit.visitid },
+        req.file.originalname
+      );
+      orphanedAudioKey = storedAudio.audio_storage_key;
+      const note = await storage.createVisitNote(insertVisitNoteSchema.parse({
+        visitid: visit.visitid,
+        ...storedAudio,
+        audio_filename: req.file.originalname,
+        audio_mimetype: audioMimetype,
+        audio_duration_seconds: parseInt(req.body.audio_duration_seconds) || null,
+        transcription_text: null,
+        is_transcription_edited: false,
+        transcription_language: await resolveTranscriptionLanguage(req.body.language, authContext.empid, patient.orgid),
+        session_id: req.body.session_id || null,
+        device_type: req.body.device_type || null,
+        browser_name: req.body.browser_name || null,
+        ip_address: req.headers['x-forwarded-for']?.toString().split(',')[0].trim() || req.socket.remoteAddress || 'unknown',
+        user_agent: req.body.user_agent || req.headers['user-agent'] || null,
+      }));
+      orphanedAudioKey = null;
+      const job = await queueTranscription(note.noteid, authContext.empid);
+      await recordAudit(req, {
+        action: 'note.create',
+        resourceId: note.noteid,
+        patientid: patient.patientid,
+        details: { visitid: visit.visitid, has_audio: true, batch: true, transcription_queued: true }
+      });
+      
+      res.status(201).json({ note: omitAudioData(note), visit, job });
+    } catch (error) {
+      console.error('Batch transcription upload error:', error);
+      if (orphanedAudioKey) await discardStoredAudio(orphanedAudioKey);
+      // Only bad request data is the client's to fix; storage and database failures are ours
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') });
+      }
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Name the speakers of a diarized recording (Doctor, Patient, Attendant). This labels
+  // the recording, not the note text, so it is allowed after signing.
+  app.put("/api/notes/:noteid/speakers", requireAuth('manage_notes'), async (req, res) => {
+    try {
+      const { noteid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      const parsed = speakerRolesSchema.safeParse(req.body.speaker_roles);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Speaker roles must map speaker numbers to doctor, patient, attendant or other" });
+      }
+      
+      const note = await storage.getVisitNote(noteid);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      
+      // Verify note's visit's patient belongs to user's org
+      const visit = await storage.getVisit(note.visitid);
+      const patient = visit ? await storage.getPatient(visit.patientid) : undefined;
+      if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: note not in your organization" });
+      }
+      
+      const updatedNote = await storage.updateVisitNote(noteid, { speaker_roles: parsed.data });
+      await recordAudit(req, {
+        action: 'note.speakers',
+        resourceId: noteid,
+        patientid: visit?.patientid,
+        details: { speaker_roles: parsed.data }
+      });
+      
+      res.json({ speaker_roles: updatedNote?.speaker_roles ?? {} });
+    } catch (error) {
+      console.error('Update note speakers error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/notes", requireAuth('create_notes'), upload.single('audio'), async (req, res) => {
+    let orphanedAudioKey: string | null = null; // Uploaded, but not yet referenced by a saved row
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      // Verify visit belongs to user's org
+      const visitid = req.body.visitid;
+      let notePatientId: string | undefined;
+      let noteOrgId: string | undefined;
+      if (visitid) {
         const visit = await storage.getVisit(visitid);
         if (visit) {
+          notePatientId = visit.patientid;
           const patient = await storage.getPatient(visit.patientid);
           if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
             return res.status(403).json({ error: "Access denied: cannot create note for visit outside your organization" });
           }
+          noteOrgId = patient?.orgid;
         }
       }
       
+      // Diarized transcript from an earlier /api/transcribe call, if the client has one
+      const transcript = parseTranscriptFields(req.body);
+      const transcriptSegments = transcript.segments;
+      let shouldTranscribe = false;
+      
       // Check if manual transcription was provided (must be non-empty after trimming)
       const rawTranscription = req.body.transcription_text;
       const trimmedTranscription = rawTranscription?.trim() || '';
@@ -1556,61 +2346,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Handle audio file if provided
       if (req.file) {
-        noteData.audio_file = req.file.buffer.toString('base64');
+        if (!notePatientId || !noteOrgId) {
+          return res.status(400).json({ error: "Visit not found for audio upload" });
+        }
         noteData.audio_filename = req.file.originalname;
         noteData.audio_mimetype = req.body.audio_mimetype || req.file.mimetype || 'audio/wav';
         noteData.audio_duration_seconds = parseInt(req.body.audio_duration_seconds) || null;
-
-        // Automatically transcribe audio using Deepgram if no manual transcription provided AND audio has content
-        const shouldTranscribe = !noteData.transcription_text && req.file.buffer && req.file.buffer.length > 1000;
-        console.log('Transcription check:', {
-          hasTranscriptionText: !!noteData.transcription_text,
-          hasBuffer: !!req.file.buffer,
-          bufferLength: req.file.buffer?.length || 0,
-          shouldTranscribe: shouldTranscribe
-        });
-
-        if (shouldTranscribe) {
-          console.log('Starting Deepgram transcription for audio file:', noteData.audio_filename, 'size:', req.file.buffer.length, 'bytes');
-          
-          try {
-            const transcriptionResult = await transcriptionService.transcribeAudio(
-              req.file.buffer,
-              req.file.mimetype
-            );
-
-            if ('error' in transcriptionResult) {
-              console.error('Deepgram transcription failed:', transcriptionResult.error, transcriptionResult.details);
-              // Continue without transcription rather than failing the entire request
-              noteData.transcription_text = `[Transcription failed: ${transcriptionResult.error}]`;
-            } else {
-              noteData.transcription_text = transcriptionResult.text;
-              noteData.is_transcription_edited = false; // Auto-generated, not manually edited
-              noteData.ai_transcribed = true; // Mark that AI transcription was used
-              console.log(`Deepgram transcription completed: ${transcriptionResult.text.length} characters, confidence: ${transcriptionResult.confidence}`);
-            }
-          } catch (transcriptionError) {
-            console.error('Deepgram service error:', transcriptionError);
-            noteData.transcription_text = '[Automatic transcription unavailable]';
-          }
-        } else if (!noteData.transcription_text) {
+        
+        // Recording goes to object storage; only its key and checksum are kept on the note
+        const storedAudio = await storeAudio(
+          req.file.buffer,
+          noteData.audio_mimetype,
+          { orgid: noteOrgId, patientid: notePatientId, visitid },
+          noteData.audio_filename
+        );
+        Object.assign(noteData, storedAudio);
+        orphanedAudioKey = storedAudio.audio_storage_key;
+
+        // Language the recording was made in, and what the provider heard if the client already transcribed it
+        noteData.transcription_language = await resolveTranscriptionLanguage(req.body.transcription_language, authContext.empid, noteOrgId);
+        noteData.detected_language = isLanguageCode(req.body.detected_language) ? req.body.detected_language : null;
+
+        // Recordings saved without text are transcribed in the background (see transcription-jobs.ts)
+        shouldTranscribe = !noteData.transcription_text && req.file.buffer.length > 1000;
+        if (!shouldTranscribe && !noteData.transcription_text) {
           console.log('Skipping transcription - audio buffer too small or empty');
         }
       }
 
+      noteData.speaker_roles = transcriptSegments?.length ? (transcript.speakerRoles ?? null) : null;
+      
       const validatedData = insertVisitNoteSchema.parse(noteData);
       const note = await storage.createVisitNote(validatedData);
+      orphanedAudioKey = null;
+      if (transcriptSegments?.length) {
+        await storage.replaceNoteTranscriptSegments(note.noteid, toSegmentRows(transcriptSegments));
+      }
+      const transcriptionJob = shouldTranscribe ? await queueTranscription(note.noteid, authContext.empid) : null;
+      await recordAudit(req, {
+        action: 'note.create',
+        resourceId: note.noteid,
+        patientid: notePatientId,
+        details: { visitid: note.visitid, has_audio: !!req.file, transcription_queued: !!transcriptionJob }
+      });
       
       console.log('Note created and returning:', {
         noteid: note.noteid,
-        ai_transcribed: note.ai_transcribed,
         is_transcription_edited: note.is_transcription_edited,
-        transcriptionLength: note.transcription_text?.length || 0
+        transcriptionLength: note.transcription_text?.length || 0,
+        transcriptionJobId: transcriptionJob?.job_id
       });
       
-      res.status(201).json(note);
+      res.status(201).json({ ...omitAudioData(note), transcription_job: transcriptionJob });
     } catch (error) {
       console.error('Create note error:', error);
+      if (orphanedAudioKey) await discardStoredAudio(orphanedAudioKey);
       res.status(400).json({ error: error instanceof Error ? error.message : "Invalid note data" });
     }
   });
@@ -1635,27 +2425,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      const updates = insertVisitNoteSchema.partial().parse(req.body);
-      const updatedNote = await storage.updateVisitNote(noteid, updates);
+      if (isNoteSigned(existingNote)) {
+        return res.status(409).json({ error: "Note is signed and can no longer be edited. Add an addendum instead." });
+      }
+      
+      // Audio storage location is set only by the upload path, never by clients;
+      // speaker names have their own endpoint
+      const updates = insertVisitNoteSchema
+        .omit({ audio_storage_key: true, audio_size_bytes: true, audio_sha256: true, speaker_roles: true })
+        .partial()
+        .parse(req.body);
+      const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+      const updatedNote = await storage.updateVisitNoteWithRevision(noteid, updates, {
+        author_empid: authContext.empid,
+        reason: reason || null
+      });
+      await recordAudit(req, {
+        action: 'note.update',
+        resourceId: noteid,
+        patientid: visit?.patientid,
+        details: { fields: Object.keys(updates) }
+      });
       
-      res.json(updatedNote);
+      res.json(omitAudioData(updatedNote));
     } catch (error) {
       console.error('Update note error:', error);
       res.status(400).json({ error: error instanceof Error ? error.message : "Invalid note data" });
     }
   });
 
-  // Audio file download route (protected with org-scoping)
-  app.get("/api/notes/:noteid/audio", requireAuth('view_notes'), async (req, res) => {
+  // Note revision history (newest first)
+  app.get("/api/notes/:noteid/revisions", requireAuth('view_notes'), async (req, res) => {
     try {
       const { noteid } = req.params;
       const authContext = req.authContext!;
       const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
       
       const note = await storage.getVisitNote(noteid);
-      
-      if (!note || !note.audio_file) {
-        return res.status(404).json({ error: "Audio file not found" });
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
       }
       
       // Verify note's visit's patient belongs to user's org
@@ -1663,122 +2471,634 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (visit) {
         const patient = await storage.getPatient(visit.patientid);
         if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
-          return res.status(403).json({ error: "Access denied: audio not in your organization" });
+          return res.status(403).json({ error: "Access denied: note not in your organization" });
         }
       }
-
-      const audioBuffer = Buffer.from(note.audio_file, 'base64');
-      const filename = note.audio_filename || `audio_${noteid}.wav`;
-      const mimeType = note.audio_mimetype || 'audio/wav';
       
-      res.setHeader('Content-Type', mimeType);
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.send(audioBuffer);
+      const revisions = await storage.getVisitNoteRevisions(noteid);
+      await recordAudit(req, { action: 'note.history', resourceId: noteid, patientid: visit?.patientid });
+      
+      res.json(revisions);
     } catch (error) {
-      console.error('Download audio error:', error);
+      console.error('Get note revisions error:', error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Visit Documents routes
-  
-  // List documents for a visit
-  app.get("/api/visits/:visitid/documents", requireAuth('view_notes'), async (req, res) => {
+  // Restore the text a note had before a given revision.
+  // History is never rewritten: the restore is itself appended as a new revision.
+  app.post("/api/notes/:noteid/revisions/:revisionId/restore", requireAuth('manage_notes'), async (req, res) => {
     try {
-      const { visitid } = req.params;
+      const { noteid, revisionId } = req.params;
       const authContext = req.authContext!;
       const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
       
-      // Verify visit's patient belongs to user's org
-      const visit = await storage.getVisit(visitid);
-      if (!visit) {
-        return res.status(404).json({ error: "Visit not found" });
+      const note = await storage.getVisitNote(noteid);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
       }
       
-      const patient = await storage.getPatient(visit.patientid);
-      if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
-        return res.status(403).json({ error: "Access denied: visit not in your organization" });
+      // Verify note's visit's patient belongs to user's org
+      const visit = await storage.getVisit(note.visitid);
+      if (visit) {
+        const patient = await storage.getPatient(visit.patientid);
+        if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+          return res.status(403).json({ error: "Access denied: note not in your organization" });
+        }
       }
       
-      const documents = await storage.getVisitDocuments(visitid);
-      res.json(documents);
+      if (isNoteSigned(note)) {
+        return res.status(409).json({ error: "Note is signed and can no longer be edited. Add an addendum instead." });
+      }
+      
+      const revision = await storage.getVisitNoteRevision(revisionId);
+      if (!revision || revision.noteid !== noteid) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      if ((revision.previous_text ?? '') === (note.transcription_text ?? '')) {
+        return res.status(400).json({ error: "Note already matches this version" });
+      }
+      
+      const reason = typeof req.body?.reason === 'string' && req.body.reason.trim()
+        ? req.body.reason.trim()
+        : `Restored text from before revision ${revision.revision_number}`;
+      
+      const updatedNote = await storage.updateVisitNoteWithRevision(noteid, {
+        transcription_text: revision.previous_text ?? '',
+        is_transcription_edited: true
+      }, {
+        author_empid: authContext.empid,
+        reason,
+        restored_from_revision_id: revision.revision_id
+      });
+      await recordAudit(req, {
+        action: 'note.restore',
+        resourceId: noteid,
+        patientid: visit?.patientid,
+        details: { revision_id: revision.revision_id, revision_number: revision.revision_number }
+      });
+      
+      res.json(omitAudioData(updatedNote));
     } catch (error) {
-      console.error('Get visit documents error:', error);
+      console.error('Restore note revision error:', error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
-  
-  // Upload document to a visit
-  app.post("/api/visits/:visitid/documents", requireAuth('create_notes'), documentUpload.single('document'), async (req, res) => {
+
+  // Sign a note. The clinician re-enters their password as attestation; the note
+  // is then locked and the signature block is printed on exports.
+  app.post("/api/notes/:noteid/sign", requireAuth('sign_notes'), async (req, res) => {
     try {
-      const { visitid } = req.params;
+      const { noteid } = req.params;
+      const { password } = req.body;
       const authContext = req.authContext!;
       const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
       
-      // Verify visit's patient belongs to user's org
-      const visit = await storage.getVisit(visitid);
+      if (!password) {
+        return res.status(400).json({ error: "Password is required to sign" });
+      }
+      
+      const note = await storage.getVisitNote(noteid);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      
+      const visit = await storage.getVisit(note.visitid);
       if (!visit) {
         return res.status(404).json({ error: "Visit not found" });
       }
       
+      // Verify note's visit's patient belongs to user's org
       const patient = await storage.getPatient(visit.patientid);
-      if (!patient) {
-        return res.status(404).json({ error: "Patient not found" });
-      }
-      if (effectiveOrgId && patient.orgid !== effectiveOrgId) {
-        return res.status(403).json({ error: "Access denied: cannot upload document to visit outside your organization" });
+      if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: note not in your organization" });
       }
       
-      if (!req.file) {
-        return res.status(400).json({ error: "No document file provided" });
+      // Only the clinician who owns the visit can attest to its notes
+      if (visit.empid !== authContext.empid) {
+        return res.status(403).json({ error: "Only the visit's clinician can sign this note" });
       }
       
-      // Diagnostic logging for upload debugging
-      console.log(`Document upload received: {
-  originalname: ${req.file.originalname},
-  mimetype: ${req.file.mimetype},
-  size: ${req.file.size},
-  bufferLength: ${req.file.buffer?.length || 'NO BUFFER'},
-  hasBuffer: ${!!req.file.buffer}
-}`);
+      if (isNoteSigned(note)) {
+        return res.status(409).json({ error: "Note is already signed" });
+      }
       
-      // Validate that we actually have file content
-      if (!req.file.buffer || req.file.buffer.length === 0) {
-        console.error('UPLOAD ERROR: File buffer is empty or missing!');
-        return res.status(400).json({ error: "File upload failed - no content received" });
+      if (!note.transcription_text?.trim()) {
+        return res.status(400).json({ error: "Cannot sign an empty note" });
       }
       
-      // Use actual buffer length as authoritative file size
-      const actualFileSize = req.file.buffer.length;
+      const employee = await storage.getEmployee(authContext.empid);
+      if (!employee || !employee.is_active) {
+        return res.status(403).json({ error: "Employee account is not active" });
+      }
       
-      // Reject suspiciously small files (except text files which can be tiny)
-      const isTextFile = req.file.mimetype.startsWith('text/');
-      if (actualFileSize < 10 && !isTextFile) {
-        console.error(`UPLOAD ERROR: File too small (${actualFileSize} bytes) for type ${req.file.mimetype}`);
-        return res.status(400).json({ 
-          error: `File appears corrupted or incomplete (${actualFileSize} bytes). Please try uploading again.` 
-        });
+      const isValidPassword = await bcrypt.compare(password, employee.password_hash);
+      if (!isValidPassword) {
+        return res.status(401).json({ error: "Incorrect password" });
       }
       
-      // Generate storage key: org/{orgid}/patients/{patientid}/visits/{visitid}/documents/{uuid}_{filename}
-      const documentId = crypto.randomUUID();
-      const safeFilename = req.file.originalname.replace(/[^a-zA-Z0-9.-]/g, '_');
-      const storageKey = `documents/org/${patient.orgid}/patients/${patient.patientid}/visits/${visitid}/${documentId}_${safeFilename}`;
-      
-      console.log(`Uploading to S3: key=${storageKey}, bufferSize=${actualFileSize}`);
-      
-      // Upload to AWS S3
-      const s3 = getS3Client();
-      const bucket = getS3Bucket();
-      await s3.send(new PutObjectCommand({
-        Bucket: bucket,
-        Key: storageKey,
-        Body: req.file.buffer,
-        ContentType: req.file.mimetype,
-        ContentLength: actualFileSize,
-      }));
+      const signedNote = await storage.signVisitNote(noteid, {
+        empid: employee.empid,
+        name: `${employee.first_name} ${employee.last_name}`,
+        title: employee.title,
+        cosigner_empid: employee.cosigner_empid
+      });
+      await recordAudit(req, {
+        action: 'note.sign',
+        resourceId: noteid,
+        patientid: visit.patientid,
+        details: { content_hash: signedNote?.signature_content_hash }
+      });
+      
+      res.json(omitAudioData(signedNote));
+    } catch (error) {
+      console.error('Sign note error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Co-signature queue: signed notes whose author requires supervision and
+  // that name the current user as co-signer
+  app.get("/api/cosign/queue", requireAuth('sign_notes'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const queue = await storage.getCosignQueue(authContext.empid);
+      await recordAudit(req, { action: 'note.list', details: { cosign_queue: true, count: queue.length } });
+      
+      res.json(queue);
+    } catch (error) {
+      console.error('Get co-sign queue error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Approve a note, or return it to the author with a comment. Returning
+  // clears the signature so the author can revise the note and sign again.
+  app.post("/api/notes/:noteid/cosign", requireAuth('sign_notes'), async (req, res) => {
+    try {
+      const { noteid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      const { action } = req.body;
+      const comment = typeof req.body.comment === 'string' ? req.body.comment.trim() : '';
+      
+      if (action !== 'approve' && action !== 'return') {
+        return res.status(400).json({ error: "Action must be approve or return" });
+      }
+      if (action === 'return' && !comment) {
+        return res.status(400).json({ error: "A comment is required when returning a note" });
+      }
+      
+      const note = await storage.getVisitNote(noteid);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      
+      // Verify note's visit's patient belongs to user's org
+      const visit = await storage.getVisit(note.visitid);
+      if (visit) {
+        const patient = await storage.getPatient(visit.patientid);
+        if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+          return res.status(403).json({ error: "Access denied: note not in your organization" });
+        }
+      }
+      
+      if (note.cosigner_empid !== authContext.empid) {
+        return res.status(403).json({ error: "You are not the co-signer for this note" });
+      }
+      
+      const updatedNote = await storage.reviewCosign(noteid, {
+        reviewer_empid: authContext.empid,
+        action: action === 'approve' ? 'approved' : 'returned',
+        comment: comment || null
+      });
+      if (!updatedNote) {
+        return res.status(409).json({ error: "Note is not awaiting co-signature" });
+      }
+      await recordAudit(req, {
+        action: 'note.cosign',
+        resourceId: noteid,
+        patientid: visit?.patientid,
+        details: { decision: updatedNote.cosign_status }
+      });
+      
+      res.json(omitAudioData(updatedNote));
+    } catch (error) {
+      console.error('Co-sign note error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Addenda - late additions to a signed note. The note itself is never changed;
+  // each addendum is stored separately and shown/printed under it.
+  app.get("/api/notes/:noteid/addenda", requireAuth('view_notes'), async (req, res) => {
+    try {
+      const { noteid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      const note = await storage.getVisitNote(noteid);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      
+      // Verify note's visit's patient belongs to user's org
+      const visit = await storage.getVisit(note.visitid);
+      if (visit) {
+        const patient = await storage.getPatient(visit.patientid);
+        if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+          return res.status(403).json({ error: "Access denied: note not in your organization" });
+        }
+      }
+      
+      const addenda = await storage.getVisitNoteAddenda([noteid]);
+      await recordAudit(req, { action: 'note.view', resourceId: noteid, patientid: visit?.patientid, details: { addenda: true } });
+      
+      res.json(addenda);
+    } catch (error) {
+      console.error('Get note addenda error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/notes/:noteid/addenda", requireAuth('create_notes'), upload.single('audio'), async (req, res) => {
+    let orphanedAudioKey: string | null = null; // Uploaded, but not yet referenced by a saved row
+    try {
+      const { noteid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      const note = await storage.getVisitNote(noteid);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      
+      // Verify note's visit's patient belongs to user's org
+      const visit = await storage.getVisit(note.visitid);
+      const patient = visit ? await storage.getPatient(visit.patientid) : undefined;
+      if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: note not in your organization" });
+      }
+      
+      // Unsigned notes are still editable, so corrections go into the note itself
+      if (!isNoteSigned(note)) {
+        return res.status(409).json({ error: "Addenda can only be added to signed notes. Edit the note instead." });
+      }
+      
+      let addendumText = typeof req.body.addendum_text === 'string' ? req.body.addendum_text.trim() : '';
+      let aiTranscribed = false;
+      
+      if (!addendumText && !req.file) {
+        return res.status(400).json({ error: "Addendum text or audio is required" });
+      }
+      
+      // Transcribe dictated addenda the same way as notes when no text was typed. Addenda can't
+      // be edited once saved, so a failed transcription is refused rather than stored as placeholder text
+      if (req.file && !addendumText && req.file.buffer.length > 1000) {
+        let transcriptionResult;
+        try {
+          transcriptionResult = await transcribeForOrg(
+            { orgid: patient?.orgid || effectiveOrgId, empid: authContext.empid },
+            'addendum_transcription',
+            req.file.buffer,
+            req.file.mimetype,
+            await resolveTranscriptionLanguage(req.body.language, authContext.empid, patient?.orgid || effectiveOrgId)
+          );
+        } catch (transcriptionError) {
+          console.error('Deepgram service error:', transcriptionError);
+          return res.status(503).json({ error: "Automatic transcription is unavailable. Try again, or type the addendum instead." });
+        }
+        
+        if ('error' in transcriptionResult) {
+          console.error('Deepgram addendum transcription failed:', transcriptionResult.error, transcriptionResult.details);
+          return res.status(500).json({
+            error: `${transcriptionResult.error}. Try again, or type the addendum instead.`,
+            details: transcriptionResult.details
+          });
+        }
+        addendumText = transcriptionResult.text.trim();
+        aiTranscribed = true;
+      }
+      
+      if (!addendumText) {
+        return res.status(400).json({ error: aiTranscribed ? "No speech was recognized in the recording" : "Recording is too short to transcribe" });
+      }
+      
+      const audioMimetype = req.file ? (req.body.audio_mimetype || req.file.mimetype || 'audio/wav') : null;
+      let storedAudio = null;
+      if (req.file) {
+        if (!visit || !patient) {
+          return res.status(400).json({ error: "Visit not found for audio upload" });
+        }
+        storedAudio = await storeAudio(
+          req.file.buffer,
+          audioMimetype!,
+          { orgid: patient.orgid, patientid: patient.patientid, visitid: visit.visitid },
+          req.file.originalname
+        );
+        orphanedAudioKey = storedAudio.audio_storage_key;
+      }
+      
+      const addendumData = insertVisitNoteAddendumSchema.parse({
+        noteid,
+        author_empid: authContext.empid,
+        addendum_text: addendumText,
+        ...storedAudio,
+        audio_filename: req.file?.originalname || null,
+        audio_mimetype: audioMimetype,
+        audio_duration_seconds: req.file ? (parseInt(req.body.audio_duration_seconds) || null) : null,
+        ai_transcribed: aiTranscribed
+      });
+      
+      const addendum = await storage.createVisitNoteAddendum(addendumData);
+      orphanedAudioKey = null;
+      await recordAudit(req, {
+        action: 'note.addendum',
+        resourceId: noteid,
+        patientid: visit?.patientid,
+        details: { addendum_id: addendum.addendum_id, has_audio: !!req.file, ai_transcribed: aiTranscribed }
+      });
+      
+      const { audio_file, audio_storage_key, audio_size_bytes, audio_sha256, ...addendumWithoutAudio } = addendum;
+      res.status(201).json(addendumWithoutAudio);
+    } catch (error) {
+      console.error('Create addendum error:', error);
+      if (orphanedAudioKey) await discardStoredAudio(orphanedAudioKey);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid addendum data" });
+    }
+  });
+
+  app.get("/api/addenda/:addendumId/audio", requireAuth('view_notes'), async (req, res) => {
+    try {
+      const { addendumId } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      const addendum = await storage.getVisitNoteAddendum(addendumId);
+      if (!addendum || !hasStoredAudio(addendum)) {
+        return res.status(404).json({ error: "Audio file not found" });
+      }
+      
+      // Verify the addendum's note belongs to user's org
+      const note = await storage.getVisitNote(addendum.noteid);
+      const visit = note ? await storage.getVisit(note.visitid) : undefined;
+      if (visit) {
+        const patient = await storage.getPatient(visit.patientid);
+        if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+          return res.status(403).json({ error: "Access denied: audio not in your organization" });
+        }
+      }
+      await recordAudit(req, {
+        action: 'audio.download',
+        resourceId: addendum.noteid,
+        patientid: visit?.patientid,
+        details: { addendum_id: addendumId }
+      });
+      
+      await sendStoredAudio(req, res, addendum, `addendum_${addendumId}.wav`);
+    } catch (error) {
+      console.error('Download addendum audio error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Clinical records: extracted from a note by AI, then reviewed by the doctor
+  app.post("/api/notes/:noteid/clinical-records/extract", requireAuth('manage_notes'), async (req, res) => {
+    try {
+      const { noteid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      const note = await storage.getVisitNote(noteid);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      
+      // Verify note's visit's patient belongs to user's org
+      const visit = await storage.getVisit(note.visitid);
+      const patient = visit ? await storage.getPatient(visit.patientid) : undefined;
+      if (!visit || !patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (effectiveOrgId && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: note not in your organization" });
+      }
+      
+      if (!note.transcription_text?.trim()) {
+        return res.status(400).json({ error: "This note has no text to extract from yet" });
+      }
+      if (!await withinUsageQuota(patient.orgid, 'llm_tokens')) {
+        return res.status(429).json({ error: USAGE_LIMIT_MESSAGES.llm_tokens });
+      }
+      
+      const records = await extractNoteClinicalRecords({ orgid: patient.orgid, empid: authContext.empid }, note, visit, patient);
+      const fromNote = <T extends { noteid: string; review_status: string }>(group: T[]) =>
+        group.filter(record => record.noteid === noteid && record.review_status === 'pending').length;
+      await recordAudit(req, {
+        action: 'clinical.extract',
+        resourceId: noteid,
+        patientid: patient.patientid,
+        details: {
+          problems: fromNote(records.problems),
+          medications: fromNote(records.medications),
+          allergies: fromNote(records.allergies),
+          vitals: fromNote(records.vitals)
+        }
+      });
+      
+      res.json(records);
+    } catch (error) {
+      console.error('Extract clinical records error:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to extract clinical records" });
+    }
+  });
+
+  // Saving a record, edited or not, marks it reviewed by the caller
+  app.patch("/api/clinical-records/:kind/:recordId", requireAuth('manage_notes'), async (req, res) => {
+    try {
+      const { kind: kindParam, recordId } = req.params;
+      const authContext = req.authContext!;
+      
+      const found = await findClinicalRecord(authContext, kindParam, recordId);
+      if ('error' in found) {
+        return res.status(found.status).json({ error: found.error });
+      }
+      const { kind, record } = found;
       
-      console.log(`S3 upload completed: ${storageKey}`);
+      const parsed = clinicalRecordFieldsSchemas[kind].partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: `Invalid ${kind} details` });
+      }
+      
+      const updated = await storage.updateClinicalRecord(kind, recordId, {
+        ...parsed.data,
+        review_status: 'confirmed',
+        reviewed_by_empid: authContext.empid,
+        reviewed_at: new Date()
+      });
+      await recordAudit(req, {
+        action: 'clinical.update',
+        resourceId: recordId,
+        patientid: record.patientid,
+        details: { kind, noteid: record.noteid, fields: Object.keys(parsed.data) }
+      });
+      
+      res.json(updated);
+    } catch (error) {
+      console.error('Update clinical record error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/clinical-records/:kind/:recordId", requireAuth('manage_notes'), async (req, res) => {
+    try {
+      const { kind: kindParam, recordId } = req.params;
+      const authContext = req.authContext!;
+      
+      const found = await findClinicalRecord(authContext, kindParam, recordId);
+      if ('error' in found) {
+        return res.status(found.status).json({ error: found.error });
+      }
+      const { kind, record } = found;
+      
+      await storage.deleteClinicalRecord(kind, recordId);
+      await recordAudit(req, {
+        action: 'clinical.delete',
+        resourceId: recordId,
+        patientid: record.patientid,
+        details: { kind, noteid: record.noteid, review_status: record.review_status }
+      });
+      
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete clinical record error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Audio file download route (protected with org-scoping)
+  app.get("/api/notes/:noteid/audio", requireAuth('view_notes'), async (req, res) => {
+    try {
+      const { noteid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      const note = await storage.getVisitNote(noteid);
+      
+      if (!note || !hasStoredAudio(note)) {
+        return res.status(404).json({ error: "Audio file not found" });
+      }
+      
+      // Verify note's visit's patient belongs to user's org
+      const visit = await storage.getVisit(note.visitid);
+      if (visit) {
+        const patient = await storage.getPatient(visit.patientid);
+        if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+          return res.status(403).json({ error: "Access denied: audio not in your organization" });
+        }
+      }
+      await recordAudit(req, { action: 'audio.download', resourceId: noteid, patientid: visit?.patientid });
+
+      // Streams from object storage with Range support so players can seek
+      await sendStoredAudio(req, res, note, `audio_${noteid}.wav`);
+    } catch (error) {
+      console.error('Download audio error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Visit Documents routes
+  
+  // List documents for a visit
+  app.get("/api/visits/:visitid/documents", requireAuth('view_notes'), async (req, res) => {
+    try {
+      const { visitid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      // Verify visit's patient belongs to user's org
+      const visit = await storage.getVisit(visitid);
+      if (!visit) {
+        return res.status(404).json({ error: "Visit not found" });
+      }
+      
+      const patient = await storage.getPatient(visit.patientid);
+      if (effectiveOrgId && patient && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: visit not in your organization" });
+      }
+      
+      const documents = await storage.getVisitDocuments(visitid);
+      await recordAudit(req, { action: 'document.list', resourceId: visitid, patientid: visit.patientid });
+      res.json(documents);
+    } catch (error) {
+      console.error('Get visit documents error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+  
+  // Upload document to a visit
+  app.post("/api/visits/:visitid/documents", requireAuth('create_notes'), documentUpload.single('document'), async (req, res) => {
+    try {
+      const { visitid } = req.params;
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      
+      // Verify visit's patient belongs to user's org
+      const visit = await storage.getVisit(visitid);
+      if (!visit) {
+        return res.status(404).json({ error: "Visit not found" });
+      }
+      
+      const patient = await storage.getPatient(visit.patientid);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (effectiveOrgId && patient.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: cannot upload document to visit outside your organization" });
+      }
+      
+      if (!req.file) {
+        return res.status(400).json({ error: "No document file provided" });
+      }
+      
+      // Diagnostic logging for upload debugging
+      console.log(`Document upload received: {
+  originalname: ${req.file.originalname},
+  mimetype: ${req.file.mimetype},
+  size: ${req.file.size},
+  bufferLength: ${req.file.buffer?.length || 'NO BUFFER'},
+  hasBuffer: ${!!req.file.buffer}
+}`);
+      
+      // Validate that we actually have file content
+      if (!req.file.buffer || req.file.buffer.length === 0) {
+        console.error('UPLOAD ERROR: File buffer is empty or missing!');
+        return res.status(400).json({ error: "File upload failed - no content received" });
+      }
+      
+      // Use actual buffer length as authoritative file size
+      const actualFileSize = req.file.buffer.length;
+      
+      // Reject suspiciously small files (except text files which can be tiny)
+      const isTextFile = req.file.mimetype.startsWith('text/');
+      if (actualFileSize < 10 && !isTextFile) {
+        console.error(`UPLOAD ERROR: File too small (${actualFileSize} bytes) for type ${req.file.mimetype}`);
+        return res.status(400).json({ 
+          error: `File appears corrupted or incomplete (${actualFileSize} bytes). Please try uploading again.` 
+        });
+      }
+      
+      // Generate storage key: org/{orgid}/patients/{patientid}/visits/{visitid}/documents/{uuid}_{filename}
+      const documentId = crypto.randomUUID();
+      const storageKey = buildDocumentStorageKey(patient.orgid, patient.patientid, visitid, documentId, req.file.originalname);
+      
+      const blobStore = getBlobStore();
+      console.log(`Uploading to ${blobStore.driver}: key=${storageKey}, bufferSize=${actualFileSize}`);
+      
+      await blobStore.put(storageKey, req.file.buffer, req.file.mimetype);
+      
+      console.log(`Upload completed: ${storageKey}`);
       
       // Create database record with actual buffer length as file size
       const documentRecord = await storage.createVisitDocument({
@@ -1794,6 +3114,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       console.log(`Document record created: id=${documentRecord.document_id}, size=${actualFileSize}, employee=${authContext.empid}`);
+      await recordAudit(req, {
+        action: 'document.upload',
+        resourceId: documentRecord.document_id,
+        patientid: patient.patientid,
+        details: { visitid, filename: req.file.originalname, size_bytes: actualFileSize }
+      });
       
       res.status(201).json(documentRecord);
     } catch (error) {
@@ -1818,6 +3144,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (effectiveOrgId && document.orgid !== effectiveOrgId) {
         return res.status(403).json({ error: "Access denied: document not in your organization" });
       }
+      await recordAudit(req, { action: 'document.view', resourceId: documentId, visitid: document.visitid });
       
       res.json(document);
     } catch (error) {
@@ -1835,83 +3162,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const document = await storage.getVisitDocument(documentId);
       if (!document || document.is_deleted) {
-        return res.status(404).json({ error: "Document not found" });
-      }
-      
-      // Verify document belongs to user's org
-      if (effectiveOrgId && document.orgid !== effectiveOrgId) {
-        return res.status(403).json({ error: "Access denied: document not in your organization" });
-      }
-      
-      console.log(`Downloading document: storage_key=${document.storage_key}, expected_size=${document.file_size_bytes}`);
-      
-      let actualBuffer: Buffer;
-      
-      // Check if this is an old Replit Object Storage path or new AWS S3 path
-      if (isReplitObjectStoragePath(document.storage_key)) {
-        // Use Replit Object Storage for legacy documents
-        console.log('Using Replit Object Storage for legacy document');
-        try {
-          const replitClient = getReplitStorageClient();
-          
-          // Strip the bucket prefix from the storage key if present
-          // Format: /replit-objstore-{bucketId}/.private/... -> .private/...
-          let cleanKey = document.storage_key;
-          const bucketPrefixMatch = cleanKey.match(/^\/?replit-objstore-[a-f0-9-]+\/(.+)$/);
-          if (bucketPrefixMatch) {
-            cleanKey = bucketPrefixMatch[1];
-          }
-          console.log(`Cleaned storage key: ${cleanKey}`);
-          
-          const result = await replitClient.downloadAsBytes(cleanKey);
-          
-          if (!result.ok) {
-            console.error('Replit Object Storage download failed:', result.error);
-            return res.status(404).json({ error: "Document file not found in storage" });
-          }
-          
-          // Handle various return types from Replit Object Storage
-          if (result.value instanceof Buffer) {
-            actualBuffer = result.value;
-          } else if (result.value instanceof Uint8Array) {
-            actualBuffer = Buffer.from(result.value);
-          } else {
-            actualBuffer = Buffer.from(result.value as unknown as ArrayBuffer);
-          }
-        } catch (replitError: any) {
-          console.error('Replit Object Storage error:', replitError);
-          return res.status(404).json({ error: "Document file not found in storage" });
-        }
-      } else {
-        // Use AWS S3 for new documents
-        console.log('Using AWS S3 for document');
-        const s3 = getS3Client();
-        const bucket = getS3Bucket();
-        
-        try {
-          const response = await s3.send(new GetObjectCommand({
-            Bucket: bucket,
-            Key: document.storage_key,
-          }));
-          
-          if (!response.Body) {
-            console.error('S3 returned empty body');
-            return res.status(404).json({ error: "Document file not found in storage" });
-          }
-          
-          // Transform to byte array
-          const byteArray = await response.Body.transformToByteArray();
-          actualBuffer = Buffer.from(byteArray);
-        } catch (s3Error: any) {
-          if (s3Error.name === 'NoSuchKey') {
-            console.error('Document not found in S3:', document.storage_key);
-            return res.status(404).json({ error: "Document file not found in storage" });
-          }
-          throw s3Error;
-        }
+        return res.status(404).json({ error: "Document not found" });
+      }
+      
+      // Verify document belongs to user's org
+      if (effectiveOrgId && document.orgid !== effectiveOrgId) {
+        return res.status(403).json({ error: "Access denied: document not in your organization" });
+      }
+      
+      console.log(`Downloading document: storage_key=${document.storage_key}, expected_size=${document.file_size_bytes}`);
+      
+      // Legacy Replit Object Storage paths are read from Replit, everything else from the configured store
+      const blobStore = getBlobStoreForKey(document.storage_key);
+      console.log(`Using ${blobStore.driver} store for document`);
+      
+      const actualBuffer = await blobStore.get(document.storage_key);
+      if (!actualBuffer) {
+        console.error('Document not found in storage:', document.storage_key);
+        return res.status(404).json({ error: "Document file not found in storage" });
       }
       
       console.log(`Download result: bufferLength=${actualBuffer.length}`);
+      await recordAudit(req, { action: 'document.download', resourceId: documentId, visitid: document.visitid });
       console.log(`Sending file: length=${actualBuffer.length}`);
       
       res.setHeader('Content-Type', document.mime_type);
@@ -1944,6 +3216,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const deleted = await storage.deleteVisitDocument(documentId);
       if (deleted) {
         console.log(`Document soft-deleted: ${documentId} by employee ${authContext.empid}`);
+        await recordAudit(req, { action: 'document.delete', resourceId: documentId, visitid: document.visitid });
         res.json({ success: true, message: "Document deleted" });
       } else {
         res.status(500).json({ error: "Failed to delete document" });
@@ -1970,9 +3243,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         mimeType: req.file.mimetype
       });
 
-      const transcriptionResult = await transcriptionService.transcribeAudio(
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!await withinUsageQuota(effectiveOrgId, 'audio_minutes')) {
+        return res.status(429).json({ error: USAGE_LIMIT_MESSAGES.audio_minutes });
+      }
+      const language = await resolveTranscriptionLanguage(req.body.language, authContext.empid, effectiveOrgId);
+      const transcriptionResult = await transcribeForOrg(
+        { orgid: effectiveOrgId, empid: authContext.empid },
+        'dictation',
         req.file.buffer,
-        req.file.mimetype
+        req.file.mimetype,
+        language
       );
 
       if ('error' in transcriptionResult) {
@@ -1988,7 +3270,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         text: transcriptionResult.text,
         confidence: transcriptionResult.confidence,
-        duration: transcriptionResult.duration
+        duration: transcriptionResult.duration,
+        segments: transcriptionResult.segments,
+        requested_language: language,
+        language: transcriptionResult.language ?? null
       });
     } catch (error) {
       console.error('Transcription error:', error);
@@ -1996,6 +3281,125 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Org vocabulary - keyword boosts for the transcription provider and a replacement
+  // dictionary applied to every transcript before it reaches the editor
+  app.get("/api/vocabulary", requireAuth('view_org_settings'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const [terms, replacements] = await Promise.all([
+        storage.getOrgVocabularyTerms(effectiveOrgId),
+        storage.getOrgTranscriptReplacements(effectiveOrgId)
+      ]);
+      res.json({ terms, replacements });
+    } catch (error) {
+      console.error('Get vocabulary error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/vocabulary/terms", requireAuth('manage_org_settings'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const parsed = insertOrgVocabularyTermSchema.safeParse({
+        ...req.body,
+        orgid: effectiveOrgId,
+        created_by_empid: authContext.empid
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Term (up to 100 characters), category and a boost from 1 to 10 are required" });
+      }
+
+      const existing = await storage.getOrgVocabularyTerms(effectiveOrgId);
+      if (existing.some(t => t.term.toLowerCase() === parsed.data.term.toLowerCase())) {
+        return res.status(409).json({ error: `"${parsed.data.term}" is already in the vocabulary` });
+      }
+
+      const term = await storage.createOrgVocabularyTerm(parsed.data);
+      res.status(201).json(term);
+    } catch (error) {
+      console.error('Create vocabulary term error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/vocabulary/terms/:termId", requireAuth('manage_org_settings'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const deleted = await storage.deleteOrgVocabularyTerm(effectiveOrgId, req.params.termId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Vocabulary term not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete vocabulary term error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/vocabulary/replacements", requireAuth('manage_org_settings'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const parsed = insertOrgTranscriptReplacementSchema.safeParse({
+        ...req.body,
+        orgid: effectiveOrgId,
+        created_by_empid: authContext.empid
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Text to find and its replacement (up to 200 characters each) are required" });
+      }
+
+      const existing = await storage.getOrgTranscriptReplacements(effectiveOrgId);
+      if (existing.some(r => r.find_text.toLowerCase() === parsed.data.find_text.toLowerCase())) {
+        return res.status(409).json({ error: `There is already a replacement for "${parsed.data.find_text}"` });
+      }
+
+      const replacement = await storage.createOrgTranscriptReplacement(parsed.data);
+      res.status(201).json(replacement);
+    } catch (error) {
+      console.error('Create transcript replacement error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/vocabulary/replacements/:replacementId", requireAuth('manage_org_settings'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const deleted = await storage.deleteOrgTranscriptReplacement(effectiveOrgId, req.params.replacementId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Replacement not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete transcript replacement error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Employee routes
   app.get("/api/employees/:empid", async (req, res) => {
     try {
@@ -2017,55 +3421,374 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Medical Editor API routes
   
-  // Get available note templates
-  app.get("/api/medical/templates", (req, res) => {
-    const templates = Object.entries(NOTE_TEMPLATES).map(([id, def]) => ({
-      id,
-      name: def.name,
-      sections: def.sections,
-      description: def.description
-    }));
-    res.json(templates);
+  // Get the organization's note templates
+  app.get("/api/medical/templates", requireAuth(), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const templates = await loadNoteTemplates(authContext.impersonatedOrgId || authContext.orgid);
+      res.json(templates);
+    } catch (error) {
+      console.error('Get note templates error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
   });
 
   // Get empty template structure
-  app.get("/api/medical/templates/:templateId/empty", (req, res) => {
-    const { templateId } = req.params;
-    if (!NOTE_TEMPLATES[templateId as NoteTemplate]) {
-      return res.status(404).json({ error: "Template not found" });
+  app.get("/api/medical/templates/:templateId/empty", requireAuth(), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const template = await findNoteTemplate(authContext.impersonatedOrgId || authContext.orgid, req.params.templateId);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json({ template: getEmptyTemplate(template) });
+    } catch (error) {
+      console.error('Get empty template error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Note template editing - org admins define the structures their notes are written in
+  app.post("/api/medical/templates", requireAuth('manage_org_settings'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const parsed = insertNoteTemplateSchema.safeParse({
+        ...req.body,
+        orgid: effectiveOrgId,
+        created_by_empid: authContext.empid
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "A name and at least one section (with unique names) are required" });
+      }
+
+      const existing = await loadNoteTemplates(effectiveOrgId);
+      if (existing.some(t => t.name.toLowerCase() === parsed.data.name.toLowerCase())) {
+        return res.status(409).json({ error: `There is already a template named "${parsed.data.name}"` });
+      }
+
+      const template = await storage.createNoteTemplate(parsed.data);
+      res.status(201).json(template);
+    } catch (error) {
+      console.error('Create note template error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/medical/templates/:templateId", requireAuth('manage_org_settings'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const { templateId } = req.params;
+      const parsed = insertNoteTemplateSchema
+        .pick({ name: true, description: true, sections: true, is_default: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "A name and at least one section (with unique names) are required" });
+      }
+
+      const existing = await storage.getNoteTemplates(effectiveOrgId);
+      if (!existing.some(t => t.template_id === templateId)) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      const { name } = parsed.data;
+      if (name && existing.some(t => t.template_id !== templateId && t.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ error: `There is already a template named "${name}"` });
+      }
+
+      const template = await storage.updateNoteTemplate(effectiveOrgId, templateId, parsed.data);
+      res.json(template);
+    } catch (error) {
+      console.error('Update note template error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/medical/templates/:templateId", requireAuth('manage_org_settings'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const existing = await storage.getNoteTemplates(effectiveOrgId);
+      if (!existing.some(t => t.template_id === req.params.templateId)) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      if (existing.length === 1) {
+        return res.status(409).json({ error: "An organization needs at least one note template" });
+      }
+
+      await storage.deleteNoteTemplate(effectiveOrgId, req.params.templateId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete note template error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get medical abbreviations - built-in, the org's and the caller's own, merged
+  app.get("/api/medical/abbreviations", requireAuth(), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      res.json(await loadAbbreviations(authContext.impersonatedOrgId || authContext.orgid, authContext.empid));
+    } catch (error) {
+      console.error('Get abbreviations error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get quick insert phrases - the caller's own first, then the org's, then built-in
+  app.get("/api/medical/quick-phrases", requireAuth(), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      res.json(await loadQuickPhrases(authContext.impersonatedOrgId || authContext.orgid, authContext.empid));
+    } catch (error) {
+      console.error('Get quick phrases error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Text library editing - ?scope=personal (the caller's own) or org (shared, org admins edit)
+  app.get("/api/medical/library", requireAuth('create_notes'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+
+      const empid = req.query.scope === 'org' ? null : authContext.empid;
+      const [abbreviations, phrases] = await Promise.all([
+        storage.getEditorAbbreviations(effectiveOrgId, empid),
+        storage.getEditorQuickPhrases(effectiveOrgId, empid)
+      ]);
+      res.json({ abbreviations, phrases });
+    } catch (error) {
+      console.error('Get text library error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/medical/library/abbreviations", requireAuth('create_notes'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+      const owner = textLibraryOwner(authContext, req.body.scope);
+      if ('error' in owner) {
+        return res.status(owner.status).json({ error: owner.error });
+      }
+
+      const parsed = insertEditorAbbreviationSchema.safeParse({
+        abbreviation: req.body.abbreviation,
+        expansion: req.body.expansion,
+        orgid: effectiveOrgId,
+        empid: owner.empid,
+        created_by_empid: authContext.empid
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "An abbreviation (one word, up to 30 characters) and its expansion are required" });
+      }
+
+      const existing = await storage.getEditorAbbreviations(effectiveOrgId, owner.empid);
+      if (existing.some(a => a.abbreviation === parsed.data.abbreviation)) {
+        return res.status(409).json({ error: `"${parsed.data.abbreviation}" is already in this library` });
+      }
+
+      const abbreviation = await storage.createEditorAbbreviation(parsed.data);
+      res.status(201).json(abbreviation);
+    } catch (error) {
+      console.error('Create abbreviation error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/medical/library/abbreviations/:abbreviationId", requireAuth('create_notes'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+      const owner = textLibraryOwner(authContext, req.query.scope);
+      if ('error' in owner) {
+        return res.status(owner.status).json({ error: owner.error });
+      }
+
+      const deleted = await storage.deleteEditorAbbreviation(effectiveOrgId, owner.empid, req.params.abbreviationId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Abbreviation not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete abbreviation error:', error);
+      res.status(500).json({ error: "Internal server error" });
     }
-    const emptyTemplate = getEmptyTemplate(templateId as NoteTemplate);
-    res.json({ template: emptyTemplate });
   });
 
-  // Get medical abbreviations
-  app.get("/api/medical/abbreviations", (req, res) => {
-    res.json(MEDICAL_ABBREVIATIONS);
+  app.post("/api/medical/library/phrases", requireAuth('create_notes'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+      const owner = textLibraryOwner(authContext, req.body.scope);
+      if ('error' in owner) {
+        return res.status(owner.status).json({ error: owner.error });
+      }
+
+      const parsed = insertEditorQuickPhraseSchema.safeParse({
+        label: req.body.label,
+        text: req.body.text,
+        orgid: effectiveOrgId,
+        empid: owner.empid,
+        created_by_empid: authContext.empid
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "A label (up to 100 characters) and the phrase text are required" });
+      }
+
+      const existing = await storage.getEditorQuickPhrases(effectiveOrgId, owner.empid);
+      if (existing.some(p => p.label.toLowerCase() === parsed.data.label.toLowerCase())) {
+        return res.status(409).json({ error: `There is already a phrase labelled "${parsed.data.label}" in this library` });
+      }
+
+      const phrase = await storage.createEditorQuickPhrase(parsed.data);
+      res.status(201).json(phrase);
+    } catch (error) {
+      console.error('Create quick phrase error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
   });
 
-  // Get quick insert phrases
-  app.get("/api/medical/quick-phrases", (req, res) => {
-    res.json(QUICK_INSERT_PHRASES);
+  app.delete("/api/medical/library/phrases/:phraseId", requireAuth('create_notes'), async (req, res) => {
+    try {
+      const authContext = req.authContext!;
+      const effectiveOrgId = authContext.impersonatedOrgId || authContext.orgid;
+      if (!effectiveOrgId) {
+        return res.status(400).json({ error: "No organization context" });
+      }
+      const owner = textLibraryOwner(authContext, req.query.scope);
+      if ('error' in owner) {
+        return res.status(owner.status).json({ error: owner.error });
+      }
+
+      const deleted = await storage.deleteEditorQuickPhrase(effectiveOrgId, owner.empid, req.params.phraseId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Quick phrase not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete quick phrase error:', error);
+      res.status(500).json({ error: "Internal server error" });
+    }
   });
 
   // AI-powered auto-format transcription to template
-  app.post("/api/medical/format", async (req, res) => {
+  app.post("/api/medical/format", requireAuth('create_notes'), async (req, res) => {
     try {
-      const { transcription, template } = req.body;
+      const authContext = req.authContext!;
+      const { transcription, template, segments, speaker_roles, translate_to_english, language, visitid } = req.body;
       
-      if (!transcription || !template) {
+      if (!transcription || typeof template !== 'string' || !template) {
         return res.status(400).json({ error: "Transcription and template are required" });
       }
       
-      if (!NOTE_TEMPLATES[template as NoteTemplate]) {
+      const orgid = authContext.impersonatedOrgId || authContext.orgid;
+      const actor = { orgid, empid: authContext.empid };
+      const templateDef = await findNoteTemplate(orgid, template);
+      if (!templateDef) {
         return res.status(400).json({ error: "Invalid template type" });
       }
+      if (!await withinUsageQuota(orgid, 'llm_tokens')) {
+        return res.status(429).json({ error: USAGE_LIMIT_MESSAGES.llm_tokens });
+      }
       
-      console.log(`Formatting transcription to ${template} template...`);
-      const formattedNote = await formatTranscriptionToTemplate(transcription, template as NoteTemplate);
-      console.log(`Formatting complete: ${formattedNote.length} characters`);
+      // Speaker turns from a diarized recording are optional context for the formatter
+      let conversation;
+      if (segments !== undefined) {
+        const parsedSegments = z.array(transcriptSegmentSchema).safeParse(segments);
+        const parsedRoles = speakerRolesSchema.safeParse(speaker_roles ?? {});
+        if (!parsedSegments.success || !parsedRoles.success) {
+          return res.status(400).json({ error: "Invalid transcript segments or speaker roles" });
+        }
+        conversation = { segments: parsedSegments.data, speakerRoles: parsedRoles.data };
+      }
+      
+      // The note's visit tells de-identification whose details to look for
+      let patient;
+      if (visitid !== undefined) {
+        const visit = typeof visitid === 'string' ? await storage.getVisit(visitid) : undefined;
+        patient = visit ? await storage.getPatient(visit.patientid) : undefined;
+        if (!patient) {
+          return res.status(404).json({ error: "Visit not found" });
+        }
+        if (patient.orgid !== orgid) {
+          return res.status(403).json({ error: "Access denied: patient not in your organization" });
+        }
+      }
+      
+      // Where the org requires it, the model only sees placeholders for patient details;
+      // everything it sends back is re-identified before it is used
+      const deidentifier = await loadDeidentifier(orgid, patient);
+      if (deidentifier && !patient) {
+        // Without the patient only pattern-shaped details (phone numbers, dates) would be caught, not their name or MRN
+        return res.status(400).json({ error: "Your organization withholds patient details from AI, so formatting needs the note's visit" });
+      }
+      const scrub = (text: string) => deidentifier ? deidentifier.scrub(text) : text;
+      const reidentify = (text: string) => deidentifier ? deidentifier.reidentify(text) : text;
+      
+      // Dictation in another language is translated first so the note is written in English
+      let sourceText = transcription;
+      if (translate_to_english === true) {
+        const sourceLanguage = isLanguageCode(language) || isTranscriptionLanguage(language) ? language : null;
+        console.log(`Translating transcription from ${sourceLanguage || 'unknown language'} to English...`);
+        const [translatedText, ...translatedSegments] = await translateToEnglish(
+          actor,
+          [transcription, ...(conversation?.segments.map(segment => segment.text) ?? [])].map(scrub),
+          sourceLanguage
+        );
+        sourceText = reidentify(translatedText);
+        if (conversation) {
+          // Word timings belong to the original language, so translated turns go without them
+          conversation = {
+            ...conversation,
+            segments: conversation.segments.map((segment, index) => ({ ...segment, text: reidentify(translatedSegments[index]), words: undefined }))
+          };
+        }
+      }
+      
+      console.log(`Formatting transcription to ${templateDef.name} template${conversation ? ` with ${conversation.segments.length} speaker segments` : ''}...`);
+      const formattedNote = reidentify(await formatTranscriptionToTemplate(
+        actor,
+        scrub(sourceText),
+        templateDef,
+        conversation && { ...conversation, segments: conversation.segments.map(segment => ({ ...segment, text: scrub(segment.text) })) }
+      ));
+      console.log(`Formatting complete: ${formattedNote.length} characters${deidentifier ? `, ${deidentifier.size} identifiers withheld from the model` : ''}`);
+      
+      // Flag what the formatted note says that the transcript (or conversation) doesn't
+      const groundingSource = conversation
+        ? `${sourceText}\n\n${conversation.segments.map(segment => segment.text).join('\n')}`
+        : sourceText;
+      const grounding = await checkNoteGrounding(actor, groundingSource, formattedNote, deidentifier);
+      console.log(`Grounding check: ${grounding.checked ? `${grounding.warnings.length} warnings` : 'model pass unavailable'}`);
       
-      res.json({ formattedNote });
+      res.json({ formattedNote, grounding });
     } catch (error) {
       console.error('Format transcription error:', error);
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to format transcription" });
@@ -2073,6 +3796,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  
+  // Live captions while recording (WebSocket); same permission as POST /api/transcribe
+  attachLiveTranscription(httpServer, (token) => {
+    const authContext = verifyAccessToken(token);
+    return authContext && hasPermission(authContext.role, 'create_notes') ? authContext : null;
+  });
+
+  // Background transcription of saved recordings
+  startTranscriptionWorker();
 
   return httpServer;
 }
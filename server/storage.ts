@@ -6,12 +6,79 @@ import {
   type VisitNote, type InsertVisitNote,
   type BackupLog, type InsertBackupLog,
   type VisitDocument, type InsertVisitDocument,
-  orgs, employees, patients, visits, visit_notes, backup_logs, visit_documents
+  type AuditEvent, type InsertAuditEvent, type AuditEventWithActor,
+  type VisitNoteRevision, type InsertVisitNoteRevision, type VisitNoteRevisionWithAuthor,
+  type VisitNoteAddendum, type InsertVisitNoteAddendum, type VisitNoteAddendumWithAuthor,
+  type InsertNoteCosignReview, type NoteCosignReviewWithReviewer, type CosignQueueItem,
+  type NoteTranscriptSegment, type InsertNoteTranscriptSegment,
+  type NoteSection, type PatientNoteSection,
+  type TranscriptionJob, type InsertTranscriptionJob,
+  type OrgVocabularyTerm, type InsertOrgVocabularyTerm,
+  type OrgTranscriptReplacement, type InsertOrgTranscriptReplacement,
+  type NoteTemplate, type InsertNoteTemplate,
+  type EditorAbbreviation, type InsertEditorAbbreviation,
+  type EditorQuickPhrase, type InsertEditorQuickPhrase,
+  type UsageRecord, type InsertUsageRecord, type UsageQuota, type InsertUsageQuota, type UsageSummaryRow, type UsageFeature,
+  type PatientSummary, type InsertPatientSummary,
+  type ClinicalRecordKind, type ClinicalRecordByKind, type ClinicalRecordFields, type ClinicalRecords,
+  type ClinicalRecordSource, type ClinicalReviewStatus, type ExtractedClinicalRecords,
+  CLINICAL_RECORD_KINDS,
+  orgs, employees, patients, visits, visit_notes, backup_logs, visit_documents, audit_events,
+  visit_note_revisions, visit_note_addenda, note_cosign_reviews, note_transcript_segments, transcription_jobs,
+  org_vocabulary_terms, org_transcript_replacements, note_templates, editor_abbreviations, editor_quick_phrases,
+  note_sections, usage_records, usage_quotas, patient_summaries, parseNoteSections,
+  patient_problems, patient_medications, patient_allergies, patient_vitals
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import bcrypt from "bcrypt";
-import { eq, desc, and, ilike, or, gte, lte, sql, inArray } from "drizzle-orm";
+import { eq, desc, and, ilike, or, gte, lte, lt, sql, inArray, isNull } from "drizzle-orm";
 import { db } from "./db";
+import { computeNoteContentHash, type NoteSigner } from "./note-signing";
+
+// Who made a note change and why; previous/new text are filled in by storage
+export type NoteRevisionInfo = Omit<InsertVisitNoteRevision, 'noteid' | 'previous_text' | 'new_text'>;
+
+// A doctor's edit to a clinical record: any of its clinical fields, and/or confirming it
+export type ClinicalRecordUpdate<K extends ClinicalRecordKind> = Partial<ClinicalRecordFields[K]> & {
+  review_status?: ClinicalReviewStatus;
+  reviewed_by_empid?: string | null;
+  reviewed_at?: Date | null;
+};
+
+// What a finished transcription job hands back to storage
+export interface TranscriptionJobResult {
+  text: string;
+  segments: Omit<InsertNoteTranscriptSegment, 'noteid'>[];
+  language: string | null; // Detected language, stored on the note even when its text is kept
+}
+
+// Why a stale job that had no attempts left was failed instead of taken over
+const STALE_JOB_ERROR = 'Worker stopped responding on the last attempt';
+
+// Placeholders the old synchronous transcription wrote into the note on failure
+const TRANSCRIPTION_PLACEHOLDER = /^\[(Transcription failed|Automatic transcription unavailable)/;
+
+// A transcript may fill an empty note or replace earlier machine text nobody has edited,
+// but never overwrites what a clinician wrote, and never touches a signed note
+function acceptsTranscriptionText(note: VisitNote): boolean {
+  if (note.signed_at) return false;
+  const text = note.transcription_text?.trim();
+  if (!text) return true;
+  if (note.is_transcription_edited) return false;
+  return !!note.ai_transcribed || TRANSCRIPTION_PLACEHOLDER.test(text);
+}
+
+// Filters for querying the audit trail; orgid undefined means all orgs (super admin)
+export interface AuditEventFilters {
+  orgid?: string;
+  actorEmpid?: string;
+  patientid?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
 
 export interface IStorage {
   // Organization operations
@@ -50,6 +117,72 @@ export interface IStorage {
   getVisitNote(noteid: string): Promise<VisitNote | undefined>;
   createVisitNote(note: InsertVisitNote): Promise<VisitNote>;
   updateVisitNote(noteid: string, updates: Partial<InsertVisitNote>): Promise<VisitNote | undefined>;
+  // Applies updates and, if transcription_text changes, appends a revision atomically
+  updateVisitNoteWithRevision(noteid: string, updates: Partial<InsertVisitNote>, revision: NoteRevisionInfo): Promise<VisitNote | undefined>;
+  getVisitNoteRevisions(noteid: string): Promise<VisitNoteRevisionWithAuthor[]>;
+  getVisitNoteRevision(revisionId: string): Promise<VisitNoteRevision | undefined>;
+  // Locks the note with the signer's attestation; returns the note unchanged if it was already signed
+  signVisitNote(noteid: string, signer: NoteSigner): Promise<VisitNote | undefined>;
+  
+  // Transcript segment operations - ordered by segment_index
+  getNoteTranscriptSegments(noteid: string): Promise<NoteTranscriptSegment[]>;
+  replaceNoteTranscriptSegments(noteid: string, segments: Omit<InsertNoteTranscriptSegment, 'noteid'>[]): Promise<NoteTranscriptSegment[]>;
+  
+  // Note section operations - sections are derived from transcription_text and rewritten whenever the
+  // note methods above change it; ordered by section_index within a note
+  getNoteSections(noteids: string[]): Promise<NoteSection[]>;
+  // The patient's sections, newest visit first; sectionKey narrows to one kind (e.g. "assessment")
+  getPatientNoteSections(patientid: string, sectionKey?: string): Promise<PatientNoteSection[]>;
+  // Notes with text but no stored sections, i.e. written before sections were stored
+  getPatientNotesWithoutSections(patientid: string): Promise<VisitNote[]>;
+  replaceNoteSections(noteid: string, text: string | null): Promise<NoteSection[]>;
+  
+  // Transcription job operations - run by the background worker
+  createTranscriptionJob(job: InsertTranscriptionJob): Promise<TranscriptionJob>;
+  // Newest job for each of the given notes
+  getLatestTranscriptionJobs(noteids: string[]): Promise<TranscriptionJob[]>;
+  // Marks the next due queued job running and returns it; running jobs started before
+  // staleBefore are taken over too, since their worker must have died, unless they have
+  // used up max_attempts, in which case they're marked failed
+  claimNextTranscriptionJob(staleBefore: Date): Promise<TranscriptionJob | undefined>;
+  updateTranscriptionJob(jobId: string, updates: Partial<InsertTranscriptionJob>): Promise<TranscriptionJob | undefined>;
+  // Marks the job done; the text goes into the note only if acceptsTranscriptionText allows, and a signed note keeps its segments and language
+  completeTranscriptionJob(jobId: string, result: TranscriptionJobResult): Promise<TranscriptionJob | undefined>;
+  
+  // Org vocabulary operations - keyword boosts and transcript replacements, alphabetical
+  getOrgVocabularyTerms(orgid: string): Promise<OrgVocabularyTerm[]>;
+  createOrgVocabularyTerm(term: InsertOrgVocabularyTerm): Promise<OrgVocabularyTerm>;
+  deleteOrgVocabularyTerm(orgid: string, termId: string): Promise<boolean>;
+  getOrgTranscriptReplacements(orgid: string): Promise<OrgTranscriptReplacement[]>;
+  createOrgTranscriptReplacement(replacement: InsertOrgTranscriptReplacement): Promise<OrgTranscriptReplacement>;
+  deleteOrgTranscriptReplacement(orgid: string, replacementId: string): Promise<boolean>;
+  
+  // Note template operations - alphabetical; making a template the default clears the org's previous default
+  getNoteTemplates(orgid: string): Promise<NoteTemplate[]>;
+  getNoteTemplate(orgid: string, templateId: string): Promise<NoteTemplate | undefined>;
+  createNoteTemplate(template: InsertNoteTemplate): Promise<NoteTemplate>;
+  updateNoteTemplate(orgid: string, templateId: string, updates: Partial<InsertNoteTemplate>): Promise<NoteTemplate | undefined>;
+  deleteNoteTemplate(orgid: string, templateId: string): Promise<boolean>;
+  
+  // Editor text library - empid null is the org's shared library, otherwise one employee's own
+  getEditorAbbreviations(orgid: string, empid: string | null): Promise<EditorAbbreviation[]>;
+  createEditorAbbreviation(abbreviation: InsertEditorAbbreviation): Promise<EditorAbbreviation>;
+  deleteEditorAbbreviation(orgid: string, empid: string | null, abbreviationId: string): Promise<boolean>;
+  getEditorQuickPhrases(orgid: string, empid: string | null): Promise<EditorQuickPhrase[]>;
+  createEditorQuickPhrase(phrase: InsertEditorQuickPhrase): Promise<EditorQuickPhrase>;
+  deleteEditorQuickPhrase(orgid: string, empid: string | null, phraseId: string): Promise<boolean>;
+  
+  // Visit Note Addendum operations
+  createVisitNoteAddendum(addendum: InsertVisitNoteAddendum): Promise<VisitNoteAddendum>;
+  getVisitNoteAddendum(addendumId: string): Promise<VisitNoteAddendum | undefined>;
+  // Addenda for the given notes, oldest first, without audio data
+  getVisitNoteAddenda(noteids: string[]): Promise<VisitNoteAddendumWithAuthor[]>;
+  
+  // Co-signature operations
+  getCosignQueue(cosignerEmpid: string): Promise<CosignQueueItem[]>;
+  // Records an approve/return decision; a return also clears the signature so the author can revise and re-sign
+  reviewCosign(noteid: string, review: Omit<InsertNoteCosignReview, 'noteid' | 'content_hash'>): Promise<VisitNote | undefined>;
+  getCosignReviews(noteids: string[]): Promise<NoteCosignReviewWithReviewer[]>;
   
   // Export operations
   getPatientNotesByDateRange(patientid: string, startDate: string, endDate: string): Promise<{
@@ -88,6 +221,33 @@ export interface IStorage {
   getVisitDocument(documentId: string): Promise<VisitDocument | undefined>;
   createVisitDocument(doc: InsertVisitDocument): Promise<VisitDocument>;
   deleteVisitDocument(documentId: string): Promise<boolean>;
+  
+  // Audit log operations
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filters: AuditEventFilters): Promise<AuditEventWithActor[]>;
+  
+  // Usage ledger and monthly quotas
+  createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord>;
+  // Ledger totals per org, month and feature from since on; orgid undefined means all orgs (super admin)
+  getUsageSummary(filters: { orgid?: string; since: Date }): Promise<UsageSummaryRow[]>;
+  // One org's quotas, or every org's when orgid is undefined
+  getUsageQuotas(orgid?: string): Promise<UsageQuota[]>;
+  // Creates or replaces the org's quota for the metric
+  setUsageQuota(quota: InsertUsageQuota): Promise<UsageQuota>;
+  
+  // Cached patient summaries - the note methods above drop a patient's summary whenever
+  // one of their notes' text changes or an addendum is added
+  getPatientSummary(patientid: string): Promise<PatientSummary | undefined>;
+  // Creates or replaces the patient's summary
+  savePatientSummary(summary: InsertPatientSummary): Promise<PatientSummary>;
+  
+  // Clinical records extracted from notes - a patient's, oldest visit first
+  getClinicalRecords(patientid: string): Promise<ClinicalRecords>;
+  // Swaps the note's pending records for newly extracted ones in one step; confirmed records stay
+  replacePendingClinicalRecords(source: ClinicalRecordSource, records: ExtractedClinicalRecords): Promise<void>;
+  getClinicalRecord<K extends ClinicalRecordKind>(kind: K, recordId: string): Promise<ClinicalRecordByKind[K] | undefined>;
+  updateClinicalRecord<K extends ClinicalRecordKind>(kind: K, recordId: string, updates: ClinicalRecordUpdate<K>): Promise<ClinicalRecordByKind[K] | undefined>;
+  deleteClinicalRecord(kind: ClinicalRecordKind, recordId: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
@@ -118,6 +278,11 @@ export class MemStorage implements IStorage {
       address: "123 Medical Plaza, Healthcare City, HC 12345",
       phone: "(555) 100-2000",
       mrn_sequence_current: 100001,
+      transcription_provider: null,
+      default_language: null,
+      llm_provider: null,
+      llm_models: null,
+      require_deidentification: false,
       is_active: true,
       created_at: new Date()
     };
@@ -132,6 +297,11 @@ export class MemStorage implements IStorage {
       address: "456 Wellness Ave, Healthtown, HT 67890",
       phone: "(555) 200-3000",
       mrn_sequence_current: 100001,
+      transcription_provider: null,
+      default_language: null,
+      llm_provider: null,
+      llm_models: null,
+      require_deidentification: false,
       is_active: true,
       created_at: new Date()
     };
@@ -150,6 +320,8 @@ export class MemStorage implements IStorage {
       title: "Primary Care Physician",
       role: "doctor",
       secondary_role: null,
+      cosigner_empid: null,
+      preferred_language: null,
       is_active: true,
       created_at: new Date()
     };
@@ -165,6 +337,8 @@ export class MemStorage implements IStorage {
       title: "Cardiologist",
       role: "doctor",
       secondary_role: null,
+      cosigner_empid: null,
+      preferred_language: null,
       is_active: true,
       created_at: new Date()
     };
@@ -242,17 +416,30 @@ export class MemStorage implements IStorage {
       noteid: note1Id,
       visitid: visit1Id,
       audio_file: null,
+      audio_storage_key: null,
+      audio_size_bytes: null,
+      audio_sha256: null,
       audio_filename: "note_20240910_143022.wav",
       audio_mimetype: null,
       audio_duration_seconds: 180,
       transcription_text: "Patient presents for routine annual physical. Blood pressure 120/80, within normal limits. Patient reports feeling well with no acute concerns. Discussed importance of maintaining healthy diet and exercise routine. No changes to current medications recommended.",
       is_transcription_edited: false,
       ai_transcribed: true,
+      transcription_language: null,
+      detected_language: null,
       session_id: null,
       device_type: null,
       browser_name: null,
       ip_address: null,
       user_agent: null,
+      signed_at: null,
+      signed_by_empid: null,
+      signature_name: null,
+      signature_title: null,
+      signature_content_hash: null,
+      cosign_status: null,
+      cosigner_empid: null,
+      speaker_roles: null,
       created_at: new Date("2024-09-10T14:30:22Z"),
       updated_at: new Date("2024-09-10T14:30:22Z")
     };
@@ -262,17 +449,30 @@ export class MemStorage implements IStorage {
       noteid: note2Id, 
       visitid: visit2Id,
       audio_file: null,
+      audio_storage_key: null,
+      audio_size_bytes: null,
+      audio_sha256: null,
       audio_filename: "note_20240815_100530.wav",
       audio_mimetype: null,
       audio_duration_seconds: 95,
       transcription_text: "Follow-up visit for blood pressure management. Current medication lisinopril 10mg daily showing good response. Patient reports no side effects. Blood pressure today 125/82, improved from last visit. Continue current regimen.",
       is_transcription_edited: true,
       ai_transcribed: false,
+      transcription_language: null,
+      detected_language: null,
       session_id: null,
       device_type: null,
       browser_name: null,
       ip_address: null,
       user_agent: null,
+      signed_at: null,
+      signed_by_empid: null,
+      signature_name: null,
+      signature_title: null,
+      signature_content_hash: null,
+      cosign_status: null,
+      cosigner_empid: null,
+      speaker_roles: null,
       created_at: new Date("2024-08-15T10:05:30Z"),
       updated_at: new Date("2024-08-15T10:05:30Z")
     };
@@ -315,6 +515,11 @@ export class MemStorage implements IStorage {
       address: insertOrg.address || null,
       phone: insertOrg.phone || null,
       mrn_sequence_current: insertOrg.mrn_sequence_current ?? 100001,
+      transcription_provider: insertOrg.transcription_provider ?? null,
+      default_language: insertOrg.default_language ?? null,
+      llm_provider: insertOrg.llm_provider ?? null,
+      llm_models: insertOrg.llm_models ?? null,
+      require_deidentification: insertOrg.require_deidentification ?? false,
       is_active: insertOrg.is_active ?? true,
       created_at: new Date() 
     };
@@ -353,6 +558,8 @@ export class MemStorage implements IStorage {
       title: insertEmployee.title || null,
       role: insertEmployee.role ?? 'doctor',
       secondary_role: insertEmployee.secondary_role ?? null,
+      cosigner_empid: insertEmployee.cosigner_empid ?? null,
+      preferred_language: insertEmployee.preferred_language ?? null,
       is_active: insertEmployee.is_active ?? true,
       created_at: new Date() 
     };
@@ -431,6 +638,14 @@ export class MemStorage implements IStorage {
     }
     
     // Delete the patient
+    this.patientSummaries.delete(patientid);
+    const otherPatients = <K extends ClinicalRecordKind>(kind: K) => this.clinicalRecords[kind].filter(record => record.patientid !== patientid);
+    this.clinicalRecords = {
+      problem: otherPatients('problem'),
+      medication: otherPatients('medication'),
+      allergy: otherPatients('allergy'),
+      vital: otherPatients('vital')
+    };
     this.patients.delete(patientid);
     return true;
   }
@@ -488,21 +703,36 @@ export class MemStorage implements IStorage {
       ...insertNote, 
       noteid, 
       audio_file: insertNote.audio_file || null,
+      audio_storage_key: insertNote.audio_storage_key || null,
+      audio_size_bytes: insertNote.audio_size_bytes ?? null,
+      audio_sha256: insertNote.audio_sha256 || null,
       audio_filename: insertNote.audio_filename || null,
       audio_mimetype: insertNote.audio_mimetype || null,
       audio_duration_seconds: insertNote.audio_duration_seconds || null,
       transcription_text: insertNote.transcription_text || null,
       is_transcription_edited: insertNote.is_transcription_edited ?? false,
       ai_transcribed: insertNote.ai_transcribed ?? false,
+      transcription_language: insertNote.transcription_language || null,
+      detected_language: insertNote.detected_language || null,
       session_id: insertNote.session_id || null,
       device_type: insertNote.device_type || null,
       browser_name: insertNote.browser_name || null,
       ip_address: insertNote.ip_address || null,
       user_agent: insertNote.user_agent || null,
+      signed_at: null,
+      signed_by_empid: null,
+      signature_name: null,
+      signature_title: null,
+      signature_content_hash: null,
+      cosign_status: null,
+      cosigner_empid: null,
+      speaker_roles: insertNote.speaker_roles ?? null,
       created_at: new Date(), 
       updated_at: new Date() 
     };
     this.visitNotes.set(noteid, note);
+    await this.replaceNoteSections(noteid, note.transcription_text);
+    this.invalidatePatientSummary(noteid);
     return note;
   }
 
@@ -516,9 +746,478 @@ export class MemStorage implements IStorage {
       updated_at: new Date() 
     };
     this.visitNotes.set(noteid, updatedNote);
+    if (updates.transcription_text !== undefined && updates.transcription_text !== note.transcription_text) {
+      await this.replaceNoteSections(noteid, updatedNote.transcription_text);
+      this.invalidatePatientSummary(noteid);
+    }
     return updatedNote;
   }
 
+  private noteRevisions: VisitNoteRevision[] = [];
+
+  async updateVisitNoteWithRevision(noteid: string, updates: Partial<InsertVisitNote>, revision: NoteRevisionInfo): Promise<VisitNote | undefined> {
+    const note = this.visitNotes.get(noteid);
+    if (!note) return undefined;
+    if (note.signed_at) throw new Error("Note is signed and can no longer be edited");
+    
+    if (updates.transcription_text !== undefined && updates.transcription_text !== note.transcription_text) {
+      const revisionNumber = this.noteRevisions.filter(r => r.noteid === noteid).length + 1;
+      this.noteRevisions.push({
+        ...revision,
+        revision_id: randomUUID(),
+        noteid,
+        revision_number: revisionNumber,
+        previous_text: note.transcription_text,
+        new_text: updates.transcription_text ?? null,
+        reason: revision.reason ?? null,
+        restored_from_revision_id: revision.restored_from_revision_id ?? null,
+        created_at: new Date()
+      });
+    }
+    return this.updateVisitNote(noteid, updates);
+  }
+
+  async getVisitNoteRevisions(noteid: string): Promise<VisitNoteRevisionWithAuthor[]> {
+    return this.noteRevisions
+      .filter(r => r.noteid === noteid)
+      .sort((a, b) => b.revision_number - a.revision_number)
+      .map(r => {
+        const author = this.employees.get(r.author_empid);
+        return { ...r, author_name: author ? `${author.first_name} ${author.last_name}` : null };
+      });
+  }
+
+  async getVisitNoteRevision(revisionId: string): Promise<VisitNoteRevision | undefined> {
+    return this.noteRevisions.find(r => r.revision_id === revisionId);
+  }
+
+  async signVisitNote(noteid: string, signer: NoteSigner): Promise<VisitNote | undefined> {
+    const note = this.visitNotes.get(noteid);
+    if (!note || note.signed_at) return note;
+    
+    const signedNote: VisitNote = {
+      ...note,
+      signed_at: new Date(),
+      signed_by_empid: signer.empid,
+      signature_name: signer.name,
+      signature_title: signer.title,
+      signature_content_hash: computeNoteContentHash(note.transcription_text),
+      cosign_status: signer.cosigner_empid ? 'pending' : null,
+      cosigner_empid: signer.cosigner_empid,
+      updated_at: new Date()
+    };
+    this.visitNotes.set(noteid, signedNote);
+    return signedNote;
+  }
+
+  private transcriptSegments: NoteTranscriptSegment[] = [];
+
+  async getNoteTranscriptSegments(noteid: string): Promise<NoteTranscriptSegment[]> {
+    return this.transcriptSegments
+      .filter(s => s.noteid === noteid)
+      .sort((a, b) => a.segment_index - b.segment_index);
+  }
+
+  async replaceNoteTranscriptSegments(noteid: string, segments: Omit<InsertNoteTranscriptSegment, 'noteid'>[]): Promise<NoteTranscriptSegment[]> {
+    this.transcriptSegments = this.transcriptSegments.filter(s => s.noteid !== noteid);
+    this.transcriptSegments.push(...segments.map(segment => ({
+      ...segment,
+      segment_id: randomUUID(),
+      noteid,
+      speaker: segment.speaker ?? null,
+      words: segment.words ?? null
+    })));
+    return this.getNoteTranscriptSegments(noteid);
+  }
+
+  private noteSections: NoteSection[] = [];
+
+  async getNoteSections(noteids: string[]): Promise<NoteSection[]> {
+    return this.noteSections
+      .filter(s => noteids.includes(s.noteid))
+      .sort((a, b) => a.noteid.localeCompare(b.noteid) || a.section_index - b.section_index);
+  }
+
+  async getPatientNoteSections(patientid: string, sectionKey?: string): Promise<PatientNoteSection[]> {
+    const rows: PatientNoteSection[] = [];
+    for (const section of this.noteSections) {
+      if (sectionKey && section.section_key !== sectionKey) continue;
+      const note = this.visitNotes.get(section.noteid);
+      const visit = note && this.visits.get(note.visitid);
+      if (!note || !visit || visit.patientid !== patientid) continue;
+      rows.push({ ...section, visitid: visit.visitid, visit_date: visit.visit_date, note_created_at: note.created_at });
+    }
+    return rows.sort((a, b) =>
+      b.visit_date.localeCompare(a.visit_date) ||
+      new Date(b.note_created_at || 0).getTime() - new Date(a.note_created_at || 0).getTime() ||
+      a.section_index - b.section_index
+    );
+  }
+
+  async getPatientNotesWithoutSections(patientid: string): Promise<VisitNote[]> {
+    return Array.from(this.visitNotes.values()).filter(note =>
+      note.transcription_text?.trim() &&
+      this.visits.get(note.visitid)?.patientid === patientid &&
+      !this.noteSections.some(s => s.noteid === note.noteid)
+    );
+  }
+
+  async replaceNoteSections(noteid: string, text: string | null): Promise<NoteSection[]> {
+    this.noteSections = this.noteSections.filter(s => s.noteid !== noteid);
+    this.noteSections.push(...parseNoteSections(text).map((section, index) => ({
+      ...section,
+      section_id: randomUUID(),
+      noteid,
+      section_index: index
+    })));
+    return this.getNoteSections([noteid]);
+  }
+
+  private transcriptionJobs: TranscriptionJob[] = [];
+
+  async createTranscriptionJob(job: InsertTranscriptionJob): Promise<TranscriptionJob> {
+    const created: TranscriptionJob = {
+      ...job,
+      job_id: randomUUID(),
+      status: job.status ?? 'queued',
+      attempts: job.attempts ?? 0,
+      max_attempts: job.max_attempts ?? 5,
+      run_after: job.run_after ?? new Date(),
+      last_error: job.last_error ?? null,
+      text_applied: job.text_applied ?? null,
+      started_at: job.started_at ?? null,
+      completed_at: job.completed_at ?? null,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    this.transcriptionJobs.push(created);
+    return created;
+  }
+
+  async getLatestTranscriptionJobs(noteids: string[]): Promise<TranscriptionJob[]> {
+    const latest = new Map<string, TranscriptionJob>();
+    // Jobs are appended in creation order, so the last one seen per note wins
+    this.transcriptionJobs
+      .filter(job => noteids.includes(job.noteid))
+      .forEach(job => latest.set(job.noteid, job));
+    return Array.from(latest.values());
+  }
+
+  async claimNextTranscriptionJob(staleBefore: Date): Promise<TranscriptionJob | undefined> {
+    const now = new Date();
+    const isStale = (j: TranscriptionJob) => j.status === 'running' && j.started_at !== null && j.started_at < staleBefore;
+    for (const j of this.transcriptionJobs) {
+      if (isStale(j) && j.attempts >= j.max_attempts) {
+        await this.updateTranscriptionJob(j.job_id, { status: 'failed', last_error: STALE_JOB_ERROR, completed_at: now });
+      }
+    }
+    const job = this.transcriptionJobs.find(j =>
+      (j.status === 'queued' && j.run_after <= now) ||
+      (isStale(j) && j.attempts < j.max_attempts)
+    );
+    if (!job) return undefined;
+    return this.updateTranscriptionJob(job.job_id, { status: 'running', attempts: job.attempts + 1, started_at: now });
+  }
+
+  async updateTranscriptionJob(jobId: string, updates: Partial<InsertTranscriptionJob>): Promise<TranscriptionJob | undefined> {
+    const index = this.transcriptionJobs.findIndex(j => j.job_id === jobId);
+    if (index === -1) return undefined;
+    const updated: TranscriptionJob = { ...this.transcriptionJobs[index], ...updates, updated_at: new Date() };
+    this.transcriptionJobs[index] = updated;
+    return updated;
+  }
+
+  async completeTranscriptionJob(jobId: string, result: TranscriptionJobResult): Promise<TranscriptionJob | undefined> {
+    const job = this.transcriptionJobs.find(j => j.job_id === jobId);
+    const note = job && this.visitNotes.get(job.noteid);
+    if (!job || !note) return undefined;
+
+    const textApplied = acceptsTranscriptionText(note);
+    if (textApplied) {
+      await this.updateVisitNoteWithRevision(note.noteid, {
+        transcription_text: result.text,
+        ai_transcribed: true,
+        is_transcription_edited: false
+      }, { author_empid: job.requested_by_empid, reason: 'Automatic transcription' });
+    }
+    // A signed note's transcript is part of the signed record, so it stays as it was
+    if (!note.signed_at) {
+      const current = this.visitNotes.get(note.noteid)!;
+      this.visitNotes.set(note.noteid, { ...current, detected_language: result.language });
+      await this.replaceNoteTranscriptSegments(note.noteid, result.segments);
+    }
+    return this.updateTranscriptionJob(jobId, {
+      status: 'done',
+      text_applied: textApplied,
+      last_error: null,
+      completed_at: new Date()
+    });
+  }
+
+  private vocabularyTerms: OrgVocabularyTerm[] = [];
+  private transcriptReplacements: OrgTranscriptReplacement[] = [];
+
+  async getOrgVocabularyTerms(orgid: string): Promise<OrgVocabularyTerm[]> {
+    return this.vocabularyTerms
+      .filter(t => t.orgid === orgid)
+      .sort((a, b) => a.term.localeCompare(b.term));
+  }
+
+  async createOrgVocabularyTerm(term: InsertOrgVocabularyTerm): Promise<OrgVocabularyTerm> {
+    const created: OrgVocabularyTerm = {
+      term_id: randomUUID(),
+      orgid: term.orgid,
+      term: term.term,
+      category: term.category ?? 'other',
+      boost: term.boost ?? 2,
+      created_by_empid: term.created_by_empid ?? null,
+      created_at: new Date()
+    };
+    this.vocabularyTerms.push(created);
+    return created;
+  }
+
+  async deleteOrgVocabularyTerm(orgid: string, termId: string): Promise<boolean> {
+    const before = this.vocabularyTerms.length;
+    this.vocabularyTerms = this.vocabularyTerms.filter(t => !(t.orgid === orgid && t.term_id === termId));
+    return this.vocabularyTerms.length < before;
+  }
+
+  async getOrgTranscriptReplacements(orgid: string): Promise<OrgTranscriptReplacement[]> {
+    return this.transcriptReplacements
+      .filter(r => r.orgid === orgid)
+      .sort((a, b) => a.find_text.localeCompare(b.find_text));
+  }
+
+  async createOrgTranscriptReplacement(replacement: InsertOrgTranscriptReplacement): Promise<OrgTranscriptReplacement> {
+    const created: OrgTranscriptReplacement = {
+      replacement_id: randomUUID(),
+      orgid: replacement.orgid,
+      find_text: replacement.find_text,
+      replace_text: replacement.replace_text,
+      case_sensitive: replacement.case_sensitive ?? false,
+      created_by_empid: replacement.created_by_empid ?? null,
+      created_at: new Date()
+    };
+    this.transcriptReplacements.push(created);
+    return created;
+  }
+
+  async deleteOrgTranscriptReplacement(orgid: string, replacementId: string): Promise<boolean> {
+    const before = this.transcriptReplacements.length;
+    this.transcriptReplacements = this.transcriptReplacements.filter(r => !(r.orgid === orgid && r.replacement_id === replacementId));
+    return this.transcriptReplacements.length < before;
+  }
+
+  private noteTemplates: NoteTemplate[] = [];
+
+  private clearDefaultNoteTemplate(orgid: string) {
+    this.noteTemplates = this.noteTemplates.map(t => t.orgid === orgid ? { ...t, is_default: false } : t);
+  }
+
+  async getNoteTemplates(orgid: string): Promise<NoteTemplate[]> {
+    return this.noteTemplates
+      .filter(t => t.orgid === orgid)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getNoteTemplate(orgid: string, templateId: string): Promise<NoteTemplate | undefined> {
+    return this.noteTemplates.find(t => t.orgid === orgid && t.template_id === templateId);
+  }
+
+  async createNoteTemplate(template: InsertNoteTemplate): Promise<NoteTemplate> {
+    if (template.is_default) this.clearDefaultNoteTemplate(template.orgid);
+    const created: NoteTemplate = {
+      template_id: randomUUID(),
+      orgid: template.orgid,
+      name: template.name,
+      description: template.description ?? null,
+      sections: template.sections,
+      is_default: template.is_default ?? false,
+      created_by_empid: template.created_by_empid ?? null,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    this.noteTemplates.push(created);
+    return created;
+  }
+
+  async updateNoteTemplate(orgid: string, templateId: string, updates: Partial<InsertNoteTemplate>): Promise<NoteTemplate | undefined> {
+    const existing = await this.getNoteTemplate(orgid, templateId);
+    if (!existing) return undefined;
+    if (updates.is_default) this.clearDefaultNoteTemplate(orgid);
+    const updated: NoteTemplate = { ...existing, ...updates, orgid, template_id: templateId, updated_at: new Date() };
+    this.noteTemplates = this.noteTemplates.map(t => t.template_id === templateId ? updated : t);
+    return updated;
+  }
+
+  async deleteNoteTemplate(orgid: string, templateId: string): Promise<boolean> {
+    const before = this.noteTemplates.length;
+    this.noteTemplates = this.noteTemplates.filter(t => !(t.orgid === orgid && t.template_id === templateId));
+    return this.noteTemplates.length < before;
+  }
+
+  private editorAbbreviations: EditorAbbreviation[] = [];
+  private editorQuickPhrases: EditorQuickPhrase[] = [];
+
+  async getEditorAbbreviations(orgid: string, empid: string | null): Promise<EditorAbbreviation[]> {
+    return this.editorAbbreviations
+      .filter(a => a.orgid === orgid && a.empid === empid)
+      .sort((a, b) => a.abbreviation.localeCompare(b.abbreviation));
+  }
+
+  async createEditorAbbreviation(abbreviation: InsertEditorAbbreviation): Promise<EditorAbbreviation> {
+    const created: EditorAbbreviation = {
+      abbreviation_id: randomUUID(),
+      orgid: abbreviation.orgid,
+      empid: abbreviation.empid ?? null,
+      abbreviation: abbreviation.abbreviation,
+      expansion: abbreviation.expansion,
+      created_by_empid: abbreviation.created_by_empid ?? null,
+      created_at: new Date()
+    };
+    this.editorAbbreviations.push(created);
+    return created;
+  }
+
+  async deleteEditorAbbreviation(orgid: string, empid: string | null, abbreviationId: string): Promise<boolean> {
+    const before = this.editorAbbreviations.length;
+    this.editorAbbreviations = this.editorAbbreviations.filter(a =>
+      !(a.orgid === orgid && a.empid === empid && a.abbreviation_id === abbreviationId)
+    );
+    return this.editorAbbreviations.length < before;
+  }
+
+  async getEditorQuickPhrases(orgid: string, empid: string | null): Promise<EditorQuickPhrase[]> {
+    return this.editorQuickPhrases
+      .filter(p => p.orgid === orgid && p.empid === empid)
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  async createEditorQuickPhrase(phrase: InsertEditorQuickPhrase): Promise<EditorQuickPhrase> {
+    const created: EditorQuickPhrase = {
+      phrase_id: randomUUID(),
+      orgid: phrase.orgid,
+      empid: phrase.empid ?? null,
+      label: phrase.label,
+      text: phrase.text,
+      created_by_empid: phrase.created_by_empid ?? null,
+      created_at: new Date()
+    };
+    this.editorQuickPhrases.push(created);
+    return created;
+  }
+
+  async deleteEditorQuickPhrase(orgid: string, empid: string | null, phraseId: string): Promise<boolean> {
+    const before = this.editorQuickPhrases.length;
+    this.editorQuickPhrases = this.editorQuickPhrases.filter(p =>
+      !(p.orgid === orgid && p.empid === empid && p.phrase_id === phraseId)
+    );
+    return this.editorQuickPhrases.length < before;
+  }
+
+  private noteAddenda: VisitNoteAddendum[] = [];
+
+  async createVisitNoteAddendum(addendum: InsertVisitNoteAddendum): Promise<VisitNoteAddendum> {
+    const created: VisitNoteAddendum = {
+      ...addendum,
+      addendum_id: randomUUID(),
+      audio_file: addendum.audio_file || null,
+      audio_storage_key: addendum.audio_storage_key || null,
+      audio_size_bytes: addendum.audio_size_bytes ?? null,
+      audio_sha256: addendum.audio_sha256 || null,
+      audio_filename: addendum.audio_filename || null,
+      audio_mimetype: addendum.audio_mimetype || null,
+      audio_duration_seconds: addendum.audio_duration_seconds || null,
+      ai_transcribed: addendum.ai_transcribed ?? false,
+      created_at: new Date()
+    };
+    this.noteAddenda.push(created);
+    this.invalidatePatientSummary(created.noteid);
+    return created;
+  }
+
+  async getVisitNoteAddendum(addendumId: string): Promise<VisitNoteAddendum | undefined> {
+    return this.noteAddenda.find(a => a.addendum_id === addendumId);
+  }
+
+  async getVisitNoteAddenda(noteids: string[]): Promise<VisitNoteAddendumWithAuthor[]> {
+    return this.noteAddenda
+      .filter(a => noteids.includes(a.noteid))
+      .sort((a, b) => (a.created_at?.getTime() || 0) - (b.created_at?.getTime() || 0))
+      .map(({ audio_file, audio_storage_key, audio_size_bytes, audio_sha256, ...a }) => {
+        const author = this.employees.get(a.author_empid);
+        return {
+          ...a,
+          author_name: author ? `${author.first_name} ${author.last_name}` : null,
+          author_title: author?.title ?? null
+        };
+      });
+  }
+
+  // Co-signature (MemStorage - simplified)
+  private cosignReviews: NoteCosignReviewWithReviewer[] = [];
+
+  async getCosignQueue(cosignerEmpid: string): Promise<CosignQueueItem[]> {
+    const items: CosignQueueItem[] = [];
+    for (const note of Array.from(this.visitNotes.values())) {
+      if (note.cosigner_empid !== cosignerEmpid || note.cosign_status !== 'pending') continue;
+      const visit = this.visits.get(note.visitid);
+      const patient = visit ? this.patients.get(visit.patientid) : undefined;
+      const author = note.signed_by_empid ? this.employees.get(note.signed_by_empid) : undefined;
+      if (!visit || !patient || !author) continue;
+      items.push({
+        noteid: note.noteid,
+        visitid: visit.visitid,
+        visit_date: visit.visit_date,
+        patientid: patient.patientid,
+        patient_name: `${patient.first_name} ${patient.last_name}`,
+        author_empid: author.empid,
+        author_name: `${author.first_name} ${author.last_name}`,
+        author_title: author.title,
+        transcription_text: note.transcription_text,
+        signed_at: note.signed_at
+      });
+    }
+    return items.sort((a, b) => (a.signed_at?.getTime() || 0) - (b.signed_at?.getTime() || 0));
+  }
+
+  async reviewCosign(noteid: string, review: Omit<InsertNoteCosignReview, 'noteid' | 'content_hash'>): Promise<VisitNote | undefined> {
+    const note = this.visitNotes.get(noteid);
+    if (!note || note.cosign_status !== 'pending') return undefined;
+    
+    const reviewer = this.employees.get(review.reviewer_empid);
+    this.cosignReviews.push({
+      ...review,
+      review_id: randomUUID(),
+      noteid,
+      comment: review.comment ?? null,
+      content_hash: note.signature_content_hash,
+      created_at: new Date(),
+      reviewer_name: reviewer ? `${reviewer.first_name} ${reviewer.last_name}` : null,
+      reviewer_title: reviewer?.title ?? null
+    });
+    
+    const updatedNote: VisitNote = review.action === 'approved'
+      ? { ...note, cosign_status: 'approved', updated_at: new Date() }
+      : {
+          ...note,
+          cosign_status: 'returned',
+          signed_at: null,
+          signed_by_empid: null,
+          signature_name: null,
+          signature_title: null,
+          signature_content_hash: null,
+          updated_at: new Date()
+        };
+    this.visitNotes.set(noteid, updatedNote);
+    return updatedNote;
+  }
+
+  async getCosignReviews(noteids: string[]): Promise<NoteCosignReviewWithReviewer[]> {
+    return this.cosignReviews.filter(r => noteids.includes(r.noteid));
+  }
+
   async getPatientNotesByDateRange(patientid: string, startDate: string, endDate: string): Promise<{
     patient: Patient;
     org: Org;
@@ -645,6 +1344,211 @@ export class MemStorage implements IStorage {
   async deleteVisitDocument(documentId: string): Promise<boolean> {
     return false;
   }
+  
+  // Audit log operations (MemStorage - simplified)
+  private auditEvents: AuditEvent[] = [];
+  
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const auditEvent: AuditEvent = {
+      ...event,
+      event_id: randomUUID(),
+      orgid: event.orgid ?? null,
+      actor_role: event.actor_role ?? null,
+      is_impersonated: event.is_impersonated ?? false,
+      resource_id: event.resource_id ?? null,
+      patientid: event.patientid ?? null,
+      ip_address: event.ip_address ?? null,
+      user_agent: event.user_agent ?? null,
+      details: (event.details as Record<string, unknown> | null | undefined) ?? null,
+      created_at: new Date()
+    };
+    this.auditEvents.push(auditEvent);
+    return auditEvent;
+  }
+  
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEventWithActor[]> {
+    const offset = filters.offset ?? 0;
+    const limit = filters.limit ?? 200;
+    return this.auditEvents
+      .filter(e => !filters.orgid || e.orgid === filters.orgid)
+      .filter(e => !filters.actorEmpid || e.actor_empid === filters.actorEmpid)
+      .filter(e => !filters.patientid || e.patientid === filters.patientid)
+      .filter(e => !filters.action || e.action === filters.action)
+      .filter(e => !filters.from || (e.created_at && e.created_at >= filters.from))
+      .filter(e => !filters.to || (e.created_at && e.created_at <= filters.to))
+      .sort((a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime())
+      .slice(offset, offset + limit)
+      .map(e => {
+        const actor = this.employees.get(e.actor_empid);
+        return { ...e, actor_name: actor ? `${actor.first_name} ${actor.last_name}` : null };
+      });
+  }
+  
+  // Usage ledger and quotas
+  private usageRecords: UsageRecord[] = [];
+  private usageQuotas: UsageQuota[] = [];
+  
+  async createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord> {
+    const usageRecord: UsageRecord = {
+      ...record,
+      usage_id: randomUUID(),
+      empid: record.empid ?? null,
+      model: record.model ?? null,
+      audio_seconds: record.audio_seconds ?? 0,
+      prompt_tokens: record.prompt_tokens ?? 0,
+      completion_tokens: record.completion_tokens ?? 0,
+      created_at: new Date()
+    };
+    this.usageRecords.push(usageRecord);
+    return usageRecord;
+  }
+  
+  async getUsageSummary(filters: { orgid?: string; since: Date }): Promise<UsageSummaryRow[]> {
+    const rows = new Map<string, UsageSummaryRow>();
+    for (const record of this.usageRecords) {
+      if ((filters.orgid && record.orgid !== filters.orgid) || !record.created_at || record.created_at < filters.since) continue;
+      const month = record.created_at.toISOString().slice(0, 7);
+      const key = `${record.orgid}|${month}|${record.feature}`;
+      const row = rows.get(key) ?? {
+        orgid: record.orgid, month, feature: record.feature as UsageFeature, audio_seconds: 0, prompt_tokens: 0, completion_tokens: 0
+      };
+      row.audio_seconds += record.audio_seconds;
+      row.prompt_tokens += record.prompt_tokens;
+      row.completion_tokens += record.completion_tokens;
+      rows.set(key, row);
+    }
+    return Array.from(rows.values()).sort((a, b) => a.month.localeCompare(b.month));
+  }
+  
+  async getUsageQuotas(orgid?: string): Promise<UsageQuota[]> {
+    return this.usageQuotas.filter(quota => !orgid || quota.orgid === orgid);
+  }
+  
+  async setUsageQuota(quota: InsertUsageQuota): Promise<UsageQuota> {
+    const saved: UsageQuota = {
+      ...quota,
+      quota_id: this.usageQuotas.find(q => q.orgid === quota.orgid && q.metric === quota.metric)?.quota_id ?? randomUUID(),
+      soft_limit: quota.soft_limit ?? null,
+      hard_limit: quota.hard_limit ?? null,
+      updated_by_empid: quota.updated_by_empid ?? null,
+      updated_at: new Date()
+    };
+    this.usageQuotas = [...this.usageQuotas.filter(q => q.quota_id !== saved.quota_id), saved];
+    return saved;
+  }
+
+  private patientSummaries = new Map<string, PatientSummary>();
+
+  private invalidatePatientSummary(noteid: string): void {
+    const visitid = this.visitNotes.get(noteid)?.visitid;
+    const patientid = visitid && this.visits.get(visitid)?.patientid;
+    if (patientid) this.patientSummaries.delete(patientid);
+  }
+
+  async getPatientSummary(patientid: string): Promise<PatientSummary | undefined> {
+    return this.patientSummaries.get(patientid);
+  }
+
+  async savePatientSummary(summary: InsertPatientSummary): Promise<PatientSummary> {
+    const saved: PatientSummary = {
+      ...summary,
+      notes_omitted: summary.notes_omitted ?? 0,
+      generated_by_empid: summary.generated_by_empid ?? null,
+      generated_at: new Date()
+    };
+    this.patientSummaries.set(summary.patientid, saved);
+    return saved;
+  }
+
+  private clinicalRecords: { [K in ClinicalRecordKind]: ClinicalRecordByKind[K][] } = {
+    problem: [], medication: [], allergy: [], vital: []
+  };
+
+  async getClinicalRecords(patientid: string): Promise<ClinicalRecords> {
+    const forPatient = <K extends ClinicalRecordKind>(kind: K) => this.clinicalRecords[kind]
+      .filter(record => record.patientid === patientid)
+      .sort((a, b) => a.visit_date.localeCompare(b.visit_date) || (a.created_at?.getTime() || 0) - (b.created_at?.getTime() || 0));
+    return {
+      problems: forPatient('problem'),
+      medications: forPatient('medication'),
+      allergies: forPatient('allergy'),
+      vitals: forPatient('vital')
+    };
+  }
+
+  async replacePendingClinicalRecords(source: ClinicalRecordSource, records: ExtractedClinicalRecords): Promise<void> {
+    const review = { review_status: 'pending', reviewed_by_empid: null, reviewed_at: null, created_at: new Date() };
+    const pendingFromNote = (record: { noteid: string; review_status: string }) => record.noteid === source.noteid && record.review_status === 'pending';
+    this.clinicalRecords = {
+      problem: [
+        ...this.clinicalRecords.problem.filter(record => !pendingFromNote(record)),
+        ...records.problems.map(fields => ({ ...fields, ...source, ...review, record_id: randomUUID() }))
+      ],
+      medication: [
+        ...this.clinicalRecords.medication.filter(record => !pendingFromNote(record)),
+        ...records.medications.map(fields => ({ ...fields, ...source, ...review, record_id: randomUUID() }))
+      ],
+      allergy: [
+        ...this.clinicalRecords.allergy.filter(record => !pendingFromNote(record)),
+        ...records.allergies.map(fields => ({ ...fields, ...source, ...review, record_id: randomUUID() }))
+      ],
+      vital: [
+        ...this.clinicalRecords.vital.filter(record => !pendingFromNote(record)),
+        ...records.vitals.map(fields => ({ ...fields, ...source, ...review, record_id: randomUUID() }))
+      ]
+    };
+  }
+
+  async getClinicalRecord<K extends ClinicalRecordKind>(kind: K, recordId: string): Promise<ClinicalRecordByKind[K] | undefined> {
+    return this.clinicalRecords[kind].find(record => record.record_id === recordId);
+  }
+
+  async updateClinicalRecord<K extends ClinicalRecordKind>(kind: K, recordId: string, updates: ClinicalRecordUpdate<K>): Promise<ClinicalRecordByKind[K] | undefined> {
+    const records: ClinicalRecordByKind[K][] = this.clinicalRecords[kind];
+    const index = records.findIndex(record => record.record_id === recordId);
+    if (index === -1) return undefined;
+    records[index] = { ...records[index], ...updates };
+    return records[index];
+  }
+
+  async deleteClinicalRecord(kind: ClinicalRecordKind, recordId: string): Promise<boolean> {
+    const records: { record_id: string }[] = this.clinicalRecords[kind];
+    const index = records.findIndex(record => record.record_id === recordId);
+    if (index === -1) return false;
+    records.splice(index, 1);
+    return true;
+  }
+}
+
+// The handle drizzle passes to a db.transaction callback
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Rewrites a note's sections from its text, in the same transaction as the text change
+async function writeNoteSections(tx: DbTransaction, noteid: string, text: string | null): Promise<NoteSection[]> {
+  await tx.delete(note_sections).where(eq(note_sections.noteid, noteid));
+  const sections = parseNoteSections(text);
+  if (sections.length === 0) return [];
+  return await tx.insert(note_sections)
+    .values(sections.map((section, index) => ({ ...section, noteid, section_index: index })))
+    .returning();
+}
+
+// The clinical record tables share their source and review columns; the queries that only touch
+// those are written once, against the problems table's type
+const clinicalRecordTable = (kind: ClinicalRecordKind) => ({
+  problem: patient_problems,
+  medication: patient_medications,
+  allergy: patient_allergies,
+  vital: patient_vitals,
+}[kind] as typeof patient_problems);
+
+// Drops the cached summary of the note's patient, in the same transaction as the change to the note
+async function invalidatePatientSummary(tx: DbTransaction, noteid: string): Promise<void> {
+  const notePatient = tx.select({ patientid: visits.patientid })
+    .from(visits)
+    .innerJoin(visit_notes, eq(visit_notes.visitid, visits.visitid))
+    .where(eq(visit_notes.noteid, noteid));
+  await tx.delete(patient_summaries).where(inArray(patient_summaries.patientid, notePatient));
 }
 
 export class DatabaseStorage implements IStorage {
@@ -763,16 +1667,35 @@ export class DatabaseStorage implements IStorage {
     // Get all visits for this patient
     const patientVisits = await this.getVisits(patientid);
     
-    // Delete all visit notes for each visit
-    for (const visit of patientVisits) {
-      await db.delete(visit_notes).where(eq(visit_notes.visitid, visit.visitid));
-    }
+    // All or nothing, so the caller can clean up the patient's recordings once it commits
+    await db.transaction(async (tx) => {
+      // Delete records extracted from the notes before the notes they point to
+      for (const kind of CLINICAL_RECORD_KINDS) {
+        const table = clinicalRecordTable(kind);
+        await tx.delete(table).where(eq(table.patientid, patientid));
+      }
     
-    // Delete all visits for this patient
-    await db.delete(visits).where(eq(visits.patientid, patientid));
+      // Delete all visit notes (and their revision history, addenda, co-sign reviews, transcript segments and transcription jobs) for each visit
+      for (const visit of patientVisits) {
+        const visitNoteIds = tx.select({ noteid: visit_notes.noteid })
+          .from(visit_notes)
+          .where(eq(visit_notes.visitid, visit.visitid));
+        await tx.delete(visit_note_revisions).where(inArray(visit_note_revisions.noteid, visitNoteIds));
+        await tx.delete(note_transcript_segments).where(inArray(note_transcript_segments.noteid, visitNoteIds));
+        await tx.delete(note_sections).where(inArray(note_sections.noteid, visitNoteIds));
+        await tx.delete(transcription_jobs).where(inArray(transcription_jobs.noteid, visitNoteIds));
+        await tx.delete(visit_note_addenda).where(inArray(visit_note_addenda.noteid, visitNoteIds));
+        await tx.delete(note_cosign_reviews).where(inArray(note_cosign_reviews.noteid, visitNoteIds));
+        await tx.delete(visit_notes).where(eq(visit_notes.visitid, visit.visitid));
+      }
     
-    // Delete the patient
-    await db.delete(patients).where(eq(patients.patientid, patientid));
+      // Delete all visits for this patient
+      await tx.delete(visits).where(eq(visits.patientid, patientid));
+      await tx.delete(patient_summaries).where(eq(patient_summaries.patientid, patientid));
+    
+      // Delete the patient
+      await tx.delete(patients).where(eq(patients.patientid, patientid));
+    });
     
     return true;
   }
@@ -852,21 +1775,567 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createVisitNote(note: InsertVisitNote): Promise<VisitNote> {
-    const result = await db.insert(visit_notes).values(note).returning();
-    return result[0];
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(visit_notes).values(note).returning();
+      await writeNoteSections(tx, result[0].noteid, result[0].transcription_text);
+      await invalidatePatientSummary(tx, result[0].noteid);
+      return result[0];
+    });
   }
 
   async updateVisitNote(noteid: string, updates: Partial<InsertVisitNote>): Promise<VisitNote | undefined> {
-    const result = await db.update(visit_notes)
-      .set({
-        ...updates,
-        updated_at: new Date()
-      })
-      .where(eq(visit_notes.noteid, noteid))
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(visit_notes)
+        .set({
+          ...updates,
+          updated_at: new Date()
+        })
+        .where(eq(visit_notes.noteid, noteid))
+        .returning();
+      if (result[0] && updates.transcription_text !== undefined) {
+        await writeNoteSections(tx, noteid, result[0].transcription_text);
+        await invalidatePatientSummary(tx, noteid);
+      }
+      return result[0];
+    });
+  }
+
+  async updateVisitNoteWithRevision(noteid: string, updates: Partial<InsertVisitNote>, revision: NoteRevisionInfo): Promise<VisitNote | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the note row so concurrent edits get sequential revision numbers
+      const current = await tx.select()
+        .from(visit_notes)
+        .where(eq(visit_notes.noteid, noteid))
+        .for('update');
+      if (!current[0]) return undefined;
+      if (current[0].signed_at) throw new Error("Note is signed and can no longer be edited");
+      
+      const previousText = current[0].transcription_text;
+      if (updates.transcription_text !== undefined && updates.transcription_text !== previousText) {
+        const countResult = await tx.select({ count: sql<number>`count(*)::int` })
+          .from(visit_note_revisions)
+          .where(eq(visit_note_revisions.noteid, noteid));
+        
+        await tx.insert(visit_note_revisions).values({
+          ...revision,
+          noteid,
+          revision_number: (countResult[0]?.count || 0) + 1,
+          previous_text: previousText,
+          new_text: updates.transcription_text,
+        });
+      }
+      
+      const result = await tx.update(visit_notes)
+        .set({
+          ...updates,
+          updated_at: new Date()
+        })
+        .where(eq(visit_notes.noteid, noteid))
+        .returning();
+      if (updates.transcription_text !== undefined && updates.transcription_text !== previousText) {
+        await writeNoteSections(tx, noteid, result[0].transcription_text);
+        await invalidatePatientSummary(tx, noteid);
+      }
+      return result[0];
+    });
+  }
+
+  async getVisitNoteRevisions(noteid: string): Promise<VisitNoteRevisionWithAuthor[]> {
+    const rows = await db.select({
+      revision: visit_note_revisions,
+      first_name: employees.first_name,
+      last_name: employees.last_name,
+    })
+      .from(visit_note_revisions)
+      .leftJoin(employees, eq(visit_note_revisions.author_empid, employees.empid))
+      .where(eq(visit_note_revisions.noteid, noteid))
+      .orderBy(desc(visit_note_revisions.revision_number));
+    
+    return rows.map(row => ({
+      ...row.revision,
+      author_name: row.first_name ? `${row.first_name} ${row.last_name}` : null
+    }));
+  }
+
+  async getVisitNoteRevision(revisionId: string): Promise<VisitNoteRevision | undefined> {
+    const result = await db.select()
+      .from(visit_note_revisions)
+      .where(eq(visit_note_revisions.revision_id, revisionId));
+    return result[0];
+  }
+
+  async signVisitNote(noteid: string, signer: NoteSigner): Promise<VisitNote | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the row so the hash covers exactly the text being signed
+      const current = await tx.select()
+        .from(visit_notes)
+        .where(eq(visit_notes.noteid, noteid))
+        .for('update');
+      if (!current[0] || current[0].signed_at) return current[0];
+      
+      const result = await tx.update(visit_notes)
+        .set({
+          signed_at: new Date(),
+          signed_by_empid: signer.empid,
+          signature_name: signer.name,
+          signature_title: signer.title,
+          signature_content_hash: computeNoteContentHash(current[0].transcription_text),
+          cosign_status: signer.cosigner_empid ? 'pending' : null,
+          cosigner_empid: signer.cosigner_empid,
+          updated_at: new Date()
+        })
+        .where(eq(visit_notes.noteid, noteid))
+        .returning();
+      return result[0];
+    });
+  }
+
+  async createVisitNoteAddendum(addendum: InsertVisitNoteAddendum): Promise<VisitNoteAddendum> {
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(visit_note_addenda).values(addendum).returning();
+      await invalidatePatientSummary(tx, addendum.noteid);
+      return result[0];
+    });
+  }
+
+  async getNoteTranscriptSegments(noteid: string): Promise<NoteTranscriptSegment[]> {
+    return await db.select()
+      .from(note_transcript_segments)
+      .where(eq(note_transcript_segments.noteid, noteid))
+      .orderBy(note_transcript_segments.segment_index);
+  }
+
+  async replaceNoteTranscriptSegments(noteid: string, segments: Omit<InsertNoteTranscriptSegment, 'noteid'>[]): Promise<NoteTranscriptSegment[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(note_transcript_segments).where(eq(note_transcript_segments.noteid, noteid));
+      if (segments.length === 0) return [];
+      return await tx.insert(note_transcript_segments)
+        .values(segments.map(segment => ({ ...segment, noteid })))
+        .returning();
+    });
+  }
+
+  async getNoteSections(noteids: string[]): Promise<NoteSection[]> {
+    if (noteids.length === 0) return [];
+    return await db.select()
+      .from(note_sections)
+      .where(inArray(note_sections.noteid, noteids))
+      .orderBy(note_sections.noteid, note_sections.section_index);
+  }
+
+  async getPatientNoteSections(patientid: string, sectionKey?: string): Promise<PatientNoteSection[]> {
+    const rows = await db.select({
+      section: note_sections,
+      visitid: visits.visitid,
+      visit_date: visits.visit_date,
+      note_created_at: visit_notes.created_at,
+    })
+      .from(note_sections)
+      .innerJoin(visit_notes, eq(note_sections.noteid, visit_notes.noteid))
+      .innerJoin(visits, eq(visit_notes.visitid, visits.visitid))
+      .where(sectionKey
+        ? and(eq(visits.patientid, patientid), eq(note_sections.section_key, sectionKey))
+        : eq(visits.patientid, patientid))
+      .orderBy(desc(visits.visit_date), desc(visit_notes.created_at), note_sections.section_index);
+    
+    return rows.map(row => ({
+      ...row.section,
+      visitid: row.visitid,
+      visit_date: row.visit_date,
+      note_created_at: row.note_created_at
+    }));
+  }
+
+  async getPatientNotesWithoutSections(patientid: string): Promise<VisitNote[]> {
+    const rows = await db.select({ note: visit_notes })
+      .from(visit_notes)
+      .innerJoin(visits, eq(visit_notes.visitid, visits.visitid))
+      .where(and(
+        eq(visits.patientid, patientid),
+        sql`trim(coalesce(${visit_notes.transcription_text}, '')) <> ''`,
+        sql`not exists (select 1 from ${note_sections} where ${note_sections.noteid} = ${visit_notes.noteid})`
+      ));
+    return rows.map(row => row.note);
+  }
+
+  async replaceNoteSections(noteid: string, text: string | null): Promise<NoteSection[]> {
+    return await db.transaction(tx => writeNoteSections(tx, noteid, text));
+  }
+
+  async createTranscriptionJob(job: InsertTranscriptionJob): Promise<TranscriptionJob> {
+    const result = await db.insert(transcription_jobs).values(job).returning();
+    return result[0];
+  }
+
+  async getLatestTranscriptionJobs(noteids: string[]): Promise<TranscriptionJob[]> {
+    if (noteids.length === 0) return [];
+    return await db.selectDistinctOn([transcription_jobs.noteid])
+      .from(transcription_jobs)
+      .where(inArray(transcription_jobs.noteid, noteids))
+      .orderBy(transcription_jobs.noteid, desc(transcription_jobs.created_at));
+  }
+
+  async claimNextTranscriptionJob(staleBefore: Date): Promise<TranscriptionJob | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const stale = and(eq(transcription_jobs.status, 'running'), lt(transcription_jobs.started_at, staleBefore));
+      await tx.update(transcription_jobs)
+        .set({ status: 'failed', last_error: STALE_JOB_ERROR, completed_at: now, updated_at: now })
+        .where(and(stale, gte(transcription_jobs.attempts, transcription_jobs.max_attempts)));
+
+      // SKIP LOCKED lets several server instances poll the same table without taking the same job
+      const due = await tx.select()
+        .from(transcription_jobs)
+        .where(or(
+          and(eq(transcription_jobs.status, 'queued'), lte(transcription_jobs.run_after, now)),
+          and(stale, lt(transcription_jobs.attempts, transcription_jobs.max_attempts))
+        ))
+        .orderBy(transcription_jobs.run_after)
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!due[0]) return undefined;
+
+      const result = await tx.update(transcription_jobs)
+        .set({ status: 'running', attempts: due[0].attempts + 1, started_at: now, updated_at: now })
+        .where(eq(transcription_jobs.job_id, due[0].job_id))
+        .returning();
+      return result[0];
+    });
+  }
+
+  async updateTranscriptionJob(jobId: string, updates: Partial<InsertTranscriptionJob>): Promise<TranscriptionJob | undefined> {
+    const result = await db.update(transcription_jobs)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(transcription_jobs.job_id, jobId))
       .returning();
     return result[0];
   }
 
+  async completeTranscriptionJob(jobId: string, result: TranscriptionJobResult): Promise<TranscriptionJob | undefined> {
+    return await db.transaction(async (tx) => {
+      const [job] = await tx.select().from(transcription_jobs).where(eq(transcription_jobs.job_id, jobId));
+      if (!job) return undefined;
+
+      // Lock the note so an edit saved while we decide can't be overwritten
+      const [note] = await tx.select()
+        .from(visit_notes)
+        .where(eq(visit_notes.noteid, job.noteid))
+        .for('update');
+      if (!note) return undefined;
+
+      const textApplied = acceptsTranscriptionText(note);
+      if (textApplied && result.text !== note.transcription_text) {
+        const countResult = await tx.select({ count: sql<number>`count(*)::int` })
+          .from(visit_note_revisions)
+          .where(eq(visit_note_revisions.noteid, note.noteid));
+        await tx.insert(visit_note_revisions).values({
+          noteid: note.noteid,
+          revision_number: (countResult[0]?.count || 0) + 1,
+          author_empid: job.requested_by_empid,
+          previous_text: note.transcription_text,
+          new_text: result.text,
+          reason: 'Automatic transcription',
+        });
+        await tx.update(visit_notes)
+          .set({ transcription_text: result.text, ai_transcribed: true, is_transcription_edited: false, updated_at: new Date() })
+          .where(eq(visit_notes.noteid, note.noteid));
+        await writeNoteSections(tx, note.noteid, result.text);
+        await invalidatePatientSummary(tx, note.noteid);
+      }
+      // A signed note's transcript is part of the signed record, so it stays as it was
+      if (!note.signed_at) {
+        await tx.update(visit_notes)
+          .set({ detected_language: result.language })
+          .where(eq(visit_notes.noteid, note.noteid));
+
+        await tx.delete(note_transcript_segments).where(eq(note_transcript_segments.noteid, note.noteid));
+        if (result.segments.length > 0) {
+          await tx.insert(note_transcript_segments)
+            .values(result.segments.map(segment => ({ ...segment, noteid: note.noteid })));
+        }
+      }
+
+      const updated = await tx.update(transcription_jobs)
+        .set({
+          status: 'done',
+          text_applied: textApplied,
+          last_error: null,
+          completed_at: new Date(),
+          updated_at: new Date()
+        })
+        .where(eq(transcription_jobs.job_id, jobId))
+        .returning();
+      return updated[0];
+    });
+  }
+
+  async getOrgVocabularyTerms(orgid: string): Promise<OrgVocabularyTerm[]> {
+    return await db.select()
+      .from(org_vocabulary_terms)
+      .where(eq(org_vocabulary_terms.orgid, orgid))
+      .orderBy(org_vocabulary_terms.term);
+  }
+
+  async createOrgVocabularyTerm(term: InsertOrgVocabularyTerm): Promise<OrgVocabularyTerm> {
+    const result = await db.insert(org_vocabulary_terms).values(term).returning();
+    return result[0];
+  }
+
+  async deleteOrgVocabularyTerm(orgid: string, termId: string): Promise<boolean> {
+    const result = await db.delete(org_vocabulary_terms)
+      .where(and(eq(org_vocabulary_terms.orgid, orgid), eq(org_vocabulary_terms.term_id, termId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getOrgTranscriptReplacements(orgid: string): Promise<OrgTranscriptReplacement[]> {
+    return await db.select()
+      .from(org_transcript_replacements)
+      .where(eq(org_transcript_replacements.orgid, orgid))
+      .orderBy(org_transcript_replacements.find_text);
+  }
+
+  async createOrgTranscriptReplacement(replacement: InsertOrgTranscriptReplacement): Promise<OrgTranscriptReplacement> {
+    const result = await db.insert(org_transcript_replacements).values(replacement).returning();
+    return result[0];
+  }
+
+  async deleteOrgTranscriptReplacement(orgid: string, replacementId: string): Promise<boolean> {
+    const result = await db.delete(org_transcript_replacements)
+      .where(and(eq(org_transcript_replacements.orgid, orgid), eq(org_transcript_replacements.replacement_id, replacementId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getNoteTemplates(orgid: string): Promise<NoteTemplate[]> {
+    return await db.select()
+      .from(note_templates)
+      .where(eq(note_templates.orgid, orgid))
+      .orderBy(note_templates.name);
+  }
+
+  async getNoteTemplate(orgid: string, templateId: string): Promise<NoteTemplate | undefined> {
+    const result = await db.select()
+      .from(note_templates)
+      .where(and(eq(note_templates.orgid, orgid), eq(note_templates.template_id, templateId)));
+    return result[0];
+  }
+
+  async createNoteTemplate(template: InsertNoteTemplate): Promise<NoteTemplate> {
+    return await db.transaction(async (tx) => {
+      if (template.is_default) {
+        await tx.update(note_templates)
+          .set({ is_default: false })
+          .where(eq(note_templates.orgid, template.orgid));
+      }
+      const result = await tx.insert(note_templates).values(template).returning();
+      return result[0];
+    });
+  }
+
+  async updateNoteTemplate(orgid: string, templateId: string, updates: Partial<InsertNoteTemplate>): Promise<NoteTemplate | undefined> {
+    return await db.transaction(async (tx) => {
+      if (updates.is_default) {
+        await tx.update(note_templates)
+          .set({ is_default: false })
+          .where(eq(note_templates.orgid, orgid));
+      }
+      const result = await tx.update(note_templates)
+        .set({ ...updates, orgid, updated_at: new Date() })
+        .where(and(eq(note_templates.orgid, orgid), eq(note_templates.template_id, templateId)))
+        .returning();
+      return result[0];
+    });
+  }
+
+  async deleteNoteTemplate(orgid: string, templateId: string): Promise<boolean> {
+    const result = await db.delete(note_templates)
+      .where(and(eq(note_templates.orgid, orgid), eq(note_templates.template_id, templateId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getEditorAbbreviations(orgid: string, empid: string | null): Promise<EditorAbbreviation[]> {
+    return await db.select()
+      .from(editor_abbreviations)
+      .where(and(
+        eq(editor_abbreviations.orgid, orgid),
+        empid ? eq(editor_abbreviations.empid, empid) : isNull(editor_abbreviations.empid)
+      ))
+      .orderBy(editor_abbreviations.abbreviation);
+  }
+
+  async createEditorAbbreviation(abbreviation: InsertEditorAbbreviation): Promise<EditorAbbreviation> {
+    const result = await db.insert(editor_abbreviations).values(abbreviation).returning();
+    return result[0];
+  }
+
+  async deleteEditorAbbreviation(orgid: string, empid: string | null, abbreviationId: string): Promise<boolean> {
+    const result = await db.delete(editor_abbreviations)
+      .where(and(
+        eq(editor_abbreviations.orgid, orgid),
+        empid ? eq(editor_abbreviations.empid, empid) : isNull(editor_abbreviations.empid),
+        eq(editor_abbreviations.abbreviation_id, abbreviationId)
+      ))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getEditorQuickPhrases(orgid: string, empid: string | null): Promise<EditorQuickPhrase[]> {
+    return await db.select()
+      .from(editor_quick_phrases)
+      .where(and(
+        eq(editor_quick_phrases.orgid, orgid),
+        empid ? eq(editor_quick_phrases.empid, empid) : isNull(editor_quick_phrases.empid)
+      ))
+      .orderBy(editor_quick_phrases.label);
+  }
+
+  async createEditorQuickPhrase(phrase: InsertEditorQuickPhrase): Promise<EditorQuickPhrase> {
+    const result = await db.insert(editor_quick_phrases).values(phrase).returning();
+    return result[0];
+  }
+
+  async deleteEditorQuickPhrase(orgid: string, empid: string | null, phraseId: string): Promise<boolean> {
+    const result = await db.delete(editor_quick_phrases)
+      .where(and(
+        eq(editor_quick_phrases.orgid, orgid),
+        empid ? eq(editor_quick_phrases.empid, empid) : isNull(editor_quick_phrases.empid),
+        eq(editor_quick_phrases.phrase_id, phraseId)
+      ))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getVisitNoteAddendum(addendumId: string): Promise<VisitNoteAddendum | undefined> {
+    const result = await db.select()
+      .from(visit_note_addenda)
+      .where(eq(visit_note_addenda.addendum_id, addendumId));
+    return result[0];
+  }
+
+  async getVisitNoteAddenda(noteids: string[]): Promise<VisitNoteAddendumWithAuthor[]> {
+    if (noteids.length === 0) return [];
+    
+    const rows = await db.select({
+      addendum_id: visit_note_addenda.addendum_id,
+      noteid: visit_note_addenda.noteid,
+      author_empid: visit_note_addenda.author_empid,
+      addendum_text: visit_note_addenda.addendum_text,
+      audio_filename: visit_note_addenda.audio_filename,
+      audio_mimetype: visit_note_addenda.audio_mimetype,
+      audio_duration_seconds: visit_note_addenda.audio_duration_seconds,
+      ai_transcribed: visit_note_addenda.ai_transcribed,
+      created_at: visit_note_addenda.created_at,
+      first_name: employees.first_name,
+      last_name: employees.last_name,
+      author_title: employees.title,
+    })
+      .from(visit_note_addenda)
+      .leftJoin(employees, eq(visit_note_addenda.author_empid, employees.empid))
+      .where(inArray(visit_note_addenda.noteid, noteids))
+      .orderBy(visit_note_addenda.created_at);
+    
+    return rows.map(({ first_name, last_name, ...addendum }) => ({
+      ...addendum,
+      author_name: first_name ? `${first_name} ${last_name}` : null
+    }));
+  }
+
+  async getCosignQueue(cosignerEmpid: string): Promise<CosignQueueItem[]> {
+    const rows = await db.select({
+      noteid: visit_notes.noteid,
+      visitid: visits.visitid,
+      visit_date: visits.visit_date,
+      patientid: patients.patientid,
+      patient_first_name: patients.first_name,
+      patient_last_name: patients.last_name,
+      author_empid: employees.empid,
+      author_first_name: employees.first_name,
+      author_last_name: employees.last_name,
+      author_title: employees.title,
+      transcription_text: visit_notes.transcription_text,
+      signed_at: visit_notes.signed_at,
+    })
+      .from(visit_notes)
+      .innerJoin(visits, eq(visit_notes.visitid, visits.visitid))
+      .innerJoin(patients, eq(visits.patientid, patients.patientid))
+      .innerJoin(employees, eq(visit_notes.signed_by_empid, employees.empid))
+      .where(and(
+        eq(visit_notes.cosigner_empid, cosignerEmpid),
+        eq(visit_notes.cosign_status, 'pending')
+      ))
+      .orderBy(visit_notes.signed_at);
+    
+    return rows.map(row => ({
+      noteid: row.noteid,
+      visitid: row.visitid,
+      visit_date: row.visit_date,
+      patientid: row.patientid,
+      patient_name: `${row.patient_first_name} ${row.patient_last_name}`,
+      author_empid: row.author_empid,
+      author_name: `${row.author_first_name} ${row.author_last_name}`,
+      author_title: row.author_title,
+      transcription_text: row.transcription_text,
+      signed_at: row.signed_at
+    }));
+  }
+
+  async reviewCosign(noteid: string, review: Omit<InsertNoteCosignReview, 'noteid' | 'content_hash'>): Promise<VisitNote | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the note so a concurrent edit/re-sign can't slip between check and update
+      const current = await tx.select()
+        .from(visit_notes)
+        .where(eq(visit_notes.noteid, noteid))
+        .for('update');
+      if (!current[0] || current[0].cosign_status !== 'pending') return undefined;
+      
+      await tx.insert(note_cosign_reviews).values({
+        ...review,
+        noteid,
+        content_hash: current[0].signature_content_hash,
+      });
+      
+      const updates = review.action === 'approved'
+        ? { cosign_status: 'approved' }
+        : {
+            cosign_status: 'returned',
+            signed_at: null,
+            signed_by_empid: null,
+            signature_name: null,
+            signature_title: null,
+            signature_content_hash: null,
+          };
+      
+      const result = await tx.update(visit_notes)
+        .set({ ...updates, updated_at: new Date() })
+        .where(eq(visit_notes.noteid, noteid))
+        .returning();
+      return result[0];
+    });
+  }
+
+  async getCosignReviews(noteids: string[]): Promise<NoteCosignReviewWithReviewer[]> {
+    if (noteids.length === 0) return [];
+    
+    const rows = await db.select({
+      review: note_cosign_reviews,
+      first_name: employees.first_name,
+      last_name: employees.last_name,
+      title: employees.title,
+    })
+      .from(note_cosign_reviews)
+      .leftJoin(employees, eq(note_cosign_reviews.reviewer_empid, employees.empid))
+      .where(inArray(note_cosign_reviews.noteid, noteids))
+      .orderBy(note_cosign_reviews.created_at);
+    
+    return rows.map(row => ({
+      ...row.review,
+      reviewer_name: row.first_name ? `${row.first_name} ${row.last_name}` : null,
+      reviewer_title: row.title
+    }));
+  }
+
   async getPatientNotesByDateRange(patientid: string, startDate: string, endDate: string): Promise<{
     patient: Patient;
     org: Org;
@@ -1049,6 +2518,159 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return result.length > 0;
   }
+  
+  // Audit log operations
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const result = await db.insert(audit_events).values(event).returning();
+    return result[0];
+  }
+  
+  async getAuditEvents(filters: AuditEventFilters): Promise<AuditEventWithActor[]> {
+    const conditions = [];
+    if (filters.orgid) conditions.push(eq(audit_events.orgid, filters.orgid));
+    if (filters.actorEmpid) conditions.push(eq(audit_events.actor_empid, filters.actorEmpid));
+    if (filters.patientid) conditions.push(eq(audit_events.patientid, filters.patientid));
+    if (filters.action) conditions.push(eq(audit_events.action, filters.action));
+    if (filters.from) conditions.push(gte(audit_events.created_at, filters.from));
+    if (filters.to) conditions.push(lte(audit_events.created_at, filters.to));
+    
+    const rows = await db.select({
+      event: audit_events,
+      first_name: employees.first_name,
+      last_name: employees.last_name,
+    })
+      .from(audit_events)
+      .leftJoin(employees, eq(audit_events.actor_empid, employees.empid))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(audit_events.created_at))
+      .limit(filters.limit ?? 200)
+      .offset(filters.offset ?? 0);
+    
+    return rows.map(row => ({
+      ...row.event,
+      actor_name: row.first_name ? `${row.first_name} ${row.last_name}` : null
+    }));
+  }
+  
+  // Usage ledger and quotas
+  async createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord> {
+    const result = await db.insert(usage_records).values(record).returning();
+    return result[0];
+  }
+  
+  async getUsageSummary(filters: { orgid?: string; since: Date }): Promise<UsageSummaryRow[]> {
+    const conditions = [gte(usage_records.created_at, filters.since)];
+    if (filters.orgid) conditions.push(eq(usage_records.orgid, filters.orgid));
+    
+    const month = sql<string>`to_char(date_trunc('month', ${usage_records.created_at} AT TIME ZONE 'UTC'), 'YYYY-MM')`;
+    const rows = await db.select({
+      orgid: usage_records.orgid,
+      month,
+      feature: usage_records.feature,
+      audio_seconds: sql<number>`COALESCE(SUM(${usage_records.audio_seconds}), 0)::int`,
+      prompt_tokens: sql<number>`COALESCE(SUM(${usage_records.prompt_tokens}), 0)::int`,
+      completion_tokens: sql<number>`COALESCE(SUM(${usage_records.completion_tokens}), 0)::int`,
+    })
+      .from(usage_records)
+      .where(and(...conditions))
+      .groupBy(usage_records.orgid, month, usage_records.feature)
+      .orderBy(month);
+    
+    return rows.map(row => ({ ...row, feature: row.feature as UsageFeature }));
+  }
+  
+  async getUsageQuotas(orgid?: string): Promise<UsageQuota[]> {
+    return await db.select().from(usage_quotas)
+      .where(orgid ? eq(usage_quotas.orgid, orgid) : undefined);
+  }
+  
+  async setUsageQuota(quota: InsertUsageQuota): Promise<UsageQuota> {
+    const result = await db.insert(usage_quotas)
+      .values(quota)
+      .onConflictDoUpdate({
+        target: [usage_quotas.orgid, usage_quotas.metric],
+        set: {
+          soft_limit: quota.soft_limit ?? null,
+          hard_limit: quota.hard_limit ?? null,
+          updated_by_empid: quota.updated_by_empid ?? null,
+          updated_at: new Date()
+        }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getPatientSummary(patientid: string): Promise<PatientSummary | undefined> {
+    const result = await db.select().from(patient_summaries).where(eq(patient_summaries.patientid, patientid));
+    return result[0];
+  }
+
+  async savePatientSummary(summary: InsertPatientSummary): Promise<PatientSummary> {
+    const result = await db.insert(patient_summaries)
+      .values(summary)
+      .onConflictDoUpdate({
+        target: patient_summaries.patientid,
+        set: { ...summary, generated_at: new Date() }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getClinicalRecords(patientid: string): Promise<ClinicalRecords> {
+    const [problems, medications, allergies, vitals] = await Promise.all([
+      db.select().from(patient_problems).where(eq(patient_problems.patientid, patientid))
+        .orderBy(patient_problems.visit_date, patient_problems.created_at),
+      db.select().from(patient_medications).where(eq(patient_medications.patientid, patientid))
+        .orderBy(patient_medications.visit_date, patient_medications.created_at),
+      db.select().from(patient_allergies).where(eq(patient_allergies.patientid, patientid))
+        .orderBy(patient_allergies.visit_date, patient_allergies.created_at),
+      db.select().from(patient_vitals).where(eq(patient_vitals.patientid, patientid))
+        .orderBy(patient_vitals.visit_date, patient_vitals.created_at),
+    ]);
+    return { problems, medications, allergies, vitals };
+  }
+
+  async replacePendingClinicalRecords(source: ClinicalRecordSource, records: ExtractedClinicalRecords): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const kind of CLINICAL_RECORD_KINDS) {
+        const table = clinicalRecordTable(kind);
+        await tx.delete(table).where(and(eq(table.noteid, source.noteid), eq(table.review_status, 'pending')));
+      }
+      if (records.problems.length > 0) {
+        await tx.insert(patient_problems).values(records.problems.map(fields => ({ ...fields, ...source })));
+      }
+      if (records.medications.length > 0) {
+        await tx.insert(patient_medications).values(records.medications.map(fields => ({ ...fields, ...source })));
+      }
+      if (records.allergies.length > 0) {
+        await tx.insert(patient_allergies).values(records.allergies.map(fields => ({ ...fields, ...source })));
+      }
+      if (records.vitals.length > 0) {
+        await tx.insert(patient_vitals).values(records.vitals.map(fields => ({ ...fields, ...source })));
+      }
+    });
+  }
+
+  async getClinicalRecord<K extends ClinicalRecordKind>(kind: K, recordId: string): Promise<ClinicalRecordByKind[K] | undefined> {
+    const table = clinicalRecordTable(kind);
+    const result = await db.select().from(table).where(eq(table.record_id, recordId));
+    return result[0] as ClinicalRecordByKind[K] | undefined;
+  }
+
+  async updateClinicalRecord<K extends ClinicalRecordKind>(kind: K, recordId: string, updates: ClinicalRecordUpdate<K>): Promise<ClinicalRecordByKind[K] | undefined> {
+    const table = clinicalRecordTable(kind);
+    const result = await db.update(table)
+      .set(updates as Partial<ClinicalRecordByKind['problem']>)
+      .where(eq(table.record_id, recordId))
+      .returning();
+    return result[0] as ClinicalRecordByKind[K] | undefined;
+  }
+
+  async deleteClinicalRecord(kind: ClinicalRecordKind, recordId: string): Promise<boolean> {
+    const table = clinicalRecordTable(kind);
+    const result = await db.delete(table).where(eq(table.record_id, recordId)).returning();
+    return result.length > 0;
+  }
 }
 
 // Use PostgreSQL database for persistent storage
@@ -0,0 +1,143 @@
+import type { TextLibraryScope } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface QuickPhrase {
+  label: string;
+  text: string;
+}
+
+// Medical abbreviation expansions everyone gets
+export const BUILT_IN_ABBREVIATIONS: Record<string, string> = {
+  'htn': 'hypertension',
+  'dm': 'diabetes mellitus',
+  'dm2': 'Type 2 Diabetes Mellitus',
+  'dm1': 'Type 1 Diabetes Mellitus',
+  'cad': 'coronary artery disease',
+  'chf': 'congestive heart failure',
+  'copd': 'chronic obstructive pulmonary disease',
+  'ckd': 'chronic kidney disease',
+  'esrd': 'end-stage renal disease',
+  'afib': 'atrial fibrillation',
+  'sob': 'shortness of breath',
+  'cp': 'chest pain',
+  'ha': 'headache',
+  'abd': 'abdominal',
+  'n/v': 'nausea and vomiting',
+  'bm': 'bowel movement',
+  'uri': 'upper respiratory infection',
+  'uti': 'urinary tract infection',
+  'prn': 'as needed',
+  'bid': 'twice daily',
+  'tid': 'three times daily',
+  'qid': 'four times daily',
+  'qd': 'once daily',
+  'po': 'by mouth',
+  'iv': 'intravenous',
+  'im': 'intramuscular',
+  'subq': 'subcutaneous',
+  'hx': 'history',
+  'pmh': 'past medical history',
+  'fh': 'family history',
+  'sh': 'social history',
+  'ros': 'review of systems',
+  'pe': 'physical examination',
+  'vs': 'vital signs',
+  'bp': 'blood pressure',
+  'hr': 'heart rate',
+  'rr': 'respiratory rate',
+  'temp': 'temperature',
+  'o2sat': 'oxygen saturation',
+  'wt': 'weight',
+  'ht': 'height',
+  'bmi': 'body mass index',
+  'wnl': 'within normal limits',
+  'nad': 'no acute distress',
+  'a&o': 'alert and oriented',
+  'aox3': 'alert and oriented x3',
+  'aox4': 'alert and oriented x4',
+  'heent': 'head, eyes, ears, nose, throat',
+  'cvs': 'cardiovascular system',
+  'rrr': 'regular rate and rhythm',
+  'ctab': 'clear to auscultation bilaterally',
+  'ntnd': 'non-tender, non-distended',
+  'bss': 'bowel sounds present',
+  'ext': 'extremities',
+  'cns': 'central nervous system',
+  'neuro': 'neurological',
+  'psych': 'psychiatric',
+  'f/u': 'follow up',
+  'rto': 'return to office',
+  'rtc': 'return to clinic',
+  'dc': 'discharge',
+  'd/c': 'discontinue',
+  'rx': 'prescription',
+  'tx': 'treatment',
+  'dx': 'diagnosis',
+  'ddx': 'differential diagnosis',
+  'sx': 'symptoms',
+  'hpi': 'history of present illness',
+  'cc': 'chief complaint',
+  'nka': 'no known allergies',
+  'nkda': 'no known drug allergies'
+};
+
+// Quick insert phrases everyone gets
+export const BUILT_IN_QUICK_PHRASES: QuickPhrase[] = [
+  { label: 'Patient denies...', text: 'Patient denies ' },
+  { label: 'No acute distress', text: 'Patient appears comfortable, in no acute distress. ' },
+  { label: 'Within normal limits', text: 'within normal limits' },
+  { label: 'Vitals stable', text: 'Vital signs are stable. ' },
+  { label: 'Follow up in _ weeks', text: 'Follow up in ___ weeks. ' },
+  { label: 'Return precautions discussed', text: 'Return precautions discussed with patient. Patient verbalized understanding. ' },
+  { label: 'Continue current meds', text: 'Continue current medications as prescribed. ' },
+  { label: 'Labs ordered', text: 'Laboratory tests ordered as indicated. ' },
+  { label: 'Imaging ordered', text: 'Imaging studies ordered as indicated. ' },
+  { label: 'Referral placed', text: 'Referral placed to ___ for further evaluation. ' },
+  { label: 'Patient educated', text: 'Patient educated regarding diagnosis, treatment options, and expected outcomes. ' },
+  { label: 'Risk/benefit discussed', text: 'Risks and benefits of treatment discussed with patient. Patient agrees with plan. ' }
+];
+
+export interface LibraryQuickPhrase extends QuickPhrase {
+  source: TextLibraryScope | 'built_in';
+}
+
+/**
+ * Abbreviations an employee can expand: the built-in set, overridden by the org's
+ * library, overridden by their own. Keys are lowercase.
+ */
+export async function loadAbbreviations(orgid: string | null | undefined, empid: string): Promise<Record<string, string>> {
+  if (!orgid) return BUILT_IN_ABBREVIATIONS;
+  const [orgEntries, personalEntries] = await Promise.all([
+    storage.getEditorAbbreviations(orgid, null),
+    storage.getEditorAbbreviations(orgid, empid),
+  ]);
+
+  const merged = { ...BUILT_IN_ABBREVIATIONS };
+  for (const entry of [...orgEntries, ...personalEntries]) {
+    merged[entry.abbreviation] = entry.expansion;
+  }
+  return merged;
+}
+
+// Quick phrases for an employee, their own first; a phrase with the same label as a broader one replaces it
+export async function loadQuickPhrases(orgid: string | null | undefined, empid: string): Promise<LibraryQuickPhrase[]> {
+  const builtIn = BUILT_IN_QUICK_PHRASES.map(phrase => ({ ...phrase, source: 'built_in' as const }));
+  if (!orgid) return builtIn;
+  const [orgEntries, personalEntries] = await Promise.all([
+    storage.getEditorQuickPhrases(orgid, null),
+    storage.getEditorQuickPhrases(orgid, empid),
+  ]);
+
+  const phrases: LibraryQuickPhrase[] = [
+    ...personalEntries.map(({ label, text }) => ({ label, text, source: 'personal' as const })),
+    ...orgEntries.map(({ label, text }) => ({ label, text, source: 'org' as const })),
+    ...builtIn,
+  ];
+  const seen = new Set<string>();
+  return phrases.filter(phrase => {
+    const key = phrase.label.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
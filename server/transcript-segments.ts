@@ -0,0 +1,65 @@
+import { z } from "zod";
+import {
+  transcriptSegmentSchema,
+  speakerRolesSchema,
+  type InsertNoteTranscriptSegment,
+  type NoteTranscriptSegment,
+  type SpeakerRoles,
+  type TranscriptSegment,
+} from "@shared/schema";
+
+const toMs = (seconds: number) => Math.round(seconds * 1000);
+
+// Multipart uploads send these fields as JSON strings; JSON bodies send them as-is
+const jsonField = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(
+  (value) => typeof value === 'string' && value ? JSON.parse(value) : value,
+  schema.optional()
+);
+
+const transcriptFieldsSchema = z.object({
+  transcript_segments: jsonField(z.array(transcriptSegmentSchema)),
+  speaker_roles: jsonField(speakerRolesSchema),
+});
+
+export interface TranscriptFields {
+  segments?: TranscriptSegment[];
+  speakerRoles?: SpeakerRoles;
+}
+
+// Optional diarized transcript sent with a new note; throws if present but malformed
+export function parseTranscriptFields(body: unknown): TranscriptFields {
+  const parsed = transcriptFieldsSchema.parse(body ?? {});
+  return { segments: parsed.transcript_segments, speakerRoles: parsed.speaker_roles };
+}
+
+// Seconds from the provider -> stored rows (milliseconds, numbered in order)
+export function toSegmentRows(segments: TranscriptSegment[]): Omit<InsertNoteTranscriptSegment, 'noteid'>[] {
+  return segments.map((segment, index) => ({
+    segment_index: index,
+    speaker: segment.speaker,
+    start_ms: toMs(segment.start),
+    end_ms: toMs(segment.end),
+    text: segment.text,
+    words: segment.words?.map(word => ({
+      text: word.text,
+      start_ms: toMs(word.start),
+      end_ms: toMs(word.end),
+      confidence: word.confidence,
+    })) ?? null,
+  }));
+}
+
+export function fromSegmentRows(rows: NoteTranscriptSegment[]): TranscriptSegment[] {
+  return rows.map(row => ({
+    speaker: row.speaker,
+    start: row.start_ms / 1000,
+    end: row.end_ms / 1000,
+    text: row.text,
+    words: row.words?.map(word => ({
+      text: word.text,
+      start: word.start_ms / 1000,
+      end: word.end_ms / 1000,
+      confidence: word.confidence,
+    })),
+  }));
+}
@@ -0,0 +1,113 @@
+import type { TranscriptionJob } from "@shared/schema";
+import { storage } from "./storage";
+import { loadStoredAudio } from "./audio-storage";
+import { transcribeForOrg, resolveTranscriptionLanguage } from "./transcription";
+import { withinUsageQuota } from "./usage";
+import { toSegmentRows } from "./transcript-segments";
+
+const POLL_INTERVAL_MS = 5000;
+// First retry after 30s, then 1, 2, 4 minutes
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// A job still "running" after this long lost its worker (restart, crash) and is picked up again
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+function retryDelayMs(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0);
+}
+
+/**
+ * Transcribe one claimed job. Returns an error message for a failure that
+ * retrying can't fix (note or recording gone); provider errors are thrown so
+ * the job is retried.
+ */
+async function runJob(job: TranscriptionJob): Promise<string | null> {
+  const note = await storage.getVisitNote(job.noteid);
+  if (!note) return 'Note no longer exists';
+
+  const audio = await loadStoredAudio(note);
+  if (!audio || audio.length === 0) return 'Recording not found in storage';
+
+  const visit = await storage.getVisit(note.visitid);
+  const patient = visit ? await storage.getPatient(visit.patientid) : undefined;
+
+  // The quota won't free up before the month ends, so retrying is pointless
+  if (!await withinUsageQuota(patient?.orgid, 'audio_minutes')) return 'Monthly transcription limit reached';
+
+  console.log(`Transcription job ${job.job_id} attempt ${job.attempts}: note ${note.noteid}, ${audio.length} bytes`);
+  // Notes saved before languages were recorded use the requester's default
+  const language = await resolveTranscriptionLanguage(note.transcription_language, job.requested_by_empid, patient?.orgid);
+  const result = await transcribeForOrg(
+    { orgid: patient?.orgid, empid: job.requested_by_empid },
+    'note_transcription',
+    audio,
+    note.audio_mimetype || 'audio/wav',
+    language
+  );
+  if ('error' in result) {
+    throw new Error(result.details ? `${result.error}: ${result.details}` : result.error);
+  }
+
+  const completed = await storage.completeTranscriptionJob(job.job_id, {
+    text: result.text,
+    segments: toSegmentRows(result.segments ?? []),
+    language: result.language ?? null,
+  });
+  console.log(`Transcription job ${job.job_id} done: ${result.text.length} characters${completed?.text_applied ? '' : ', kept clinician text'}`);
+  return null;
+}
+
+async function processJob(job: TranscriptionJob): Promise<void> {
+  let error: string | null;
+  let retryable = false;
+  try {
+    error = await runJob(job);
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+    retryable = true;
+  }
+  if (!error) return;
+
+  const giveUp = !retryable || job.attempts >= job.max_attempts;
+  console.error(`Transcription job ${job.job_id} attempt ${job.attempts} failed${giveUp ? '' : ', will retry'}:`, error);
+  await storage.updateTranscriptionJob(job.job_id, giveUp
+    ? { status: 'failed', last_error: error, completed_at: new Date() }
+    : { status: 'queued', last_error: error, run_after: new Date(Date.now() + retryDelayMs(job.attempts)) });
+}
+
+let polling = false;
+let timer: NodeJS.Timeout | null = null;
+
+// Work through every due job, one at a time; overlapping calls are no-ops
+async function drainQueue(): Promise<void> {
+  if (polling) return;
+  polling = true;
+  try {
+    let job: TranscriptionJob | undefined;
+    while ((job = await storage.claimNextTranscriptionJob(new Date(Date.now() - STALE_JOB_MS)))) {
+      await processJob(job);
+    }
+  } catch (error) {
+    console.error('Transcription worker error:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Poll the transcription_jobs table in the background. Jobs live in the
+ * database, so anything queued or interrupted before a restart is picked up
+ * when the server comes back.
+ */
+export function startTranscriptionWorker(): void {
+  if (timer) return;
+  timer = setInterval(() => void drainQueue(), POLL_INTERVAL_MS);
+  timer.unref();
+  void drainQueue();
+}
+
+// Queue a note's recording for transcription and start on it straight away
+export async function queueTranscription(noteid: string, requestedByEmpid: string): Promise<TranscriptionJob> {
+  const job = await storage.createTranscriptionJob({ noteid, requested_by_empid: requestedByEmpid });
+  void drainQueue();
+  return job;
+}
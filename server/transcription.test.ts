@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getTranscriptionProvider, transcribeForOrg } from "./transcription";
+
+// No organization, so there is no quota, vocabulary or usage ledger to look up
+const actor = { orgid: null, empid: null };
+
+// About ten seconds of audio as the fake provider measures it: two sentences
+const tenSeconds = Buffer.alloc(160000, 1);
+
+test('the fake provider is the server default under test', () => {
+  assert.equal(getTranscriptionProvider().name, 'fake');
+});
+
+test('transcribeForOrg returns the canned dictation with segments and words', async () => {
+  const result = await transcribeForOrg(actor, 'dictation', tenSeconds, 'audio/webm');
+  assert.ok(!('error' in result), 'expected a transcript');
+
+  assert.equal(result.text, 'Patient presents for follow-up of hypertension. Reports taking medications as prescribed with no side effects.');
+  assert.equal(result.duration, 10);
+  assert.equal(result.language, 'en-US');
+  assert.deepEqual(result.segments?.map(segment => segment.speaker), [0, 1]);
+  assert.equal(result.segments?.[0].words?.[0].text, 'Patient');
+});
+
+test('transcribeForOrg gives the same transcript for the same recording', async () => {
+  const first = await transcribeForOrg(actor, 'dictation', tenSeconds, 'audio/webm');
+  const second = await transcribeForOrg(actor, 'dictation', tenSeconds, 'audio/webm');
+  assert.deepEqual(first, second);
+});
+
+test('transcribeForOrg reports detected English when asked to detect the language', async () => {
+  const result = await transcribeForOrg(actor, 'dictation', tenSeconds, 'audio/webm', 'auto');
+  assert.ok(!('error' in result), 'expected a transcript');
+  assert.equal(result.language, 'en');
+});
+
+test('transcribeForOrg returns an error for empty audio', async () => {
+  const result = await transcribeForOrg(actor, 'dictation', Buffer.alloc(0), 'audio/webm');
+  assert.deepEqual(result, { error: 'No audio data provided', details: 'Audio buffer is empty' });
+});
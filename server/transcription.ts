@@ -1,9 +1,37 @@
-import { createClient } from "@deepgram/sdk";
+import { createClient, LiveTranscriptionEvents, type LiveTranscriptionEvent } from "@deepgram/sdk";
+import {
+  TRANSCRIPTION_LANGUAGES,
+  DEFAULT_TRANSCRIPTION_LANGUAGE,
+  isTranscriptionLanguage,
+  type TranscriptionLanguage,
+  type TranscriptSegment,
+  type TranscriptWord,
+  type UsageFeature,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { loadOrgVocabulary, applyTranscriptReplacements } from "./vocabulary";
+import { withinUsageQuota, recordUsage, USAGE_LIMIT_MESSAGES, type UsageActor } from "./usage";
+
+export const TRANSCRIPTION_PROVIDERS = ['deepgram', 'fake'] as const;
+export type TranscriptionProviderName = typeof TRANSCRIPTION_PROVIDERS[number];
 
 export interface TranscriptionResult {
   text: string;
   confidence: number;
   duration?: number;
+  segments?: TranscriptSegment[]; // Speaker turns, when the provider diarized the recording
+  language?: string; // Language heard - detected, or the one requested
+}
+
+// A word or phrase the provider should favour; boost is the intensifier (1-10)
+export interface KeywordBoost {
+  term: string;
+  boost: number;
+}
+
+export interface TranscriptionOptions {
+  keywords?: KeywordBoost[];
+  language?: TranscriptionLanguage; // Defaults to en-US; 'auto' detects it
 }
 
 export interface TranscriptionError {
@@ -11,7 +39,92 @@ export interface TranscriptionError {
   details: string;
 }
 
-class DeepgramTranscriptionService {
+// A piece of live transcript. Interim segments are replaced by later ones for the
+// same audio; a final segment is settled and can be appended to the note.
+export interface LiveTranscriptSegment {
+  text: string;
+  is_final: boolean;
+  start: number; // Seconds from the start of the stream
+  duration: number;
+  confidence: number;
+}
+
+export interface LiveTranscriptionHandlers {
+  onSegment: (segment: LiveTranscriptSegment) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+export interface LiveTranscriptionSession {
+  send: (chunk: Buffer) => void;
+  finish: () => void; // Flush remaining audio; onClose follows once the provider is done
+}
+
+// What a provider can do, so callers can offer or hide features per org
+export interface TranscriptionCapabilities {
+  streaming: boolean;
+  diarization: boolean;
+  languageDetection: boolean;
+  keywordBoosting: boolean;
+  languages: string[]; // BCP-47 codes the provider accepts
+}
+
+/**
+ * A speech-to-text backend. Batch transcription is required; streaming is optional
+ * and createLiveSession returns null when the provider can't stream right now
+ * (e.g. not configured), so the caller falls back to batch.
+ */
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName;
+  readonly capabilities: TranscriptionCapabilities;
+  isAvailable(): boolean;
+  transcribeAudio(audioBuffer: Buffer, mimeType: string, options?: TranscriptionOptions): Promise<TranscriptionResult | TranscriptionError>;
+  createLiveSession?(handlers: LiveTranscriptionHandlers, options?: TranscriptionOptions): LiveTranscriptionSession | null;
+}
+
+// Deepgram accepts at most 100 keywords per request; the strongest boosts are kept
+const DEEPGRAM_MAX_KEYWORDS = 100;
+
+interface DeepgramLanguageSettings {
+  model: string;
+  language?: string;
+  detect_language?: boolean;
+  streaming: boolean; // Whether live captions work with these settings
+  keywords: boolean; // Whether the model takes keyword boosts
+}
+
+// Most languages use nova-2. Code-mixed speech needs nova-3's multilingual mode,
+// Marathi is only available on Deepgram's hosted Whisper, and detection needs the whole recording.
+function deepgramLanguageSettings(language: TranscriptionLanguage = DEFAULT_TRANSCRIPTION_LANGUAGE): DeepgramLanguageSettings {
+  switch (language) {
+    case 'auto':
+      return { model: 'nova-2', detect_language: true, streaming: false, keywords: true };
+    case 'multi':
+      return { model: 'nova-3', language: 'multi', streaming: true, keywords: false };
+    case 'mr':
+      return { model: 'whisper-large', language: 'mr', streaming: false, keywords: false };
+    default:
+      return { model: 'nova-2', language, streaming: true, keywords: true };
+  }
+}
+
+function deepgramKeywords(keywords: KeywordBoost[] | undefined): string[] | undefined {
+  if (!keywords?.length) return undefined;
+  return [...keywords]
+    .sort((a, b) => b.boost - a.boost)
+    .slice(0, DEEPGRAM_MAX_KEYWORDS)
+    .map(keyword => `${keyword.term}:${keyword.boost}`);
+}
+
+class DeepgramTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'deepgram' as const;
+  readonly capabilities: TranscriptionCapabilities = {
+    streaming: true,
+    diarization: true,
+    languageDetection: true,
+    keywordBoosting: true,
+    languages: Object.keys(TRANSCRIPTION_LANGUAGES).filter(code => code !== 'auto'),
+  };
   private deepgram: ReturnType<typeof createClient> | null = null;
 
   constructor() {
@@ -24,7 +137,7 @@ class DeepgramTranscriptionService {
     }
   }
 
-  async transcribeAudio(audioBuffer: Buffer, mimeType: string): Promise<TranscriptionResult | TranscriptionError> {
+  async transcribeAudio(audioBuffer: Buffer, mimeType: string, options?: TranscriptionOptions): Promise<TranscriptionResult | TranscriptionError> {
     try {
       if (!audioBuffer || audioBuffer.length === 0) {
         return {
@@ -40,17 +153,21 @@ class DeepgramTranscriptionService {
         };
       }
 
+      const settings = deepgramLanguageSettings(options?.language);
       console.log('Processing audio transcription with Deepgram');
-      console.log('Audio buffer size:', audioBuffer.length, 'bytes, MIME type:', mimeType);
+      console.log('Audio buffer size:', audioBuffer.length, 'bytes, MIME type:', mimeType, 'language:', options?.language || DEFAULT_TRANSCRIPTION_LANGUAGE);
       
       const { result, error } = await this.deepgram.listen.prerecorded.transcribeFile(
         audioBuffer,
         {
-          model: "nova-2",
+          model: settings.model,
           smart_format: true,
           punctuate: true,
-          diarize: false,
-          language: "en-US"
+          diarize: true,
+          utterances: true, // Speaker turns, returned alongside the full transcript
+          language: settings.language,
+          detect_language: settings.detect_language,
+          keywords: settings.keywords ? deepgramKeywords(options?.keywords) : undefined
         }
       );
 
@@ -69,18 +186,39 @@ class DeepgramTranscriptionService {
         };
       }
 
-      const transcript = result.results.channels[0].alternatives[0].transcript;
-      const confidence = result.results.channels[0].alternatives[0].confidence || 0;
+      const channel = result.results.channels[0];
+      const transcript = channel.alternatives[0].transcript;
+      const confidence = channel.alternatives[0].confidence || 0;
+      // Detection reports one language; multilingual mode lists what it heard, most used first
+      const language = channel.detected_language
+        || channel.alternatives[0].languages?.[0]
+        || settings.language;
       const duration = result.metadata?.duration;
+      const segments: TranscriptSegment[] = (result.results.utterances || []).map(utterance => ({
+        speaker: typeof utterance.speaker === 'number' ? utterance.speaker : null,
+        start: utterance.start,
+        end: utterance.end,
+        text: utterance.transcript,
+        words: utterance.words?.map(word => ({
+          text: word.punctuated_word || word.word,
+          start: word.start,
+          end: word.end,
+          confidence: word.confidence
+        }))
+      }));
 
       console.log('Deepgram transcription completed successfully');
       console.log('Transcript length:', transcript.length, 'characters');
       console.log('Confidence:', confidence);
+      console.log('Speaker turns:', segments.length);
+      console.log('Language:', language);
       
       return {
         text: transcript,
         confidence: confidence,
-        duration: duration
+        duration: duration,
+        segments: segments.length > 0 ? segments : undefined,
+        language
       };
 
     } catch (error) {
@@ -93,14 +231,290 @@ class DeepgramTranscriptionService {
     }
   }
 
-  async isServiceAvailable(): Promise<boolean> {
-    try {
-      return !!this.deepgram;
-    } catch (error) {
-      console.error('Deepgram service check failed:', error);
-      return false;
+  /**
+   * Open a streaming session for audio sent in chunks while recording (MediaRecorder
+   * webm/ogg chunks work as-is). Returns null when Deepgram isn't configured, or the
+   * language can't be streamed (detection, Marathi), so the caller can fall back to
+   * transcribing the finished recording.
+   */
+  createLiveSession(handlers: LiveTranscriptionHandlers, options?: TranscriptionOptions): LiveTranscriptionSession | null {
+    const settings = deepgramLanguageSettings(options?.language);
+    if (!this.deepgram || !settings.streaming) {
+      return null;
     }
+
+    const connection = this.deepgram.listen.live({
+      model: settings.model,
+      smart_format: true,
+      punctuate: true,
+      interim_results: true,
+      language: settings.language,
+      keywords: settings.keywords ? deepgramKeywords(options?.keywords) : undefined
+    });
+
+    // Chunks that arrive before the socket opens are held and sent on open
+    let isOpen = false;
+    let finishRequested = false;
+    const pending: Buffer[] = [];
+    const sendChunk = (chunk: Buffer) => {
+      connection.send(chunk.buffer.slice(chunk.byteOffset, chunk.byteOffset + chunk.byteLength));
+    };
+
+    connection.on(LiveTranscriptionEvents.Open, () => {
+      isOpen = true;
+      pending.splice(0).forEach(sendChunk);
+      if (finishRequested) {
+        connection.requestClose();
+      }
+    });
+
+    connection.on(LiveTranscriptionEvents.Transcript, (event: LiveTranscriptionEvent) => {
+      const alternative = event.channel?.alternatives?.[0];
+      if (!alternative?.transcript) return;
+      handlers.onSegment({
+        text: alternative.transcript,
+        is_final: !!event.is_final,
+        start: event.start,
+        duration: event.duration,
+        confidence: alternative.confidence || 0
+      });
+    });
+
+    connection.on(LiveTranscriptionEvents.Error, (error: any) => {
+      console.error('Deepgram live transcription error:', error);
+      handlers.onError(error?.message || 'Live transcription failed');
+    });
+
+    connection.on(LiveTranscriptionEvents.Close, () => {
+      handlers.onClose();
+    });
+
+    return {
+      send: (chunk: Buffer) => {
+        if (isOpen) {
+          sendChunk(chunk);
+        } else {
+          pending.push(chunk);
+        }
+      },
+      finish: () => {
+        finishRequested = true;
+        if (isOpen) {
+          connection.requestClose();
+        }
+      }
+    };
+  }
+
+  isAvailable(): boolean {
+    return !!this.deepgram;
   }
 }
 
-export const transcriptionService = new DeepgramTranscriptionService();
\ No newline at end of file
+// Canned dictation returned by the fake provider, one sentence per ~5 seconds of audio
+const FAKE_SENTENCES = [
+  'Patient presents for follow-up of hypertension.',
+  'Reports taking medications as prescribed with no side effects.',
+  'Denies chest pain, shortness of breath or palpitations.',
+  'Blood pressure today is 128 over 82.',
+  'Lungs are clear to auscultation bilaterally.',
+  'Continue current regimen and return in three months.',
+];
+const FAKE_BYTES_PER_SECOND = 16000; // About what MediaRecorder produces for speech
+const FAKE_SECONDS_PER_SENTENCE = 5;
+const FAKE_CONFIDENCE = 0.99;
+const FAKE_NUMBER_CONFIDENCE = 0.62; // Numbers come back "unsure" so low-confidence flags can be exercised
+
+// Spread a sentence's words evenly over its time slot
+function fakeWords(sentence: string, start: number, end: number): TranscriptWord[] {
+  const words = sentence.split(' ');
+  const step = (end - start) / words.length;
+  return words.map((word, index) => ({
+    text: word,
+    start: start + index * step,
+    end: start + (index + 1) * step,
+    confidence: /\d/.test(word) ? FAKE_NUMBER_CONFIDENCE : FAKE_CONFIDENCE
+  }));
+}
+
+/**
+ * Offline provider for development and integration tests. The transcript depends
+ * only on the size of the audio, so the same recording always gives the same text,
+ * and nothing leaves the machine.
+ */
+class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'fake' as const;
+  readonly capabilities: TranscriptionCapabilities = {
+    streaming: true,
+    diarization: true,
+    languageDetection: false,
+    keywordBoosting: false,
+    languages: ['en-US'],
+  };
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  private sentenceCount(byteLength: number): number {
+    const seconds = byteLength / FAKE_BYTES_PER_SECOND;
+    return Math.min(FAKE_SENTENCES.length, Math.max(1, Math.ceil(seconds / FAKE_SECONDS_PER_SENTENCE)));
+  }
+
+  async transcribeAudio(audioBuffer: Buffer, mimeType: string, options?: TranscriptionOptions): Promise<TranscriptionResult | TranscriptionError> {
+    if (!audioBuffer || audioBuffer.length === 0) {
+      return {
+        error: "No audio data provided",
+        details: "Audio buffer is empty"
+      };
+    }
+
+    // Two speakers taking turns, one sentence each
+    const sentences = FAKE_SENTENCES.slice(0, this.sentenceCount(audioBuffer.length));
+    return {
+      text: sentences.join(' '),
+      confidence: FAKE_CONFIDENCE,
+      duration: audioBuffer.length / FAKE_BYTES_PER_SECOND,
+      // The canned text is English whatever was asked for, which is what detection would find
+      language: options?.language === 'auto' || options?.language === 'multi' ? 'en' : options?.language || DEFAULT_TRANSCRIPTION_LANGUAGE,
+      segments: sentences.map((sentence, index) => {
+        const start = index * FAKE_SECONDS_PER_SENTENCE;
+        const end = (index + 1) * FAKE_SECONDS_PER_SENTENCE;
+        return { speaker: index % 2, start, end, text: sentence, words: fakeWords(sentence, start, end) };
+      })
+    };
+  }
+
+  // Emits an interim segment per chunk and a final one each time a sentence's worth of audio has arrived
+  createLiveSession(handlers: LiveTranscriptionHandlers): LiveTranscriptionSession {
+    const bytesPerSentence = FAKE_BYTES_PER_SECOND * FAKE_SECONDS_PER_SENTENCE;
+    let receivedBytes = 0;
+    let finalized = 0;
+    let isFinished = false;
+
+    const emitFinal = () => {
+      const sentence = FAKE_SENTENCES[finalized % FAKE_SENTENCES.length];
+      handlers.onSegment({
+        text: sentence,
+        is_final: true,
+        start: finalized * FAKE_SECONDS_PER_SENTENCE,
+        duration: FAKE_SECONDS_PER_SENTENCE,
+        confidence: FAKE_CONFIDENCE
+      });
+      finalized++;
+    };
+
+    return {
+      send: (chunk: Buffer) => {
+        if (isFinished) return;
+        receivedBytes += chunk.length;
+        while (receivedBytes >= (finalized + 1) * bytesPerSentence) {
+          emitFinal();
+        }
+
+        const progress = (receivedBytes - finalized * bytesPerSentence) / bytesPerSentence;
+        const words = FAKE_SENTENCES[finalized % FAKE_SENTENCES.length].split(' ');
+        const spoken = words.slice(0, Math.ceil(progress * words.length)).join(' ');
+        if (spoken) {
+          handlers.onSegment({
+            text: spoken,
+            is_final: false,
+            start: finalized * FAKE_SECONDS_PER_SENTENCE,
+            duration: progress * FAKE_SECONDS_PER_SENTENCE,
+            confidence: FAKE_CONFIDENCE
+          });
+        }
+      },
+      finish: () => {
+        if (isFinished) return;
+        isFinished = true;
+        // Whatever is left of the current sentence is settled on stop
+        if (receivedBytes > finalized * bytesPerSentence) {
+          emitFinal();
+        }
+        setImmediate(handlers.onClose);
+      }
+    };
+  }
+}
+
+const providers: Partial<Record<TranscriptionProviderName, TranscriptionProvider>> = {};
+
+export function isTranscriptionProviderName(value: unknown): value is TranscriptionProviderName {
+  return typeof value === 'string' && (TRANSCRIPTION_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Provider by name, or the server default from TRANSCRIPTION_PROVIDER
+ * (deepgram | fake; default deepgram). Instances are created once and reused.
+ */
+export function getTranscriptionProvider(name?: TranscriptionProviderName | null): TranscriptionProvider {
+  const providerName = name || process.env.TRANSCRIPTION_PROVIDER || 'deepgram';
+  if (!isTranscriptionProviderName(providerName)) {
+    throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${providerName}". Expected one of: ${TRANSCRIPTION_PROVIDERS.join(', ')}`);
+  }
+
+  if (!providers[providerName]) {
+    switch (providerName) {
+      case 'deepgram':
+        providers[providerName] = new DeepgramTranscriptionProvider();
+        break;
+      case 'fake':
+        providers[providerName] = new FakeTranscriptionProvider();
+        break;
+    }
+  }
+  return providers[providerName]!;
+}
+
+// Provider chosen for an organization (orgs.transcription_provider), falling back to the server default
+export async function getTranscriptionProviderForOrg(orgid: string | null | undefined): Promise<TranscriptionProvider> {
+  const org = orgid ? await storage.getOrg(orgid) : undefined;
+  const configured = org?.transcription_provider;
+  return getTranscriptionProvider(isTranscriptionProviderName(configured) ? configured : null);
+}
+
+/**
+ * Transcribe a recording for an organization: its provider, its vocabulary as
+ * keyword boosts, and its replacement dictionary applied to the result. The audio
+ * is metered against the org's monthly quota and refused once the hard limit is hit.
+ */
+export async function transcribeForOrg(
+  actor: UsageActor,
+  feature: UsageFeature,
+  audioBuffer: Buffer,
+  mimeType: string,
+  language?: TranscriptionLanguage
+): Promise<TranscriptionResult | TranscriptionError> {
+  const { orgid } = actor;
+  if (!await withinUsageQuota(orgid, 'audio_minutes')) {
+    return { error: "Monthly transcription limit reached", details: USAGE_LIMIT_MESSAGES.audio_minutes };
+  }
+
+  const [provider, vocabulary] = await Promise.all([
+    getTranscriptionProviderForOrg(orgid),
+    loadOrgVocabulary(orgid)
+  ]);
+  const result = await provider.transcribeAudio(audioBuffer, mimeType, { keywords: vocabulary.keywords, language });
+  if ('error' in result) return result;
+
+  await recordUsage(actor, { feature, provider: provider.name, audioSeconds: result.duration ?? 0 });
+  return applyTranscriptReplacements(result, vocabulary.replacements);
+}
+
+/**
+ * Language to transcribe in: the one asked for if valid, else the employee's
+ * preference, else the org default, else en-US.
+ */
+export async function resolveTranscriptionLanguage(
+  requested: unknown,
+  empid: string | null | undefined,
+  orgid: string | null | undefined
+): Promise<TranscriptionLanguage> {
+  if (isTranscriptionLanguage(requested)) return requested;
+  const employee = empid ? await storage.getEmployee(empid) : undefined;
+  if (isTranscriptionLanguage(employee?.preferred_language)) return employee.preferred_language;
+  const org = orgid ? await storage.getOrg(orgid) : undefined;
+  if (isTranscriptionLanguage(org?.default_language)) return org.default_language;
+  return DEFAULT_TRANSCRIPTION_LANGUAGE;
+}
@@ -0,0 +1,136 @@
+import {
+  USAGE_FEATURES,
+  USAGE_METRICS,
+  type UsageFeature,
+  type UsageMetric,
+  type UsageQuotaStatus,
+  type UsageSummaryRow,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Who a metered call is made for
+export interface UsageActor {
+  orgid: string | null | undefined;
+  empid: string | null | undefined;
+}
+
+export interface UsageEntry {
+  feature: UsageFeature;
+  provider: string;
+  model?: string | null;
+  audioSeconds?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+// Quotas run by calendar month in UTC, like the ledger's monthly totals
+export function startOfUsageMonth(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+// A metric's total over ledger rows, in the metric's unit
+export function usageAmount(metric: UsageMetric, rows: UsageSummaryRow[]): number {
+  switch (metric) {
+    case 'audio_minutes':
+      return rows.reduce((total, row) => total + row.audio_seconds, 0) / 60;
+    case 'llm_tokens':
+      return rows.reduce((total, row) => total + row.prompt_tokens + row.completion_tokens, 0);
+  }
+}
+
+export interface UsageTotals {
+  audio_minutes: number;
+  llm_tokens: number;
+}
+
+export const usageTotals = (rows: UsageSummaryRow[]): UsageTotals => ({
+  audio_minutes: usageAmount('audio_minutes', rows),
+  llm_tokens: usageAmount('llm_tokens', rows),
+});
+
+// The last count months as "YYYY-MM", oldest first, ending with this one
+export function recentUsageMonths(count: number): string[] {
+  const start = startOfUsageMonth();
+  return Array.from({ length: count }, (_, index) => {
+    const month = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - (count - 1 - index), 1));
+    return month.toISOString().slice(0, 7);
+  });
+}
+
+// Totals for each of the months, including months with no usage, for charting
+export function monthlyUsageTotals(rows: UsageSummaryRow[], months: string[]): (UsageTotals & { month: string })[] {
+  return months.map(month => ({ month, ...usageTotals(rows.filter(row => row.month === month)) }));
+}
+
+// Totals per feature in USAGE_FEATURES order, leaving out features that weren't used
+export function featureUsageTotals(rows: UsageSummaryRow[]): (UsageTotals & { feature: UsageFeature })[] {
+  return USAGE_FEATURES
+    .filter(feature => rows.some(row => row.feature === feature))
+    .map(feature => ({ feature, ...usageTotals(rows.filter(row => row.feature === feature)) }));
+}
+
+function quotaStatus(used: number, softLimit: number | null, hardLimit: number | null): UsageQuotaStatus['status'] {
+  if (hardLimit !== null && used >= hardLimit) return 'hard_limit';
+  if (softLimit !== null && used >= softLimit) return 'soft_limit';
+  return 'ok';
+}
+
+// This month's use of every metric against the org's quotas
+export async function getUsageQuotaStatuses(orgid: string): Promise<UsageQuotaStatus[]> {
+  const [rows, quotas] = await Promise.all([
+    storage.getUsageSummary({ orgid, since: startOfUsageMonth() }),
+    storage.getUsageQuotas(orgid)
+  ]);
+  return USAGE_METRICS.map(metric => {
+    const quota = quotas.find(q => q.metric === metric);
+    const used = usageAmount(metric, rows);
+    const softLimit = quota?.soft_limit ?? null;
+    const hardLimit = quota?.hard_limit ?? null;
+    return { metric, used, soft_limit: softLimit, hard_limit: hardLimit, status: quotaStatus(used, softLimit, hardLimit) };
+  });
+}
+
+export const USAGE_LIMIT_MESSAGES: Record<UsageMetric, string> = {
+  audio_minutes: 'This organization has reached its monthly transcription limit',
+  llm_tokens: 'This organization has reached its monthly AI usage limit',
+};
+
+/**
+ * Whether an org may make another call that uses the metric: false once the month's
+ * hard limit is reached. Past the soft limit calls go ahead and a warning is logged.
+ * Calls made outside any org aren't limited.
+ */
+export async function withinUsageQuota(orgid: string | null | undefined, metric: UsageMetric): Promise<boolean> {
+  if (!orgid) return true;
+  const status = (await getUsageQuotaStatuses(orgid)).find(s => s.metric === metric)!;
+  if (status.status === 'soft_limit') {
+    console.warn(`Org ${orgid} is past its ${metric} soft limit: ${Math.round(status.used)} of ${status.soft_limit}`);
+  }
+  return status.status !== 'hard_limit';
+}
+
+/**
+ * Add a provider call to the usage ledger. Like audit writes, failures are logged
+ * and never thrown, so metering can't break the call it describes.
+ */
+export async function recordUsage(actor: UsageActor, entry: UsageEntry): Promise<void> {
+  if (!actor.orgid) {
+    console.warn(`Usage not recorded for ${entry.feature}: no organization`);
+    return;
+  }
+
+  try {
+    await storage.createUsageRecord({
+      orgid: actor.orgid,
+      empid: actor.empid ?? null,
+      feature: entry.feature,
+      provider: entry.provider,
+      model: entry.model ?? null,
+      audio_seconds: Math.ceil(entry.audioSeconds ?? 0),
+      prompt_tokens: entry.promptTokens ?? 0,
+      completion_tokens: entry.completionTokens ?? 0,
+    });
+  } catch (error) {
+    console.error(`Usage write failed for ${entry.feature}:`, error);
+  }
+}
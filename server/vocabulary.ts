@@ -0,0 +1,112 @@
+import type { OrgTranscriptReplacement, TranscriptSegment, TranscriptWord } from "@shared/schema";
+import { storage } from "./storage";
+import type { KeywordBoost, TranscriptionResult } from "./transcription";
+
+export interface OrgVocabulary {
+  keywords: KeywordBoost[];
+  replacements: OrgTranscriptReplacement[];
+}
+
+// Letters and digits; anything else (spaces, punctuation) can border a match
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface CompiledReplacement {
+  pattern: RegExp;
+  replaceText: string;
+  wordCount: number; // Words in find_text, to match the same number of transcript words
+}
+
+/**
+ * Whole-word, whitespace-tolerant matcher for each replacement. Longer phrases
+ * go first so "met for min" is fixed before a rule for "met" can split it up.
+ */
+function compileReplacements(replacements: OrgTranscriptReplacement[]): CompiledReplacement[] {
+  return [...replacements]
+    .sort((a, b) => b.find_text.length - a.find_text.length)
+    .map(replacement => {
+      const words = replacement.find_text.trim().split(/\s+/);
+      const source = words.map(escapeRegExp).join('\\s+');
+      return {
+        pattern: new RegExp(`(?<!${WORD_CHAR})${source}(?!${WORD_CHAR})`, replacement.case_sensitive ? 'gu' : 'giu'),
+        replaceText: replacement.replace_text,
+        wordCount: words.length,
+      };
+    });
+}
+
+function replaceIn(text: string, rules: CompiledReplacement[]): string {
+  return rules.reduce((current, rule) => current.replace(rule.pattern, (match) => {
+    // Keep a sentence-initial capital: "Met for min" -> "Metformin", but not for acronyms ("BP")
+    const first = rule.replaceText.charAt(0);
+    const capitalized = match.charAt(0) !== match.charAt(0).toLowerCase() && match !== match.toUpperCase();
+    if (capitalized && first === first.toLowerCase()) {
+      return first.toUpperCase() + rule.replaceText.slice(1);
+    }
+    return rule.replaceText;
+  }), text);
+}
+
+// Fix words in place, merging a multi-word match into one word spanning the same audio
+function replaceInWords(words: TranscriptWord[], rules: CompiledReplacement[]): TranscriptWord[] {
+  let current = words;
+  for (const rule of rules) {
+    const next: TranscriptWord[] = [];
+    for (let i = 0; i < current.length; i++) {
+      const span = current.slice(i, i + rule.wordCount);
+      if (span.length === rule.wordCount) {
+        const joined = span.map(word => word.text).join(' ');
+        const replaced = replaceIn(joined, [rule]);
+        if (replaced !== joined) {
+          next.push({
+            text: replaced,
+            start: span[0].start,
+            end: span[span.length - 1].end,
+            confidence: Math.min(...span.map(word => word.confidence)),
+          });
+          i += rule.wordCount - 1;
+          continue;
+        }
+      }
+      next.push(current[i]);
+    }
+    current = next;
+  }
+  // A rule that replaces with nothing drops the word
+  return current.filter(word => word.text.trim());
+}
+
+// Apply the org's replacement dictionary to a single piece of text (live captions)
+export function replaceTranscriptText(text: string, replacements: OrgTranscriptReplacement[]): string {
+  if (replacements.length === 0) return text;
+  return replaceIn(text, compileReplacements(replacements));
+}
+
+// Apply the org's replacement dictionary to a finished transcript, its speaker turns and word timings
+export function applyTranscriptReplacements(result: TranscriptionResult, replacements: OrgTranscriptReplacement[]): TranscriptionResult {
+  if (replacements.length === 0) return result;
+  const rules = compileReplacements(replacements);
+  return {
+    ...result,
+    text: replaceIn(result.text, rules),
+    segments: result.segments?.map((segment): TranscriptSegment => ({
+      ...segment,
+      text: replaceIn(segment.text, rules),
+      words: segment.words && replaceInWords(segment.words, rules),
+    })),
+  };
+}
+
+// Keyword boosts and replacements for an organization; empty when there is no org
+export async function loadOrgVocabulary(orgid: string | null | undefined): Promise<OrgVocabulary> {
+  if (!orgid) return { keywords: [], replacements: [] };
+  const [terms, replacements] = await Promise.all([
+    storage.getOrgVocabularyTerms(orgid),
+    storage.getOrgTranscriptReplacements(orgid),
+  ]);
+  return {
+    keywords: terms.map(term => ({ term: term.term, boost: term.boost })),
+    replacements,
+  };
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, uuid, date, timestamp, boolean, integer, index, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, uuid, date, timestamp, boolean, integer, index, unique, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,6 +7,58 @@ import { z } from "zod";
 export const EMPLOYEE_ROLES = ['super_admin', 'org_admin', 'doctor', 'staff'] as const;
 export type EmployeeRole = typeof EMPLOYEE_ROLES[number];
 
+// Languages a recording can be transcribed in; 'auto' lets the provider detect it.
+// 'multi' is code-mixed speech such as Hinglish (Hindi and English in one sentence).
+export const TRANSCRIPTION_LANGUAGES = {
+  'auto': 'Detect automatically',
+  'en-US': 'English (US)',
+  'en-GB': 'English (UK)',
+  'en-IN': 'English (India)',
+  'hi': 'Hindi',
+  'mr': 'Marathi',
+  'multi': 'Hinglish / code-mixed',
+  'es': 'Spanish',
+  'fr': 'French',
+  'de': 'German',
+  'pt': 'Portuguese',
+} as const;
+export type TranscriptionLanguage = keyof typeof TRANSCRIPTION_LANGUAGES;
+export const DEFAULT_TRANSCRIPTION_LANGUAGE: TranscriptionLanguage = 'en-US';
+
+export function isTranscriptionLanguage(value: unknown): value is TranscriptionLanguage {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TRANSCRIPTION_LANGUAGES, value);
+}
+
+// Display name for a requested or detected language code (detected codes may be outside the list, e.g. "ta")
+export function languageLabel(code: string | null | undefined): string {
+  if (!code) return 'Unknown';
+  return isTranscriptionLanguage(code) ? TRANSCRIPTION_LANGUAGES[code] : code;
+}
+
+export function isEnglishLanguage(code: string | null | undefined): boolean {
+  return !code || code === 'en' || code.startsWith('en-');
+}
+
+// AI tasks that go to a language model; each can be given its own model per organization
+export const LLM_TASKS = ['format_note', 'translate', 'grounding_check', 'patient_summary', 'clinical_extraction'] as const;
+export type LlmTask = typeof LLM_TASKS[number];
+export const llmModelOverridesSchema = z.record(z.enum(LLM_TASKS), z.string().trim().min(1).max(100)); // Task -> model name
+export type LlmModelOverrides = z.infer<typeof llmModelOverridesSchema>;
+
+// Audit actions - "<resource>.<verb>", the resource part is stored as resource_type
+export const AUDIT_ACTIONS = [
+  'patient.list', 'patient.view', 'patient.create', 'patient.update', 'patient.delete',
+  'visit.list', 'visit.view', 'visit.create',
+  'note.list', 'note.view', 'note.create', 'note.update', 'note.history', 'note.restore', 'note.sign', 'note.addendum', 'note.cosign', 'note.speakers', 'note.transcribe',
+  'audio.download',
+  'document.list', 'document.view', 'document.upload', 'document.download', 'document.delete',
+  'export.pdf', 'export.backup',
+  'storage.migrate',
+  'clinical.extract', 'clinical.update', 'clinical.delete',
+  'impersonation.start', 'impersonation.end',
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
 // Organizations table - Enhanced with new fields
 export const orgs = pgTable("orgs", {
   orgid: uuid("orgid").primaryKey().default(sql`gen_random_uuid()`),
@@ -17,6 +69,11 @@ export const orgs = pgTable("orgs", {
   address: text("address"),
   phone: varchar("phone", { length: 20 }),
   mrn_sequence_current: integer("mrn_sequence_current").default(100001), // 6-digit MRN per org, starts at 100001
+  transcription_provider: varchar("transcription_provider", { length: 20 }), // deepgram, fake; NULL uses the server default
+  default_language: varchar("default_language", { length: 10 }), // Dictation language (TRANSCRIPTION_LANGUAGES); NULL is en-US
+  llm_provider: varchar("llm_provider", { length: 20 }), // openai, stub; NULL uses the server default
+  llm_models: jsonb("llm_models").$type<LlmModelOverrides>(), // Tasks not listed use the server default model
+  require_deidentification: boolean("require_deidentification").default(false), // Patient details are replaced with placeholders before text goes to an LLM
   is_active: boolean("is_active").default(true),
   created_at: timestamp("created_at").default(sql`now()`),
 });
@@ -32,6 +89,8 @@ export const employees = pgTable("employees", {
   title: varchar("title", { length: 100 }), // Doctor, Nurse, PA, Receptionist, etc.
   role: varchar("role", { length: 20 }).default("doctor"), // super_admin, org_admin, doctor, staff
   secondary_role: varchar("secondary_role", { length: 20 }), // Optional second role for dual-role users
+  cosigner_empid: uuid("cosigner_empid").references((): AnyPgColumn => employees.empid), // Supervising physician who must co-sign this employee's notes
+  preferred_language: varchar("preferred_language", { length: 10 }), // Dictation language; NULL uses the org default
   is_active: boolean("is_active").default(true),
   created_at: timestamp("created_at").default(sql`now()`),
 }, (table) => ({
@@ -73,25 +132,198 @@ export const visits = pgTable("visits", {
 export const visit_notes = pgTable("visit_notes", {
   noteid: uuid("noteid").primaryKey().default(sql`gen_random_uuid()`),
   visitid: uuid("visitid").references(() => visits.visitid).notNull(),
-  audio_file: text("audio_file"), // Base64 encoded audio data
+  audio_file: text("audio_file"), // Legacy base64 audio; new recordings go to object storage (audio_storage_key)
+  audio_storage_key: text("audio_storage_key"), // Path in object storage
+  audio_size_bytes: integer("audio_size_bytes"),
+  audio_sha256: varchar("audio_sha256", { length: 64 }), // SHA-256 hex of the stored bytes
   audio_filename: varchar("audio_filename", { length: 255 }),
   audio_mimetype: varchar("audio_mimetype", { length: 100 }), // Store original MIME type
   audio_duration_seconds: integer("audio_duration_seconds"),
   transcription_text: text("transcription_text"),
   is_transcription_edited: boolean("is_transcription_edited").default(false),
   ai_transcribed: boolean("ai_transcribed").default(false), // Track if transcription was AI-generated
+  transcription_language: varchar("transcription_language", { length: 10 }), // Language requested for the recording, or 'auto'
+  detected_language: varchar("detected_language", { length: 10 }), // Language the provider heard, e.g. "hi"
   // Device/Browser tracking fields
   session_id: varchar("session_id", { length: 100 }), // Unique session identifier
   device_type: varchar("device_type", { length: 20 }), // Mobile, Tablet, Desktop
   browser_name: varchar("browser_name", { length: 100 }), // Chrome, Safari, Firefox, etc.
   ip_address: varchar("ip_address", { length: 45 }), // IPv4 or IPv6 address
   user_agent: text("user_agent"), // Full user agent string
+  // Signature / attestation - once signed_at is set the note is locked and only addenda may follow
+  signed_at: timestamp("signed_at"),
+  signed_by_empid: uuid("signed_by_empid").references(() => employees.empid),
+  signature_name: varchar("signature_name", { length: 255 }), // Signer's name as printed at signing time
+  signature_title: varchar("signature_title", { length: 100 }), // Signer's title at signing time
+  signature_content_hash: varchar("signature_content_hash", { length: 64 }), // SHA-256 hex of the signed text
+  // Co-signature - set at signing when the signer requires supervision
+  cosign_status: varchar("cosign_status", { length: 20 }), // pending, approved, returned (null = not required)
+  cosigner_empid: uuid("cosigner_empid").references(() => employees.empid),
+  // Diarized recordings: speaker number (as a string) -> role, named by the clinician
+  speaker_roles: jsonb("speaker_roles").$type<SpeakerRoles>(),
   created_at: timestamp("created_at").default(sql`now()`),
   updated_at: timestamp("updated_at").default(sql`now()`),
 }, (table) => ({
   visitidIdx: index("visit_notes_visitid_idx").on(table.visitid),
 }));
 
+// Transcript segments - what each speaker said in a diarized recording, in order.
+// Kept as recorded; edits to the note text don't change them.
+export const note_transcript_segments = pgTable("note_transcript_segments", {
+  segment_id: uuid("segment_id").primaryKey().default(sql`gen_random_uuid()`),
+  noteid: uuid("noteid").references(() => visit_notes.noteid).notNull(),
+  segment_index: integer("segment_index").notNull(), // 0-based order within the recording
+  speaker: integer("speaker"), // Provider's speaker number; NULL when not diarized
+  start_ms: integer("start_ms").notNull(),
+  end_ms: integer("end_ms").notNull(),
+  text: text("text").notNull(),
+  words: jsonb("words").$type<StoredTranscriptWord[]>(), // Word timings and confidence, for playback sync
+}, (table) => ({
+  noteidIdx: index("note_transcript_segments_noteid_idx").on(table.noteid),
+  noteSegmentUnique: unique("note_transcript_segments_note_index_unique").on(table.noteid, table.segment_index),
+}));
+
+// Note sections - a note's text split at its "HEADING:" lines, rewritten whenever the text changes.
+// Lets a section (e.g. every ASSESSMENT for a patient) be queried, printed and compared on its own.
+export const note_sections = pgTable("note_sections", {
+  section_id: uuid("section_id").primaryKey().default(sql`gen_random_uuid()`),
+  noteid: uuid("noteid").references(() => visit_notes.noteid).notNull(),
+  section_index: integer("section_index").notNull(), // 0-based order within the note
+  section_key: varchar("section_key", { length: 100 }).notNull(), // Normalized heading, e.g. "history_of_present_illness"
+  heading: varchar("heading", { length: 100 }), // As written; NULL for text before the first heading
+  content: text("content").notNull(),
+}, (table) => ({
+  noteidIdx: index("note_sections_noteid_idx").on(table.noteid),
+  sectionKeyIdx: index("note_sections_section_key_idx").on(table.section_key),
+  noteSectionUnique: unique("note_sections_note_index_unique").on(table.noteid, table.section_index),
+}));
+
+// Key of the section holding text that comes before any heading (or a note with no headings)
+export const UNTITLED_SECTION_KEY = 'body';
+
+// A heading line is an ALL CAPS label and a colon with nothing after it, as templates and AI formatting write them;
+// "BP: 120/80" stays content
+const SECTION_HEADING = /^([A-Z][A-Z0-9 &/(),'+-]{0,98}[A-Z0-9)]|[A-Z]):\s*$/;
+
+export function noteSectionKey(heading: string): string {
+  return heading.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || UNTITLED_SECTION_KEY;
+}
+
+export type ParsedNoteSection = { section_key: string; heading: string | null; content: string };
+
+// Splits note text into its sections; blank text has none, text without headings is one untitled section
+export function parseNoteSections(text: string | null | undefined): ParsedNoteSection[] {
+  const sections: ParsedNoteSection[] = [];
+  let current: { heading: string | null; lines: string[] } = { heading: null, lines: [] };
+  const flush = () => {
+    const content = current.lines.join('\n').trim();
+    if (current.heading !== null || content) {
+      sections.push({
+        section_key: current.heading !== null ? noteSectionKey(current.heading) : UNTITLED_SECTION_KEY,
+        heading: current.heading,
+        content
+      });
+    }
+  };
+
+  for (const line of (text ?? '').split(/\r?\n/)) {
+    const match = SECTION_HEADING.exec(line.trim());
+    if (match) {
+      flush();
+      current = { heading: match[1], lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+export const SPEAKER_ROLES = ['doctor', 'patient', 'attendant', 'other'] as const;
+export type SpeakerRole = typeof SPEAKER_ROLES[number];
+export type SpeakerRoles = Record<string, SpeakerRole>;
+export const speakerRolesSchema = z.record(z.string().regex(/^\d+$/), z.enum(SPEAKER_ROLES));
+
+// A transcribed word as stored on its segment; confidence is the provider's 0-1 score
+export const storedTranscriptWordSchema = z.object({
+  text: z.string(),
+  start_ms: z.number().int().nonnegative(),
+  end_ms: z.number().int().nonnegative(),
+  confidence: z.number().min(0).max(1),
+});
+export type StoredTranscriptWord = z.infer<typeof storedTranscriptWordSchema>;
+
+// Visit note addenda - late additions to a signed note; the note itself stays unchanged
+export const visit_note_addenda = pgTable("visit_note_addenda", {
+  addendum_id: uuid("addendum_id").primaryKey().default(sql`gen_random_uuid()`),
+  noteid: uuid("noteid").references(() => visit_notes.noteid).notNull(),
+  author_empid: uuid("author_empid").references(() => employees.empid).notNull(),
+  addendum_text: text("addendum_text").notNull(),
+  audio_file: text("audio_file"), // Legacy base64 audio, same as visit_notes
+  audio_storage_key: text("audio_storage_key"),
+  audio_size_bytes: integer("audio_size_bytes"),
+  audio_sha256: varchar("audio_sha256", { length: 64 }),
+  audio_filename: varchar("audio_filename", { length: 255 }),
+  audio_mimetype: varchar("audio_mimetype", { length: 100 }),
+  audio_duration_seconds: integer("audio_duration_seconds"),
+  ai_transcribed: boolean("ai_transcribed").default(false),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  noteidIdx: index("visit_note_addenda_noteid_idx").on(table.noteid),
+}));
+
+// Transcription jobs - server-side transcription of a note's recording, run in the background.
+// A note can have several (re-runs); the newest one is its current status.
+export const transcription_jobs = pgTable("transcription_jobs", {
+  job_id: uuid("job_id").primaryKey().default(sql`gen_random_uuid()`),
+  noteid: uuid("noteid").references(() => visit_notes.noteid).notNull(),
+  requested_by_empid: uuid("requested_by_empid").references(() => employees.empid).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("queued"), // queued, running, failed, done
+  attempts: integer("attempts").notNull().default(0),
+  max_attempts: integer("max_attempts").notNull().default(5),
+  run_after: timestamp("run_after").notNull().default(sql`now()`), // Not picked up before this (retry backoff)
+  last_error: text("last_error"),
+  // Whether the transcript went into the note text; false when the clinician had already written some
+  text_applied: boolean("text_applied"),
+  started_at: timestamp("started_at"),
+  completed_at: timestamp("completed_at"),
+  created_at: timestamp("created_at").default(sql`now()`),
+  updated_at: timestamp("updated_at").default(sql`now()`),
+}, (table) => ({
+  noteidIdx: index("transcription_jobs_noteid_idx").on(table.noteid),
+  statusRunAfterIdx: index("transcription_jobs_status_run_after_idx").on(table.status, table.run_after),
+}));
+
+// Co-signature reviews - every approve/return decision on a note, kept after re-signing
+export const note_cosign_reviews = pgTable("note_cosign_reviews", {
+  review_id: uuid("review_id").primaryKey().default(sql`gen_random_uuid()`),
+  noteid: uuid("noteid").references(() => visit_notes.noteid).notNull(),
+  reviewer_empid: uuid("reviewer_empid").references(() => employees.empid).notNull(),
+  action: varchar("action", { length: 20 }).notNull(), // approved, returned
+  comment: text("comment"),
+  // Hash of the text that was reviewed, matching signature_content_hash at the time
+  content_hash: varchar("content_hash", { length: 64 }),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  noteidIdx: index("note_cosign_reviews_noteid_idx").on(table.noteid),
+}));
+
+// Visit note revisions - immutable history of every change to a note's text
+export const visit_note_revisions = pgTable("visit_note_revisions", {
+  revision_id: uuid("revision_id").primaryKey().default(sql`gen_random_uuid()`),
+  noteid: uuid("noteid").references(() => visit_notes.noteid).notNull(),
+  revision_number: integer("revision_number").notNull(), // 1-based, per note
+  author_empid: uuid("author_empid").references(() => employees.empid).notNull(),
+  previous_text: text("previous_text"), // Note text before this change
+  new_text: text("new_text"), // Note text after this change
+  reason: text("reason"),
+  restored_from_revision_id: uuid("restored_from_revision_id"), // Set when this revision is a restore
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  noteidIdx: index("visit_note_revisions_noteid_idx").on(table.noteid),
+  noteRevisionUnique: unique("visit_note_revisions_note_number_unique").on(table.noteid, table.revision_number),
+}));
+
 // Backup logs table - tracks all org data exports
 export const backup_logs = pgTable("backup_logs", {
   backup_id: uuid("backup_id").primaryKey().default(sql`gen_random_uuid()`),
@@ -128,8 +360,303 @@ export const visit_documents = pgTable("visit_documents", {
   orgidIdx: index("visit_documents_orgid_idx").on(table.orgid),
 }));
 
+// Org vocabulary - drug, clinician and procedure names passed to the transcription provider as keyword boosts
+export const org_vocabulary_terms = pgTable("org_vocabulary_terms", {
+  term_id: uuid("term_id").primaryKey().default(sql`gen_random_uuid()`),
+  orgid: uuid("orgid").references(() => orgs.orgid).notNull(),
+  term: varchar("term", { length: 100 }).notNull(),
+  category: varchar("category", { length: 20 }).notNull().default("other"), // drug, clinician, procedure, other
+  boost: integer("boost").notNull().default(2), // Keyword intensifier, 1-10
+  created_by_empid: uuid("created_by_empid").references(() => employees.empid),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  orgTermUnique: unique("org_vocabulary_terms_org_term_unique").on(table.orgid, table.term),
+}));
+
+export const VOCABULARY_CATEGORIES = ['drug', 'clinician', 'procedure', 'other'] as const;
+export type VocabularyCategory = typeof VOCABULARY_CATEGORIES[number];
+
+// Transcript replacements - fixes for phrases the provider keeps getting wrong, applied to every transcript
+export const org_transcript_replacements = pgTable("org_transcript_replacements", {
+  replacement_id: uuid("replacement_id").primaryKey().default(sql`gen_random_uuid()`),
+  orgid: uuid("orgid").references(() => orgs.orgid).notNull(),
+  find_text: varchar("find_text", { length: 200 }).notNull(), // What the provider writes, matched on whole words
+  replace_text: varchar("replace_text", { length: 200 }).notNull(),
+  case_sensitive: boolean("case_sensitive").notNull().default(false),
+  created_by_empid: uuid("created_by_empid").references(() => employees.empid),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  orgFindUnique: unique("org_transcript_replacements_org_find_unique").on(table.orgid, table.find_text),
+}));
+
+// Note templates - the structures an org's notes are written in, used by the editor and AI formatting
+export const note_templates = pgTable("note_templates", {
+  template_id: uuid("template_id").primaryKey().default(sql`gen_random_uuid()`),
+  orgid: uuid("orgid").references(() => orgs.orgid).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  sections: jsonb("sections").$type<NoteTemplateSection[]>().notNull(), // In note order
+  is_default: boolean("is_default").notNull().default(false), // Preselected in the editor; at most one per org
+  created_by_empid: uuid("created_by_empid").references(() => employees.empid),
+  created_at: timestamp("created_at").default(sql`now()`),
+  updated_at: timestamp("updated_at").default(sql`now()`),
+}, (table) => ({
+  orgNameUnique: unique("note_templates_org_name_unique").on(table.orgid, table.name),
+}));
+
+// Editor text library - abbreviations expanded with Tab and quick-insert phrases.
+// empid NULL is the org's shared library; otherwise the entry is that employee's own
+export const editor_abbreviations = pgTable("editor_abbreviations", {
+  abbreviation_id: uuid("abbreviation_id").primaryKey().default(sql`gen_random_uuid()`),
+  orgid: uuid("orgid").references(() => orgs.orgid).notNull(),
+  empid: uuid("empid").references(() => employees.empid),
+  abbreviation: varchar("abbreviation", { length: 30 }).notNull(), // Stored lowercase, matched case-insensitively
+  expansion: text("expansion").notNull(), // May contain ___ placeholders
+  created_by_empid: uuid("created_by_empid").references(() => employees.empid),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  orgEmpIdx: index("editor_abbreviations_org_emp_idx").on(table.orgid, table.empid),
+}));
+
+export const editor_quick_phrases = pgTable("editor_quick_phrases", {
+  phrase_id: uuid("phrase_id").primaryKey().default(sql`gen_random_uuid()`),
+  orgid: uuid("orgid").references(() => orgs.orgid).notNull(),
+  empid: uuid("empid").references(() => employees.empid),
+  label: varchar("label", { length: 100 }).notNull(),
+  text: text("text").notNull(), // May contain ___ placeholders
+  created_by_empid: uuid("created_by_empid").references(() => employees.empid),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  orgEmpIdx: index("editor_quick_phrases_org_emp_idx").on(table.orgid, table.empid),
+}));
+
+// Whose library an entry belongs to; personal entries win over the org's, which win over the built-in set
+export const TEXT_LIBRARY_SCOPES = ['personal', 'org'] as const;
+export type TextLibraryScope = typeof TEXT_LIBRARY_SCOPES[number];
+
+// Audit events table - append-only trail of PHI reads/writes and privileged actions
+// patientid is deliberately not a foreign key so the trail survives patient deletion
+export const audit_events = pgTable("audit_events", {
+  event_id: uuid("event_id").primaryKey().default(sql`gen_random_uuid()`),
+  orgid: uuid("orgid").references(() => orgs.orgid), // NULL for platform-level super admin actions
+  actor_empid: uuid("actor_empid").references(() => employees.empid).notNull(),
+  actor_role: varchar("actor_role", { length: 20 }),
+  is_impersonated: boolean("is_impersonated").default(false), // Super admin acting inside another org
+  action: varchar("action", { length: 50 }).notNull(),
+  resource_type: varchar("resource_type", { length: 30 }).notNull(),
+  resource_id: varchar("resource_id", { length: 100 }),
+  patientid: varchar("patientid", { length: 50 }),
+  ip_address: varchar("ip_address", { length: 45 }),
+  user_agent: text("user_agent"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  orgidIdx: index("audit_events_orgid_idx").on(table.orgid),
+  actorIdx: index("audit_events_actor_empid_idx").on(table.actor_empid),
+  patientidIdx: index("audit_events_patientid_idx").on(table.patientid),
+  createdAtIdx: index("audit_events_created_at_idx").on(table.created_at),
+}));
+
+// What a metered call was for: the ways audio gets transcribed, then the LLM tasks
+export const USAGE_FEATURES = ['dictation', 'note_transcription', 'addendum_transcription', 'live_captions', ...LLM_TASKS] as const;
+export type UsageFeature = typeof USAGE_FEATURES[number];
+
+// Usage ledger - one row per metered provider call, append-only
+export const usage_records = pgTable("usage_records", {
+  usage_id: uuid("usage_id").primaryKey().default(sql`gen_random_uuid()`),
+  orgid: uuid("orgid").references(() => orgs.orgid).notNull(),
+  empid: uuid("empid").references(() => employees.empid), // Who the call was made for; NULL when nobody in particular
+  feature: varchar("feature", { length: 30 }).notNull(), // USAGE_FEATURES
+  provider: varchar("provider", { length: 20 }).notNull(), // Transcription or LLM provider name
+  model: varchar("model", { length: 100 }), // LLM model as reported; NULL for transcription
+  audio_seconds: integer("audio_seconds").notNull().default(0),
+  prompt_tokens: integer("prompt_tokens").notNull().default(0),
+  completion_tokens: integer("completion_tokens").notNull().default(0),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  orgCreatedIdx: index("usage_records_org_created_idx").on(table.orgid, table.created_at),
+}));
+
+// Quotas are per calendar month (UTC): minutes of audio transcribed, and LLM tokens (prompt + completion)
+export const USAGE_METRICS = ['audio_minutes', 'llm_tokens'] as const;
+export type UsageMetric = typeof USAGE_METRICS[number];
+
+// Past the soft limit admins are warned; at the hard limit the server refuses further calls
+export const usage_quotas = pgTable("usage_quotas", {
+  quota_id: uuid("quota_id").primaryKey().default(sql`gen_random_uuid()`),
+  orgid: uuid("orgid").references(() => orgs.orgid).notNull(),
+  metric: varchar("metric", { length: 20 }).notNull(), // USAGE_METRICS
+  soft_limit: integer("soft_limit"), // NULL = no warning
+  hard_limit: integer("hard_limit"), // NULL = unlimited
+  updated_by_empid: uuid("updated_by_empid").references(() => employees.empid),
+  updated_at: timestamp("updated_at").default(sql`now()`),
+}, (table) => ({
+  orgMetricUnique: unique("usage_quotas_org_metric_unique").on(table.orgid, table.metric),
+}));
+
+// Patient summary - what the patient's notes say, by category, each statement citing the note it came from
+export const PATIENT_SUMMARY_CATEGORIES = ['problems', 'medications', 'allergies', 'recent_events'] as const;
+export type PatientSummaryCategory = typeof PATIENT_SUMMARY_CATEGORIES[number];
+export const patientSummaryStatementSchema = z.object({
+  text: z.string().trim().min(1).max(500),
+  noteid: z.string(),
+  visit_date: z.string(), // The source note's visit, "YYYY-MM-DD"
+});
+export type PatientSummaryStatement = z.infer<typeof patientSummaryStatementSchema>;
+export const patientSummaryContentSchema = z.object({
+  problems: z.array(patientSummaryStatementSchema),
+  medications: z.array(patientSummaryStatementSchema),
+  allergies: z.array(patientSummaryStatementSchema),
+  recent_events: z.array(patientSummaryStatementSchema),
+}) satisfies z.ZodType<Record<PatientSummaryCategory, PatientSummaryStatement[]>>;
+export type PatientSummaryContent = z.infer<typeof patientSummaryContentSchema>;
+
+// Patient summaries - generated on request and kept until one of the patient's notes or addenda changes
+export const patient_summaries = pgTable("patient_summaries", {
+  patientid: varchar("patientid", { length: 50 }).references(() => patients.patientid).primaryKey(),
+  summary: jsonb("summary").$type<PatientSummaryContent>().notNull(),
+  note_count: integer("note_count").notNull(), // Notes the summary was written from
+  notes_omitted: integer("notes_omitted").notNull().default(0), // Oldest notes left out to fit the model's input
+  provider: varchar("provider", { length: 20 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  generated_by_empid: uuid("generated_by_empid").references(() => employees.empid),
+  generated_at: timestamp("generated_at").default(sql`now()`),
+});
+
+// Clinical records - problems, medications, allergies and vitals extracted from a note by AI.
+// Each keeps its patient, source note and that note's visit date. Extraction adds records as
+// pending; the doctor confirms, edits or deletes them. Re-extracting a note replaces its
+// pending records and leaves confirmed ones alone.
+export const CLINICAL_RECORD_KINDS = ['problem', 'medication', 'allergy', 'vital'] as const;
+export type ClinicalRecordKind = typeof CLINICAL_RECORD_KINDS[number];
+export const CLINICAL_REVIEW_STATUSES = ['pending', 'confirmed'] as const;
+export type ClinicalReviewStatus = typeof CLINICAL_REVIEW_STATUSES[number];
+export const PROBLEM_STATUSES = ['active', 'resolved'] as const;
+export const MEDICATION_STATUSES = ['active', 'stopped'] as const;
+export const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe'] as const;
+export const VITAL_KINDS = ['blood_pressure', 'pulse', 'temperature', 'respiratory_rate', 'spo2', 'weight', 'height', 'blood_glucose'] as const;
+export type VitalKind = typeof VITAL_KINDS[number];
+
+export const patient_problems = pgTable("patient_problems", {
+  record_id: uuid("record_id").primaryKey().default(sql`gen_random_uuid()`),
+  patientid: varchar("patientid", { length: 50 }).references(() => patients.patientid).notNull(),
+  noteid: uuid("noteid").references(() => visit_notes.noteid).notNull(),
+  visit_date: date("visit_date").notNull(),
+  description: text("description").notNull(), // e.g. "Type 2 diabetes mellitus"
+  status: varchar("status", { length: 20 }).notNull().default("active"), // PROBLEM_STATUSES
+  review_status: varchar("review_status", { length: 20 }).notNull().default("pending"), // CLINICAL_REVIEW_STATUSES
+  reviewed_by_empid: uuid("reviewed_by_empid").references(() => employees.empid),
+  reviewed_at: timestamp("reviewed_at"),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  patientidIdx: index("patient_problems_patientid_idx").on(table.patientid),
+  noteidIdx: index("patient_problems_noteid_idx").on(table.noteid),
+}));
+
+export const patient_medications = pgTable("patient_medications", {
+  record_id: uuid("record_id").primaryKey().default(sql`gen_random_uuid()`),
+  patientid: varchar("patientid", { length: 50 }).references(() => patients.patientid).notNull(),
+  noteid: uuid("noteid").references(() => visit_notes.noteid).notNull(),
+  visit_date: date("visit_date").notNull(),
+  name: varchar("name", { length: 200 }).notNull(),
+  dose: varchar("dose", { length: 100 }), // e.g. "500 mg"
+  route: varchar("route", { length: 50 }), // e.g. "oral"
+  frequency: varchar("frequency", { length: 100 }), // e.g. "twice daily"
+  status: varchar("status", { length: 20 }).notNull().default("active"), // MEDICATION_STATUSES
+  review_status: varchar("review_status", { length: 20 }).notNull().default("pending"),
+  reviewed_by_empid: uuid("reviewed_by_empid").references(() => employees.empid),
+  reviewed_at: timestamp("reviewed_at"),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  patientidIdx: index("patient_medications_patientid_idx").on(table.patientid),
+  noteidIdx: index("patient_medications_noteid_idx").on(table.noteid),
+}));
+
+export const patient_allergies = pgTable("patient_allergies", {
+  record_id: uuid("record_id").primaryKey().default(sql`gen_random_uuid()`),
+  patientid: varchar("patientid", { length: 50 }).references(() => patients.patientid).notNull(),
+  noteid: uuid("noteid").references(() => visit_notes.noteid).notNull(),
+  visit_date: date("visit_date").notNull(),
+  substance: varchar("substance", { length: 200 }).notNull(), // Drug, food or other allergen
+  reaction: text("reaction"),
+  severity: varchar("severity", { length: 20 }), // ALLERGY_SEVERITIES; NULL = not stated
+  review_status: varchar("review_status", { length: 20 }).notNull().default("pending"),
+  reviewed_by_empid: uuid("reviewed_by_empid").references(() => employees.empid),
+  reviewed_at: timestamp("reviewed_at"),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  patientidIdx: index("patient_allergies_patientid_idx").on(table.patientid),
+  noteidIdx: index("patient_allergies_noteid_idx").on(table.noteid),
+}));
+
+export const patient_vitals = pgTable("patient_vitals", {
+  record_id: uuid("record_id").primaryKey().default(sql`gen_random_uuid()`),
+  patientid: varchar("patientid", { length: 50 }).references(() => patients.patientid).notNull(),
+  noteid: uuid("noteid").references(() => visit_notes.noteid).notNull(),
+  visit_date: date("visit_date").notNull(), // When it was measured, as far as the note says
+  kind: varchar("kind", { length: 30 }).notNull(), // VITAL_KINDS
+  value: varchar("value", { length: 30 }).notNull(), // As written, e.g. "120/80" or "98.6"
+  unit: varchar("unit", { length: 20 }), // e.g. "mmHg"
+  review_status: varchar("review_status", { length: 20 }).notNull().default("pending"),
+  reviewed_by_empid: uuid("reviewed_by_empid").references(() => employees.empid),
+  reviewed_at: timestamp("reviewed_at"),
+  created_at: timestamp("created_at").default(sql`now()`),
+}, (table) => ({
+  patientidIdx: index("patient_vitals_patientid_idx").on(table.patientid),
+  noteidIdx: index("patient_vitals_noteid_idx").on(table.noteid),
+}));
+
+// The clinical content of one record of each kind, as extraction produces it and the doctor edits it
+const optionalText = (max: number) => z.string().trim().max(max).nullable().default(null);
+export const problemFieldsSchema = z.object({
+  description: z.string().trim().min(1).max(500),
+  status: z.enum(PROBLEM_STATUSES).default('active'),
+});
+export const medicationFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  dose: optionalText(100),
+  route: optionalText(50),
+  frequency: optionalText(100),
+  status: z.enum(MEDICATION_STATUSES).default('active'),
+});
+export const allergyFieldsSchema = z.object({
+  substance: z.string().trim().min(1).max(200),
+  reaction: optionalText(500),
+  severity: z.enum(ALLERGY_SEVERITIES).nullable().default(null),
+});
+export const vitalFieldsSchema = z.object({
+  kind: z.enum(VITAL_KINDS),
+  value: z.string().trim().min(1).max(30),
+  unit: optionalText(20),
+});
+export const clinicalRecordFieldsSchemas = {
+  problem: problemFieldsSchema,
+  medication: medicationFieldsSchema,
+  allergy: allergyFieldsSchema,
+  vital: vitalFieldsSchema,
+} as const;
+export type ClinicalRecordFields = { [K in ClinicalRecordKind]: z.infer<typeof clinicalRecordFieldsSchemas[K]> };
+
+// Where each kind's records go in ClinicalRecords and ExtractedClinicalRecords
+export const CLINICAL_RECORD_GROUPS = {
+  problem: 'problems',
+  medication: 'medications',
+  allergy: 'allergies',
+  vital: 'vitals',
+} as const satisfies Record<ClinicalRecordKind, string>;
+
+export const extractedClinicalRecordsSchema = z.object({
+  problems: z.array(problemFieldsSchema).default([]),
+  medications: z.array(medicationFieldsSchema).default([]),
+  allergies: z.array(allergyFieldsSchema).default([]),
+  vitals: z.array(vitalFieldsSchema).default([]),
+});
+export type ExtractedClinicalRecords = z.infer<typeof extractedClinicalRecordsSchema>;
+
 // Insert schemas
-export const insertOrgSchema = createInsertSchema(orgs).omit({
+export const insertOrgSchema = createInsertSchema(orgs, {
+  llm_models: llmModelOverridesSchema.nullable().optional(),
+}).omit({
   orgid: true,
   created_at: true,
 });
@@ -156,12 +683,88 @@ export const insertVisitSchema = createInsertSchema(visits).omit({
   created_at: true,
 });
 
-export const insertVisitNoteSchema = createInsertSchema(visit_notes).omit({
+export const insertVisitNoteSchema = createInsertSchema(visit_notes, {
+  speaker_roles: speakerRolesSchema.nullable().optional(),
+}).omit({
   noteid: true,
   created_at: true,
   updated_at: true,
+  signed_at: true,
+  signed_by_empid: true,
+  signature_name: true,
+  signature_title: true,
+  signature_content_hash: true,
+  cosign_status: true,
+  cosigner_empid: true,
 } as const);
 
+export const insertNoteTranscriptSegmentSchema = createInsertSchema(note_transcript_segments, {
+  words: z.array(storedTranscriptWordSchema).nullable().optional(),
+}).omit({
+  segment_id: true,
+} as const);
+
+// Transcript segments and words as exchanged with the API - times in seconds, as providers report them
+export const transcriptWordSchema = z.object({
+  text: z.string(),
+  start: z.number().nonnegative(),
+  end: z.number().nonnegative(),
+  confidence: z.number().min(0).max(1),
+});
+export type TranscriptWord = z.infer<typeof transcriptWordSchema>;
+
+export const transcriptSegmentSchema = z.object({
+  speaker: z.number().int().nonnegative().nullable(),
+  start: z.number().nonnegative(),
+  end: z.number().nonnegative(),
+  text: z.string(),
+  words: z.array(transcriptWordSchema).optional(),
+});
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+
+// A note template section: its header (ALL CAPS in the note) and optional guidance for AI formatting
+export const noteTemplateSectionSchema = z.object({
+  name: z.string().trim().min(1).max(100).transform(name => name.toUpperCase()),
+  instructions: z.string().trim().max(1000).optional(),
+});
+export type NoteTemplateSection = z.infer<typeof noteTemplateSectionSchema>;
+
+// Grounding check after AI formatting - something in the formatted note the source transcript doesn't support.
+// excerpt is quoted exactly from the note so the editor can highlight it.
+export const GROUNDING_WARNING_KINDS = ['statement', 'number', 'medication', 'dose'] as const;
+export type GroundingWarningKind = typeof GROUNDING_WARNING_KINDS[number];
+export const groundingWarningSchema = z.object({
+  excerpt: z.string().trim().min(1).max(500),
+  kind: z.enum(GROUNDING_WARNING_KINDS),
+  reason: z.string().trim().max(500),
+});
+export type GroundingWarning = z.infer<typeof groundingWarningSchema>;
+
+// checked is false when the model pass failed; the number check still ran
+export type GroundingResult = { checked: boolean; warnings: GroundingWarning[] };
+
+export const insertVisitNoteAddendumSchema = createInsertSchema(visit_note_addenda).omit({
+  addendum_id: true,
+  created_at: true,
+} as const);
+
+export const insertTranscriptionJobSchema = createInsertSchema(transcription_jobs).omit({
+  job_id: true,
+  created_at: true,
+  updated_at: true,
+} as const);
+
+export const insertNoteCosignReviewSchema = createInsertSchema(note_cosign_reviews).omit({
+  review_id: true,
+  created_at: true,
+} as const);
+
+export const insertVisitNoteRevisionSchema = createInsertSchema(visit_note_revisions).omit({
+  revision_id: true,
+  revision_number: true, // Assigned by storage
+  created_at: true,
+});
+
 export const insertBackupLogSchema = createInsertSchema(backup_logs).omit({
   backup_id: true,
   created_at: true,
@@ -172,6 +775,82 @@ export const insertVisitDocumentSchema = createInsertSchema(visit_documents).omi
   created_at: true,
 });
 
+export const insertOrgVocabularyTermSchema = createInsertSchema(org_vocabulary_terms, {
+  term: z.string().trim().min(1).max(100),
+  category: z.enum(VOCABULARY_CATEGORIES).optional(),
+  boost: z.number().int().min(1).max(10).optional(),
+}).omit({
+  term_id: true,
+  created_at: true,
+} as const);
+
+export const insertOrgTranscriptReplacementSchema = createInsertSchema(org_transcript_replacements, {
+  find_text: z.string().trim().min(1).max(200),
+  replace_text: z.string().trim().max(200),
+}).omit({
+  replacement_id: true,
+  created_at: true,
+} as const);
+
+export const insertNoteTemplateSchema = createInsertSchema(note_templates, {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  sections: z.array(noteTemplateSectionSchema).min(1).max(30)
+    .refine(sections => new Set(sections.map(section => section.name)).size === sections.length, "Section names must be unique"),
+  is_default: z.boolean().optional(),
+}).omit({
+  template_id: true,
+  created_at: true,
+  updated_at: true,
+} as const);
+
+export const insertEditorAbbreviationSchema = createInsertSchema(editor_abbreviations, {
+  abbreviation: z.string().trim().min(1).max(30).regex(/^\S+$/).transform(abbreviation => abbreviation.toLowerCase()),
+  expansion: z.string().trim().min(1).max(2000),
+}).omit({
+  abbreviation_id: true,
+  created_at: true,
+} as const);
+
+export const insertEditorQuickPhraseSchema = createInsertSchema(editor_quick_phrases, {
+  label: z.string().trim().min(1).max(100),
+  text: z.string().min(1).max(2000).refine(text => text.trim() !== ""),
+}).omit({
+  phrase_id: true,
+  created_at: true,
+} as const);
+
+export const insertUsageRecordSchema = createInsertSchema(usage_records, {
+  feature: z.enum(USAGE_FEATURES),
+}).omit({
+  usage_id: true,
+  created_at: true,
+} as const);
+
+const quotaLimit = z.number().int().min(0).nullable().optional();
+export const insertUsageQuotaSchema = createInsertSchema(usage_quotas, {
+  metric: z.enum(USAGE_METRICS),
+  soft_limit: quotaLimit,
+  hard_limit: quotaLimit,
+}).omit({
+  quota_id: true,
+  updated_at: true,
+} as const).refine(
+  quota => quota.soft_limit == null || quota.hard_limit == null || quota.soft_limit <= quota.hard_limit,
+  "The soft limit can't be above the hard limit"
+);
+
+export const insertPatientSummarySchema = createInsertSchema(patient_summaries, {
+  summary: patientSummaryContentSchema,
+}).omit({
+  generated_at: true,
+} as const);
+
+export const insertAuditEventSchema = createInsertSchema(audit_events).omit({
+  event_id: true,
+  created_at: true,
+});
+
 // Types
 export type InsertOrg = z.infer<typeof insertOrgSchema>;
 export type Org = typeof orgs.$inferSelect;
@@ -194,12 +873,150 @@ export type VisitWithDocCount = Visit & {
 export type InsertVisitNote = z.infer<typeof insertVisitNoteSchema>;
 export type VisitNote = typeof visit_notes.$inferSelect;
 
+export type InsertNoteTranscriptSegment = z.infer<typeof insertNoteTranscriptSegmentSchema>;
+export type NoteTranscriptSegment = typeof note_transcript_segments.$inferSelect;
+
+export type NoteSection = typeof note_sections.$inferSelect;
+
+// A section with the visit its note belongs to, for reading one section across a patient's visits
+export type PatientNoteSection = NoteSection & {
+  visitid: string;
+  visit_date: string;
+  note_created_at: Date | null;
+};
+
+export type InsertVisitNoteAddendum = z.infer<typeof insertVisitNoteAddendumSchema>;
+export type VisitNoteAddendum = typeof visit_note_addenda.$inferSelect;
+
+// Addendum as listed under its note - author details joined, audio storage details left out
+export type VisitNoteAddendumWithAuthor = Omit<VisitNoteAddendum, 'audio_file' | 'audio_storage_key' | 'audio_size_bytes' | 'audio_sha256'> & {
+  author_name: string | null;
+  author_title: string | null;
+};
+
+export type InsertTranscriptionJob = z.infer<typeof insertTranscriptionJobSchema>;
+export type TranscriptionJob = typeof transcription_jobs.$inferSelect;
+
+export const TRANSCRIPTION_JOB_STATUSES = ['queued', 'running', 'failed', 'done'] as const;
+export type TranscriptionJobStatus = typeof TRANSCRIPTION_JOB_STATUSES[number];
+
+export type InsertNoteCosignReview = z.infer<typeof insertNoteCosignReviewSchema>;
+export type NoteCosignReview = typeof note_cosign_reviews.$inferSelect;
+
+export const COSIGN_STATUSES = ['pending', 'approved', 'returned'] as const;
+export type CosignStatus = typeof COSIGN_STATUSES[number];
+
+export type NoteCosignReviewWithReviewer = NoteCosignReview & {
+  reviewer_name: string | null;
+  reviewer_title: string | null;
+};
+
+// A note waiting in a supervising physician's co-sign queue
+export type CosignQueueItem = {
+  noteid: string;
+  visitid: string;
+  visit_date: string;
+  patientid: string;
+  patient_name: string;
+  author_empid: string;
+  author_name: string;
+  author_title: string | null;
+  transcription_text: string | null;
+  signed_at: Date | null;
+};
+
+export type InsertVisitNoteRevision = z.infer<typeof insertVisitNoteRevisionSchema>;
+export type VisitNoteRevision = typeof visit_note_revisions.$inferSelect;
+
+// Revision with the author's display name for the history view
+export type VisitNoteRevisionWithAuthor = VisitNoteRevision & {
+  author_name: string | null;
+};
+
 export type InsertBackupLog = z.infer<typeof insertBackupLogSchema>;
 export type BackupLog = typeof backup_logs.$inferSelect;
 
 export type InsertVisitDocument = z.infer<typeof insertVisitDocumentSchema>;
 export type VisitDocument = typeof visit_documents.$inferSelect;
 
+export type InsertOrgVocabularyTerm = z.infer<typeof insertOrgVocabularyTermSchema>;
+export type OrgVocabularyTerm = typeof org_vocabulary_terms.$inferSelect;
+
+export type InsertOrgTranscriptReplacement = z.infer<typeof insertOrgTranscriptReplacementSchema>;
+export type OrgTranscriptReplacement = typeof org_transcript_replacements.$inferSelect;
+
+export type InsertNoteTemplate = z.infer<typeof insertNoteTemplateSchema>;
+export type NoteTemplate = typeof note_templates.$inferSelect;
+
+export type InsertEditorAbbreviation = z.infer<typeof insertEditorAbbreviationSchema>;
+export type EditorAbbreviation = typeof editor_abbreviations.$inferSelect;
+
+export type InsertEditorQuickPhrase = z.infer<typeof insertEditorQuickPhraseSchema>;
+export type EditorQuickPhrase = typeof editor_quick_phrases.$inferSelect;
+
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof audit_events.$inferSelect;
+
+export type InsertUsageRecord = z.infer<typeof insertUsageRecordSchema>;
+export type UsageRecord = typeof usage_records.$inferSelect;
+
+export type InsertUsageQuota = z.infer<typeof insertUsageQuotaSchema>;
+export type UsageQuota = typeof usage_quotas.$inferSelect;
+
+export type InsertPatientSummary = z.infer<typeof insertPatientSummarySchema>;
+export type PatientSummary = typeof patient_summaries.$inferSelect;
+
+export type PatientProblem = typeof patient_problems.$inferSelect;
+export type PatientMedication = typeof patient_medications.$inferSelect;
+export type PatientAllergy = typeof patient_allergies.$inferSelect;
+export type PatientVital = typeof patient_vitals.$inferSelect;
+export type ClinicalRecordByKind = {
+  problem: PatientProblem;
+  medication: PatientMedication;
+  allergy: PatientAllergy;
+  vital: PatientVital;
+};
+export type ClinicalRecord = ClinicalRecordByKind[ClinicalRecordKind];
+
+// A patient's records of every kind, oldest visit first
+export interface ClinicalRecords {
+  problems: PatientProblem[];
+  medications: PatientMedication[];
+  allergies: PatientAllergy[];
+  vitals: PatientVital[];
+}
+
+// The note extracted records come from
+export interface ClinicalRecordSource {
+  patientid: string;
+  noteid: string;
+  visit_date: string;
+}
+
+// Ledger totals for one org, month ("YYYY-MM", UTC) and feature
+export interface UsageSummaryRow {
+  orgid: string;
+  month: string;
+  feature: UsageFeature;
+  audio_seconds: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+// This month's use of a metric against the org's quota
+export interface UsageQuotaStatus {
+  metric: UsageMetric;
+  used: number; // In the metric's unit: minutes or tokens
+  soft_limit: number | null;
+  hard_limit: number | null;
+  status: 'ok' | 'soft_limit' | 'hard_limit';
+}
+
+// Audit event with the acting employee's display name for the audit viewer
+export type AuditEventWithActor = AuditEvent & {
+  actor_name: string | null;
+};
+
 // Legacy user schema for compatibility
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),